@@ -65,3 +65,38 @@ self.addEventListener('fetch', (event) => {
       })
   );
 });
+
+// Print notifications sent by the server over Web Push, see server/notificationChannels.ts
+self.addEventListener('push', (event) => {
+  if (!event.data) {
+    return;
+  }
+
+  const { title, body, tag, url } = event.data.json();
+  event.waitUntil(
+    self.registration.showNotification(title, {
+      body,
+      tag,
+      icon: '/icon-192.png',
+      badge: '/icon-192.png',
+      data: { url }
+    })
+  );
+});
+
+// Opens the printer the notification is about, reusing an open window
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = (event.notification.data && event.notification.data.url) || '/';
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windowClients) => {
+      for (const client of windowClients) {
+        if ('focus' in client) {
+          return client.navigate(url).then((navigated) => (navigated || client).focus());
+        }
+      }
+      return self.clients.openWindow(url);
+    })
+  );
+});
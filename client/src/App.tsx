@@ -8,17 +8,37 @@ import { toast } from "sonner";
 import NotFound from "@/pages/not-found";
 import Dashboard from "@/pages/Dashboard";
 import Settings from "@/pages/Settings";
+import History from "@/pages/History";
+import Login from "@/pages/Login";
+import { usePrinterEvents } from "@/hooks/use-printer-events";
+import { useAuth } from "@/hooks/use-auth";
 
 function Router() {
   return (
     <Switch>
       <Route path="/" component={Dashboard}/>
+      <Route path="/printers/:id" component={Dashboard}/>
       <Route path="/settings" component={Settings}/>
+      <Route path="/history" component={History}/>
       <Route component={NotFound} />
     </Switch>
   );
 }
 
+// The event stream is refused without a session, so it only opens once signed in
+function AuthenticatedApp() {
+  usePrinterEvents();
+  return <Router />;
+}
+
+function AuthGate() {
+  const { isLoading, setupRequired, user } = useAuth();
+
+  if (isLoading) return null;
+  if (!user) return <Login setupRequired={setupRequired} />;
+  return <AuthenticatedApp />;
+}
+
 function useVisibilityReconnect() {
   const lastHiddenTime = useRef<number | null>(null);
 
@@ -70,7 +90,7 @@ function App() {
   return (
     <QueryClientProvider client={queryClient}>
       <TooltipProvider>
-        <Router />
+        <AuthGate />
         <Toaster />
       </TooltipProvider>
     </QueryClientProvider>
@@ -0,0 +1,274 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChevronLeft, ChevronRight, Download, RefreshCw, ScrollText } from "lucide-react";
+import { AUDIT_RESULTS, type AuditEntry, type PublicPrinter } from "@shared/schema";
+
+type SerializedAuditEntry = Omit<AuditEntry, "createdAt"> & { createdAt: string };
+
+type AuditFilters = {
+  printerId: string;
+  actor: string;
+  action: string;
+  result: string;
+  from: string;
+  to: string;
+};
+
+const PAGE_SIZE = 50;
+const ALL = "all";
+
+const EMPTY_FILTERS: AuditFilters = { printerId: ALL, actor: "", action: "", result: ALL, from: "", to: "" };
+
+const getResultStyle = (result: string) => {
+  switch (result) {
+    case "success": return "bg-green-500 hover:bg-green-600";
+    case "partial": return "bg-yellow-500 hover:bg-yellow-600";
+    case "denied": return "bg-secondary text-secondary-foreground hover:bg-secondary/80";
+    case "failed": return "bg-destructive hover:bg-destructive/90";
+    default: return "";
+  }
+};
+
+const formatTime = (dateString: string) =>
+  new Date(dateString).toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+
+// Filters as the query string GET /api/audit and its CSV export take; the
+// date inputs are local dates, sent as the start and end of those days
+function toQueryString(filters: AuditFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filters.printerId !== ALL) params.set("printerId", filters.printerId);
+  if (filters.actor.trim()) params.set("actor", filters.actor.trim().toLowerCase());
+  if (filters.action.trim()) params.set("action", filters.action.trim());
+  if (filters.result !== ALL) params.set("result", filters.result);
+  if (filters.from) params.set("from", new Date(`${filters.from}T00:00:00`).toISOString());
+  if (filters.to) params.set("to", new Date(`${filters.to}T23:59:59.999`).toISOString());
+  return params;
+}
+
+/**
+ * Settings tab for admins: who changed what, from where, and how it went.
+ */
+export default function AuditLog({ printers }: { printers: PublicPrinter[] }) {
+  const [filters, setFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [page, setPage] = useState(0);
+
+  const filterParams = toQueryString(filters);
+  const pageParams = new URLSearchParams(filterParams);
+  pageParams.set("limit", String(PAGE_SIZE));
+  pageParams.set("offset", String(page * PAGE_SIZE));
+
+  const { data: entries = [], isLoading, error, refetch, isFetching } = useQuery<SerializedAuditEntry[]>({
+    queryKey: [`/api/audit?${pageParams}`],
+  });
+
+  const printerNames = new Map(printers.map((p) => [p.id, p.name]));
+
+  const updateFilter = (field: keyof AuditFilters, value: string) => {
+    setFilters((prev) => ({ ...prev, [field]: value }));
+    setPage(0);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+        <div className="grid gap-1">
+          <Label className="text-xs">Printer</Label>
+          <Select value={filters.printerId} onValueChange={(value) => updateFilter("printerId", value)}>
+            <SelectTrigger data-testid="select-audit-printer">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All printers</SelectItem>
+              {printers.map((printer) => (
+                <SelectItem key={printer.id} value={String(printer.id)}>
+                  {printer.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="grid gap-1">
+          <Label htmlFor="audit-actor" className="text-xs">User</Label>
+          <Input
+            id="audit-actor"
+            placeholder="Any user"
+            value={filters.actor}
+            onChange={(e) => updateFilter("actor", e.target.value)}
+            data-testid="input-audit-actor"
+          />
+        </div>
+        <div className="grid gap-1">
+          <Label htmlFor="audit-action" className="text-xs">Action</Label>
+          <Input
+            id="audit-action"
+            placeholder="e.g. home, file-delete"
+            value={filters.action}
+            onChange={(e) => updateFilter("action", e.target.value)}
+            data-testid="input-audit-action"
+          />
+        </div>
+        <div className="grid gap-1">
+          <Label className="text-xs">Result</Label>
+          <Select value={filters.result} onValueChange={(value) => updateFilter("result", value)}>
+            <SelectTrigger data-testid="select-audit-result">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Any result</SelectItem>
+              {AUDIT_RESULTS.map((result) => (
+                <SelectItem key={result} value={result} className="capitalize">
+                  {result}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="grid gap-1">
+          <Label htmlFor="audit-from" className="text-xs">From</Label>
+          <Input
+            id="audit-from"
+            type="date"
+            value={filters.from}
+            onChange={(e) => updateFilter("from", e.target.value)}
+            data-testid="input-audit-from"
+          />
+        </div>
+        <div className="grid gap-1">
+          <Label htmlFor="audit-to" className="text-xs">To</Label>
+          <Input
+            id="audit-to"
+            type="date"
+            value={filters.to}
+            onChange={(e) => updateFilter("to", e.target.value)}
+            data-testid="input-audit-to"
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => {
+            setFilters(EMPTY_FILTERS);
+            setPage(0);
+          }}
+          data-testid="button-audit-clear-filters"
+        >
+          Clear filters
+        </Button>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => refetch()}
+            disabled={isFetching}
+            data-testid="button-refresh-audit"
+          >
+            <RefreshCw className={`h-4 w-4 ${isFetching ? "animate-spin" : ""}`} />
+          </Button>
+          <Button variant="outline" asChild>
+            <a href={`/api/audit/export?${filterParams}`} download data-testid="link-audit-export">
+              <Download className="h-4 w-4 mr-2" />
+              Export CSV
+            </a>
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <p className="text-muted-foreground text-center py-8">Loading...</p>
+      ) : error ? (
+        <p className="text-destructive text-center py-8" data-testid="text-audit-error">
+          Failed to load the audit log
+        </p>
+      ) : entries.length === 0 && page === 0 ? (
+        <div className="text-center py-8 text-muted-foreground" data-testid="text-no-audit">
+          <ScrollText className="h-12 w-12 mx-auto mb-4 opacity-50" />
+          <p>Nothing recorded{filterParams.toString() ? " matches these filters" : " yet"}.</p>
+        </div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow className="hover:bg-transparent border-border">
+              <TableHead>Time</TableHead>
+              <TableHead>User</TableHead>
+              <TableHead>Printer</TableHead>
+              <TableHead>Action</TableHead>
+              <TableHead>Details</TableHead>
+              <TableHead className="text-right">Result</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {entries.map((entry) => (
+              <TableRow key={entry.id} className="border-border" data-testid={`row-audit-${entry.id}`}>
+                <TableCell className="text-sm text-muted-foreground whitespace-nowrap">{formatTime(entry.createdAt)}</TableCell>
+                <TableCell>
+                  <div className="text-sm font-medium">{entry.actor}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {[entry.authMethod === "api-key" ? "API key" : null, entry.sourceIp].filter(Boolean).join(" · ")}
+                  </div>
+                </TableCell>
+                <TableCell className="text-sm">
+                  {entry.printerId !== null ? (printerNames.get(entry.printerId) ?? `#${entry.printerId}`) : "—"}
+                </TableCell>
+                <TableCell className="font-mono text-xs">{entry.action}</TableCell>
+                <TableCell className="max-w-xs">
+                  {entry.details && (
+                    <code className="block truncate text-xs text-muted-foreground" title={JSON.stringify(entry.details, null, 2)}>
+                      {JSON.stringify(entry.details)}
+                    </code>
+                  )}
+                </TableCell>
+                <TableCell className="text-right">
+                  <Badge
+                    className={`${getResultStyle(entry.result)} uppercase border-none font-mono`}
+                    data-testid={`badge-audit-result-${entry.id}`}
+                  >
+                    {entry.result}
+                  </Badge>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <div className="flex items-center justify-end gap-2">
+        <span className="text-xs text-muted-foreground">Page {page + 1}</span>
+        <Button
+          variant="outline"
+          size="icon"
+          className="h-8 w-8"
+          onClick={() => setPage((p) => p - 1)}
+          disabled={page === 0 || isFetching}
+          data-testid="button-audit-previous"
+        >
+          <ChevronLeft className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="outline"
+          size="icon"
+          className="h-8 w-8"
+          onClick={() => setPage((p) => p + 1)}
+          disabled={entries.length < PAGE_SIZE || isFetching}
+          data-testid="button-audit-next"
+        >
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
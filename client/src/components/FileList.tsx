@@ -3,7 +3,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { FileCode, Play, RefreshCw, Upload, Trash2, Info, AlertCircle, X, Calendar, FolderInput } from "lucide-react";
+import { FileCode, Play, RefreshCw, Upload, Trash2, Info, AlertCircle, X, Calendar, FolderInput, HardDrive, Download, ListPlus, Clock } from "lucide-react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { toast } from "sonner";
 import { useState, useRef, useCallback } from "react";
@@ -16,6 +16,9 @@ import {
   DialogTitle,
   DialogTrigger,
 } from "@/components/ui/dialog";
+import { Progress } from "@/components/ui/progress";
+import { useHasRole } from "@/hooks/use-auth";
+import type { GcodeMetadata, UploadProgress } from "@shared/schema";
 import {
   Tooltip,
   TooltipContent,
@@ -32,19 +35,77 @@ interface UploadedFile {
   printerId: number;
   filename: string;
   displayName: string | null;
-  fileContent: string | null;
+  contentHash: string | null;
+  size: number | null;
   thumbnail: string | null;
+  metadata: GcodeMetadata | null;
   source: string;
   uploadedAt: string;
 }
 
+interface ScheduledPrint {
+  id: number;
+  fileId: number;
+  startAt: string;
+  status: "pending" | "started" | "missed" | "cancelled";
+  reason: string | null;
+}
+
+const TOOL_TYPE_LABELS: Record<NonNullable<GcodeMetadata["toolType"]>, string> = {
+  "3dp": "3D Print",
+  laser: "Laser",
+  cnc: "CNC",
+};
+
+const formatEstimatedTime = (seconds: number) => {
+  const totalMinutes = Math.round(seconds / 60);
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+};
+
+const formatFileSize = (bytes: number) => {
+  if (bytes >= 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${bytes} B`;
+};
+
+const getMetadataRows = (metadata: GcodeMetadata): { label: string; value: string }[] => {
+  const rows: { label: string; value: string }[] = [];
+  if (metadata.toolType) rows.push({ label: "Tool", value: TOOL_TYPE_LABELS[metadata.toolType] });
+  if (metadata.estimatedTimeSeconds) rows.push({ label: "Est. time", value: formatEstimatedTime(metadata.estimatedTimeSeconds) });
+  if (metadata.filamentLengthMm || metadata.filamentWeightG) {
+    const parts = [
+      metadata.filamentLengthMm ? `${(metadata.filamentLengthMm / 1000).toFixed(2)} m` : null,
+      metadata.filamentWeightG ? `${metadata.filamentWeightG.toFixed(1)} g` : null,
+    ].filter(Boolean);
+    rows.push({ label: "Filament", value: parts.join(" / ") });
+  }
+  if (metadata.nozzleTemperature || metadata.bedTemperature) {
+    const parts = [
+      metadata.nozzleTemperature ? `Nozzle ${metadata.nozzleTemperature}°C` : null,
+      metadata.bedTemperature ? `Bed ${metadata.bedTemperature}°C` : null,
+    ].filter(Boolean);
+    rows.push({ label: "Temperatures", value: parts.join(", ") });
+  }
+  if (metadata.dimensions) {
+    const { x, y, z } = metadata.dimensions;
+    rows.push({ label: "Size", value: metadata.toolType === "laser" ? `${x} × ${y} mm` : `${x} × ${y} × ${z} mm` });
+  }
+  if (metadata.layerHeight) rows.push({ label: "Layer height", value: `${metadata.layerHeight} mm` });
+  if (metadata.slicer) rows.push({ label: "Slicer", value: metadata.slicer });
+  return rows;
+};
+
 export default function FileList({ printerId }: FileListProps) {
   const queryClient = useQueryClient();
+  const canOperate = useHasRole("operator");
   const [displayName, setDisplayName] = useState("");
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [dialogOpen, setDialogOpen] = useState(false);
   const [previewFile, setPreviewFile] = useState<UploadedFile | null>(null);
   const [previewDialogOpen, setPreviewDialogOpen] = useState(false);
+  const [scheduleAt, setScheduleAt] = useState("");
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const { data: files = [], isLoading, error, refetch } = useQuery<UploadedFile[]>({
@@ -55,21 +116,25 @@ export default function FileList({ printerId }: FileListProps) {
     retry: 2,
   });
 
+  // Kept current by the server's schedule events
+  const { data: schedules = [] } = useQuery<ScheduledPrint[]>({
+    queryKey: [`/api/printers/${printerId}/schedules`],
+    enabled: !!printerId,
+  });
+  const pendingSchedules = schedules.filter((s) => s.status === "pending");
+
   const uploadFileMutation = useMutation({
     mutationFn: async ({ file, displayName }: { file: File; displayName: string }) => {
       if (!printerId) throw new Error("No printer connected");
       
-      const fileContent = await file.text();
-      
+      const formData = new FormData();
+      formData.append("displayName", displayName);
+      formData.append("source", "upload");
+      formData.append("file", file);
+
       const res = await fetch(`/api/printers/${printerId}/uploaded-files`, {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ 
-          filename: file.name,
-          displayName: displayName || null,
-          fileContent,
-          source: "upload" 
-        }),
+        body: formData,
       });
       if (!res.ok) {
         const data = await res.json();
@@ -138,6 +203,86 @@ export default function FileList({ printerId }: FileListProps) {
     },
   });
 
+  const scheduleMutation = useMutation({
+    mutationFn: async ({ fileId, startAt }: { fileId: number; startAt: string }) => {
+      if (!printerId) throw new Error("No printer connected");
+      const res = await fetch(`/api/printers/${printerId}/print`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ fileId, startAt }),
+      });
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || "Failed to schedule print");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      toast.success("Print scheduled");
+      setScheduleAt("");
+      queryClient.invalidateQueries({ queryKey: [`/api/printers/${printerId}/schedules`] });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const cancelScheduleMutation = useMutation({
+    mutationFn: async (scheduleId: number) => {
+      if (!printerId) throw new Error("No printer connected");
+      const res = await fetch(`/api/printers/${printerId}/schedules/${scheduleId}`, {
+        method: "DELETE",
+      });
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || "Failed to cancel scheduled print");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      toast.success("Scheduled print cancelled");
+      queryClient.invalidateQueries({ queryKey: [`/api/printers/${printerId}/schedules`] });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const queueMutation = useMutation({
+    mutationFn: async (fileId: number) => {
+      if (!printerId) throw new Error("No printer connected");
+      const res = await fetch(`/api/printers/${printerId}/queue`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ fileId }),
+      });
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || "Failed to add file to queue");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      toast.success("Added to print queue");
+      queryClient.invalidateQueries({ queryKey: [`/api/printers/${printerId}/queue`] });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+
+  // Poll the printer upload while a print is being sent so the dialog can show progress
+  const { data: uploadProgressData } = useQuery<{ upload: UploadProgress | null }>({
+    queryKey: [`/api/printers/${printerId}/upload-progress`],
+    enabled: !!printerId && printMutation.isPending,
+    refetchInterval: printMutation.isPending ? 500 : false,
+    staleTime: 0,
+  });
+  const uploadProgress =
+    printMutation.isPending && uploadProgressData?.upload?.fileId === previewFile?.id
+      ? uploadProgressData?.upload ?? null
+      : null;
+
   const handleFileClick = useCallback((file: UploadedFile) => {
     setPreviewFile(file);
     setPreviewDialogOpen(true);
@@ -146,8 +291,16 @@ export default function FileList({ printerId }: FileListProps) {
   const handleClosePreview = useCallback(() => {
     setPreviewDialogOpen(false);
     setPreviewFile(null);
+    setScheduleAt("");
   }, []);
 
+  const handleSchedulePrint = useCallback(() => {
+    if (previewFile && scheduleAt) {
+      // datetime-local has no zone; the browser's local time is what the user means
+      scheduleMutation.mutate({ fileId: previewFile.id, startAt: new Date(scheduleAt).toISOString() });
+    }
+  }, [previewFile, scheduleAt, scheduleMutation]);
+
   const handleStartPrint = useCallback(() => {
     if (previewFile) {
       printMutation.mutate(previewFile.id);
@@ -175,6 +328,7 @@ export default function FileList({ printerId }: FileListProps) {
       case "slicer": return "Slicer";
       case "watch-folder": return "Watch Folder";
       case "luban": return "Luban";
+      case "moonraker": return "Moonraker";
       default: return source;
     }
   };
@@ -241,6 +395,7 @@ export default function FileList({ printerId }: FileListProps) {
                 size="sm" 
                 variant="default" 
                 className="h-8"
+                disabled={!canOperate}
                 data-testid="button-upload-file"
               >
                 <Upload className="h-3.5 w-3.5 mr-2" />
@@ -354,12 +509,24 @@ export default function FileList({ printerId }: FileListProps) {
                             {file.filename}
                           </div>
                         )}
-                        {!file.fileContent && (
+                        {!file.contentHash && (
                           <div className="flex items-center gap-1 text-xs text-amber-500">
                             <AlertCircle className="h-3 w-3" />
                             No file content
                           </div>
                         )}
+                        {pendingSchedules
+                          .filter((schedule) => schedule.fileId === file.id)
+                          .map((schedule) => (
+                            <div
+                              key={schedule.id}
+                              className="flex items-center gap-1 text-xs text-primary"
+                              data-testid={`text-scheduled-${schedule.id}`}
+                            >
+                              <Clock className="h-3 w-3" />
+                              Starts {formatDate(schedule.startAt)}
+                            </div>
+                          ))}
                       </div>
                     </div>
                   </TableCell>
@@ -373,23 +540,38 @@ export default function FileList({ printerId }: FileListProps) {
                               variant="ghost" 
                               className="h-7 w-7 text-primary hover:text-primary hover:bg-primary/10"
                               onClick={() => printMutation.mutate(file.id)}
-                              disabled={printMutation.isPending || !file.fileContent}
+                              disabled={!canOperate || printMutation.isPending || !file.contentHash}
                               data-testid={`button-print-${file.id}`}
                             >
                               <Play className="h-3.5 w-3.5" />
                             </Button>
                           </TooltipTrigger>
                           <TooltipContent>
-                            {file.fileContent ? "Start Print" : "No file content - re-upload needed"}
+                            {file.contentHash ? "Start Print" : "No file content - re-upload needed"}
                           </TooltipContent>
                         </Tooltip>
+                        <Tooltip>
+                          <TooltipTrigger asChild>
+                            <Button 
+                              size="icon" 
+                              variant="ghost" 
+                              className="h-7 w-7"
+                              onClick={() => queueMutation.mutate(file.id)}
+                              disabled={!canOperate || queueMutation.isPending || !file.contentHash}
+                              data-testid={`button-queue-${file.id}`}
+                            >
+                              <ListPlus className="h-3.5 w-3.5" />
+                            </Button>
+                          </TooltipTrigger>
+                          <TooltipContent>Add to Queue</TooltipContent>
+                        </Tooltip>
                       </TooltipProvider>
                       <Button 
                         size="icon" 
                         variant="ghost" 
                         className="h-7 w-7 text-destructive hover:text-destructive hover:bg-destructive/10"
                         onClick={() => deleteFileMutation.mutate(file.id)}
-                        disabled={deleteFileMutation.isPending}
+                        disabled={!canOperate || deleteFileMutation.isPending}
                         data-testid={`button-delete-${file.id}`}
                         title="Remove File"
                       >
@@ -455,9 +637,114 @@ export default function FileList({ printerId }: FileListProps) {
                     <FolderInput className="h-4 w-4" />
                     <span data-testid="preview-source">{getSourceLabel(previewFile.source)}</span>
                   </div>
+                  {previewFile.contentHash && (
+                    <div className="flex items-center gap-2 text-muted-foreground">
+                      <HardDrive className="h-4 w-4" />
+                      {previewFile.size !== null && (
+                        <span data-testid="preview-size">{formatFileSize(previewFile.size)}</span>
+                      )}
+                      <a
+                        href={`/api/printers/${previewFile.printerId}/uploaded-files/${previewFile.id}/download`}
+                        download
+                        className="flex items-center gap-1 text-primary hover:underline"
+                        data-testid="link-download-file"
+                      >
+                        <Download className="h-3.5 w-3.5" /> Download
+                      </a>
+                    </div>
+                  )}
                 </div>
 
-                {!previewFile.fileContent && (
+                {previewFile.metadata && getMetadataRows(previewFile.metadata).length > 0 && (
+                  <div className="grid grid-cols-2 gap-x-4 gap-y-2 p-3 bg-secondary/30 rounded-lg text-sm" data-testid="preview-metadata">
+                    {getMetadataRows(previewFile.metadata).map((row) => (
+                      <div key={row.label} className="flex flex-col">
+                        <span className="text-xs text-muted-foreground uppercase tracking-wide">{row.label}</span>
+                        <span className="font-mono" data-testid={`preview-metadata-${row.label.toLowerCase().replace(/[^a-z]+/g, "-")}`}>
+                          {row.value}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {printMutation.isPending && (
+                  <div className="space-y-2 p-3 bg-secondary/30 rounded-lg" data-testid="upload-progress">
+                    <div className="flex justify-between text-xs text-muted-foreground">
+                      <span>Sending to printer…</span>
+                      {uploadProgress && (
+                        <span className="font-mono" data-testid="upload-progress-percent">
+                          {uploadProgress.percent.toFixed(0)}%
+                        </span>
+                      )}
+                    </div>
+                    <Progress value={uploadProgress?.percent ?? 0} className="h-2" />
+                    {uploadProgress && (
+                      <div className="flex justify-between text-xs font-mono text-muted-foreground">
+                        <span>
+                          {formatFileSize(uploadProgress.bytesSent)} / {formatFileSize(uploadProgress.totalBytes)}
+                        </span>
+                        <span data-testid="upload-progress-rate">{formatFileSize(uploadProgress.bytesPerSecond)}/s</span>
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                {previewFile.contentHash && (
+                  <div className="space-y-2 p-3 bg-secondary/30 rounded-lg" data-testid="preview-schedule">
+                    <Label htmlFor="schedule-start" className="text-xs text-muted-foreground uppercase tracking-wide">
+                      Scheduled Start
+                    </Label>
+                    <div className="flex gap-2">
+                      <Input
+                        id="schedule-start"
+                        type="datetime-local"
+                        value={scheduleAt}
+                        onChange={(e) => setScheduleAt(e.target.value)}
+                        className="h-8"
+                        data-testid="input-schedule-start"
+                      />
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="h-8"
+                        onClick={handleSchedulePrint}
+                        disabled={!canOperate || !scheduleAt || scheduleMutation.isPending}
+                        data-testid="button-schedule-print"
+                      >
+                        <Clock className="h-3.5 w-3.5 mr-2" />
+                        Schedule
+                      </Button>
+                    </div>
+                    {schedules
+                      .filter((schedule) => schedule.fileId === previewFile.id && (schedule.status === "pending" || schedule.status === "missed"))
+                      .map((schedule) => (
+                        <div key={schedule.id} className="flex items-center justify-between gap-2 text-xs">
+                          {schedule.status === "pending" ? (
+                            <>
+                              <span className="text-primary">Starts {formatDate(schedule.startAt)}</span>
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                className="h-6 px-2 text-destructive hover:text-destructive"
+                                onClick={() => cancelScheduleMutation.mutate(schedule.id)}
+                                disabled={!canOperate || cancelScheduleMutation.isPending}
+                                data-testid={`button-cancel-schedule-${schedule.id}`}
+                              >
+                                Cancel
+                              </Button>
+                            </>
+                          ) : (
+                            <span className="text-amber-500" data-testid={`text-schedule-missed-${schedule.id}`}>
+                              Missed {formatDate(schedule.startAt)}: {schedule.reason}
+                            </span>
+                          )}
+                        </div>
+                      ))}
+                  </div>
+                )}
+
+                {!previewFile.contentHash && (
                   <div className="flex items-center gap-2 p-3 bg-amber-500/10 border border-amber-500/30 rounded-lg text-amber-500">
                     <AlertCircle className="h-4 w-4 flex-shrink-0" />
                     <span className="text-sm">No file content stored. Please re-upload this file to enable printing.</span>
@@ -479,7 +766,7 @@ export default function FileList({ printerId }: FileListProps) {
             </Button>
             <Button
               onClick={handleStartPrint}
-              disabled={printMutation.isPending || !previewFile?.fileContent}
+              disabled={!canOperate || printMutation.isPending || !previewFile?.contentHash}
               className="flex-1 sm:flex-none"
               data-testid="button-start-print"
             >
@@ -0,0 +1,103 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Clock, OctagonAlert, Thermometer, WifiOff } from "lucide-react";
+import { formatTimeRemaining } from "@/lib/printerStatus";
+import { normalizeMachineState, type MachineState, type PublicPrinter, type PrinterStatus } from "@shared/schema";
+
+const ACTIVITY_COLORS: Record<MachineState, string> = {
+  printing: "bg-green-500 hover:bg-green-600",
+  paused: "bg-yellow-500 hover:bg-yellow-600",
+  error: "bg-destructive hover:bg-destructive/90",
+  idle: "bg-primary hover:bg-primary/90",
+};
+
+function FleetPrinterCard({ printer, onSelect }: { printer: PublicPrinter; onSelect: (printerId: number) => void }) {
+  // Kept current by the event stream, like the dashboard's own status query
+  const { data: status } = useQuery<PrinterStatus>({
+    queryKey: [`/api/printers/${printer.id}/status`],
+    enabled: !!printer.isConnected,
+  });
+
+  const connected = !!printer.isConnected;
+  const activity = normalizeMachineState(status?.state);
+  const busy = activity === "printing" || activity === "paused";
+
+  return (
+    <Card
+      className="p-4 bg-secondary/20 border-border cursor-pointer hover:border-primary/60 transition-colors"
+      onClick={() => onSelect(printer.id)}
+      data-testid={`card-fleet-printer-${printer.id}`}
+    >
+      <div className="flex items-start justify-between gap-3 mb-3">
+        <div className="min-w-0">
+          <h3 className="font-semibold truncate">{printer.name}</h3>
+          <p className="text-xs text-muted-foreground font-mono">{printer.ipAddress}</p>
+        </div>
+        {connected ? (
+          <Badge className={`${ACTIVITY_COLORS[activity]} uppercase border-none font-mono`}>{activity}</Badge>
+        ) : (
+          <Badge variant="outline" className="uppercase font-mono text-amber-500 border-amber-500/50">
+            <WifiOff className="h-3 w-3 mr-1" />
+            offline
+          </Badge>
+        )}
+      </div>
+
+      {printer.emergencyStoppedAt && (
+        <p className="flex items-center gap-1 text-xs font-bold tracking-widest text-red-500 mb-2">
+          <OctagonAlert className="h-3.5 w-3.5" /> E-STOPPED
+        </p>
+      )}
+
+      {connected && (
+        <div className="space-y-2">
+          <p className="text-sm font-mono truncate">{busy ? status?.currentFile || "Printing" : "No active job"}</p>
+          {busy && (
+            <>
+              <Progress
+                value={status?.progress ?? 0}
+                className="h-2 bg-secondary"
+                indicatorClassName={ACTIVITY_COLORS[activity]}
+              />
+              <div className="flex justify-between text-xs text-muted-foreground">
+                <span className="font-mono">{status?.progress ?? 0}%</span>
+                <span className="flex items-center gap-1">
+                  <Clock className="h-3 w-3" /> {formatTimeRemaining(status?.timeRemaining ?? null)}
+                </span>
+              </div>
+            </>
+          )}
+          {status && (
+            <p className="flex items-center gap-1 text-xs text-muted-foreground font-mono">
+              <Thermometer className="h-3 w-3" />
+              {Math.round(status.temperature.nozzle)}° / {Math.round(status.temperature.targetNozzle)}°
+              <span className="mx-1">·</span>
+              Bed {Math.round(status.temperature.bed)}° / {Math.round(status.temperature.targetBed)}°
+            </p>
+          )}
+        </div>
+      )}
+    </Card>
+  );
+}
+
+/**
+ * One status card per printer; choosing a card opens that printer's dashboard.
+ */
+export default function FleetOverview({
+  printers,
+  onSelect,
+}: {
+  printers: PublicPrinter[];
+  onSelect: (printerId: number) => void;
+}) {
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4" data-testid="fleet-overview">
+      {printers.map((printer) => (
+        <FleetPrinterCard key={printer.id} printer={printer} onSelect={onSelect} />
+      ))}
+    </div>
+  );
+}
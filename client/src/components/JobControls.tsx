@@ -0,0 +1,112 @@
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { PauseCircle, PlayCircle, StopCircle } from "lucide-react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+
+interface JobControlsProps {
+  printerId: number | null;
+  status: "idle" | "printing" | "paused" | "error";
+  disabled?: boolean;
+}
+
+type JobAction = "pause" | "resume" | "stop";
+
+export default function JobControls({ printerId, status, disabled = false }: JobControlsProps) {
+  const queryClient = useQueryClient();
+  const isPaused = status === "paused";
+  const hasActiveJob = status === "printing" || status === "paused";
+
+  const jobMutation = useMutation({
+    mutationFn: async (action: JobAction) => {
+      if (!printerId) throw new Error("No printer connected");
+      const res = await fetch(`/api/printers/${printerId}/job/${action}`, {
+        method: "POST",
+      });
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || `Failed to ${action} print`);
+      }
+      return res.json();
+    },
+    onSuccess: (data) => {
+      toast.success(data.message);
+      queryClient.invalidateQueries({ queryKey: [`/api/printers/${printerId}/status`] });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const isDisabled = !printerId || disabled || !hasActiveJob || jobMutation.isPending;
+
+  return (
+    <Card className="p-4 bg-secondary/20 border-border">
+      <h3 className="text-xs font-medium uppercase tracking-widest text-muted-foreground mb-3">Active Job Controls</h3>
+      <div className="grid grid-cols-2 gap-3">
+        {isPaused ? (
+          <Button
+            variant="outline"
+            className="w-full border-green-500/50 hover:bg-green-500/10 hover:text-green-500 text-green-500"
+            onClick={() => jobMutation.mutate("resume")}
+            disabled={isDisabled}
+            data-testid="button-resume"
+          >
+            <PlayCircle className="h-4 w-4 mr-2" /> Resume
+          </Button>
+        ) : (
+          <Button
+            variant="outline"
+            className="w-full border-yellow-500/50 hover:bg-yellow-500/10 hover:text-yellow-500 text-yellow-500"
+            onClick={() => jobMutation.mutate("pause")}
+            disabled={isDisabled}
+            data-testid="button-pause"
+          >
+            <PauseCircle className="h-4 w-4 mr-2" /> Pause
+          </Button>
+        )}
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button
+              variant="outline"
+              className="w-full border-red-500/50 hover:bg-red-500/10 hover:text-red-500 text-red-500"
+              disabled={isDisabled}
+              data-testid="button-cancel"
+            >
+              <StopCircle className="h-4 w-4 mr-2" /> Cancel
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Cancel the current job?</AlertDialogTitle>
+              <AlertDialogDescription>
+                The printer will stop immediately. A cancelled job cannot be resumed and has to be started again from the beginning.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel data-testid="button-cancel-dismiss">Keep Printing</AlertDialogCancel>
+              <AlertDialogAction
+                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                onClick={() => jobMutation.mutate("stop")}
+                data-testid="button-cancel-confirm"
+              >
+                Cancel Job
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+    </Card>
+  );
+}
@@ -3,7 +3,7 @@ import { Button } from "@/components/ui/button";
 import { ArrowUp, ArrowDown, ArrowLeft, ArrowRight, Home } from "lucide-react";
 import { useState } from "react";
 import { Badge } from "@/components/ui/badge";
-import { useMutation } from "@tanstack/react-query";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { toast } from "sonner";
 
 interface JogControlsProps {
@@ -12,6 +12,7 @@ interface JogControlsProps {
 }
 
 export default function JogControls({ printerId, disabled = false }: JogControlsProps) {
+  const queryClient = useQueryClient();
   const [step, setStep] = useState(10);
   const isOffline = disabled;
 
@@ -50,6 +51,8 @@ export default function JogControls({ printerId, disabled = false }: JogControls
     },
     onSuccess: () => {
       toast.success("Homing started");
+      // Homing clears an emergency stop, so refresh the printer list
+      queryClient.invalidateQueries({ queryKey: ["/api/printers"] });
     },
     onError: (error: Error) => {
       toast.error(error.message);
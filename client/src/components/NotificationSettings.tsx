@@ -0,0 +1,315 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { toast } from "sonner";
+import { useHasRole } from "@/hooks/use-auth";
+import { BellRing, Send, Smartphone } from "lucide-react";
+import {
+  NOTIFICATION_EVENTS,
+  type NotificationChannel,
+  type NotificationEvent,
+  type NotificationPreferences,
+  type NotificationSettings as NotificationSettingsData,
+  type NotificationTestResult,
+} from "@shared/schema";
+
+const SETTINGS_KEY = ["/api/notifications/preferences"];
+
+const EVENT_LABELS: Record<NotificationEvent, string> = {
+  "job-started": "Print started",
+  "job-finished": "Print finished",
+  "job-failed": "Print failed",
+  "job-paused": "Print paused",
+  "printer-offline": "Printer went offline",
+  "temperature-anomaly": "Temperature anomaly",
+};
+
+const CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  webpush: "Web Push",
+  email: "Email",
+  ntfy: "ntfy",
+  gotify: "Gotify",
+  webhook: "Webhook",
+};
+
+async function sendJson(method: string, url: string, body: unknown, fallbackError: string) {
+  const res = await fetch(url, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  if (!res.ok) {
+    const errData = await res.json();
+    throw new Error(errData.error || fallbackError);
+  }
+  return res.json();
+}
+
+// PushManager wants the VAPID key as bytes; the server hands it out as base64url
+function decodeBase64Url(value: string): Uint8Array {
+  const base64 = (value + "=".repeat((4 - (value.length % 4)) % 4)).replace(/-/g, "+").replace(/_/g, "/");
+  return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+}
+
+// Asks for permission and subscribes this browser (or installed PWA) to push
+async function subscribeThisDevice(): Promise<void> {
+  if (!("serviceWorker" in navigator) || !("PushManager" in window)) {
+    throw new Error("This browser can't receive push notifications. On iOS, add the app to your home screen first.");
+  }
+  if ((await window.Notification.requestPermission()) !== "granted") {
+    throw new Error("Notifications are blocked for this site in the browser settings");
+  }
+
+  const registration = await navigator.serviceWorker.ready;
+  const res = await fetch("/api/notifications/vapid-key");
+  if (!res.ok) throw new Error("Failed to load the push key from the server");
+  const { publicKey } = await res.json();
+
+  const subscription =
+    (await registration.pushManager.getSubscription()) ??
+    (await registration.pushManager.subscribe({ userVisibleOnly: true, applicationServerKey: decodeBase64Url(publicKey) }));
+  await sendJson("POST", "/api/notifications/push-subscription", subscription.toJSON(), "Failed to save push subscription");
+}
+
+/**
+ * The signed-in user's own notification settings: which print events to hear
+ * about and where to send them.
+ */
+export default function NotificationSettings() {
+  const queryClient = useQueryClient();
+  // The server posts to ntfy, Gotify and webhook URLs itself, so those need an operator
+  const canUseUrlChannels = useHasRole("operator");
+  const { data: settings } = useQuery<NotificationSettingsData>({ queryKey: SETTINGS_KEY });
+  const [draft, setDraft] = useState<NotificationPreferences | null>(null);
+
+  useEffect(() => {
+    if (settings) setDraft(settings.preferences);
+  }, [settings]);
+
+  const isDirty = !!settings && !!draft && JSON.stringify(draft) !== JSON.stringify(settings.preferences);
+
+  const savePreferences = async (preferences: NotificationPreferences) => {
+    const saved: NotificationSettingsData = await sendJson(
+      "PUT",
+      "/api/notifications/preferences",
+      preferences,
+      "Failed to save notification settings",
+    );
+    queryClient.setQueryData(SETTINGS_KEY, saved);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: savePreferences,
+    onSuccess: () => toast.success("Notification settings saved"),
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  // Tests what's on screen, so unsaved changes are saved first
+  const testMutation = useMutation({
+    mutationFn: async (): Promise<NotificationTestResult[]> => {
+      if (isDirty && draft) await savePreferences(draft);
+      const { results } = await sendJson("POST", "/api/notifications/test", {}, "Failed to send test notification");
+      return results;
+    },
+    onSuccess: (results) => {
+      const failed = results.filter((r) => !r.ok);
+      const sent = results.filter((r) => r.ok).map((r) => CHANNEL_LABELS[r.channel]);
+      if (sent.length > 0) toast.success(`Test sent over ${sent.join(", ")}`);
+      for (const result of failed) {
+        toast.error(`${CHANNEL_LABELS[result.channel]}: ${result.error}`);
+      }
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const subscribeMutation = useMutation({
+    mutationFn: subscribeThisDevice,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: SETTINGS_KEY });
+      toast.success("Push notifications turned on for this device");
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  if (!settings || !draft) {
+    return <p className="text-sm text-muted-foreground">Loading...</p>;
+  }
+
+  const toggleEvent = (event: NotificationEvent, checked: boolean) => {
+    setDraft({
+      ...draft,
+      events: checked ? [...draft.events, event] : draft.events.filter((e) => e !== event),
+    });
+  };
+
+  const updateChannel = <C extends NotificationChannel>(channel: C, changes: Partial<NotificationPreferences["channels"][C]>) => {
+    setDraft({ ...draft, channels: { ...draft.channels, [channel]: { ...draft.channels[channel], ...changes } } });
+  };
+
+  const channelSwitch = (channel: NotificationChannel) => (
+    <div className="flex items-center gap-2">
+      <Switch
+        id={`notify-${channel}`}
+        checked={draft.channels[channel].enabled}
+        onCheckedChange={(enabled) => {
+          updateChannel(channel, { enabled });
+          // Turning Web Push on is pointless until a device has subscribed
+          if (channel === "webpush" && enabled && settings.pushSubscriptionCount === 0) {
+            subscribeMutation.mutate();
+          }
+        }}
+        disabled={!settings.available[channel]}
+        data-testid={`switch-notify-${channel}`}
+      />
+      <Label htmlFor={`notify-${channel}`} className="font-medium">{CHANNEL_LABELS[channel]}</Label>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <Label className="text-xs">Events</Label>
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+          {NOTIFICATION_EVENTS.map((event) => (
+            <div key={event} className="flex items-center gap-2">
+              <Checkbox
+                id={`notify-event-${event}`}
+                checked={draft.events.includes(event)}
+                onCheckedChange={(checked) => toggleEvent(event, checked === true)}
+                data-testid={`checkbox-notify-${event}`}
+              />
+              <Label htmlFor={`notify-event-${event}`} className="text-sm font-normal">{EVENT_LABELS[event]}</Label>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        <Label className="text-xs">Channels</Label>
+
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          {channelSwitch("webpush")}
+          <div className="flex items-center gap-3">
+            <span className="text-xs text-muted-foreground" data-testid="text-push-devices">
+              {settings.pushSubscriptionCount === 1 ? "1 device" : `${settings.pushSubscriptionCount} devices`}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => subscribeMutation.mutate()}
+              disabled={subscribeMutation.isPending}
+              data-testid="button-subscribe-push"
+            >
+              <Smartphone className="h-4 w-4 mr-2" />
+              Add This Device
+            </Button>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          {channelSwitch("email")}
+          {settings.available.email ? (
+            <Input
+              type="email"
+              placeholder="you@example.com"
+              value={draft.channels.email.address}
+              onChange={(e) => updateChannel("email", { address: e.target.value })}
+              className="max-w-sm"
+              data-testid="input-notify-email"
+            />
+          ) : (
+            <p className="text-xs text-muted-foreground">Email needs the server's SMTP settings (SMTP_HOST) to be configured.</p>
+          )}
+        </div>
+
+        {canUseUrlChannels ? (
+          <>
+            <div className="space-y-2">
+              {channelSwitch("ntfy")}
+              <div className="flex flex-wrap gap-2">
+                <Input
+                  placeholder="https://ntfy.sh/my-printers"
+                  value={draft.channels.ntfy.url}
+                  onChange={(e) => updateChannel("ntfy", { url: e.target.value })}
+                  className="max-w-sm"
+                  data-testid="input-notify-ntfy-url"
+                />
+                <Input
+                  type="password"
+                  placeholder="Access token (optional)"
+                  value={draft.channels.ntfy.token}
+                  onChange={(e) => updateChannel("ntfy", { token: e.target.value })}
+                  className="w-56"
+                  data-testid="input-notify-ntfy-token"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              {channelSwitch("gotify")}
+              <div className="flex flex-wrap gap-2">
+                <Input
+                  placeholder="https://gotify.example.com"
+                  value={draft.channels.gotify.url}
+                  onChange={(e) => updateChannel("gotify", { url: e.target.value })}
+                  className="max-w-sm"
+                  data-testid="input-notify-gotify-url"
+                />
+                <Input
+                  type="password"
+                  placeholder="Application token"
+                  value={draft.channels.gotify.token}
+                  onChange={(e) => updateChannel("gotify", { token: e.target.value })}
+                  className="w-56"
+                  data-testid="input-notify-gotify-token"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              {channelSwitch("webhook")}
+              <Input
+                placeholder="https://example.com/hooks/printer"
+                value={draft.channels.webhook.url}
+                onChange={(e) => updateChannel("webhook", { url: e.target.value })}
+                className="max-w-sm"
+                data-testid="input-notify-webhook-url"
+              />
+              <p className="text-xs text-muted-foreground">
+                Receives a JSON POST with the event, title, message, printer and job.
+              </p>
+            </div>
+          </>
+        ) : (
+          <p className="text-xs text-muted-foreground" data-testid="text-url-channels-role">
+            Operators and admins can also send notifications to ntfy, Gotify or a webhook.
+          </p>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <Button
+          onClick={() => saveMutation.mutate(draft)}
+          disabled={!isDirty || saveMutation.isPending}
+          data-testid="button-save-notifications"
+        >
+          <BellRing className="h-4 w-4 mr-2" />
+          Save Notifications
+        </Button>
+        <Button
+          variant="outline"
+          onClick={() => testMutation.mutate()}
+          disabled={testMutation.isPending || saveMutation.isPending}
+          data-testid="button-test-notifications"
+        >
+          <Send className="h-4 w-4 mr-2" />
+          Send Test
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,233 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { ArrowDown, ArrowUp, CheckCircle2, ListOrdered, Pause, Play, Trash2, AlertCircle } from "lucide-react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { useHasRole } from "@/hooks/use-auth";
+import type { PrintQueueItemWithFile, PrintQueueState } from "@shared/schema";
+
+interface PrintQueueProps {
+  printerId: number;
+  disabled?: boolean;
+}
+
+type QueueAction = "start" | "pause" | "bed-cleared";
+
+const formatEstimatedTime = (seconds: number) => {
+  const totalMinutes = Math.round(seconds / 60);
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+};
+
+export default function PrintQueue({ printerId, disabled = false }: PrintQueueProps) {
+  const queryClient = useQueryClient();
+  const canOperate = useHasRole("operator");
+  const queueKey = [`/api/printers/${printerId}/queue`];
+
+  // Kept current by the server's queue events
+  const { data, isLoading } = useQuery<{ items: PrintQueueItemWithFile[]; state: PrintQueueState }>({
+    queryKey: queueKey,
+  });
+  const items = data?.items ?? [];
+  const state = data?.state;
+
+  const sendQueueRequest = async (path: string, method: string, body?: unknown) => {
+    const res = await fetch(`/api/printers/${printerId}/queue${path}`, {
+      method,
+      headers: body ? { "Content-Type": "application/json" } : undefined,
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    const result = await res.json();
+    if (!res.ok) {
+      throw new Error(result.error || "Queue request failed");
+    }
+    return result;
+  };
+
+  const onError = (error: Error) => {
+    toast.error(error.message);
+  };
+
+  const actionMutation = useMutation({
+    mutationFn: (action: QueueAction) => sendQueueRequest(`/${action}`, "POST"),
+    onSuccess: (result) => {
+      toast.success(result.message);
+      queryClient.invalidateQueries({ queryKey: queueKey });
+    },
+    onError,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: (itemId: number) => sendQueueRequest(`/${itemId}`, "DELETE"),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queueKey }),
+    onError,
+  });
+
+  const reorderMutation = useMutation({
+    mutationFn: (itemIds: number[]) => sendQueueRequest("/order", "PUT", { itemIds }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queueKey }),
+    onError,
+  });
+
+  const settingsMutation = useMutation({
+    mutationFn: (requireBedClear: boolean) => sendQueueRequest("/settings", "PUT", { requireBedClear }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queueKey }),
+    onError,
+  });
+
+  const moveItem = (index: number, offset: number) => {
+    const itemIds = items.map((item) => item.id);
+    const target = index + offset;
+    if (target < 0 || target >= itemIds.length) return;
+    [itemIds[index], itemIds[target]] = [itemIds[target], itemIds[index]];
+    reorderMutation.mutate(itemIds);
+  };
+
+  const isRunning = state ? !state.paused : false;
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader className="flex flex-row items-center justify-between gap-2">
+        <CardTitle className="text-sm font-medium uppercase tracking-widest text-muted-foreground flex items-center gap-2">
+          <ListOrdered className="h-4 w-4" />
+          Print Queue
+        </CardTitle>
+        {isRunning ? (
+          <Button
+            size="sm"
+            variant="outline"
+            className="h-8"
+            onClick={() => actionMutation.mutate("pause")}
+            disabled={!canOperate || actionMutation.isPending}
+            data-testid="button-queue-pause"
+          >
+            <Pause className="h-3.5 w-3.5 mr-2" />
+            Pause Queue
+          </Button>
+        ) : (
+          <Button
+            size="sm"
+            className="h-8"
+            onClick={() => actionMutation.mutate("start")}
+            disabled={disabled || !canOperate || actionMutation.isPending || items.length === 0}
+            data-testid="button-queue-start"
+          >
+            <Play className="h-3.5 w-3.5 mr-2" />
+            Start Queue
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {state?.awaitingBedClear && (
+          <div className="flex items-center justify-between gap-2 rounded-md border border-amber-500/50 bg-amber-500/10 p-3">
+            <p className="text-xs text-amber-500">
+              The last job finished. Clear the bed before the next one starts.
+            </p>
+            <Button
+              size="sm"
+              variant="outline"
+              className="h-7 shrink-0"
+              onClick={() => actionMutation.mutate("bed-cleared")}
+              disabled={!canOperate || actionMutation.isPending}
+              data-testid="button-queue-bed-cleared"
+            >
+              <CheckCircle2 className="h-3.5 w-3.5 mr-1" />
+              Bed Cleared
+            </Button>
+          </div>
+        )}
+
+        {state?.pausedReason && (
+          <div className="flex items-center gap-2 text-xs text-destructive" data-testid="text-queue-paused-reason">
+            <AlertCircle className="h-3.5 w-3.5 shrink-0" />
+            Queue paused: {state.pausedReason}
+          </div>
+        )}
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground text-center py-4">Loading queue...</p>
+        ) : items.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4" data-testid="text-queue-empty">
+            Queue is empty. Add files from the file list.
+          </p>
+        ) : (
+          <ol className="space-y-1">
+            {items.map((item, index) => (
+              <li
+                key={item.id}
+                className="flex items-center gap-2 rounded-md px-2 py-1.5 hover:bg-secondary/30"
+                data-testid={`row-queue-${item.id}`}
+              >
+                <span className="w-5 text-xs text-muted-foreground font-mono">{index + 1}</span>
+                <div className="min-w-0 flex-1">
+                  <div className="truncate text-xs font-medium">
+                    {item.file.displayName || item.file.filename}
+                  </div>
+                  {item.file.metadata?.estimatedTimeSeconds ? (
+                    <div className="text-xs text-muted-foreground">
+                      {formatEstimatedTime(item.file.metadata.estimatedTimeSeconds)}
+                    </div>
+                  ) : null}
+                  {item.lastError && (
+                    <div className="truncate text-xs text-destructive" title={item.lastError}>
+                      {item.lastError}
+                    </div>
+                  )}
+                </div>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-7 w-7"
+                  onClick={() => moveItem(index, -1)}
+                  disabled={!canOperate || index === 0 || reorderMutation.isPending}
+                  title="Move Up"
+                  data-testid={`button-queue-up-${item.id}`}
+                >
+                  <ArrowUp className="h-3.5 w-3.5" />
+                </Button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-7 w-7"
+                  onClick={() => moveItem(index, 1)}
+                  disabled={!canOperate || index === items.length - 1 || reorderMutation.isPending}
+                  title="Move Down"
+                  data-testid={`button-queue-down-${item.id}`}
+                >
+                  <ArrowDown className="h-3.5 w-3.5" />
+                </Button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-7 w-7 text-destructive hover:text-destructive hover:bg-destructive/10"
+                  onClick={() => removeMutation.mutate(item.id)}
+                  disabled={!canOperate || removeMutation.isPending}
+                  title="Remove from Queue"
+                  data-testid={`button-queue-remove-${item.id}`}
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+              </li>
+            ))}
+          </ol>
+        )}
+
+        <div className="flex items-center justify-between pt-2 border-t border-border">
+          <Label htmlFor={`queue-bed-clear-${printerId}`} className="text-xs text-muted-foreground">
+            Wait for bed cleared confirmation between jobs
+          </Label>
+          <Switch
+            id={`queue-bed-clear-${printerId}`}
+            checked={state?.requireBedClear ?? false}
+            onCheckedChange={(checked) => settingsMutation.mutate(checked)}
+            disabled={!canOperate || !state || settingsMutation.isPending}
+            data-testid="switch-queue-bed-clear"
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
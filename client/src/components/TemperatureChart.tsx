@@ -1,103 +1,202 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
 import { Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis, CartesianGrid } from "recharts";
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { TemperatureHistoryPoint } from "@shared/schema";
 
 interface TemperatureChartProps {
+  printerId: number | null;
   nozzleTemp: number;
   bedTemp: number;
   targetNozzle: number;
   targetBed: number;
 }
 
-export default function TemperatureChart({ nozzleTemp, bedTemp, targetNozzle, targetBed }: TemperatureChartProps) {
-  const [data, setData] = useState(
-    Array.from({ length: 20 }, (_, i) => ({
-      time: i,
-      nozzle: 0,
-      bed: 0,
-      targetNozzle: 0,
-      targetBed: 0,
-    }))
-  );
+type RangeOption = "15m" | "1h" | "24h" | "job";
+
+const RANGES: { id: RangeOption; label: string; durationMs?: number; resolution?: number }[] = [
+  { id: "15m", label: "15m", durationMs: 15 * 60 * 1000, resolution: 10 },
+  { id: "1h", label: "1h", durationMs: 60 * 60 * 1000, resolution: 30 },
+  { id: "24h", label: "24h", durationMs: 24 * 60 * 60 * 1000, resolution: 600 },
+  { id: "job", label: "Job" },
+];
+
+// Live samples pushed from the status stream are kept this long on top of the fetched history
+const LIVE_SAMPLE_LIMIT = 500;
+
+interface HistoryResponse {
+  from: number;
+  to: number;
+  resolution: number;
+  points: TemperatureHistoryPoint[];
+}
+
+interface JobSummary {
+  status: string;
+  startedAt: string | null;
+}
+
+const formatTime = (time: number, spanMs: number) =>
+  new Date(time).toLocaleTimeString(undefined, {
+    hour: "2-digit",
+    minute: "2-digit",
+    ...(spanMs <= 15 * 60 * 1000 ? { second: "2-digit" } : {}),
+  });
+
+export default function TemperatureChart({ printerId, nozzleTemp, bedTemp, targetNozzle, targetBed }: TemperatureChartProps) {
+  const [range, setRange] = useState<RangeOption>("15m");
+  const [liveSamples, setLiveSamples] = useState<TemperatureHistoryPoint[]>([]);
+
+  const { data: latestJobs = [] } = useQuery<JobSummary[]>({
+    queryKey: [`/api/printers/${printerId}/jobs?limit=1`],
+    enabled: !!printerId,
+    refetchInterval: 60000,
+  });
+
+  const activeJob = latestJobs.find((job) => job.status === "printing" || job.status === "paused");
+  const jobStartedAt = activeJob?.startedAt ? new Date(activeJob.startedAt).getTime() : null;
+  const selectedRange = RANGES.find((r) => r.id === range)!;
+
+  const { data: history } = useQuery<HistoryResponse>({
+    queryKey: [`/api/printers/${printerId}/temperature-history`, range, jobStartedAt],
+    enabled: !!printerId && (range !== "job" || jobStartedAt !== null),
+    refetchInterval: 60000,
+    queryFn: async () => {
+      const to = Date.now();
+      const from = range === "job" ? jobStartedAt! : to - selectedRange.durationMs!;
+      const params = new URLSearchParams({ from: String(from), to: String(to) });
+      if (selectedRange.resolution) {
+        params.set("resolution", String(selectedRange.resolution));
+      }
+      const res = await fetch(`/api/printers/${printerId}/temperature-history?${params}`, {
+        credentials: "include",
+      });
+      if (!res.ok) throw new Error("Failed to load temperature history");
+      return res.json();
+    },
+  });
 
   useEffect(() => {
-    setData((prevData) => {
-      const newData = [...prevData.slice(1), {
-        time: prevData[prevData.length - 1].time + 1,
-        nozzle: nozzleTemp,
-        bed: bedTemp,
-        targetNozzle,
-        targetBed,
-      }];
-      return newData;
-    });
+    setLiveSamples((prev) => [
+      ...prev.slice(-(LIVE_SAMPLE_LIMIT - 1)),
+      { time: Date.now(), nozzle: nozzleTemp, bed: bedTemp, targetNozzle, targetBed },
+    ]);
   }, [nozzleTemp, bedTemp, targetNozzle, targetBed]);
+
+  useEffect(() => {
+    setLiveSamples([]);
+  }, [printerId]);
+
+  const data = useMemo(() => {
+    const points = history?.points ?? [];
+    const lastHistoryTime = points.length > 0 ? points[points.length - 1].time : 0;
+    const windowStart = range === "job" ? (jobStartedAt ?? Date.now()) : Date.now() - selectedRange.durationMs!;
+    return [...points, ...liveSamples.filter((s) => s.time > lastHistoryTime)]
+      .filter((p) => p.time >= windowStart);
+  }, [history, liveSamples, range, jobStartedAt, selectedRange]);
+
+  const spanMs = data.length > 1 ? data[data.length - 1].time - data[0].time : 0;
+
   return (
     <Card className="col-span-1 lg:col-span-2 shadow-lg">
-      <CardHeader>
+      <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0">
         <CardTitle className="text-sm font-medium uppercase tracking-widest text-muted-foreground">
           Temperature History
         </CardTitle>
+        <div className="flex gap-1">
+          {RANGES.map((r) => {
+            const unavailable = r.id === "job" && jobStartedAt === null;
+            return (
+              <Badge
+                key={r.id}
+                variant={range === r.id ? "default" : "outline"}
+                className={`font-mono text-xs ${unavailable ? "opacity-40 cursor-not-allowed" : "cursor-pointer"}`}
+                onClick={() => !unavailable && setRange(r.id)}
+                title={unavailable ? "No job running" : undefined}
+                data-testid={`badge-temp-range-${r.id}`}
+              >
+                {r.label}
+              </Badge>
+            );
+          })}
+        </div>
       </CardHeader>
       <CardContent className="pl-2">
         <div className="h-[200px] w-full">
           <ResponsiveContainer width="100%" height="100%">
             <LineChart data={data}>
               <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--muted))" opacity={0.3} />
-              <XAxis 
-                dataKey="time" 
-                stroke="hsl(var(--muted-foreground))" 
-                fontSize={12} 
-                tickLine={false} 
-                axisLine={false} 
+              <XAxis
+                dataKey="time"
+                type="number"
+                scale="time"
+                domain={["dataMin", "dataMax"]}
+                tickFormatter={(time: number) => formatTime(time, spanMs)}
+                stroke="hsl(var(--muted-foreground))"
+                fontSize={12}
+                tickLine={false}
+                axisLine={false}
               />
-              <YAxis 
-                stroke="hsl(var(--muted-foreground))" 
-                fontSize={12} 
-                tickLine={false} 
-                axisLine={false} 
+              <YAxis
+                stroke="hsl(var(--muted-foreground))"
+                fontSize={12}
+                tickLine={false}
+                axisLine={false}
                 domain={['auto', 'auto']}
               />
-              <Tooltip 
-                contentStyle={{ 
-                  backgroundColor: "hsl(var(--popover))", 
+              <Tooltip
+                labelFormatter={(time: number) => new Date(time).toLocaleString()}
+                contentStyle={{
+                  backgroundColor: "hsl(var(--popover))",
                   borderColor: "hsl(var(--border))",
                   borderRadius: "8px",
                   color: "hsl(var(--popover-foreground))"
                 }}
                 itemStyle={{ color: "hsl(var(--foreground))" }}
               />
-              <Line 
-                type="monotone" 
-                dataKey="nozzle" 
-                stroke="hsl(var(--chart-1))" 
-                strokeWidth={2} 
+              <Line
+                type="monotone"
+                dataKey="nozzle"
+                stroke="hsl(var(--chart-1))"
+                strokeWidth={2}
                 dot={false}
                 activeDot={{ r: 4, strokeWidth: 0 }}
-                animationDuration={1000}
+                isAnimationActive={false}
               />
-              <Line 
-                type="monotone" 
-                dataKey="bed" 
-                stroke="hsl(var(--chart-2))" 
-                strokeWidth={2} 
+              <Line
+                type="monotone"
+                dataKey="bed"
+                stroke="hsl(var(--chart-2))"
+                strokeWidth={2}
                 dot={false}
                 activeDot={{ r: 4, strokeWidth: 0 }}
-                animationDuration={1000}
+                isAnimationActive={false}
               />
-              <Line 
-                type="step" 
-                dataKey="targetNozzle" 
-                stroke="hsl(var(--chart-1))" 
-                strokeDasharray="5 5" 
-                strokeWidth={1} 
+              <Line
+                type="step"
+                dataKey="targetNozzle"
+                stroke="hsl(var(--chart-1))"
+                strokeDasharray="5 5"
+                strokeWidth={1}
                 dot={false}
                 opacity={0.5}
+                isAnimationActive={false}
+              />
+              <Line
+                type="step"
+                dataKey="targetBed"
+                stroke="hsl(var(--chart-2))"
+                strokeDasharray="5 5"
+                strokeWidth={1}
+                dot={false}
+                opacity={0.5}
+                isAnimationActive={false}
               />
             </LineChart>
           </ResponsiveContainer>
         </div>
-        
+
         <div className="flex gap-6 justify-center mt-4">
           <div className="flex items-center gap-2">
             <div className="w-3 h-3 rounded-full bg-[hsl(var(--chart-1))]"></div>
@@ -0,0 +1,143 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Inbox, Send, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { useHasRole } from "@/hooks/use-auth";
+import type { PublicPrinter, UploadedFile } from "@shared/schema";
+
+const TOOL_TYPE_LABELS: Record<string, string> = {
+  "3dp": "3D Print",
+  laser: "Laser",
+  cnc: "CNC",
+};
+
+const formatSize = (bytes: number | null) => {
+  if (!bytes) return "";
+  return bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`;
+};
+
+/**
+ * Files no upload rule or default printer claimed. Hidden while the inbox
+ * is empty; each file can be sent to a printer or thrown away.
+ */
+export default function UnassignedFiles({ printers }: { printers: PublicPrinter[] }) {
+  const queryClient = useQueryClient();
+  const canOperate = useHasRole("operator");
+  const [targets, setTargets] = useState<Record<number, string>>({});
+
+  // Watch folder and proxy captures arrive without a page action, so poll
+  const { data: files = [] } = useQuery<UploadedFile[]>({
+    queryKey: ["/api/inbox"],
+    refetchInterval: 30000,
+  });
+
+  const sendInboxRequest = async (path: string, method: string, body?: unknown) => {
+    const res = await fetch(`/api/inbox/${path}`, {
+      method,
+      headers: body ? { "Content-Type": "application/json" } : undefined,
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    const result = await res.json();
+    if (!res.ok) {
+      throw new Error(result.error || "Inbox request failed");
+    }
+    return result;
+  };
+
+  const assignMutation = useMutation({
+    mutationFn: ({ fileId, printerId }: { fileId: number; printerId: number }) =>
+      sendInboxRequest(`${fileId}/assign`, "POST", { printerId }),
+    onSuccess: (_result, { printerId }) => {
+      toast.success("File sent to printer");
+      queryClient.invalidateQueries({ queryKey: ["/api/inbox"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/printers/${printerId}/uploaded-files`] });
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (fileId: number) => sendInboxRequest(`${fileId}`, "DELETE"),
+    onSuccess: () => {
+      toast.success("File removed");
+      queryClient.invalidateQueries({ queryKey: ["/api/inbox"] });
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  if (files.length === 0) return null;
+
+  return (
+    <Card className="bg-secondary/20 border-border mb-6" data-testid="card-unassigned-files">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm font-medium flex items-center gap-2">
+          <Inbox className="h-4 w-4" />
+          Unassigned Files ({files.length})
+        </CardTitle>
+        <p className="text-xs text-muted-foreground">
+          No upload rule or default printer matched these files. Choose where each one goes.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {files.map((file) => {
+          const target = targets[file.id] ?? "";
+          return (
+            <div
+              key={file.id}
+              className="flex flex-col sm:flex-row sm:items-center gap-2 p-2 rounded-md bg-background/50 border border-border"
+              data-testid={`row-inbox-file-${file.id}`}
+            >
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-mono truncate">{file.displayName || file.filename}</p>
+                <p className="text-xs text-muted-foreground">
+                  {[
+                    file.metadata?.toolType ? TOOL_TYPE_LABELS[file.metadata.toolType] : null,
+                    formatSize(file.size),
+                    file.source,
+                  ]
+                    .filter(Boolean)
+                    .join(" · ")}
+                </p>
+              </div>
+              <div className="flex gap-2">
+                <Select value={target} onValueChange={(value) => setTargets((prev) => ({ ...prev, [file.id]: value }))}>
+                  <SelectTrigger className="w-[180px]" data-testid={`select-inbox-printer-${file.id}`}>
+                    <SelectValue placeholder="Choose printer" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {printers.map((printer) => (
+                      <SelectItem key={printer.id} value={String(printer.id)}>
+                        {printer.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  size="sm"
+                  disabled={!canOperate || !target || assignMutation.isPending}
+                  onClick={() => assignMutation.mutate({ fileId: file.id, printerId: parseInt(target) })}
+                  data-testid={`button-inbox-assign-${file.id}`}
+                >
+                  <Send className="h-4 w-4 mr-1" />
+                  Assign
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="text-muted-foreground hover:text-destructive"
+                  disabled={!canOperate || deleteMutation.isPending}
+                  onClick={() => deleteMutation.mutate(file.id)}
+                  data-testid={`button-inbox-delete-${file.id}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,36 +1,164 @@
-import { Card, CardContent } from "@/components/ui/card";
+import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Camera, Maximize2 } from "lucide-react";
-import printImage from '@assets/generated_images/3d_print_in_progress_macro_shot.png';
+import { Button } from "@/components/ui/button";
+import { Camera, CameraOff, Maximize2, Minimize2, RefreshCw } from "lucide-react";
+import { useQuery } from "@tanstack/react-query";
+import { useEffect, useRef, useState } from "react";
+import { useLocation } from "wouter";
+import { useHasRole } from "@/hooks/use-auth";
+import type { CameraConfig } from "@shared/schema";
+
+interface WebcamFeedProps {
+  printerId: number;
+  printerName: string;
+}
+
+// How long to wait before retrying a camera that dropped out
+const RETRY_DELAY_MS = 10000;
+
+const getSourceLabel = (camera: CameraConfig) => {
+  switch (camera.type) {
+    case "mjpeg": return "MJPEG";
+    case "snapshot": return `Snapshot / ${camera.intervalMs / 1000}s`;
+    case "v4l2": return camera.device;
+  }
+};
+
+export default function WebcamFeed({ printerId, printerName }: WebcamFeedProps) {
+  const [, setLocation] = useLocation();
+  const isAdmin = useHasRole("admin");
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [streamKey, setStreamKey] = useState(() => Date.now());
+  const [streamState, setStreamState] = useState<"loading" | "live" | "offline">("loading");
+  const [resolution, setResolution] = useState<{ width: number; height: number } | null>(null);
+  const [isFullscreen, setIsFullscreen] = useState(false);
+
+  const { data, isLoading } = useQuery<{ camera: CameraConfig | null }>({
+    queryKey: [`/api/printers/${printerId}/camera`],
+  });
+  const camera = data?.camera ?? null;
+
+  useEffect(() => {
+    setStreamState("loading");
+    setResolution(null);
+    setStreamKey(Date.now());
+  }, [printerId, camera]);
+
+  useEffect(() => {
+    if (streamState !== "offline") return;
+    const timer = setTimeout(() => {
+      setStreamState("loading");
+      setStreamKey(Date.now());
+    }, RETRY_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [streamState]);
+
+  useEffect(() => {
+    const handleChange = () => setIsFullscreen(document.fullscreenElement === containerRef.current);
+    document.addEventListener("fullscreenchange", handleChange);
+    return () => document.removeEventListener("fullscreenchange", handleChange);
+  }, []);
+
+  const toggleFullscreen = async () => {
+    try {
+      if (document.fullscreenElement) {
+        await document.exitFullscreen();
+      } else {
+        await containerRef.current?.requestFullscreen();
+      }
+    } catch {
+      // Fullscreen isn't available everywhere (e.g. iPhone Safari)
+    }
+  };
+
+  const retry = () => {
+    setStreamState("loading");
+    setStreamKey(Date.now());
+  };
 
-export default function WebcamFeed() {
   return (
-    <Card className="overflow-hidden relative group aspect-video bg-black border-none shadow-xl ring-1 ring-border">
-      <div className="absolute top-4 left-4 z-10 flex gap-2">
-        <Badge variant="destructive" className="animate-pulse bg-red-500/80 text-white border-none shadow-sm backdrop-blur-sm">
-          LIVE
-        </Badge>
-        <Badge variant="outline" className="bg-black/50 text-white border-white/20 backdrop-blur-sm">
-          1080p
-        </Badge>
-      </div>
-      
-      <div className="absolute top-4 right-4 z-10 opacity-0 group-hover:opacity-100 transition-opacity">
-        <button className="p-2 bg-black/50 hover:bg-black/70 rounded-full text-white backdrop-blur-sm transition-colors">
-          <Maximize2 className="h-4 w-4" />
-        </button>
-      </div>
+    <Card
+      ref={containerRef}
+      className="overflow-hidden relative group aspect-video bg-black border-none shadow-xl ring-1 ring-border"
+      data-testid="webcam-feed"
+    >
+      {camera && (
+        <div className="absolute top-4 left-4 z-10 flex gap-2">
+          {streamState === "live" ? (
+            <Badge variant="destructive" className="animate-pulse bg-red-500/80 text-white border-none shadow-sm backdrop-blur-sm">
+              LIVE
+            </Badge>
+          ) : (
+            <Badge variant="outline" className="bg-black/50 text-white/70 border-white/20 backdrop-blur-sm">
+              {streamState === "loading" ? "CONNECTING" : "OFFLINE"}
+            </Badge>
+          )}
+          {resolution && streamState === "live" && (
+            <Badge variant="outline" className="bg-black/50 text-white border-white/20 backdrop-blur-sm" data-testid="badge-camera-resolution">
+              {resolution.width}×{resolution.height}
+            </Badge>
+          )}
+        </div>
+      )}
+
+      {camera && streamState === "live" && (
+        <div className="absolute top-4 right-4 z-10 opacity-0 group-hover:opacity-100 transition-opacity">
+          <button
+            className="p-2 bg-black/50 hover:bg-black/70 rounded-full text-white backdrop-blur-sm transition-colors"
+            onClick={toggleFullscreen}
+            title={isFullscreen ? "Exit fullscreen" : "Fullscreen"}
+            data-testid="button-camera-fullscreen"
+          >
+            {isFullscreen ? <Minimize2 className="h-4 w-4" /> : <Maximize2 className="h-4 w-4" />}
+          </button>
+        </div>
+      )}
+
+      {camera && streamState !== "offline" && (
+        <img
+          key={streamKey}
+          src={`/api/printers/${printerId}/camera/stream?t=${streamKey}`}
+          alt={`${printerName} camera`}
+          className={`w-full h-full ${isFullscreen ? "object-contain" : "object-cover"} ${streamState === "live" ? "" : "opacity-0"}`}
+          onLoad={(e) => {
+            const img = e.currentTarget;
+            setStreamState("live");
+            if (img.naturalWidth && img.naturalHeight) {
+              setResolution({ width: img.naturalWidth, height: img.naturalHeight });
+            }
+          }}
+          onError={() => setStreamState("offline")}
+          data-testid="img-camera-stream"
+        />
+      )}
+
+      {(!camera || streamState === "offline") && (
+        <div className="absolute inset-0 flex flex-col items-center justify-center gap-3 text-white/60">
+          <CameraOff className="h-10 w-10" />
+          {isLoading ? null : camera ? (
+            <>
+              <p className="text-sm">Camera offline</p>
+              <Button size="sm" variant="outline" className="bg-black/50 text-white border-white/20" onClick={retry} data-testid="button-camera-retry">
+                <RefreshCw className="h-3.5 w-3.5 mr-2" /> Retry
+              </Button>
+            </>
+          ) : (
+            <>
+              <p className="text-sm">No camera configured</p>
+              {isAdmin && (
+                <Button size="sm" variant="outline" className="bg-black/50 text-white border-white/20" onClick={() => setLocation("/settings")} data-testid="button-camera-setup">
+                  Set up camera
+                </Button>
+              )}
+            </>
+          )}
+        </div>
+      )}
 
-      <img 
-        src={printImage} 
-        alt="Printer Feed" 
-        className="w-full h-full object-cover opacity-90 transition-transform duration-[20s] ease-linear hover:scale-105" 
-      />
-      
       <div className="absolute bottom-0 left-0 right-0 p-4 bg-gradient-to-t from-black/80 to-transparent">
         <div className="flex items-center gap-2 text-white/80 text-xs font-mono">
            <Camera className="h-3 w-3" />
-           <span>Snapmaker Cam 1</span>
+           <span>{printerName}{camera ? ` • ${getSourceLabel(camera)}` : ""}</span>
         </div>
       </div>
     </Card>
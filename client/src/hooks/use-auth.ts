@@ -0,0 +1,46 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
+import { toast } from "sonner";
+import { hasRole, type PublicUser, type UserRole } from "@shared/schema";
+
+export type AuthStatus = {
+  setupRequired: boolean;
+  user: PublicUser | null;
+};
+
+export const AUTH_STATUS_KEY = ["/api/auth/status"];
+
+/**
+ * Who is signed in, and whether the first admin still has to be created.
+ */
+export function useAuth() {
+  const { data, isLoading } = useQuery<AuthStatus>({ queryKey: AUTH_STATUS_KEY });
+  return {
+    isLoading,
+    setupRequired: data?.setupRequired ?? false,
+    user: data?.user ?? null,
+  };
+}
+
+// For hiding or disabling controls; the server enforces the same rules
+export function useHasRole(role: UserRole): boolean {
+  const { user } = useAuth();
+  return !!user && hasRole(user.role, role);
+}
+
+// Drops everything cached for the previous user along with the session
+export function useLogout() {
+  return useMutation({
+    mutationFn: async () => {
+      const res = await fetch("/api/auth/logout", { method: "POST" });
+      if (!res.ok) {
+        throw new Error("Failed to sign out");
+      }
+    },
+    onSuccess: () => {
+      queryClient.clear();
+      queryClient.setQueryData<AuthStatus>(AUTH_STATUS_KEY, { setupRequired: false, user: null });
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+}
@@ -0,0 +1,56 @@
+import { useEffect } from "react";
+import { queryClient } from "@/lib/queryClient";
+import type { PrinterStatus } from "@shared/schema";
+
+/**
+ * Subscribes to the server's printer event stream and keeps the React Query
+ * cache current, so status queries update as the server-side poller sees
+ * changes instead of each tab polling on its own timer.
+ */
+export function usePrinterEvents() {
+  useEffect(() => {
+    const source = new EventSource("/api/events");
+    let hadError = false;
+
+    source.addEventListener("status", (event) => {
+      const { printerId, status } = JSON.parse((event as MessageEvent).data) as {
+        printerId: number;
+        status: PrinterStatus | null;
+      };
+
+      if (status) {
+        queryClient.setQueryData([`/api/printers/${printerId}/status`], status);
+      } else {
+        queryClient.invalidateQueries({ queryKey: ["/api/printers"] });
+      }
+    });
+
+    source.addEventListener("printer", () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/printers"] });
+    });
+
+    source.addEventListener("queue", (event) => {
+      const { printerId } = JSON.parse((event as MessageEvent).data) as { printerId: number };
+      queryClient.invalidateQueries({ queryKey: [`/api/printers/${printerId}/queue`] });
+    });
+
+    source.addEventListener("schedule", (event) => {
+      const { printerId } = JSON.parse((event as MessageEvent).data) as { printerId: number };
+      queryClient.invalidateQueries({ queryKey: [`/api/printers/${printerId}/schedules`] });
+    });
+
+    // EventSource reconnects by itself; resync anything we missed while it was down
+    source.addEventListener("open", () => {
+      if (hadError) {
+        hadError = false;
+        queryClient.invalidateQueries();
+      }
+    });
+
+    source.addEventListener("error", () => {
+      hadError = true;
+    });
+
+    return () => source.close();
+  }, []);
+}
@@ -1,4 +1,4 @@
-import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import { QueryClient, QueryCache, QueryFunction } from "@tanstack/react-query";
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
@@ -42,6 +42,15 @@ export const getQueryFn: <T>(options: {
   };
 
 export const queryClient = new QueryClient({
+  // A 401 means the session ended (signed out elsewhere, or the user was
+  // deleted); rechecking the auth status brings the login screen back
+  queryCache: new QueryCache({
+    onError: (error) => {
+      if (error.message.startsWith("401:")) {
+        queryClient.invalidateQueries({ queryKey: ["/api/auth/status"] });
+      }
+    },
+  }),
   defaultOptions: {
     queries: {
       queryFn: getQueryFn({ on401: "throw" }),
@@ -1,22 +1,29 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { useLocation } from "wouter";
+import { useLocation, useRoute } from "wouter";
 import { useEffect, useState, useCallback, memo } from "react";
 import PrinterStatus from "@/components/PrinterStatus";
 import TemperatureChart from "@/components/TemperatureChart";
 import JogControls from "@/components/JogControls";
+import JobControls from "@/components/JobControls";
 import FileList from "@/components/FileList";
+import PrintQueue from "@/components/PrintQueue";
 import WebcamFeed from "@/components/WebcamFeed";
+import FleetOverview from "@/components/FleetOverview";
+import UnassignedFiles from "@/components/UnassignedFiles";
 import { Separator } from "@/components/ui/separator";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet";
-import { Power, Settings, Fan, Lightbulb, PauseCircle, StopCircle, Plus, RefreshCw, Wifi, WifiOff, Trash2, LayoutGrid, Upload } from "lucide-react";
+import { Power, Settings, Fan, Lightbulb, Plus, RefreshCw, Wifi, WifiOff, Trash2, LayoutGrid, Upload, OctagonAlert, History, Radar, LayoutDashboard } from "lucide-react";
 import { toast } from "sonner";
-import type { Printer, PrinterStatus as PrinterStatusType } from "@shared/schema";
-import { DEFAULT_ENABLED_MODULES } from "@shared/schema";
+import type { PublicPrinter, PrinterStatus as PrinterStatusType, DiscoveredPrinter } from "@shared/schema";
+import { DEFAULT_ENABLED_MODULES, normalizeMachineState } from "@shared/schema";
+import { formatTimeRemaining } from "@/lib/printerStatus";
+import { useHasRole } from "@/hooks/use-auth";
 
 type ModuleConfig = {
   id: string;
@@ -31,6 +38,7 @@ const MODULE_REGISTRY: ModuleConfig[] = [
   { id: "jogControls", title: "Jog Controls", column: "right" },
   { id: "jobControls", title: "Job Controls", column: "right" },
   { id: "fileList", title: "File List", column: "right" },
+  { id: "queue", title: "Print Queue", column: "right" },
 ];
 
 const AddPrinterForm = memo(function AddPrinterForm({
@@ -39,13 +47,38 @@ const AddPrinterForm = memo(function AddPrinterForm({
   isPending,
   showCancel,
 }: {
-  onAdd: (name: string, ip: string) => void;
+  onAdd: (name: string, ip: string, discoveryName?: string) => void;
   onCancel?: () => void;
   isPending: boolean;
   showCancel: boolean;
 }) {
   const [name, setName] = useState("");
   const [ip, setIp] = useState("");
+  // Printers added from the scan results since the last scan
+  const [addedIps, setAddedIps] = useState<string[]>([]);
+
+  // Only runs when asked, as a scan takes a few seconds
+  const {
+    data: discovered,
+    isFetching: isScanning,
+    refetch: scan,
+  } = useQuery<DiscoveredPrinter[]>({
+    queryKey: ["/api/discover"],
+    enabled: false,
+  });
+
+  const handleScan = async () => {
+    setAddedIps([]);
+    const result = await scan();
+    if (result.error) {
+      toast.error("Network scan failed", { description: result.error.message });
+    }
+  };
+
+  const handleAddDiscovered = (printer: DiscoveredPrinter) => {
+    onAdd(printer.name, printer.ipAddress, printer.name);
+    setAddedIps((ips) => [...ips, printer.ipAddress]);
+  };
 
   const handleSubmit = () => {
     if (!name.trim() || !ip.trim()) {
@@ -105,14 +138,75 @@ const AddPrinterForm = memo(function AddPrinterForm({
         </div>
       </div>
       <p className="text-xs text-muted-foreground mt-2">
-        Find your printer's IP on the touchscreen: Settings → Network → Wi-Fi
+        Find your printer's IP on the touchscreen: Settings → Network → Wi-Fi, or scan the network for it
       </p>
+
+      <div className="mt-4 border-t border-border pt-4">
+        <div className="flex items-center justify-between">
+          <h4 className="text-xs font-medium text-muted-foreground">Printers on this network</h4>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={handleScan}
+            disabled={isScanning}
+            data-testid="button-scan-network"
+          >
+            <Radar className={`h-3.5 w-3.5 mr-2 ${isScanning ? "animate-pulse" : ""}`} />
+            {isScanning ? "Scanning..." : "Scan Network"}
+          </Button>
+        </div>
+
+        {discovered && !isScanning && discovered.length === 0 && (
+          <p className="text-xs text-muted-foreground mt-2">
+            No printers answered. Make sure the printer is on and connected to the same network.
+          </p>
+        )}
+
+        {discovered && discovered.length > 0 && (
+          <div className="mt-2 space-y-2">
+            {discovered.map((printer) => {
+              const alreadyAdded = printer.configuredPrinterId !== null || addedIps.includes(printer.ipAddress);
+              return (
+                <div
+                  key={printer.ipAddress}
+                  className="flex items-center justify-between gap-3 p-2 rounded-md bg-background/50"
+                  data-testid={`discovered-printer-${printer.ipAddress}`}
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">{printer.name}</p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {printer.ipAddress}
+                      {printer.model && ` · ${printer.model}`}
+                      {printer.status && ` · ${printer.status}`}
+                    </p>
+                  </div>
+                  {alreadyAdded ? (
+                    <span className="text-xs text-muted-foreground shrink-0">Added</span>
+                  ) : (
+                    <Button
+                      size="sm"
+                      onClick={() => handleAddDiscovered(printer)}
+                      disabled={isPending}
+                      data-testid={`button-add-discovered-${printer.ipAddress}`}
+                    >
+                      <Plus className="h-3.5 w-3.5 mr-1" />
+                      Add
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
     </div>
   );
 });
 
 export default function Dashboard() {
   const [, setLocation] = useLocation();
+  const [, params] = useRoute("/printers/:id");
+  const routePrinterId = params ? parseInt(params.id) : null;
   const queryClient = useQueryClient();
   const [autoReconnecting, setAutoReconnecting] = useState(false);
   const [lastReconnectAttempt, setLastReconnectAttempt] = useState<number>(0);
@@ -120,17 +214,26 @@ export default function Dashboard() {
   const [customizeOpen, setCustomizeOpen] = useState(false);
   const [isDragging, setIsDragging] = useState(false);
   const [dragCounter, setDragCounter] = useState(0);
+  // Viewers get a read-only dashboard; adding printers is for admins
+  const canOperate = useHasRole("operator");
+  const isAdmin = useHasRole("admin");
 
-  const { data: printers = [], isLoading: printersLoading } = useQuery<Printer[]>({
+  // Connection changes are pushed over /api/events, see usePrinterEvents
+  const { data: printers = [], isLoading: printersLoading } = useQuery<PublicPrinter[]>({
     queryKey: ["/api/printers"],
-    refetchInterval: 5000,
   });
 
-  // Use connected printer if available, otherwise use first printer in list
-  const activePrinter = printers.find((p) => p.isConnected);
-  const selectedPrinter = activePrinter || printers[0];
+  // /printers/:id shows that printer. The root shows the only printer when
+  // there's one, and the fleet overview when there are several
+  const selectedPrinter = routePrinterId !== null
+    ? printers.find((p) => p.id === routePrinterId)
+    : printers.length === 1 ? printers[0] : undefined;
+  const showFleet = routePrinterId === null && printers.length > 1;
+  const activePrinter = selectedPrinter?.isConnected ? selectedPrinter : undefined;
   const isConnected = !!activePrinter;
-  const disconnectedPrinter = printers.find((p) => !p.isConnected && p.token);
+  const disconnectedPrinter = selectedPrinter && !selectedPrinter.isConnected && selectedPrinter.hasToken
+    ? selectedPrinter
+    : undefined;
 
   const { data: preferencesData, isLoading: preferencesLoading } = useQuery<{ enabledModules: string[] }>({
     queryKey: [`/api/printers/${selectedPrinter?.id}/dashboard-preferences`],
@@ -187,7 +290,7 @@ export default function Dashboard() {
   });
 
   const addPrinterMutation = useMutation({
-    mutationFn: async (data: { name: string; ipAddress: string }) => {
+    mutationFn: async (data: { name: string; ipAddress: string; discoveryName?: string }) => {
       const res = await fetch("/api/printers", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
@@ -276,18 +379,40 @@ export default function Dashboard() {
     },
   });
 
+  const emergencyStopMutation = useMutation({
+    mutationFn: async (printerId: number) => {
+      const res = await fetch(`/api/printers/${printerId}/emergency-stop`, { method: "POST" });
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || "Emergency stop failed");
+      }
+      return res.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/printers"] });
+      if (data.failures?.length) {
+        toast.warning(`Emergency stop sent, but ${data.failures.length} command(s) failed. Check the machine!`, {
+          duration: 10000,
+        });
+      } else {
+        toast.error("Emergency stop sent", { duration: 10000 });
+      }
+    },
+    onError: (error: Error) => {
+      toast.error(`${error.message}. Use the machine's power switch!`, { duration: 15000 });
+    },
+  });
+
   const uploadFileMutation = useMutation({
     mutationFn: async ({ file, printerId }: { file: File; printerId: number }) => {
-      const fileContent = await file.text();
+      const formData = new FormData();
+      formData.append("displayName", file.name.replace(/\.[^/.]+$/, ""));
+      formData.append("source", "drag-drop");
+      formData.append("file", file);
+
       const res = await fetch(`/api/printers/${printerId}/uploaded-files`, {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          filename: file.name,
-          displayName: file.name.replace(/\.[^/.]+$/, ""),
-          fileContent,
-          source: "drag-drop",
-        }),
+        body: formData,
       });
       if (!res.ok) {
         const data = await res.json();
@@ -346,23 +471,24 @@ export default function Dashboard() {
       return;
     }
 
-    // Use connected printer, or fall back to first printer with token, or just first printer
-    const printer = printers.find((p) => p.isConnected) 
-      || printers.find((p) => p.token) 
-      || printers[0];
-    
-    if (!printer) {
-      toast.error("Add a printer in Settings first");
+    if (!canOperate) {
+      toast.error("Your role can't upload files");
+      return;
+    }
+
+    if (!selectedPrinter) {
+      toast.error(printers.length === 0 ? "Add a printer in Settings first" : "Open a printer to upload files to it");
       return;
     }
 
     gcodeFiles.forEach((file) => {
-      uploadFileMutation.mutate({ file, printerId: printer.id });
+      uploadFileMutation.mutate({ file, printerId: selectedPrinter.id });
     });
-  }, [printers, uploadFileMutation]);
+  }, [canOperate, printers, selectedPrinter, uploadFileMutation]);
 
   useEffect(() => {
     if (
+      canOperate &&
       pingResult?.online &&
       disconnectedPrinter &&
       !activePrinter &&
@@ -373,18 +499,19 @@ export default function Dashboard() {
       setLastReconnectAttempt(Date.now());
       autoReconnectMutation.mutate(disconnectedPrinter.id);
     }
-  }, [pingResult, disconnectedPrinter, activePrinter, autoReconnecting, lastReconnectAttempt]);
+  }, [canOperate, pingResult, disconnectedPrinter, activePrinter, autoReconnecting, lastReconnectAttempt]);
 
+  // Fetched once, then kept current by the server-side poller's event stream
   const { data: status } = useQuery<PrinterStatusType>({
     queryKey: [`/api/printers/${activePrinter?.id}/status`],
     enabled: !!activePrinter,
-    refetchInterval: 3000,
   });
 
-  const handleAddPrinter = useCallback((name: string, ip: string) => {
+  const handleAddPrinter = useCallback((name: string, ip: string, discoveryName?: string) => {
     addPrinterMutation.mutate({
       name,
       ipAddress: ip,
+      discoveryName,
     });
   }, [addPrinterMutation]);
 
@@ -402,22 +529,6 @@ export default function Dashboard() {
     );
   }
 
-  const formatTimeRemaining = (seconds: number | null): string => {
-    if (!seconds) return "Unknown";
-    const hours = Math.floor(seconds / 3600);
-    const minutes = Math.floor((seconds % 3600) / 60);
-    return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
-  };
-
-  const mapStatus = (state: unknown): "idle" | "printing" | "paused" | "error" => {
-    if (!state || typeof state !== "string") return "idle";
-    const normalized = state.toLowerCase();
-    if (normalized.includes("print") || normalized.includes("working")) return "printing";
-    if (normalized.includes("pause")) return "paused";
-    if (normalized.includes("error") || normalized.includes("fail")) return "error";
-    return "idle";
-  };
-
   const renderModule = (moduleId: string) => {
     if (!selectedPrinter || !enabledModules.includes(moduleId)) return null;
 
@@ -426,18 +537,19 @@ export default function Dashboard() {
         return (
           <PrinterStatus 
             key={moduleId}
-            status={isConnected ? mapStatus(status?.state || "idle") : "idle"} 
+            status={isConnected ? normalizeMachineState(status?.state || "idle") : "idle"} 
             progress={status?.progress || 0} 
             timeLeft={formatTimeRemaining(status?.timeRemaining || null)} 
             filename={status?.currentFile || (isConnected ? "No active job" : "Printer offline")} 
           />
         );
       case "webcam":
-        return <WebcamFeed key={moduleId} />;
+        return <WebcamFeed key={moduleId} printerId={selectedPrinter.id} printerName={selectedPrinter.name} />;
       case "temperature":
         return (
           <TemperatureChart 
             key={moduleId}
+            printerId={selectedPrinter.id}
             nozzleTemp={status?.temperature?.nozzle || 0}
             bedTemp={status?.temperature?.bed || 0}
             targetNozzle={status?.temperature?.targetNozzle || 0}
@@ -445,33 +557,20 @@ export default function Dashboard() {
           />
         );
       case "jogControls":
-        return <JogControls key={moduleId} printerId={selectedPrinter.id} disabled={!isConnected} />;
+        return <JogControls key={moduleId} printerId={selectedPrinter.id} disabled={!isConnected || !canOperate} />;
       case "jobControls":
         return (
-          <Card key={moduleId} className="p-4 bg-secondary/20 border-border">
-            <h3 className="text-xs font-medium uppercase tracking-widest text-muted-foreground mb-3">Active Job Controls</h3>
-            <div className="grid grid-cols-2 gap-3">
-              <Button
-                variant="outline"
-                className="w-full border-yellow-500/50 hover:bg-yellow-500/10 hover:text-yellow-500 text-yellow-500"
-                data-testid="button-pause"
-                disabled={!isConnected}
-              >
-                <PauseCircle className="h-4 w-4 mr-2" /> Pause
-              </Button>
-              <Button
-                variant="outline"
-                className="w-full border-red-500/50 hover:bg-red-500/10 hover:text-red-500 text-red-500"
-                data-testid="button-cancel"
-                disabled={!isConnected}
-              >
-                <StopCircle className="h-4 w-4 mr-2" /> Cancel
-              </Button>
-            </div>
-          </Card>
+          <JobControls
+            key={moduleId}
+            printerId={selectedPrinter.id}
+            status={isConnected ? normalizeMachineState(status?.state || "idle") : "idle"}
+            disabled={!isConnected || !canOperate}
+          />
         );
       case "fileList":
         return <FileList key={moduleId} printerId={selectedPrinter.id} />;
+      case "queue":
+        return <PrintQueue key={moduleId} printerId={selectedPrinter.id} disabled={!isConnected} />;
       default:
         return null;
     }
@@ -509,22 +608,94 @@ export default function Dashboard() {
               <div>
                 <h2 className="text-xl font-bold">Snapmaker Control</h2>
                 <p className="text-sm text-muted-foreground">
-                  Add your printer to get started
+                  {isAdmin ? "Add your printer to get started" : "No printers yet. Ask an admin to add one."}
                 </p>
               </div>
             </div>
 
             {/* Add Printer Form */}
-            <AddPrinterForm
-              onAdd={handleAddPrinter}
-              onCancel={handleCancelAddForm}
-              isPending={addPrinterMutation.isPending}
-              showCancel={false}
-            />
+            {isAdmin && (
+              <AddPrinterForm
+                onAdd={handleAddPrinter}
+                onCancel={handleCancelAddForm}
+                isPending={addPrinterMutation.isPending}
+                showCancel={false}
+              />
+            )}
+          </Card>
+        )}
+
+        {/* Fleet View - Show at the root when several printers are configured */}
+        {showFleet && (
+          <>
+            <header className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4 mb-8">
+              <div>
+                <h1 className="text-3xl font-bold tracking-tight text-foreground">Printers</h1>
+                <p className="text-muted-foreground mt-1" data-testid="text-fleet-summary">
+                  {printers.filter((p) => p.isConnected).length} of {printers.length} connected
+                </p>
+              </div>
+
+              <div className="flex gap-3">
+                {isAdmin && (
+                  <Button
+                    variant="outline"
+                    onClick={() => setShowAddForm(true)}
+                    data-testid="button-show-add-printer"
+                  >
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add Printer
+                  </Button>
+                )}
+                <Button
+                  variant="outline"
+                  size="icon"
+                  className="text-muted-foreground hover:text-foreground"
+                  onClick={() => setLocation("/history")}
+                  data-testid="button-history"
+                >
+                  <History className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="outline"
+                  size="icon"
+                  className="text-muted-foreground hover:text-foreground"
+                  onClick={() => setLocation("/settings")}
+                  data-testid="button-settings"
+                >
+                  <Settings className="h-4 w-4" />
+                </Button>
+              </div>
+            </header>
+
+            {showAddForm && (
+              <AddPrinterForm
+                onAdd={handleAddPrinter}
+                onCancel={handleCancelAddForm}
+                isPending={addPrinterMutation.isPending}
+                showCancel
+              />
+            )}
+
+            <UnassignedFiles printers={printers} />
+
+            <FleetOverview printers={printers} onSelect={(id) => setLocation(`/printers/${id}`)} />
+          </>
+        )}
+
+        {/* A printer link that no longer matches a configured printer */}
+        {routePrinterId !== null && !selectedPrinter && printers.length > 0 && (
+          <Card className="p-8 bg-secondary/20 border-border text-center" data-testid="card-printer-not-found">
+            <h2 className="text-lg font-semibold mb-2">Printer not found</h2>
+            <p className="text-muted-foreground mb-4">It may have been removed in Settings.</p>
+            <Button onClick={() => setLocation("/")} data-testid="button-back-to-fleet">
+              <LayoutDashboard className="h-4 w-4 mr-2" />
+              All Printers
+            </Button>
           </Card>
         )}
 
-        {/* Dashboard View - Show when any printer is configured */}
+        {/* Dashboard View - Show the selected printer */}
         {selectedPrinter && (
           <>
             {/* Header */}
@@ -541,7 +712,36 @@ export default function Dashboard() {
                 </p>
               </div>
               
-              <div className="flex gap-3">
+              <div className="flex flex-wrap gap-3">
+                {printers.length > 1 && (
+                  <>
+                    <Select
+                      value={String(selectedPrinter.id)}
+                      onValueChange={(value) => setLocation(`/printers/${value}`)}
+                    >
+                      <SelectTrigger className="w-48" data-testid="select-printer">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {printers.map((printer) => (
+                          <SelectItem key={printer.id} value={String(printer.id)}>
+                            {printer.name}
+                            {!printer.isConnected && " (offline)"}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      className="text-muted-foreground hover:text-foreground"
+                      onClick={() => setLocation("/")}
+                      data-testid="button-fleet"
+                    >
+                      <LayoutDashboard className="h-4 w-4" />
+                    </Button>
+                  </>
+                )}
                 <Button
                   variant="outline"
                   size="icon"
@@ -590,7 +790,7 @@ export default function Dashboard() {
                             <Switch
                               checked={enabledModules.includes(module.id)}
                               onCheckedChange={() => toggleModule(module.id)}
-                              disabled={updatePreferencesMutation.isPending}
+                              disabled={updatePreferencesMutation.isPending || !canOperate}
                               data-testid={`switch-module-${module.id}`}
                             />
                           </div>
@@ -605,7 +805,7 @@ export default function Dashboard() {
                     size="icon"
                     className="text-muted-foreground hover:text-foreground"
                     onClick={() => disconnectMutation.mutate(selectedPrinter.id)}
-                    disabled={disconnectMutation.isPending}
+                    disabled={disconnectMutation.isPending || !canOperate}
                     data-testid="button-disconnect-header"
                   >
                     <WifiOff className="h-4 w-4" />
@@ -616,12 +816,21 @@ export default function Dashboard() {
                     size="icon"
                     className="text-muted-foreground hover:text-foreground"
                     onClick={() => connectMutation.mutate(selectedPrinter.id)}
-                    disabled={connectMutation.isPending}
+                    disabled={connectMutation.isPending || !canOperate}
                     data-testid="button-connect-header"
                   >
                     <Wifi className="h-4 w-4" />
                   </Button>
                 )}
+                <Button
+                  variant="outline"
+                  size="icon"
+                  className="text-muted-foreground hover:text-foreground"
+                  onClick={() => setLocation("/history")}
+                  data-testid="button-history"
+                >
+                  <History className="h-4 w-4" />
+                </Button>
                 <Button
                   variant="outline"
                   size="icon"
@@ -635,6 +844,8 @@ export default function Dashboard() {
                 <Button
                   variant="destructive"
                   className="shadow-[0_0_20px_rgba(239,68,68,0.3)]"
+                  onClick={() => emergencyStopMutation.mutate(selectedPrinter.id)}
+                  disabled={emergencyStopMutation.isPending || !canOperate}
                   data-testid="button-estop"
                 >
                   <Power className="h-4 w-4 mr-2" /> E-STOP
@@ -642,6 +853,24 @@ export default function Dashboard() {
               </div>
             </header>
 
+            {selectedPrinter.emergencyStoppedAt && (
+              <div
+                className="flex items-center gap-3 p-4 bg-red-500/15 border-2 border-red-500 rounded-lg text-red-500"
+                data-testid="banner-estopped"
+              >
+                <OctagonAlert className="h-6 w-6 flex-shrink-0" />
+                <div className="flex-1">
+                  <p className="font-bold tracking-widest">E-STOPPED</p>
+                  <p className="text-sm text-red-400">
+                    Emergency stop triggered at {new Date(selectedPrinter.emergencyStoppedAt).toLocaleTimeString()}.
+                    Check the machine, then home all axes to clear this warning.
+                  </p>
+                </div>
+              </div>
+            )}
+
+            <UnassignedFiles printers={printers} />
+
             {/* Main Grid - Dynamic based on enabled modules */}
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
               
@@ -664,6 +893,7 @@ export default function Dashboard() {
                   {renderModule("jogControls")}
                   {renderModule("jobControls")}
                   {renderModule("fileList")}
+                  {renderModule("queue")}
                 </div>
               )}
 
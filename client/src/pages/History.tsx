@@ -0,0 +1,250 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { ArrowLeft, Download, FileCode, Film, History as HistoryIcon, RefreshCw, Trash2 } from "lucide-react";
+import { useHasRole } from "@/hooks/use-auth";
+import type { PublicPrinter, PrintJobWithThumbnail } from "@shared/schema";
+
+type SerializedPrintJob = Omit<PrintJobWithThumbnail, "startedAt" | "completedAt"> & {
+  startedAt: string | null;
+  completedAt: string | null;
+};
+
+const formatDuration = (job: SerializedPrintJob): string => {
+  if (!job.startedAt) return "Unknown";
+  const end = job.completedAt ? new Date(job.completedAt).getTime() : Date.now();
+  const totalMinutes = Math.max(0, Math.round((end - new Date(job.startedAt).getTime()) / 60000));
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+};
+
+const formatDate = (dateString: string | null) => {
+  if (!dateString) return "Unknown";
+  return new Date(dateString).toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+};
+
+const getOutcomeStyle = (status: string) => {
+  switch (status) {
+    case "completed": return "bg-green-500 hover:bg-green-600";
+    case "printing": return "bg-primary hover:bg-primary/90";
+    case "paused": return "bg-yellow-500 hover:bg-yellow-600";
+    case "cancelled": return "bg-secondary text-secondary-foreground hover:bg-secondary/80";
+    case "failed": return "bg-destructive hover:bg-destructive/90";
+    default: return "";
+  }
+};
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+const getSourceLabel = (source: string | null) => {
+  switch (source) {
+    case "app": return "Dashboard";
+    case "luban": return "Luban";
+    case "slicer": return "Slicer";
+    case "moonraker": return "Moonraker";
+    case "detected": return "Printer";
+    default: return source || "Unknown";
+  }
+};
+
+export default function History() {
+  const [, setLocation] = useLocation();
+  const [chosenPrinterId, setChosenPrinterId] = useState<number | null>(null);
+
+  const { data: printers = [] } = useQuery<PublicPrinter[]>({
+    queryKey: ["/api/printers"],
+  });
+
+  const printerId = chosenPrinterId ?? (printers.find((p) => p.isConnected) || printers[0])?.id ?? null;
+
+  const { data: jobs = [], isLoading, error, refetch, isFetching } = useQuery<SerializedPrintJob[]>({
+    queryKey: [`/api/printers/${printerId}/jobs`],
+    enabled: !!printerId,
+    refetchInterval: 30000,
+  });
+
+  const queryClient = useQueryClient();
+  const canOperate = useHasRole("operator");
+
+  const deleteTimelapseMutation = useMutation({
+    mutationFn: async (timelapseId: number) => {
+      const res = await fetch(`/api/timelapses/${timelapseId}`, { method: "DELETE" });
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || "Failed to delete timelapse");
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/printers/${printerId}/jobs`] });
+      toast.success("Timelapse deleted");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="max-w-5xl mx-auto space-y-6">
+        <header className="flex flex-col md:flex-row md:items-center gap-4 justify-between">
+          <div className="flex items-center gap-4">
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => setLocation("/")}
+              data-testid="button-back"
+            >
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+            <div>
+              <h1 className="text-3xl font-bold tracking-tight">Print History</h1>
+              <p className="text-muted-foreground mt-1">
+                Every job started from the dashboard, Luban or the printer itself
+              </p>
+            </div>
+          </div>
+          <div className="flex gap-2">
+            {printers.length > 1 && (
+              <Select
+                value={printerId ? String(printerId) : undefined}
+                onValueChange={(value) => setChosenPrinterId(parseInt(value))}
+              >
+                <SelectTrigger className="w-48" data-testid="select-history-printer">
+                  <SelectValue placeholder="Select printer" />
+                </SelectTrigger>
+                <SelectContent>
+                  {printers.map((printer) => (
+                    <SelectItem key={printer.id} value={String(printer.id)}>
+                      {printer.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => refetch()}
+              disabled={!printerId || isFetching}
+              data-testid="button-refresh-history"
+            >
+              <RefreshCw className={`h-4 w-4 ${isFetching ? "animate-spin" : ""}`} />
+            </Button>
+          </div>
+        </header>
+
+        <Card className="p-4 bg-secondary/20 border-border">
+          {!printerId ? (
+            <p className="text-muted-foreground text-center py-8">
+              Add a printer to start recording print history.
+            </p>
+          ) : isLoading ? (
+            <p className="text-muted-foreground text-center py-8">Loading...</p>
+          ) : error ? (
+            <p className="text-destructive text-center py-8" data-testid="text-history-error">
+              Failed to load print history
+            </p>
+          ) : jobs.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground" data-testid="text-no-history">
+              <HistoryIcon className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>No print jobs recorded yet.</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow className="hover:bg-transparent border-border">
+                  <TableHead className="w-16"></TableHead>
+                  <TableHead>File</TableHead>
+                  <TableHead>Started</TableHead>
+                  <TableHead>Duration</TableHead>
+                  <TableHead>Timelapse</TableHead>
+                  <TableHead className="text-right">Outcome</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {jobs.map((job) => (
+                  <TableRow key={job.id} className="border-border" data-testid={`row-job-${job.id}`}>
+                    <TableCell>
+                      {job.thumbnail ? (
+                        <img
+                          src={job.thumbnail}
+                          alt={`Preview of ${job.filename}`}
+                          className="h-12 w-12 object-contain rounded bg-secondary/30"
+                        />
+                      ) : (
+                        <div className="h-12 w-12 flex items-center justify-center rounded bg-secondary/30">
+                          <FileCode className="h-5 w-5 text-muted-foreground" />
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div className="font-medium text-sm truncate max-w-xs" data-testid={`text-job-file-${job.id}`}>
+                        {job.filename}
+                      </div>
+                      <div className="text-xs text-muted-foreground">{getSourceLabel(job.source)}</div>
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">{formatDate(job.startedAt)}</TableCell>
+                    <TableCell className="font-mono text-sm">{formatDuration(job)}</TableCell>
+                    <TableCell data-testid={`cell-job-timelapse-${job.id}`}>
+                      {!job.timelapse ? (
+                        <span className="text-xs text-muted-foreground">—</span>
+                      ) : job.timelapse.status === "capturing" ? (
+                        <span className="flex items-center gap-1 text-xs text-primary">
+                          <Film className="h-3 w-3 animate-pulse" /> Recording · {job.timelapse.frameCount} frames
+                        </span>
+                      ) : job.timelapse.status === "ready" ? (
+                        <div className="flex items-center gap-1">
+                          <Button variant="ghost" size="sm" className="h-7 px-2" asChild>
+                            <a href={`/api/timelapses/${job.timelapse.id}/download`} download data-testid={`link-timelapse-${job.id}`}>
+                              <Download className="h-3.5 w-3.5 mr-1" />
+                              <span className="text-xs">{job.timelapse.frameCount} frames · {formatSize(job.timelapse.sizeBytes)}</span>
+                            </a>
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-7 w-7 text-muted-foreground hover:text-destructive"
+                            onClick={() => deleteTimelapseMutation.mutate(job.timelapse!.id)}
+                            disabled={!canOperate || deleteTimelapseMutation.isPending}
+                            title="Delete timelapse"
+                            data-testid={`button-delete-timelapse-${job.id}`}
+                          >
+                            <Trash2 className="h-3.5 w-3.5" />
+                          </Button>
+                        </div>
+                      ) : (
+                        <span className="text-xs text-destructive">Failed</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Badge
+                        className={`${getOutcomeStyle(job.status)} uppercase border-none font-mono`}
+                        data-testid={`badge-job-status-${job.id}`}
+                      >
+                        {job.status}
+                        {job.status !== "completed" && ` ${job.progress ?? 0}%`}
+                      </Badge>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toast } from "sonner";
+import { LogIn, ShieldCheck } from "lucide-react";
+import { queryClient } from "@/lib/queryClient";
+import { AUTH_STATUS_KEY, type AuthStatus } from "@/hooks/use-auth";
+import type { PublicUser } from "@shared/schema";
+
+/**
+ * Sign-in screen. On a fresh install it creates the first admin account
+ * instead.
+ */
+export default function Login({ setupRequired }: { setupRequired: boolean }) {
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+
+  const signInMutation = useMutation({
+    mutationFn: async () => {
+      const res = await fetch(setupRequired ? "/api/auth/setup" : "/api/auth/login", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ username, password }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to sign in");
+      }
+      return data as PublicUser;
+    },
+    onSuccess: (user) => {
+      setPassword("");
+      setConfirmPassword("");
+      queryClient.setQueryData<AuthStatus>(AUTH_STATUS_KEY, { setupRequired: false, user });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const passwordsMatch = !setupRequired || password === confirmPassword;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passwordsMatch) {
+      toast.error("Passwords don't match");
+      return;
+    }
+    signInMutation.mutate();
+  };
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-background p-6">
+      <Card className="w-full max-w-sm p-6 bg-secondary/20 border-border">
+        <div className="flex items-center gap-2 mb-2">
+          {setupRequired ? (
+            <ShieldCheck className="h-5 w-5 text-primary" />
+          ) : (
+            <LogIn className="h-5 w-5 text-primary" />
+          )}
+          <h1 className="text-lg font-semibold">{setupRequired ? "Create Admin Account" : "Sign In"}</h1>
+        </div>
+        <p className="text-sm text-muted-foreground mb-6">
+          {setupRequired
+            ? "Welcome! Create the first account before the printers can be controlled from this dashboard."
+            : "Sign in to control your printers."}
+        </p>
+
+        <form onSubmit={handleSubmit} className="grid gap-4">
+          <div className="grid gap-2">
+            <Label htmlFor="login-username">Username</Label>
+            <Input
+              id="login-username"
+              autoComplete="username"
+              autoFocus
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              data-testid="input-login-username"
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="login-password">Password</Label>
+            <Input
+              id="login-password"
+              type="password"
+              autoComplete={setupRequired ? "new-password" : "current-password"}
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              data-testid="input-login-password"
+            />
+            {setupRequired && (
+              <p className="text-xs text-muted-foreground">At least 8 characters</p>
+            )}
+          </div>
+          {setupRequired && (
+            <div className="grid gap-2">
+              <Label htmlFor="login-confirm-password">Confirm Password</Label>
+              <Input
+                id="login-confirm-password"
+                type="password"
+                autoComplete="new-password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                data-testid="input-login-confirm-password"
+              />
+            </div>
+          )}
+          <Button
+            type="submit"
+            disabled={signInMutation.isPending || !username.trim() || !password}
+            data-testid="button-login"
+          >
+            {setupRequired ? "Create Account" : "Sign In"}
+          </Button>
+        </form>
+      </Card>
+    </div>
+  );
+}
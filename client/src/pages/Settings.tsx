@@ -1,16 +1,24 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { toast } from "sonner";
-import { Plus, Trash2, Wifi, WifiOff, ArrowLeft, FolderOpen, Copy, CheckCircle, XCircle, ExternalLink, Monitor, Radio } from "lucide-react";
+import { Plus, Trash2, Wifi, WifiOff, ArrowLeft, FolderOpen, Copy, CheckCircle, XCircle, ExternalLink, Monitor, Radio, Camera, Film, Star, Route, ArrowUp, ArrowDown, KeyRound, RefreshCw, Plug, User as UserIcon, Users, LogOut, ScrollText, Bell } from "lucide-react";
 import { useLocation } from "wouter";
-import type { Printer } from "@shared/schema";
+import { useAuth, useHasRole, useLogout, AUTH_STATUS_KEY } from "@/hooks/use-auth";
+import AuditLog from "@/components/AuditLog";
+import NotificationSettings from "@/components/NotificationSettings";
+import type { PublicPrinter, CameraConfig, TimelapseSettings, TimelapseRetention, UploadRule, PublicUser, UserRole, TokenEncryptionStatus } from "@shared/schema";
 
 interface SettingsData {
+  defaultPrinterId: number | null;
   watchFolder: {
     path: string | null;
     active: boolean;
@@ -26,6 +34,975 @@ interface SettingsData {
     targetPrinterIp: string | null;
     hasToken: boolean;
   };
+  moonraker: {
+    enabled: boolean;
+    port: number;
+    corsDomains: string[];
+  };
+  // Only sent to admins
+  tokenEncryption: TokenEncryptionStatus | null;
+}
+
+type TimelapseRetentionData = TimelapseRetention & {
+  usage: { count: number; totalBytes: number };
+};
+
+function TimelapseSettingsRow({ printerId }: { printerId: number }) {
+  const queryClient = useQueryClient();
+  const { data } = useQuery<{ timelapse: TimelapseSettings }>({
+    queryKey: [`/api/printers/${printerId}/timelapse`],
+  });
+
+  const [enabled, setEnabled] = useState(true);
+  const [mode, setMode] = useState<TimelapseSettings["mode"]>("interval");
+  const [intervalSeconds, setIntervalSeconds] = useState("30");
+
+  useEffect(() => {
+    if (!data) return;
+    setEnabled(data.timelapse.enabled);
+    setMode(data.timelapse.mode);
+    setIntervalSeconds(String(data.timelapse.intervalSeconds));
+  }, [data]);
+
+  const timelapseMutation = useMutation({
+    mutationFn: async (timelapse: TimelapseSettings) => {
+      const res = await fetch(`/api/printers/${printerId}/timelapse`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ timelapse }),
+      });
+      if (!res.ok) {
+        const errData = await res.json();
+        throw new Error(errData.error || "Failed to save timelapse settings");
+      }
+      return res.json();
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/printers/${printerId}/timelapse`] });
+      toast.success(result.message);
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const save = (next: Partial<TimelapseSettings>) => {
+    timelapseMutation.mutate({
+      enabled,
+      mode,
+      intervalSeconds: parseInt(intervalSeconds) || 30,
+      ...next,
+    });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 pt-3 border-t border-border/50">
+      <div className="flex items-center gap-2">
+        <Switch
+          checked={enabled}
+          onCheckedChange={(checked) => {
+            setEnabled(checked);
+            save({ enabled: checked });
+          }}
+          data-testid={`switch-timelapse-${printerId}`}
+        />
+        <Label className="text-sm">Record timelapses</Label>
+      </div>
+      {enabled && (
+        <>
+          <Select value={mode} onValueChange={(value) => setMode(value as TimelapseSettings["mode"])}>
+            <SelectTrigger className="w-40 h-8" data-testid={`select-timelapse-mode-${printerId}`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="interval">Every N seconds</SelectItem>
+              <SelectItem value="layer">Every layer</SelectItem>
+            </SelectContent>
+          </Select>
+          <div className="flex items-center gap-2">
+            <Input
+              type="number"
+              min="5"
+              value={intervalSeconds}
+              onChange={(e) => setIntervalSeconds(e.target.value)}
+              className="w-20 h-8"
+              data-testid={`input-timelapse-interval-${printerId}`}
+            />
+            <span className="text-xs text-muted-foreground">
+              {mode === "layer" ? "sec if layers can't be detected" : "sec"}
+            </span>
+          </div>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => save({})}
+            disabled={timelapseMutation.isPending}
+            data-testid={`button-save-timelapse-${printerId}`}
+          >
+            Save
+          </Button>
+        </>
+      )}
+    </div>
+  );
+}
+
+function TimelapseRetentionSettings() {
+  const queryClient = useQueryClient();
+  const { data } = useQuery<TimelapseRetentionData>({
+    queryKey: ["/api/settings/timelapse"],
+  });
+
+  const [maxCount, setMaxCount] = useState("");
+  const [maxStorageMb, setMaxStorageMb] = useState("");
+
+  useEffect(() => {
+    if (!data) return;
+    setMaxCount(String(data.maxCount));
+    setMaxStorageMb(String(data.maxStorageMb));
+  }, [data]);
+
+  const retentionMutation = useMutation({
+    mutationFn: async (retention: TimelapseRetention) => {
+      const res = await fetch("/api/settings/timelapse", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(retention),
+      });
+      if (!res.ok) {
+        const errData = await res.json();
+        throw new Error(errData.error || "Failed to save retention settings");
+      }
+      return res.json();
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings/timelapse"] });
+      toast.success(result.message);
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+
+  return (
+    <div className="p-4 bg-secondary/30 rounded-lg space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="font-medium text-sm flex items-center gap-2">
+          <Film className="h-4 w-4" /> Timelapse storage
+        </h3>
+        {data && (
+          <span className="text-xs text-muted-foreground" data-testid="text-timelapse-usage">
+            {data.usage.count} saved · {(data.usage.totalBytes / 1024 / 1024).toFixed(1)} MB
+          </span>
+        )}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        The oldest timelapses are deleted once either limit is reached.
+      </p>
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="timelapse-max-count" className="text-xs">Keep at most</Label>
+          <div className="flex items-center gap-2">
+            <Input
+              id="timelapse-max-count"
+              type="number"
+              min="1"
+              value={maxCount}
+              onChange={(e) => setMaxCount(e.target.value)}
+              className="w-24"
+              data-testid="input-timelapse-max-count"
+            />
+            <span className="text-xs text-muted-foreground">timelapses</span>
+          </div>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="timelapse-max-storage" className="text-xs">Use at most</Label>
+          <div className="flex items-center gap-2">
+            <Input
+              id="timelapse-max-storage"
+              type="number"
+              min="50"
+              value={maxStorageMb}
+              onChange={(e) => setMaxStorageMb(e.target.value)}
+              className="w-24"
+              data-testid="input-timelapse-max-storage"
+            />
+            <span className="text-xs text-muted-foreground">MB</span>
+          </div>
+        </div>
+        <Button
+          size="sm"
+          onClick={() => retentionMutation.mutate({
+            maxCount: parseInt(maxCount) || 0,
+            maxStorageMb: parseInt(maxStorageMb) || 0,
+          })}
+          disabled={retentionMutation.isPending}
+          data-testid="button-save-timelapse-retention"
+        >
+          Save Limits
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function AccountSettings({ user }: { user: PublicUser }) {
+  const logoutMutation = useLogout();
+  const [currentPassword, setCurrentPassword] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+
+  const passwordMutation = useMutation({
+    mutationFn: async () => {
+      const res = await fetch("/api/auth/password", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ currentPassword, newPassword }),
+      });
+      if (!res.ok) {
+        const errData = await res.json();
+        throw new Error(errData.error || "Failed to change password");
+      }
+      return res.json();
+    },
+    onSuccess: (result) => {
+      toast.success(result.message);
+      setCurrentPassword("");
+      setNewPassword("");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-sm">
+          Signed in as <span className="font-medium" data-testid="text-current-user">{user.username}</span>
+        </p>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => logoutMutation.mutate()}
+          disabled={logoutMutation.isPending}
+          data-testid="button-logout"
+        >
+          <LogOut className="h-4 w-4 mr-2" />
+          Sign Out
+        </Button>
+      </div>
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="current-password" className="text-xs">Current Password</Label>
+          <Input
+            id="current-password"
+            type="password"
+            autoComplete="current-password"
+            value={currentPassword}
+            onChange={(e) => setCurrentPassword(e.target.value)}
+            className="w-48"
+            data-testid="input-current-password"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="new-password" className="text-xs">New Password</Label>
+          <Input
+            id="new-password"
+            type="password"
+            autoComplete="new-password"
+            value={newPassword}
+            onChange={(e) => setNewPassword(e.target.value)}
+            className="w-48"
+            data-testid="input-new-password"
+          />
+        </div>
+        <Button
+          variant="outline"
+          onClick={() => passwordMutation.mutate()}
+          disabled={passwordMutation.isPending || !currentPassword || !newPassword}
+          data-testid="button-change-password"
+        >
+          Change Password
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+const ROLE_LABELS: Record<UserRole, string> = {
+  viewer: "Viewer",
+  operator: "Operator",
+  admin: "Admin",
+};
+
+function UserManagement({ currentUser }: { currentUser: PublicUser }) {
+  const queryClient = useQueryClient();
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [role, setRole] = useState<UserRole>("operator");
+
+  const { data: users = [] } = useQuery<PublicUser[]>({
+    queryKey: ["/api/users"],
+  });
+
+  const addUserMutation = useMutation({
+    mutationFn: async () => {
+      const res = await fetch("/api/users", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ username, password, role }),
+      });
+      if (!res.ok) {
+        const errData = await res.json();
+        throw new Error(errData.error || "Failed to add user");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast.success("User added");
+      setUsername("");
+      setPassword("");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const roleMutation = useMutation({
+    mutationFn: async ({ id, role }: { id: number; role: UserRole }) => {
+      const res = await fetch(`/api/users/${id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ role }),
+      });
+      if (!res.ok) {
+        const errData = await res.json();
+        throw new Error(errData.error || "Failed to change role");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast.success("Role changed");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const deleteUserMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await fetch(`/api/users/${id}`, { method: "DELETE" });
+      if (!res.ok) {
+        const errData = await res.json();
+        throw new Error(errData.error || "Failed to delete user");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast.success("User deleted");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        {users.map((user) => (
+          <div
+            key={user.id}
+            className="flex items-center justify-between gap-3 p-3 bg-background/50 rounded-lg border border-border"
+            data-testid={`row-user-${user.id}`}
+          >
+            <div className="flex items-center gap-2">
+              <UserIcon className="h-4 w-4 text-muted-foreground" />
+              <span className="text-sm font-medium">{user.username}</span>
+              {user.id === currentUser.id && <span className="text-xs text-muted-foreground">(you)</span>}
+              {user.hasApiKey && <KeyRound className="h-3 w-3 text-muted-foreground" aria-label="Has an API key" />}
+            </div>
+            {user.id === currentUser.id ? (
+              <span className="text-xs text-muted-foreground">{ROLE_LABELS[user.role]}</span>
+            ) : (
+              <div className="flex items-center gap-2">
+                <Select
+                  value={user.role}
+                  onValueChange={(value) => roleMutation.mutate({ id: user.id, role: value as UserRole })}
+                  disabled={roleMutation.isPending}
+                >
+                  <SelectTrigger className="w-32" data-testid={`select-user-role-${user.id}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(ROLE_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="text-muted-foreground hover:text-destructive"
+                  onClick={() => deleteUserMutation.mutate(user.id)}
+                  disabled={deleteUserMutation.isPending}
+                  data-testid={`button-delete-user-${user.id}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="new-user-name" className="text-xs">Username</Label>
+          <Input
+            id="new-user-name"
+            autoComplete="off"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            className="w-48"
+            data-testid="input-new-user-name"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="new-user-password" className="text-xs">Password</Label>
+          <Input
+            id="new-user-password"
+            type="password"
+            autoComplete="new-password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            className="w-48"
+            data-testid="input-new-user-password"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Role</Label>
+          <Select value={role} onValueChange={(value) => setRole(value as UserRole)}>
+            <SelectTrigger className="w-32" data-testid="select-new-user-role">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(ROLE_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button
+          onClick={() => addUserMutation.mutate()}
+          disabled={addUserMutation.isPending || !username.trim() || !password}
+          data-testid="button-add-user"
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add User
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function TokenEncryptionNotice({ status }: { status: TokenEncryptionStatus }) {
+  if (!status.enabled) {
+    return (
+      <div
+        className="flex items-start gap-3 p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-lg"
+        data-testid="status-token-encryption"
+      >
+        <XCircle className="h-5 w-5 text-yellow-500 shrink-0" />
+        <p className="text-xs text-muted-foreground">
+          Printer tokens are stored unencrypted: the server couldn't create a key file. Set{" "}
+          <code>TOKEN_ENCRYPTION_KEY</code> and restart to encrypt them.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-start gap-3 p-3 bg-green-500/10 border border-green-500/30 rounded-lg" data-testid="status-token-encryption">
+      <CheckCircle className="h-5 w-5 text-green-500 shrink-0" />
+      <p className="text-xs text-muted-foreground">
+        {status.keySource === "file" ? (
+          <>
+            Printer tokens are encrypted with a key generated in <code>{status.keyFile}</code>. Back it up with the
+            database, or tokens will need pairing again.
+          </>
+        ) : (
+          <>Printer tokens are encrypted with <code>TOKEN_ENCRYPTION_KEY</code>.</>
+        )}
+      </p>
+    </div>
+  );
+}
+
+function MoonrakerSettings({ moonraker }: { moonraker: SettingsData["moonraker"] }) {
+  const queryClient = useQueryClient();
+  const [port, setPort] = useState(String(moonraker.port));
+  const savedCorsDomains = moonraker.corsDomains.join("\n");
+  const [corsDomains, setCorsDomains] = useState(savedCorsDomains);
+
+  useEffect(() => {
+    setPort(String(moonraker.port));
+  }, [moonraker.port]);
+
+  useEffect(() => {
+    setCorsDomains(savedCorsDomains);
+  }, [savedCorsDomains]);
+
+  const moonrakerMutation = useMutation({
+    mutationFn: async (data: { enabled: boolean; port?: number; corsDomains?: string[] }) => {
+      const res = await fetch("/api/settings/moonraker", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+      });
+      if (!res.ok) {
+        const errData = await res.json();
+        throw new Error(errData.error || "Failed to update Moonraker API");
+      }
+      return res.json();
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      toast.success(result.message);
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const parsedCorsDomains = corsDomains.split(/[\s,]+/).filter(Boolean);
+  const corsDirty = parsedCorsDomains.join("\n") !== savedCorsDomains;
+
+  const corsSettings = (
+    <div className="space-y-1">
+      <Label htmlFor="moonraker-cors" className="text-xs">Browser clients (CORS domains)</Label>
+      <Textarea
+        id="moonraker-cors"
+        placeholder={"http://mainsail.local\n*.lan"}
+        value={corsDomains}
+        onChange={(e) => setCorsDomains(e.target.value)}
+        className="max-w-md font-mono text-xs"
+        rows={3}
+        data-testid="input-moonraker-cors"
+      />
+      <p className="text-xs text-muted-foreground">
+        Mainsail and Fluidd run in the browser and can only reach the API from the addresses listed here, one per
+        line. <code>*</code> matches anything, and a domain without <code>http://</code> allows both http and https.
+      </p>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() =>
+          moonrakerMutation.mutate({
+            enabled: moonraker.enabled,
+            port: moonraker.enabled ? moonraker.port : undefined,
+            corsDomains: parsedCorsDomains,
+          })
+        }
+        disabled={!corsDirty || moonrakerMutation.isPending}
+        data-testid="button-save-moonraker-cors"
+      >
+        Save CORS Domains
+      </Button>
+    </div>
+  );
+
+  if (moonraker.enabled) {
+    return (
+      <div className="space-y-4">
+        <div className="flex items-center gap-3 p-3 bg-green-500/10 border border-green-500/30 rounded-lg">
+          <CheckCircle className="h-5 w-5 text-green-500" />
+          <div className="flex-1">
+            <p className="text-sm font-medium">Moonraker API Active</p>
+            <p className="text-xs text-muted-foreground">
+              Add this Pi's address with port {moonraker.port} as a Moonraker printer in Mainsail, Fluidd or OrcaSlicer.
+            </p>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => moonrakerMutation.mutate({ enabled: false })}
+            disabled={moonrakerMutation.isPending}
+            data-testid="button-disable-moonraker"
+          >
+            Disable
+          </Button>
+        </div>
+        {corsSettings}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="moonraker-port" className="text-xs">Port</Label>
+          <Input
+            id="moonraker-port"
+            type="number"
+            min="1024"
+            max="65535"
+            value={port}
+            onChange={(e) => setPort(e.target.value)}
+            className="w-28"
+            data-testid="input-moonraker-port"
+          />
+        </div>
+        <Button
+          onClick={() => moonrakerMutation.mutate({ enabled: true, port: parseInt(port) || undefined })}
+          disabled={moonrakerMutation.isPending}
+          data-testid="button-enable-moonraker"
+        >
+          <Plug className="h-4 w-4 mr-2" />
+          Enable Moonraker API
+        </Button>
+      </div>
+      {corsSettings}
+    </div>
+  );
+}
+
+type UploadRuleDraft = {
+  key: number;
+  printerId: string;
+  toolType: string;
+  filenamePattern: string;
+  folder: string;
+  tag: string;
+};
+
+let nextRuleKey = 1;
+
+function toRuleDraft(rule?: UploadRule): UploadRuleDraft {
+  return {
+    key: nextRuleKey++,
+    printerId: rule ? String(rule.printerId) : "",
+    toolType: rule?.toolType ?? "any",
+    filenamePattern: rule?.filenamePattern ?? "",
+    folder: rule?.folder ?? "",
+    tag: rule?.tag ?? "",
+  };
+}
+
+function UploadRulesSettings({ printers }: { printers: PublicPrinter[] }) {
+  const queryClient = useQueryClient();
+  const { data: rules } = useQuery<UploadRule[]>({
+    queryKey: ["/api/settings/upload-rules"],
+  });
+
+  const [drafts, setDrafts] = useState<UploadRuleDraft[]>([]);
+
+  useEffect(() => {
+    if (rules) setDrafts(rules.map((rule) => toRuleDraft(rule)));
+  }, [rules]);
+
+  const rulesMutation = useMutation({
+    mutationFn: async (rules: UploadRuleDraft[]) => {
+      const res = await fetch("/api/settings/upload-rules", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          rules: rules.map((rule) => ({
+            printerId: parseInt(rule.printerId),
+            toolType: rule.toolType === "any" ? null : rule.toolType,
+            filenamePattern: rule.filenamePattern,
+            folder: rule.folder,
+            tag: rule.tag,
+          })),
+        }),
+      });
+      if (!res.ok) {
+        const errData = await res.json();
+        throw new Error(errData.error || "Failed to save upload rules");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings/upload-rules"] });
+      toast.success("Upload rules saved");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const updateDraft = (key: number, changes: Partial<UploadRuleDraft>) => {
+    setDrafts((current) => current.map((rule) => (rule.key === key ? { ...rule, ...changes } : rule)));
+  };
+
+  const moveDraft = (index: number, offset: number) => {
+    setDrafts((current) => {
+      const next = [...current];
+      const [rule] = next.splice(index, 1);
+      next.splice(index + offset, 0, rule);
+      return next;
+    });
+  };
+
+  const handleSave = () => {
+    if (drafts.some((rule) => !rule.printerId)) {
+      toast.error("Choose a printer for every rule");
+      return;
+    }
+    rulesMutation.mutate(drafts);
+  };
+
+  return (
+    <div className="space-y-3">
+      {drafts.length === 0 && (
+        <p className="text-sm text-muted-foreground">No rules yet.</p>
+      )}
+
+      {drafts.map((rule, index) => (
+        <div key={rule.key} className="p-3 bg-secondary/30 rounded-lg space-y-2" data-testid={`row-upload-rule-${index}`}>
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-xs font-medium text-muted-foreground">Rule {index + 1}</span>
+            <div className="flex gap-1">
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                onClick={() => moveDraft(index, -1)}
+                disabled={index === 0}
+                data-testid={`button-rule-up-${index}`}
+              >
+                <ArrowUp className="h-3.5 w-3.5" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                onClick={() => moveDraft(index, 1)}
+                disabled={index === drafts.length - 1}
+                data-testid={`button-rule-down-${index}`}
+              >
+                <ArrowDown className="h-3.5 w-3.5" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 text-destructive"
+                onClick={() => setDrafts((current) => current.filter((r) => r.key !== rule.key))}
+                data-testid={`button-rule-remove-${index}`}
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+          </div>
+          <div className="grid gap-2 md:grid-cols-5">
+            <Select value={rule.toolType} onValueChange={(value) => updateDraft(rule.key, { toolType: value })}>
+              <SelectTrigger className="h-8" data-testid={`select-rule-tool-${index}`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="any">Any tool head</SelectItem>
+                <SelectItem value="3dp">3D printing</SelectItem>
+                <SelectItem value="laser">Laser</SelectItem>
+                <SelectItem value="cnc">CNC</SelectItem>
+              </SelectContent>
+            </Select>
+            <Input
+              placeholder="Filename, e.g. *_pla.gcode"
+              value={rule.filenamePattern}
+              onChange={(e) => updateDraft(rule.key, { filenamePattern: e.target.value })}
+              className="h-8"
+              data-testid={`input-rule-pattern-${index}`}
+            />
+            <Input
+              placeholder="Folder, e.g. laser"
+              value={rule.folder}
+              onChange={(e) => updateDraft(rule.key, { folder: e.target.value })}
+              className="h-8"
+              data-testid={`input-rule-folder-${index}`}
+            />
+            <Input
+              placeholder="Slicer tag"
+              value={rule.tag}
+              onChange={(e) => updateDraft(rule.key, { tag: e.target.value })}
+              className="h-8"
+              data-testid={`input-rule-tag-${index}`}
+            />
+            <Select value={rule.printerId} onValueChange={(value) => updateDraft(rule.key, { printerId: value })}>
+              <SelectTrigger className="h-8" data-testid={`select-rule-printer-${index}`}>
+                <SelectValue placeholder="Send to…" />
+              </SelectTrigger>
+              <SelectContent>
+                {printers.map((printer) => (
+                  <SelectItem key={printer.id} value={String(printer.id)}>
+                    {printer.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      ))}
+
+      <div className="flex gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setDrafts((current) => [...current, toRuleDraft()])}
+          data-testid="button-add-upload-rule"
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add Rule
+        </Button>
+        <Button
+          size="sm"
+          onClick={handleSave}
+          disabled={rulesMutation.isPending}
+          data-testid="button-save-upload-rules"
+        >
+          Save Rules
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function CameraSettingsRow({ printer }: { printer: PublicPrinter }) {
+  const queryClient = useQueryClient();
+  const { data } = useQuery<{ camera: CameraConfig | null }>({
+    queryKey: [`/api/printers/${printer.id}/camera`],
+  });
+  const camera = data?.camera ?? null;
+
+  const [type, setType] = useState<CameraConfig["type"]>("mjpeg");
+  const [source, setSource] = useState("");
+  const [interval, setIntervalSeconds] = useState("1");
+
+  useEffect(() => {
+    if (!camera) return;
+    setType(camera.type);
+    setSource(camera.type === "v4l2" ? camera.device : camera.url);
+    if (camera.type === "snapshot") setIntervalSeconds(String(camera.intervalMs / 1000));
+  }, [camera]);
+
+  const cameraMutation = useMutation({
+    mutationFn: async (config: CameraConfig | null) => {
+      const res = await fetch(`/api/printers/${printer.id}/camera`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ camera: config }),
+      });
+      if (!res.ok) {
+        const errData = await res.json();
+        throw new Error(errData.error || "Failed to save camera");
+      }
+      return res.json();
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/printers/${printer.id}/camera`] });
+      toast.success(result.message);
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const handleSave = () => {
+    const value = source.trim();
+    if (!value) {
+      toast.error(type === "v4l2" ? "Please enter a device path" : "Please enter a camera URL");
+      return;
+    }
+    if (type === "v4l2") {
+      cameraMutation.mutate({ type, device: value });
+    } else if (type === "snapshot") {
+      cameraMutation.mutate({ type, url: value, intervalMs: Math.round((parseFloat(interval) || 1) * 1000) });
+    } else {
+      cameraMutation.mutate({ type, url: value });
+    }
+  };
+
+  return (
+    <div className="p-4 bg-secondary/30 rounded-lg space-y-3" data-testid={`camera-settings-${printer.id}`}>
+      <div className="flex items-center justify-between">
+        <h3 className="font-medium text-sm">{printer.name}</h3>
+        {camera ? (
+          <span className="flex items-center gap-1 text-xs text-green-500">
+            <CheckCircle className="h-3 w-3" /> Configured
+          </span>
+        ) : (
+          <span className="text-xs text-muted-foreground">No camera</span>
+        )}
+      </div>
+      <div className="grid gap-3 md:grid-cols-[10rem_1fr_auto]">
+        <Select value={type} onValueChange={(value) => setType(value as CameraConfig["type"])}>
+          <SelectTrigger data-testid={`select-camera-type-${printer.id}`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="mjpeg">MJPEG stream</SelectItem>
+            <SelectItem value="snapshot">Snapshot URL</SelectItem>
+            <SelectItem value="v4l2">USB camera (V4L2)</SelectItem>
+          </SelectContent>
+        </Select>
+        <Input
+          placeholder={
+            type === "v4l2" ? "/dev/video0"
+              : type === "snapshot" ? "http://192.168.1.50/snapshot.jpg"
+              : "http://192.168.1.50:8080/?action=stream"
+          }
+          value={source}
+          onChange={(e) => setSource(e.target.value)}
+          className="font-mono text-sm"
+          data-testid={`input-camera-source-${printer.id}`}
+        />
+        {type === "snapshot" && (
+          <div className="flex items-center gap-2">
+            <Input
+              type="number"
+              min="0.2"
+              step="0.5"
+              value={interval}
+              onChange={(e) => setIntervalSeconds(e.target.value)}
+              className="w-20"
+              data-testid={`input-camera-interval-${printer.id}`}
+            />
+            <span className="text-xs text-muted-foreground">sec</span>
+          </div>
+        )}
+      </div>
+      <div className="flex gap-2">
+        <Button
+          size="sm"
+          onClick={handleSave}
+          disabled={cameraMutation.isPending}
+          data-testid={`button-save-camera-${printer.id}`}
+        >
+          Save Camera
+        </Button>
+        {camera && (
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => {
+              setSource("");
+              cameraMutation.mutate(null);
+            }}
+            disabled={cameraMutation.isPending}
+            data-testid={`button-remove-camera-${printer.id}`}
+          >
+            Remove
+          </Button>
+        )}
+      </div>
+      {camera && <TimelapseSettingsRow printerId={printer.id} />}
+    </div>
+  );
 }
 
 export default function Settings() {
@@ -35,9 +1012,16 @@ export default function Settings() {
   const [watchFolderPath, setWatchFolderPath] = useState("");
   const [lubanProxyIp, setLubanProxyIp] = useState("");
   const [copiedField, setCopiedField] = useState<string | null>(null);
+  // Only known right after generating; the server keeps just a digest
+  const [newApiKey, setNewApiKey] = useState<string | null>(null);
   const queryClient = useQueryClient();
+  const { user } = useAuth();
+  // Settings that change the setup are for admins; operators can still
+  // connect printers, and everyone manages their own account and API key
+  const isAdmin = useHasRole("admin");
+  const canOperate = useHasRole("operator");
 
-  const { data: printers = [], isLoading } = useQuery<Printer[]>({
+  const { data: printers = [], isLoading } = useQuery<PublicPrinter[]>({
     queryKey: ["/api/printers"],
   });
 
@@ -73,6 +1057,8 @@ export default function Settings() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/printers"] });
+      // Removing the default printer clears the default
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
       toast.success("Printer removed");
     },
     onError: () => {
@@ -138,6 +1124,50 @@ export default function Settings() {
     },
   });
 
+  const defaultPrinterMutation = useMutation({
+    mutationFn: async (printerId: number | null) => {
+      const res = await fetch("/api/settings/default-printer", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ printerId }),
+      });
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || "Failed to set default printer");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      toast.success("Default printer saved");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const apiKeyMutation = useMutation({
+    mutationFn: async (enabled: boolean) => {
+      const res = await fetch("/api/auth/api-key", {
+        method: enabled ? "POST" : "DELETE",
+      });
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || "Failed to update API key");
+      }
+      return res.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: AUTH_STATUS_KEY });
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      setNewApiKey(data.apiKey ?? null);
+      toast.success(data.message);
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+
   const lubanProxyMutation = useMutation({
     mutationFn: async (data: { printerIp?: string; enabled: boolean }) => {
       const res = await fetch("/api/settings/luban-proxy", {
@@ -228,380 +1258,614 @@ export default function Settings() {
           </div>
         </header>
 
-        <Card className="p-6 bg-secondary/20 border-border">
-          <h2 className="text-lg font-semibold mb-4">Add New Printer</h2>
-          <div className="grid gap-4">
-            <div className="grid gap-2">
-              <Label htmlFor="printer-name">Printer Name</Label>
-              <Input
-                id="printer-name"
-                placeholder="e.g., Snapmaker F350"
-                value={newPrinterName}
-                onChange={(e) => setNewPrinterName(e.target.value)}
-                data-testid="input-printer-name"
-              />
-            </div>
-            <div className="grid gap-2">
-              <Label htmlFor="printer-ip">IP Address</Label>
-              <Input
-                id="printer-ip"
-                placeholder="e.g., 192.168.1.42"
-                value={newPrinterIp}
-                onChange={(e) => setNewPrinterIp(e.target.value)}
-                data-testid="input-printer-ip"
-              />
-              <p className="text-xs text-muted-foreground">
-                Find your printer's IP address on the touchscreen: Settings - Network - Wi-Fi
-              </p>
-            </div>
-            <Button
-              onClick={handleAddPrinter}
-              disabled={addPrinterMutation.isPending}
-              className="w-full md:w-auto"
-              data-testid="button-add-printer"
-            >
-              <Plus className="h-4 w-4 mr-2" />
-              Add Printer
-            </Button>
-          </div>
-        </Card>
+        <Tabs defaultValue="general" className="space-y-6">
+          {isAdmin && (
+            <TabsList>
+              <TabsTrigger value="general" data-testid="tab-settings-general">General</TabsTrigger>
+              <TabsTrigger value="audit" data-testid="tab-settings-audit">Audit Log</TabsTrigger>
+            </TabsList>
+          )}
 
-        <Separator />
+          <TabsContent value="general" className="space-y-6 mt-0">
+            {user && (
+              <>
+                <Card className="p-6 bg-secondary/20 border-border">
+                  <div className="flex items-center gap-2 mb-4">
+                    <UserIcon className="h-5 w-5 text-primary" />
+                    <h2 className="text-lg font-semibold">Account</h2>
+                  </div>
+                  <AccountSettings user={user} />
+                </Card>
 
-        <div>
-          <h2 className="text-lg font-semibold mb-4">Configured Printers</h2>
-          {isLoading ? (
-            <Card className="p-6 bg-secondary/20 border-border">
-              <p className="text-muted-foreground text-center">Loading...</p>
-            </Card>
-          ) : printers.length === 0 ? (
-            <Card className="p-6 bg-secondary/20 border-border">
-              <p className="text-muted-foreground text-center" data-testid="text-no-printers">
-                No printers configured. Add one above to get started.
-              </p>
-            </Card>
-          ) : (
-            <div className="space-y-3">
-              {printers.map((printer) => (
-                <Card
-                  key={printer.id}
-                  className="p-4 bg-secondary/20 border-border"
-                  data-testid={`card-printer-${printer.id}`}
-                >
-                  <div className="flex items-center justify-between">
-                    <div className="flex-1">
-                      <h3 className="font-semibold" data-testid={`text-printer-name-${printer.id}`}>
-                        {printer.name}
-                      </h3>
-                      <p className="text-sm text-muted-foreground" data-testid={`text-printer-ip-${printer.id}`}>
-                        {printer.ipAddress}
+                <Card className="p-6 bg-secondary/20 border-border">
+                  <div className="flex items-center gap-2 mb-4">
+                    <Bell className="h-5 w-5 text-primary" />
+                    <h2 className="text-lg font-semibold">Notifications</h2>
+                  </div>
+                  <p className="text-sm text-muted-foreground mb-4">
+                    Get told when prints start, finish or fail, when a printer drops offline and when a heater drifts away
+                    from its target. These settings are yours alone.
+                  </p>
+                  <NotificationSettings />
+                </Card>
+
+                {isAdmin && (
+                  <Card className="p-6 bg-secondary/20 border-border">
+                    <div className="flex items-center gap-2 mb-4">
+                      <Users className="h-5 w-5 text-primary" />
+                      <h2 className="text-lg font-semibold">Users</h2>
+                    </div>
+                    <p className="text-sm text-muted-foreground mb-4">
+                      Viewers see status, the camera and history. Operators can also move the machine and run prints.
+                      Admins can change these settings and manage users.
+                    </p>
+                    <UserManagement currentUser={user} />
+                  </Card>
+                )}
+              </>
+            )}
+
+            {isAdmin && (
+              <>
+                <Card className="p-6 bg-secondary/20 border-border">
+                  <h2 className="text-lg font-semibold mb-4">Add New Printer</h2>
+                  <div className="grid gap-4">
+                    <div className="grid gap-2">
+                      <Label htmlFor="printer-name">Printer Name</Label>
+                      <Input
+                        id="printer-name"
+                        placeholder="e.g., Snapmaker F350"
+                        value={newPrinterName}
+                        onChange={(e) => setNewPrinterName(e.target.value)}
+                        data-testid="input-printer-name"
+                      />
+                    </div>
+                    <div className="grid gap-2">
+                      <Label htmlFor="printer-ip">IP Address</Label>
+                      <Input
+                        id="printer-ip"
+                        placeholder="e.g., 192.168.1.42"
+                        value={newPrinterIp}
+                        onChange={(e) => setNewPrinterIp(e.target.value)}
+                        data-testid="input-printer-ip"
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        Find your printer's IP address on the touchscreen: Settings - Network - Wi-Fi
                       </p>
-                      <div className="flex items-center gap-4 mt-2">
-                        <div className="flex items-center gap-2">
-                          <div
-                            className={`h-2 w-2 rounded-full ${
-                              printer.isConnected ? "bg-green-500" : "bg-gray-500"
-                            }`}
-                            data-testid={`status-connection-${printer.id}`}
-                          />
-                          <span className="text-xs text-muted-foreground">
-                            {printer.isConnected ? "Connected" : "Disconnected"}
-                          </span>
-                        </div>
-                        {printer.token && (
-                          <div className="flex items-center gap-1">
-                            <CheckCircle className="h-3 w-3 text-green-500" />
-                            <span className="text-xs text-green-500">Has Token</span>
+                    </div>
+                    <Button
+                      onClick={handleAddPrinter}
+                      disabled={addPrinterMutation.isPending}
+                      className="w-full md:w-auto"
+                      data-testid="button-add-printer"
+                    >
+                      <Plus className="h-4 w-4 mr-2" />
+                      Add Printer
+                    </Button>
+                    {settings?.tokenEncryption && <TokenEncryptionNotice status={settings.tokenEncryption} />}
+                  </div>
+                </Card>
+
+                <Separator />
+              </>
+            )}
+
+            <div>
+              <h2 className="text-lg font-semibold mb-4">Configured Printers</h2>
+              {isLoading ? (
+                <Card className="p-6 bg-secondary/20 border-border">
+                  <p className="text-muted-foreground text-center">Loading...</p>
+                </Card>
+              ) : printers.length === 0 ? (
+                <Card className="p-6 bg-secondary/20 border-border">
+                  <p className="text-muted-foreground text-center" data-testid="text-no-printers">
+                    {isAdmin ? "No printers configured. Add one above to get started." : "No printers configured yet."}
+                  </p>
+                </Card>
+              ) : (
+                <div className="space-y-3">
+                  {printers.map((printer) => (
+                    <Card
+                      key={printer.id}
+                      className="p-4 bg-secondary/20 border-border"
+                      data-testid={`card-printer-${printer.id}`}
+                    >
+                      <div className="flex items-center justify-between">
+                        <div className="flex-1">
+                          <h3 className="font-semibold" data-testid={`text-printer-name-${printer.id}`}>
+                            {printer.name}
+                          </h3>
+                          <p className="text-sm text-muted-foreground" data-testid={`text-printer-ip-${printer.id}`}>
+                            {printer.ipAddress}
+                          </p>
+                          <div className="flex items-center gap-4 mt-2">
+                            <div className="flex items-center gap-2">
+                              <div
+                                className={`h-2 w-2 rounded-full ${
+                                  printer.isConnected ? "bg-green-500" : "bg-gray-500"
+                                }`}
+                                data-testid={`status-connection-${printer.id}`}
+                              />
+                              <span className="text-xs text-muted-foreground">
+                                {printer.isConnected ? "Connected" : "Disconnected"}
+                              </span>
+                            </div>
+                            {printer.hasToken && (
+                              <div className="flex items-center gap-1">
+                                <CheckCircle className="h-3 w-3 text-green-500" />
+                                <span className="text-xs text-green-500">Has Token</span>
+                              </div>
+                            )}
                           </div>
-                        )}
+                        </div>
+                        <div className="flex gap-2">
+                          {printer.isConnected ? (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => disconnectMutation.mutate(printer.id)}
+                              disabled={disconnectMutation.isPending || !canOperate}
+                              data-testid={`button-disconnect-${printer.id}`}
+                            >
+                              <WifiOff className="h-4 w-4 mr-2" />
+                              Disconnect
+                            </Button>
+                          ) : (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => connectMutation.mutate(printer.id)}
+                              disabled={connectMutation.isPending || !canOperate}
+                              data-testid={`button-connect-${printer.id}`}
+                            >
+                              <Wifi className="h-4 w-4 mr-2" />
+                              Connect
+                            </Button>
+                          )}
+                          {isAdmin && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => deletePrinterMutation.mutate(printer.id)}
+                              disabled={deletePrinterMutation.isPending}
+                              data-testid={`button-delete-${printer.id}`}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </div>
                       </div>
+                    </Card>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <Separator />
+
+            {isAdmin && (
+              <>
+                {printers.length > 0 && (
+                  <Card className="p-6 bg-secondary/20 border-border">
+                    <div className="flex items-center gap-2 mb-4">
+                      <Camera className="h-5 w-5 text-primary" />
+                      <h2 className="text-lg font-semibold">Cameras</h2>
                     </div>
-                    <div className="flex gap-2">
-                      {printer.isConnected ? (
+                    <p className="text-sm text-muted-foreground mb-4">
+                      Show a live feed on the dashboard. The camera is streamed through this app, so it also
+                      works when the dashboard is opened over HTTPS. USB cameras need ffmpeg installed on the Pi.
+                    </p>
+                    <div className="space-y-3">
+                      {printers.map((printer) => (
+                        <CameraSettingsRow key={printer.id} printer={printer} />
+                      ))}
+                      <TimelapseRetentionSettings />
+                    </div>
+                  </Card>
+                )}
+
+                {printers.length > 0 && (
+                  <Card className="p-6 bg-secondary/20 border-border">
+                    <div className="flex items-center gap-2 mb-4">
+                      <Route className="h-5 w-5 text-primary" />
+                      <h2 className="text-lg font-semibold">Upload Rules</h2>
+                    </div>
+                    <p className="text-sm text-muted-foreground mb-4">
+                      Decide which printer slicer uploads, watch folder files and Luban captures are added to.
+                      Rules are checked from the top and the first one whose conditions all match wins. Folder
+                      matches watch folder subfolders and the folder a slicer uploads to; tag is sent by the
+                      slicer as a <code>tag</code> field.
+                    </p>
+                    <UploadRulesSettings printers={printers} />
+                  </Card>
+                )}
+
+                {printers.length > 1 && (
+                  <Card className="p-6 bg-secondary/20 border-border">
+                    <div className="flex items-center gap-2 mb-4">
+                      <Star className="h-5 w-5 text-primary" />
+                      <h2 className="text-lg font-semibold">Default Printer</h2>
+                    </div>
+                    <p className="text-sm text-muted-foreground mb-4">
+                      Files that no upload rule matches are added to this printer. Without a default they wait
+                      in the unassigned inbox on the dashboard, so files never end up on the wrong machine.
+                    </p>
+                    <Select
+                      value={settings?.defaultPrinterId != null ? String(settings.defaultPrinterId) : "none"}
+                      onValueChange={(value) => defaultPrinterMutation.mutate(value === "none" ? null : parseInt(value))}
+                      disabled={defaultPrinterMutation.isPending}
+                    >
+                      <SelectTrigger className="md:w-80" data-testid="select-default-printer">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">No default</SelectItem>
+                        {printers.map((printer) => (
+                          <SelectItem key={printer.id} value={String(printer.id)}>
+                            {printer.name} ({printer.ipAddress})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </Card>
+                )}
+
+                <Card className="p-6 bg-secondary/20 border-border">
+                  <div className="flex items-center gap-2 mb-4">
+                    <FolderOpen className="h-5 w-5 text-primary" />
+                    <h2 className="text-lg font-semibold">Watch Folder</h2>
+                  </div>
+                  <p className="text-sm text-muted-foreground mb-4">
+                    Automatically import G-code files saved to a folder on your Raspberry Pi. 
+                    Great for network shares or when your slicer saves directly to the Pi.
+                  </p>
+          
+                  {settings?.watchFolder.path ? (
+                    <div className="space-y-4">
+                      <div className="flex items-center gap-3 p-3 bg-green-500/10 border border-green-500/30 rounded-lg">
+                        {settings.watchFolder.active ? (
+                          <CheckCircle className="h-5 w-5 text-green-500" />
+                        ) : (
+                          <XCircle className="h-5 w-5 text-yellow-500" />
+                        )}
+                        <div className="flex-1">
+                          <p className="text-sm font-medium">
+                            {settings.watchFolder.active ? "Watching folder" : "Folder configured (not active)"}
+                          </p>
+                          <p className="text-xs text-muted-foreground font-mono">{settings.watchFolder.path}</p>
+                        </div>
                         <Button
                           variant="outline"
                           size="sm"
-                          onClick={() => disconnectMutation.mutate(printer.id)}
-                          disabled={disconnectMutation.isPending}
-                          data-testid={`button-disconnect-${printer.id}`}
+                          onClick={handleDisableWatchFolder}
+                          disabled={watchFolderMutation.isPending}
+                          data-testid="button-disable-watch"
                         >
-                          <WifiOff className="h-4 w-4 mr-2" />
-                          Disconnect
+                          Disable
                         </Button>
-                      ) : (
+                      </div>
+                    </div>
+                  ) : (
+                    <div className="space-y-4">
+                      <div className="grid gap-2">
+                        <Label htmlFor="watch-folder">Folder Path</Label>
+                        <Input
+                          id="watch-folder"
+                          placeholder="/home/pi/gcode"
+                          value={watchFolderPath}
+                          onChange={(e) => setWatchFolderPath(e.target.value)}
+                          data-testid="input-watch-folder"
+                        />
+                        <p className="text-xs text-muted-foreground">
+                          Enter the full path to a folder on your Raspberry Pi
+                        </p>
+                      </div>
+                      <Button
+                        onClick={handleSetWatchFolder}
+                        disabled={watchFolderMutation.isPending || !watchFolderPath.trim()}
+                        data-testid="button-set-watch-folder"
+                      >
+                        <FolderOpen className="h-4 w-4 mr-2" />
+                        Enable Watch Folder
+                      </Button>
+                    </div>
+                  )}
+                </Card>
+              </>
+            )}
+
+            <Card className="p-6 bg-secondary/20 border-border">
+              <div className="flex items-center gap-2 mb-4">
+                <ExternalLink className="h-5 w-5 text-primary" />
+                <h2 className="text-lg font-semibold">Slicer Integration</h2>
+              </div>
+              <p className="text-sm text-muted-foreground mb-4">
+                Configure your slicer (Cura, PrusaSlicer, etc.) to send G-code files directly to this app.
+                Use the OctoPrint-compatible endpoint for best compatibility.
+              </p>
+          
+              {settings?.slicerApi && (
+                <div className="space-y-4">
+                  <div className="space-y-2">
+                    <Label className="text-xs text-muted-foreground">OctoPrint-Compatible URL (recommended)</Label>
+                    <div className="flex gap-2">
+                      <Input
+                        readOnly
+                        value={settings.slicerApi.octoprintUrl}
+                        className="font-mono text-sm"
+                        data-testid="input-octoprint-url"
+                      />
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        onClick={() => copyToClipboard(settings.slicerApi.octoprintUrl, "octoprint")}
+                        data-testid="button-copy-octoprint"
+                      >
+                        {copiedField === "octoprint" ? (
+                          <CheckCircle className="h-4 w-4 text-green-500" />
+                        ) : (
+                          <Copy className="h-4 w-4" />
+                        )}
+                      </Button>
+                    </div>
+                  </div>
+              
+                  <div className="space-y-2">
+                    <Label className="text-xs text-muted-foreground">API Key</Label>
+                    {newApiKey ? (
+                      <div className="space-y-1">
+                        <div className="flex gap-2">
+                          <Input
+                            readOnly
+                            value={newApiKey}
+                            className="font-mono text-sm"
+                            data-testid="input-octoprint-api-key"
+                          />
+                          <Button
+                            variant="outline"
+                            size="icon"
+                            onClick={() => copyToClipboard(newApiKey, "apiKey")}
+                            data-testid="button-copy-api-key"
+                          >
+                            {copiedField === "apiKey" ? (
+                              <CheckCircle className="h-4 w-4 text-green-500" />
+                            ) : (
+                              <Copy className="h-4 w-4" />
+                            )}
+                          </Button>
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          Copy this key into your slicer now; it won't be shown again.
+                        </p>
+                      </div>
+                    ) : user?.hasApiKey ? (
+                      <div className="flex items-center justify-between gap-3">
+                        <p className="text-xs text-muted-foreground">
+                          Your account has an API key. Generate a new one if you've lost it; the old key stops working.
+                        </p>
+                        <div className="flex gap-2">
+                          <Button
+                            variant="outline"
+                            size="icon"
+                            onClick={() => apiKeyMutation.mutate(true)}
+                            disabled={apiKeyMutation.isPending}
+                            title="Generate a new key"
+                            data-testid="button-regenerate-api-key"
+                          >
+                            <RefreshCw className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="icon"
+                            onClick={() => apiKeyMutation.mutate(false)}
+                            disabled={apiKeyMutation.isPending}
+                            title="Remove the key"
+                            data-testid="button-remove-api-key"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </div>
+                    ) : (
+                      <div className="flex items-center justify-between gap-3">
+                        <p className="text-xs text-muted-foreground">
+                          Slicers and Moonraker clients sign in with your API key. Generate one and paste it into
+                          your slicer's OctoPrint or Moonraker settings.
+                        </p>
                         <Button
                           variant="outline"
                           size="sm"
-                          onClick={() => connectMutation.mutate(printer.id)}
-                          disabled={connectMutation.isPending}
-                          data-testid={`button-connect-${printer.id}`}
+                          onClick={() => apiKeyMutation.mutate(true)}
+                          disabled={apiKeyMutation.isPending}
+                          data-testid="button-generate-api-key"
                         >
-                          <Wifi className="h-4 w-4 mr-2" />
-                          Connect
+                          <KeyRound className="h-4 w-4 mr-2" />
+                          Generate Key
                         </Button>
-                      )}
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label className="text-xs text-muted-foreground">Direct Upload URL</Label>
+                    <div className="flex gap-2">
+                      <Input
+                        readOnly
+                        value={settings.slicerApi.directUrl}
+                        className="font-mono text-sm"
+                        data-testid="input-direct-url"
+                      />
                       <Button
                         variant="outline"
-                        size="sm"
-                        onClick={() => deletePrinterMutation.mutate(printer.id)}
-                        disabled={deletePrinterMutation.isPending}
-                        data-testid={`button-delete-${printer.id}`}
+                        size="icon"
+                        onClick={() => copyToClipboard(settings.slicerApi.directUrl, "direct")}
+                        data-testid="button-copy-direct"
                       >
-                        <Trash2 className="h-4 w-4" />
+                        {copiedField === "direct" ? (
+                          <CheckCircle className="h-4 w-4 text-green-500" />
+                        ) : (
+                          <Copy className="h-4 w-4" />
+                        )}
                       </Button>
                     </div>
                   </div>
-                </Card>
-              ))}
-            </div>
-          )}
-        </div>
-
-        <Separator />
 
-        <Card className="p-6 bg-secondary/20 border-border">
-          <div className="flex items-center gap-2 mb-4">
-            <FolderOpen className="h-5 w-5 text-primary" />
-            <h2 className="text-lg font-semibold">Watch Folder</h2>
-          </div>
-          <p className="text-sm text-muted-foreground mb-4">
-            Automatically import G-code files saved to a folder on your Raspberry Pi. 
-            Great for network shares or when your slicer saves directly to the Pi.
-          </p>
-          
-          {settings?.watchFolder.path ? (
-            <div className="space-y-4">
-              <div className="flex items-center gap-3 p-3 bg-green-500/10 border border-green-500/30 rounded-lg">
-                {settings.watchFolder.active ? (
-                  <CheckCircle className="h-5 w-5 text-green-500" />
-                ) : (
-                  <XCircle className="h-5 w-5 text-yellow-500" />
-                )}
-                <div className="flex-1">
-                  <p className="text-sm font-medium">
-                    {settings.watchFolder.active ? "Watching folder" : "Folder configured (not active)"}
-                  </p>
-                  <p className="text-xs text-muted-foreground font-mono">{settings.watchFolder.path}</p>
+                  <div className="p-3 bg-blue-500/10 border border-blue-500/30 rounded-lg">
+                    <h3 className="font-medium text-sm mb-2 text-blue-400">Setup Instructions</h3>
+                    <ul className="text-xs text-muted-foreground space-y-1">
+                      <li><strong>Cura:</strong> Install OctoPrint Connection plugin, set URL to your Pi's address and paste the API key</li>
+                      <li><strong>PrusaSlicer:</strong> Printer Settings - Physical Printer - Host Type: OctoPrint, with the API key above. "Upload and Print" starts the job right away</li>
+                      <li><strong>Other slicers:</strong> Use OctoPrint upload if available, or POST to the direct URL</li>
+                    </ul>
+                  </div>
                 </div>
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={handleDisableWatchFolder}
-                  disabled={watchFolderMutation.isPending}
-                  data-testid="button-disable-watch"
-                >
-                  Disable
-                </Button>
-              </div>
-            </div>
-          ) : (
-            <div className="space-y-4">
-              <div className="grid gap-2">
-                <Label htmlFor="watch-folder">Folder Path</Label>
-                <Input
-                  id="watch-folder"
-                  placeholder="/home/pi/gcode"
-                  value={watchFolderPath}
-                  onChange={(e) => setWatchFolderPath(e.target.value)}
-                  data-testid="input-watch-folder"
-                />
-                <p className="text-xs text-muted-foreground">
-                  Enter the full path to a folder on your Raspberry Pi
-                </p>
-              </div>
-              <Button
-                onClick={handleSetWatchFolder}
-                disabled={watchFolderMutation.isPending || !watchFolderPath.trim()}
-                data-testid="button-set-watch-folder"
-              >
-                <FolderOpen className="h-4 w-4 mr-2" />
-                Enable Watch Folder
-              </Button>
-            </div>
-          )}
-        </Card>
+              )}
+            </Card>
 
-        <Card className="p-6 bg-secondary/20 border-border">
-          <div className="flex items-center gap-2 mb-4">
-            <ExternalLink className="h-5 w-5 text-primary" />
-            <h2 className="text-lg font-semibold">Slicer Integration</h2>
-          </div>
-          <p className="text-sm text-muted-foreground mb-4">
-            Configure your slicer (Cura, PrusaSlicer, etc.) to send G-code files directly to this app.
-            Use the OctoPrint-compatible endpoint for best compatibility.
-          </p>
+            {isAdmin && (
+              <>
+                <Card className="p-6 bg-secondary/20 border-border">
+                  <div className="flex items-center gap-2 mb-4">
+                    <Radio className="h-5 w-5 text-primary" />
+                    <h2 className="text-lg font-semibold">Luban Auto-Capture</h2>
+                  </div>
+                  <p className="text-sm text-muted-foreground mb-4">
+                    Automatically capture files sent from the Luban app. When enabled, point Luban to this 
+                    Pi's IP address instead of the printer's IP. Files will be captured and added to your 
+                    list, then forwarded to the printer.
+                  </p>
           
-          {settings?.slicerApi && (
-            <div className="space-y-4">
-              <div className="space-y-2">
-                <Label className="text-xs text-muted-foreground">OctoPrint-Compatible URL (recommended)</Label>
-                <div className="flex gap-2">
-                  <Input
-                    readOnly
-                    value={settings.slicerApi.octoprintUrl}
-                    className="font-mono text-sm"
-                    data-testid="input-octoprint-url"
-                  />
-                  <Button
-                    variant="outline"
-                    size="icon"
-                    onClick={() => copyToClipboard(settings.slicerApi.octoprintUrl, "octoprint")}
-                    data-testid="button-copy-octoprint"
-                  >
-                    {copiedField === "octoprint" ? (
-                      <CheckCircle className="h-4 w-4 text-green-500" />
-                    ) : (
-                      <Copy className="h-4 w-4" />
-                    )}
-                  </Button>
-                </div>
-              </div>
-              
-              <div className="space-y-2">
-                <Label className="text-xs text-muted-foreground">Direct Upload URL</Label>
-                <div className="flex gap-2">
-                  <Input
-                    readOnly
-                    value={settings.slicerApi.directUrl}
-                    className="font-mono text-sm"
-                    data-testid="input-direct-url"
-                  />
-                  <Button
-                    variant="outline"
-                    size="icon"
-                    onClick={() => copyToClipboard(settings.slicerApi.directUrl, "direct")}
-                    data-testid="button-copy-direct"
-                  >
-                    {copiedField === "direct" ? (
-                      <CheckCircle className="h-4 w-4 text-green-500" />
-                    ) : (
-                      <Copy className="h-4 w-4" />
-                    )}
-                  </Button>
-                </div>
-              </div>
+                  {settings?.lubanProxy.enabled ? (
+                    <div className="space-y-4">
+                      <div className="flex items-center gap-3 p-3 bg-green-500/10 border border-green-500/30 rounded-lg">
+                        <CheckCircle className="h-5 w-5 text-green-500" />
+                        <div className="flex-1">
+                          <p className="text-sm font-medium">Proxy Active</p>
+                          <p className="text-xs text-muted-foreground">
+                            Listening on port {settings.lubanProxy.port}, forwarding to {settings.lubanProxy.targetPrinterIp}
+                          </p>
+                        </div>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={handleDisableLubanProxy}
+                          disabled={lubanProxyMutation.isPending}
+                          data-testid="button-disable-luban-proxy"
+                        >
+                          Disable
+                        </Button>
+                      </div>
 
-              <div className="p-3 bg-blue-500/10 border border-blue-500/30 rounded-lg">
-                <h3 className="font-medium text-sm mb-2 text-blue-400">Setup Instructions</h3>
-                <ul className="text-xs text-muted-foreground space-y-1">
-                  <li><strong>Cura:</strong> Install OctoPrint Connection plugin, set URL to your Pi's address</li>
-                  <li><strong>PrusaSlicer:</strong> Printer Settings - Physical Printer - Host Type: OctoPrint</li>
-                  <li><strong>Other slicers:</strong> Use OctoPrint upload if available, or POST to the direct URL</li>
-                </ul>
-              </div>
-            </div>
-          )}
-        </Card>
+                      {settings.lubanProxy.hasToken ? (
+                        <div className="flex items-center gap-3 p-3 bg-green-500/10 border border-green-500/30 rounded-lg">
+                          <CheckCircle className="h-5 w-5 text-green-500" />
+                          <div className="flex-1">
+                            <p className="text-sm font-medium">Luban Token Captured</p>
+                            <p className="text-xs text-muted-foreground">
+                              Your printer will now connect without touchscreen prompts using Luban's credentials.
+                            </p>
+                          </div>
+                        </div>
+                      ) : (
+                        <div className="flex items-center gap-3 p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-lg">
+                          <Radio className="h-5 w-5 text-yellow-500" />
+                          <div className="flex-1">
+                            <p className="text-sm font-medium">Waiting for Luban Connection</p>
+                            <p className="text-xs text-muted-foreground">
+                              Connect through Luban once to capture its token. After that, our app will use the same token for prompt-free connections.
+                            </p>
+                          </div>
+                        </div>
+                      )}
+              
+                      <div className="p-3 bg-blue-500/10 border border-blue-500/30 rounded-lg">
+                        <h3 className="font-medium text-sm mb-2 text-blue-400">How to Use</h3>
+                        <p className="text-xs text-muted-foreground">
+                          In Luban, instead of connecting to <code className="bg-muted px-1 rounded">{settings.lubanProxy.targetPrinterIp}</code>, 
+                          connect to this Raspberry Pi's IP address on the same port. Files sent through 
+                          Luban will be captured and appear in your file list automatically, and the token 
+                          will be saved for prompt-free connections.
+                        </p>
+                      </div>
+                    </div>
+                  ) : (
+                    <div className="space-y-4">
+                      <div className="grid gap-2">
+                        <Label htmlFor="luban-proxy-ip">Printer IP to Forward To</Label>
+                        <Input
+                          id="luban-proxy-ip"
+                          placeholder={printers.length > 0 ? printers[0].ipAddress : "e.g., 192.168.1.42"}
+                          value={lubanProxyIp}
+                          onChange={(e) => setLubanProxyIp(e.target.value)}
+                          data-testid="input-luban-proxy-ip"
+                        />
+                        <p className="text-xs text-muted-foreground">
+                          Your Snapmaker printer's actual IP address. Leave blank to use the first configured printer.
+                        </p>
+                      </div>
+                      <Button
+                        onClick={handleEnableLubanProxy}
+                        disabled={lubanProxyMutation.isPending}
+                        data-testid="button-enable-luban-proxy"
+                      >
+                        <Monitor className="h-4 w-4 mr-2" />
+                        Enable Luban Capture
+                      </Button>
+              
+                      <div className="p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-lg">
+                        <h3 className="font-medium text-sm mb-2 text-yellow-400">Note</h3>
+                        <p className="text-xs text-muted-foreground">
+                          This feature only works when running on a Raspberry Pi or computer on the same network as your printer. 
+                          It won't work from cloud-hosted environments.
+                        </p>
+                      </div>
+                    </div>
+                  )}
+                </Card>
 
-        <Card className="p-6 bg-secondary/20 border-border">
-          <div className="flex items-center gap-2 mb-4">
-            <Radio className="h-5 w-5 text-primary" />
-            <h2 className="text-lg font-semibold">Luban Auto-Capture</h2>
-          </div>
-          <p className="text-sm text-muted-foreground mb-4">
-            Automatically capture files sent from the Luban app. When enabled, point Luban to this 
-            Pi's IP address instead of the printer's IP. Files will be captured and added to your 
-            list, then forwarded to the printer.
-          </p>
-          
-          {settings?.lubanProxy.enabled ? (
-            <div className="space-y-4">
-              <div className="flex items-center gap-3 p-3 bg-green-500/10 border border-green-500/30 rounded-lg">
-                <CheckCircle className="h-5 w-5 text-green-500" />
-                <div className="flex-1">
-                  <p className="text-sm font-medium">Proxy Active</p>
-                  <p className="text-xs text-muted-foreground">
-                    Listening on port {settings.lubanProxy.port}, forwarding to {settings.lubanProxy.targetPrinterIp}
+                <Card className="p-6 bg-secondary/20 border-border">
+                  <div className="flex items-center gap-2 mb-4">
+                    <Plug className="h-5 w-5 text-primary" />
+                    <h2 className="text-lg font-semibold">Moonraker API</h2>
+                  </div>
+                  <p className="text-sm text-muted-foreground mb-4">
+                    Lets Moonraker clients (Mainsail, Fluidd, OrcaSlicer's Moonraker host type and mobile apps) see
+                    temperatures and progress, upload files and start, pause or cancel prints on the default printer.
+                    Clients sign in with a user's API key, the same one slicers use.
                   </p>
-                </div>
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={handleDisableLubanProxy}
-                  disabled={lubanProxyMutation.isPending}
-                  data-testid="button-disable-luban-proxy"
-                >
-                  Disable
-                </Button>
-              </div>
+                  {settings?.moonraker && <MoonrakerSettings moonraker={settings.moonraker} />}
+                </Card>
 
-              {settings.lubanProxy.hasToken ? (
-                <div className="flex items-center gap-3 p-3 bg-green-500/10 border border-green-500/30 rounded-lg">
-                  <CheckCircle className="h-5 w-5 text-green-500" />
-                  <div className="flex-1">
-                    <p className="text-sm font-medium">Luban Token Captured</p>
-                    <p className="text-xs text-muted-foreground">
-                      Your printer will now connect without touchscreen prompts using Luban's credentials.
-                    </p>
-                  </div>
-                </div>
-              ) : (
-                <div className="flex items-center gap-3 p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-lg">
-                  <Radio className="h-5 w-5 text-yellow-500" />
-                  <div className="flex-1">
-                    <p className="text-sm font-medium">Waiting for Luban Connection</p>
-                    <p className="text-xs text-muted-foreground">
-                      Connect through Luban once to capture its token. After that, our app will use the same token for prompt-free connections.
-                    </p>
-                  </div>
+                <Card className="p-6 bg-blue-500/10 border-blue-500/50">
+                  <h3 className="font-semibold mb-2 text-blue-400">Connection Instructions</h3>
+                  <ol className="text-sm text-muted-foreground space-y-1 list-decimal list-inside">
+                    <li>Add your printer using the form above with its IP address</li>
+                    <li>Click "Connect" to initiate the connection</li>
+                    <li>A confirmation dialog will appear on your printer's touchscreen</li>
+                    <li>Tap "Yes" on the touchscreen to authorize the connection</li>
+                    <li>Once connected, the status will update and you can access the dashboard</li>
+                  </ol>
+                </Card>
+              </>
+            )}
+          </TabsContent>
+
+          {isAdmin && (
+            <TabsContent value="audit" className="mt-0">
+              <Card className="p-6 bg-secondary/20 border-border">
+                <div className="flex items-center gap-2 mb-2">
+                  <ScrollText className="h-5 w-5 text-primary" />
+                  <h2 className="text-lg font-semibold">Audit Log</h2>
                 </div>
-              )}
-              
-              <div className="p-3 bg-blue-500/10 border border-blue-500/30 rounded-lg">
-                <h3 className="font-medium text-sm mb-2 text-blue-400">How to Use</h3>
-                <p className="text-xs text-muted-foreground">
-                  In Luban, instead of connecting to <code className="bg-muted px-1 rounded">{settings.lubanProxy.targetPrinterIp}</code>, 
-                  connect to this Raspberry Pi's IP address on the same port. Files sent through 
-                  Luban will be captured and appear in your file list automatically, and the token 
-                  will be saved for prompt-free connections.
-                </p>
-              </div>
-            </div>
-          ) : (
-            <div className="space-y-4">
-              <div className="grid gap-2">
-                <Label htmlFor="luban-proxy-ip">Printer IP to Forward To</Label>
-                <Input
-                  id="luban-proxy-ip"
-                  placeholder={printers.length > 0 ? printers[0].ipAddress : "e.g., 192.168.1.42"}
-                  value={lubanProxyIp}
-                  onChange={(e) => setLubanProxyIp(e.target.value)}
-                  data-testid="input-luban-proxy-ip"
-                />
-                <p className="text-xs text-muted-foreground">
-                  Your Snapmaker printer's actual IP address. Leave blank to use the first configured printer.
+                <p className="text-sm text-muted-foreground mb-4">
+                  Every change made from the dashboard, a slicer or a Moonraker client: who made it, from where, and
+                  whether it went through.
                 </p>
-              </div>
-              <Button
-                onClick={handleEnableLubanProxy}
-                disabled={lubanProxyMutation.isPending}
-                data-testid="button-enable-luban-proxy"
-              >
-                <Monitor className="h-4 w-4 mr-2" />
-                Enable Luban Capture
-              </Button>
-              
-              <div className="p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-lg">
-                <h3 className="font-medium text-sm mb-2 text-yellow-400">Note</h3>
-                <p className="text-xs text-muted-foreground">
-                  This feature only works when running on a Raspberry Pi or computer on the same network as your printer. 
-                  It won't work from cloud-hosted environments.
-                </p>
-              </div>
-            </div>
+                <AuditLog printers={printers} />
+              </Card>
+            </TabsContent>
           )}
-        </Card>
-
-        <Card className="p-6 bg-blue-500/10 border-blue-500/50">
-          <h3 className="font-semibold mb-2 text-blue-400">Connection Instructions</h3>
-          <ol className="text-sm text-muted-foreground space-y-1 list-decimal list-inside">
-            <li>Add your printer using the form above with its IP address</li>
-            <li>Click "Connect" to initiate the connection</li>
-            <li>A confirmation dialog will appear on your printer's touchscreen</li>
-            <li>Tap "Yes" on the touchscreen to authorize the connection</li>
-            <li>Once connected, the status will update and you can access the dashboard</li>
-          </ol>
-        </Card>
+        </Tabs>
       </div>
     </div>
   );
@@ -0,0 +1,22 @@
+import { SnapmakerSimulator } from "../server/snapmakerSimulator";
+
+// Runs a fake Snapmaker on this machine. Add a printer with IP 127.0.0.1 and
+// press Connect twice: the first attempt waits for the "touchscreen", which
+// this script confirms automatically after a few seconds.
+const port = parseInt(process.env.SNAPMAKER_PORT || "8080", 10);
+const host = process.env.SIMULATOR_HOST || "127.0.0.1";
+const discoveryPort = parseInt(process.env.SNAPMAKER_DISCOVERY_PORT || "20054", 10);
+const confirmDelayMs = 3000;
+
+const simulator = new SnapmakerSimulator();
+
+setInterval(() => simulator.confirmConnection(), confirmDelayMs);
+
+Promise.all([simulator.start(port, host), simulator.startDiscovery(discoveryPort)]).then(
+  ([bound, discovery]) =>
+    console.log(`[Simulator] Snapmaker simulator listening on http://${host}:${bound}, discovery on UDP ${discovery}`),
+  (error) => {
+    console.error(`[Simulator] Failed to start:`, error);
+    process.exit(1);
+  },
+);
@@ -0,0 +1,217 @@
+import type { Request, RequestHandler, Response } from "express";
+import { storage } from "./storage";
+import { log, redactForLog } from "./log";
+import type { AuditEntry, AuditResult, InsertAuditEntry, Printer } from "@shared/schema";
+
+/**
+ * Audit trail of everything that changes state. The middleware records each
+ * non-GET request made by a signed-in user or API key once it has been
+ * answered, including refused and failed ones, so "who homed the machine
+ * mid-print" has an answer.
+ */
+
+// What a route can add to its entry through res.locals.audit
+export type AuditContext = {
+  printerId?: number | null;
+  details?: Record<string, unknown>;
+  result?: AuditResult;
+};
+
+// Names for the actions people look for; other routes are recorded as
+// "<METHOD> <route>"
+const ACTIONS: Record<string, string> = {
+  "PUT /api/auth/password": "password-change",
+  "POST /api/auth/api-key": "api-key-generate",
+  "DELETE /api/auth/api-key": "api-key-remove",
+  "PUT /api/notifications/preferences": "notification-settings",
+  "POST /api/notifications/test": "notification-test",
+  "POST /api/users": "user-add",
+  "PUT /api/users/:id": "user-role-change",
+  "DELETE /api/users/:id": "user-delete",
+  "POST /api/printers": "printer-add",
+  "DELETE /api/printers/:id": "printer-delete",
+  "POST /api/printers/:id/connect": "connect",
+  "POST /api/printers/:id/auto-reconnect": "connect",
+  "POST /api/printers/:id/disconnect": "disconnect",
+  "POST /api/printers/:id/save-token": "token-save",
+  "POST /api/printers/:id/jog": "jog",
+  "POST /api/printers/:id/home": "home",
+  "POST /api/printers/:id/emergency-stop": "emergency-stop",
+  "POST /api/printers/:id/print": "print",
+  "POST /api/printers/:id/job/pause": "pause",
+  "POST /api/printers/:id/job/resume": "resume",
+  "POST /api/printers/:id/job/stop": "stop",
+  "POST /api/printers/:id/uploaded-files": "file-add",
+  "DELETE /api/printers/:id/uploaded-files/:fileId": "file-delete",
+  "POST /api/inbox/:fileId/assign": "file-assign",
+  "DELETE /api/inbox/:fileId": "file-delete",
+  "POST /api/files/local": "file-add",
+  "POST /api/upload": "file-add",
+  "PUT /api/printers/:id/camera": "camera-settings",
+  "PUT /api/printers/:id/timelapse": "timelapse-settings",
+  "PUT /api/settings/watch-folder": "watch-folder-settings",
+  "PUT /api/settings/default-printer": "default-printer-settings",
+  "PUT /api/settings/upload-rules": "upload-rules-settings",
+  "PUT /api/settings/luban-proxy": "luban-proxy-settings",
+  "PUT /api/settings/moonraker": "moonraker-settings",
+  "PUT /api/settings/timelapse": "timelapse-retention-settings",
+  // Moonraker's HTTP API, see server/moonraker.ts
+  "POST /server/files/upload": "file-add",
+  "POST /printer/print/start": "print",
+  "POST /printer/print/pause": "pause",
+  "POST /printer/print/resume": "resume",
+  "POST /printer/print/cancel": "stop",
+};
+
+const ACTION_PATTERNS = Object.keys(ACTIONS).map((route) => ({
+  route: route.slice(route.indexOf(" ") + 1),
+  pattern: new RegExp(`^${route.replace(/:\w+/g, "[^/]+")}$`),
+}));
+
+// Signing in and out changes the session, not the machines, Moonraker
+// clients poll status with POST, and push subscriptions are per-browser
+// housekeeping that carries the browser's keys
+const SKIPPED_ROUTES = new Set([
+  "/api/auth/setup",
+  "/api/auth/login",
+  "/api/auth/logout",
+  "/printer/objects/query",
+  "/api/notifications/push-subscription",
+]);
+
+const PRINTER_PATH = /^\/api\/printers\/(\d+)(?:\/|$)/;
+
+/**
+ * Writes an entry. A failure to record is logged rather than failing the
+ * action it describes.
+ */
+export async function recordAudit(entry: InsertAuditEntry): Promise<void> {
+  try {
+    await storage.addAuditEntry(entry);
+  } catch (error) {
+    log(`Failed to write audit entry for ${entry.action}: ${error}`, "audit");
+  }
+}
+
+function resultFor(statusCode: number): AuditResult {
+  if (statusCode < 400) return "success";
+  return statusCode === 401 || statusCode === 403 ? "denied" : "failed";
+}
+
+// Route parameters, query and body, minus secrets and file contents;
+// uploads are recorded by name
+function requestParams(req: Request): Record<string, unknown> | null {
+  const params = {
+    ...req.params,
+    ...(req.query as Record<string, unknown>),
+    ...(req.body && typeof req.body === "object" ? req.body : {}),
+    ...(req.file ? { file: req.file.originalname } : {}),
+  };
+  return Object.keys(params).length > 0 ? (redactForLog(params) as Record<string, unknown>) : null;
+}
+
+// Errors are answered as { error: "..." } here and { error: { message } } by Moonraker
+function errorMessage(body: unknown): string | null {
+  const error = (body as { error?: unknown } | undefined)?.error;
+  if (typeof error === "string") return error;
+  const message = (error as { message?: unknown } | undefined)?.message;
+  return typeof message === "string" ? message : null;
+}
+
+/**
+ * Records every state-changing request once it has been answered. Install it
+ * after authentication and before the routes. `defaultPrinterId` names the
+ * printer for routes that don't say, e.g. Moonraker's, which act on the
+ * default printer.
+ */
+export function auditTrail(defaultPrinterId?: () => Promise<number | null>): RequestHandler {
+  return (req, res, next) => {
+    if (req.method === "GET" || req.method === "HEAD" || req.method === "OPTIONS") return next();
+
+    let responseBody: unknown;
+    const originalJson = res.json;
+    res.json = function (body, ...args) {
+      responseBody = body;
+      return originalJson.apply(res, [body, ...args]);
+    };
+
+    res.on("finish", () => {
+      writeRequestEntry(req, res, responseBody, defaultPrinterId).catch((error) => {
+        log(`Failed to write audit entry: ${error}`, "audit");
+      });
+    });
+    next();
+  };
+}
+
+async function writeRequestEntry(
+  req: Request,
+  res: Response,
+  responseBody: unknown,
+  defaultPrinterId?: () => Promise<number | null>,
+): Promise<void> {
+  // Requests turned away before anyone was identified
+  if (!req.user) return;
+
+  // The role check in the /api guard refuses requests before a route is
+  // matched, so those are looked up by their URL
+  const urlPath = req.originalUrl.split("?")[0];
+  const routePath: string | undefined =
+    req.route?.path ??
+    (res.statusCode === 403
+      ? ACTION_PATTERNS.find(({ pattern }) => pattern.test(`${req.method} ${urlPath}`))?.route
+      : undefined);
+  if (!routePath || SKIPPED_ROUTES.has(routePath)) return;
+
+  const context: AuditContext = res.locals.audit ?? {};
+  const pathPrinterId = PRINTER_PATH.exec(urlPath)?.[1];
+  const printerId =
+    context.printerId !== undefined
+      ? context.printerId
+      : pathPrinterId
+        ? parseInt(pathPrinterId)
+        : ((await defaultPrinterId?.()) ?? null);
+  const error = res.statusCode >= 400 ? errorMessage(responseBody) : null;
+  const params = requestParams(req);
+  const details = { ...(params ? { params } : {}), ...(error ? { error } : {}), ...context.details };
+
+  await recordAudit({
+    // A printer deleted by this very request can't be referenced any more
+    printerId: printerId !== null && (await storage.getPrinter(printerId)) ? printerId : null,
+    action: ACTIONS[`${req.method} ${routePath}`] ?? `${req.method} ${routePath}`,
+    actor: req.user.username,
+    authMethod: res.locals.authMethod ?? "session",
+    sourceIp: req.ip || null,
+    details: Object.keys(details).length > 0 ? details : null,
+    result: context.result ?? resultFor(res.statusCode),
+  });
+}
+
+const CSV_COLUMNS = ["time", "user", "via", "source ip", "printer", "action", "result", "details"];
+
+// Spreadsheets run cells starting with these as formulas, and filenames,
+// printer names and request details all come from users
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function csvField(value: string): string {
+  const safe = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/**
+ * Entries as CSV, for GET /api/audit/export.
+ */
+export function toAuditCsv(entries: AuditEntry[], printers: Pick<Printer, "id" | "name">[]): string {
+  const printerNames = new Map(printers.map((p) => [p.id, p.name]));
+  const rows = entries.map((entry) => [
+    entry.createdAt.toISOString(),
+    entry.actor,
+    entry.authMethod ?? "",
+    entry.sourceIp ?? "",
+    entry.printerId !== null ? (printerNames.get(entry.printerId) ?? `#${entry.printerId}`) : "",
+    entry.action,
+    entry.result,
+    entry.details ? JSON.stringify(entry.details) : "",
+  ]);
+  return [CSV_COLUMNS, ...rows].map((row) => row.map(csvField).join(",")).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,257 @@
+import crypto from "crypto";
+import { promisify } from "util";
+import type { IncomingMessage } from "http";
+import type { Express, Request, RequestHandler, Response } from "express";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { storage, storageBackend } from "./storage";
+import { auditTrail } from "./audit";
+import { pool } from "./db";
+import { hasRole, type User as AppUser, type PublicUser, type UserRole } from "@shared/schema";
+
+/**
+ * Dashboard sign-in. Browsers get a session cookie after logging in;
+ * slicers and Moonraker clients, which can't, send a per-user API key
+ * instead. Until the first admin is created everything but the auth
+ * endpoints is closed, so a fresh install can't be driven by whoever finds
+ * it on the network first.
+ */
+
+declare global {
+  namespace Express {
+    interface User extends AppUser {}
+  }
+}
+
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+const SESSION_SECRET_SETTING = "session_secret";
+const LEGACY_API_KEY_SETTING = "octoprint_api_key";
+const SESSION_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Reachable without signing in: enough to find out whether setup is needed,
+// run it, and log in or out
+const PUBLIC_PATHS = new Set(["/auth/status", "/auth/setup", "/auth/login", "/auth/logout"]);
+
+// Changes any signed-in user may make to their own account. Notification
+// settings are only fully self-service for Web Push and email; the route
+// keeps the URL channels to operators
+const SELF_SERVICE_PATHS = new Set([
+  "/auth/password",
+  "/auth/api-key",
+  "/notifications/preferences",
+  "/notifications/test",
+  "/notifications/push-subscription",
+]);
+
+// The OctoPrint-compatible endpoints slicers call, which also take an API key
+const SLICER_PATHS = new Set(["/version", "/printer", "/job", "/files/local", "/upload", "/slicer-config"]);
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(16).toString("hex");
+  const hash = await scrypt(password, salt, 64);
+  return `scrypt:${salt}:${hash.toString("hex")}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, hash] = stored.split(":");
+  if (scheme !== "scrypt" || !salt || !hash) return false;
+  const expected = Buffer.from(hash, "hex");
+  const given = await scrypt(password, salt, expected.length);
+  return crypto.timingSafeEqual(given, expected);
+}
+
+// Keys are only shown when generated; storage keeps a digest to look them up by
+function hashApiKey(apiKey: string): string {
+  return crypto.createHash("sha256").update(apiKey).digest("hex");
+}
+
+export function toPublicUser({
+  passwordHash: _passwordHash,
+  apiKeyHash,
+  notificationPreferences: _notificationPreferences,
+  pushSubscriptions: _pushSubscriptions,
+  ...user
+}: AppUser): PublicUser {
+  return { ...user, hasApiKey: apiKeyHash !== null };
+}
+
+export async function isSetupRequired(): Promise<boolean> {
+  return (await storage.getUsers()).length === 0;
+}
+
+/**
+ * Gives the user a new API key, replacing any previous one. The key itself
+ * is returned once and not stored.
+ */
+export async function regenerateApiKey(userId: number): Promise<string> {
+  const apiKey = crypto.randomBytes(16).toString("hex").toUpperCase();
+  await storage.updateUser(userId, { apiKeyHash: hashApiKey(apiKey) });
+  return apiKey;
+}
+
+export async function clearApiKey(userId: number): Promise<void> {
+  await storage.updateUser(userId, { apiKeyHash: null });
+}
+
+/**
+ * Earlier versions had one slicer API key in settings. The first admin
+ * inherits it so slicers set up with it keep working after the upgrade.
+ */
+export async function adoptLegacyApiKey(userId: number): Promise<AppUser | null> {
+  const legacyKey = await storage.getSetting(LEGACY_API_KEY_SETTING);
+  if (!legacyKey) return null;
+  const user = await storage.updateUser(userId, { apiKeyHash: hashApiKey(legacyKey) });
+  await storage.setSetting(LEGACY_API_KEY_SETTING, null);
+  return user ?? null;
+}
+
+// OctoPrint clients send the key as X-Api-Key, a bearer token or an `apikey`
+// query parameter; Moonraker clients may use `access_token`
+function requestApiKey(req: IncomingMessage): string | null {
+  const header = req.headers["x-api-key"];
+  if (typeof header === "string" && header) return header;
+  const authorization = req.headers.authorization;
+  if (authorization?.startsWith("Bearer ")) return authorization.slice("Bearer ".length);
+  const params = new URL(req.url ?? "/", "http://localhost").searchParams;
+  return params.get("apikey") ?? params.get("access_token");
+}
+
+/**
+ * The user whose API key a request carries, if any. Shared by the OctoPrint
+ * endpoints and the Moonraker server.
+ */
+export async function authenticateApiKey(req: IncomingMessage): Promise<AppUser | null> {
+  const apiKey = requestApiKey(req);
+  if (!apiKey) return null;
+  return (await storage.getUserByApiKeyHash(hashApiKey(apiKey))) ?? null;
+}
+
+// A generated secret is kept in settings so sessions outlive a restart when
+// the store does; SESSION_SECRET overrides it
+async function getSessionSecret(): Promise<string> {
+  if (process.env.SESSION_SECRET) return process.env.SESSION_SECRET;
+  const saved = await storage.getSetting(SESSION_SECRET_SETTING);
+  if (saved) return saved;
+  const secret = crypto.randomBytes(32).toString("hex");
+  await storage.setSetting(SESSION_SECRET_SETTING, secret);
+  return secret;
+}
+
+// Postgres keeps sessions in its own table; the memory and JSON backends
+// keep them in memory, so a restart signs everyone out
+function createSessionStore(): session.Store {
+  if (storageBackend === "postgres") {
+    const PgStore = connectPg(session);
+    return new PgStore({ pool, createTableIfMissing: true });
+  }
+  const MemoryStore = createMemoryStore(session);
+  return new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 });
+}
+
+// Reading is open to every role; anything else needs an operator unless the
+// route asks for more with requireRole
+function defaultRole(req: Request): UserRole {
+  if (req.method === "GET" || req.method === "HEAD" || SELF_SERVICE_PATHS.has(req.path)) return "viewer";
+  return "operator";
+}
+
+function forbidden(res: Response, role: UserRole) {
+  return res.status(403).json({ error: `This needs the ${role} role` });
+}
+
+/**
+ * Every /api route needs a signed-in user, except the auth endpoints and
+ * the slicer endpoints, which also accept an API key. The user's role must
+ * then cover the request, see defaultRole.
+ */
+const requireAuth: RequestHandler = async (req, res, next) => {
+  if (PUBLIC_PATHS.has(req.path)) return next();
+
+  try {
+    if (!req.isAuthenticated()) {
+      if (!SLICER_PATHS.has(req.path)) {
+        const setupRequired = await isSetupRequired();
+        return res.status(401).json({ error: setupRequired ? "Create an admin account first" : "Not signed in", setupRequired });
+      }
+
+      const user = await authenticateApiKey(req);
+      if (!user) {
+        return res.status(403).json({ error: "Invalid API key" });
+      }
+      req.user = user;
+      // For the audit trail, see server/audit.ts
+      res.locals.authMethod = "api-key";
+    }
+
+    const role = defaultRole(req);
+    if (!hasRole(req.user!.role, role)) return forbidden(res, role);
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * For routes that need more than the default for their method, e.g. admin
+ * settings. Runs after the /api guard, so there is always a user.
+ */
+export function requireRole(role: UserRole): RequestHandler {
+  return (req, res, next) => {
+    if (!req.user || !hasRole(req.user.role, role)) return forbidden(res, role);
+    next();
+  };
+}
+
+/**
+ * Installs sessions, passport, the audit trail and the /api guard. Must run
+ * before any route is registered.
+ */
+export async function setupAuth(app: Express): Promise<void> {
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username.trim().toLowerCase());
+        if (!user || !(await verifyPassword(password, user.passwordHash))) {
+          return done(null, false);
+        }
+        done(null, user);
+      } catch (error) {
+        done(error);
+      }
+    }),
+  );
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      // A deleted user's session just stops being signed in
+      done(null, (await storage.getUser(id)) ?? false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.use(
+    session({
+      secret: await getSessionSecret(),
+      store: createSessionStore(),
+      resave: false,
+      saveUninitialized: false,
+      cookie: {
+        httpOnly: true,
+        sameSite: "lax",
+        // The dashboard is usually reached over plain http on the LAN
+        secure: false,
+        maxAge: SESSION_MAX_AGE_MS,
+      },
+    }),
+  );
+  app.use(passport.initialize());
+  app.use(passport.session());
+  // Ahead of the guard so refused requests are recorded too
+  app.use("/api", auditTrail());
+  app.use("/api", requireAuth);
+}
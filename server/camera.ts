@@ -0,0 +1,274 @@
+import { spawn, type ChildProcess } from "child_process";
+import { Readable } from "stream";
+import type { Response } from "express";
+import type { CameraConfig } from "@shared/schema";
+
+/**
+ * Camera proxy. Every camera type is served to the browser as a same-origin
+ * MJPEG stream (multipart/x-mixed-replace) plus a single-frame snapshot, so
+ * HTTPS dashboards never load plain-http camera URLs directly.
+ */
+
+const BOUNDARY = "snapmakerframe";
+const UPSTREAM_TIMEOUT_MS = 10000;
+
+type FrameListener = (frame: Buffer) => void;
+
+/**
+ * Splits a byte stream of concatenated JPEGs (raw MJPEG, or multipart with
+ * headers in between) into individual frames using the SOI/EOI markers.
+ */
+class JpegFrameSplitter {
+  private buffer = Buffer.alloc(0);
+
+  push(chunk: Buffer): Buffer[] {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+    const frames: Buffer[] = [];
+
+    while (true) {
+      const start = this.buffer.indexOf(Buffer.from([0xff, 0xd8]));
+      if (start === -1) {
+        this.buffer = Buffer.alloc(0);
+        break;
+      }
+      const end = this.buffer.indexOf(Buffer.from([0xff, 0xd9]), start + 2);
+      if (end === -1) {
+        this.buffer = this.buffer.subarray(start);
+        break;
+      }
+      frames.push(Buffer.from(this.buffer.subarray(start, end + 2)));
+      this.buffer = this.buffer.subarray(end + 2);
+    }
+
+    // Guard against a broken stream that never closes a frame
+    if (this.buffer.length > 10 * 1024 * 1024) {
+      this.buffer = Buffer.alloc(0);
+    }
+    return frames;
+  }
+}
+
+function beginMultipart(res: Response) {
+  res.writeHead(200, {
+    "Content-Type": `multipart/x-mixed-replace; boundary=${BOUNDARY}`,
+    "Cache-Control": "no-cache, no-store, must-revalidate",
+    Pragma: "no-cache",
+    Connection: "close",
+  });
+}
+
+function writeFrame(res: Response, frame: Buffer) {
+  res.write(`--${BOUNDARY}\r\nContent-Type: image/jpeg\r\nContent-Length: ${frame.length}\r\n\r\n`);
+  res.write(frame);
+  res.write("\r\n");
+}
+
+async function openUpstream(url: string, signal: AbortSignal): Promise<Readable> {
+  const response = await fetch(url, { signal });
+  if (!response.ok || !response.body) {
+    throw new Error(`Camera responded with ${response.status}`);
+  }
+  return Readable.fromWeb(response.body as import("stream/web").ReadableStream);
+}
+
+async function fetchSnapshotUrl(url: string): Promise<Buffer> {
+  const response = await fetch(url, { signal: AbortSignal.timeout(UPSTREAM_TIMEOUT_MS) });
+  if (!response.ok) {
+    throw new Error(`Camera responded with ${response.status}`);
+  }
+  return Buffer.from(await response.arrayBuffer());
+}
+
+// V4L2 capture: one ffmpeg process per device, shared by every viewer and
+// stopped once the last one disconnects.
+type V4l2Capture = {
+  process: ChildProcess;
+  listeners: Set<FrameListener>;
+  lastFrame: Buffer | null;
+};
+
+const v4l2Captures = new Map<string, V4l2Capture>();
+
+function subscribeV4l2(device: string, resolution: string | undefined, listener: FrameListener): () => void {
+  let capture = v4l2Captures.get(device);
+
+  if (!capture) {
+    const args = ["-hide_banner", "-loglevel", "error", "-f", "v4l2"];
+    if (resolution) args.push("-video_size", resolution);
+    args.push("-i", device, "-f", "mjpeg", "-q:v", "5", "-r", "10", "pipe:1");
+
+    const proc = spawn("ffmpeg", args, { stdio: ["ignore", "pipe", "pipe"] });
+    const splitter = new JpegFrameSplitter();
+    const created: V4l2Capture = { process: proc, listeners: new Set(), lastFrame: null };
+
+    proc.stdout!.on("data", (chunk: Buffer) => {
+      for (const frame of splitter.push(chunk)) {
+        created.lastFrame = frame;
+        Array.from(created.listeners).forEach((l) => l(frame));
+      }
+    });
+    proc.stderr!.on("data", (data: Buffer) => {
+      console.error(`[Camera] ffmpeg (${device}): ${data.toString().trim()}`);
+    });
+    // A failed spawn (no ffmpeg, device busy) emits "error" and may never
+    // emit "exit", so either one retires the capture. It leaves the map first
+    // so the next viewer starts a fresh ffmpeg instead of joining a dead one.
+    let ended = false;
+    const end = () => {
+      if (ended) return;
+      ended = true;
+      if (v4l2Captures.get(device) === created) {
+        v4l2Captures.delete(device);
+      }
+      // Let viewers know the feed is gone so their responses end
+      Array.from(created.listeners).forEach((l) => l(Buffer.alloc(0)));
+    };
+    proc.on("error", (error) => {
+      console.error(`[Camera] Failed to start ffmpeg for ${device}: ${error.message}`);
+      end();
+    });
+    proc.on("exit", end);
+
+    v4l2Captures.set(device, created);
+    capture = created;
+    console.log(`[Camera] Started capture from ${device}`);
+  }
+
+  const active = capture;
+  active.listeners.add(listener);
+
+  return () => {
+    if (!active.listeners.delete(listener)) return;
+    if (active.listeners.size === 0) {
+      // Out of the map before ffmpeg is told to stop, so a viewer arriving
+      // while it shuts down starts a new capture rather than joining this one
+      if (v4l2Captures.get(device) === active) {
+        v4l2Captures.delete(device);
+      }
+      active.process.kill("SIGTERM");
+      console.log(`[Camera] Stopped capture from ${device}`);
+    }
+  };
+}
+
+function waitForV4l2Frame(device: string, resolution: string | undefined): Promise<Buffer> {
+  const existing = v4l2Captures.get(device)?.lastFrame;
+  if (existing) return Promise.resolve(existing);
+
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      unsubscribe();
+      reject(new Error(`No frame from ${device}`));
+    }, UPSTREAM_TIMEOUT_MS);
+
+    const unsubscribe = subscribeV4l2(device, resolution, (frame) => {
+      clearTimeout(timer);
+      unsubscribe();
+      if (frame.length === 0) {
+        reject(new Error(`Capture from ${device} stopped`));
+      } else {
+        resolve(frame);
+      }
+    });
+  });
+}
+
+/**
+ * Pipes the configured camera to the response as an MJPEG stream until the
+ * client disconnects. Rejects before any bytes are written if the camera
+ * can't be reached, so callers can still send an error response.
+ */
+export async function streamCamera(config: CameraConfig, res: Response): Promise<void> {
+  const controller = new AbortController();
+  let closed = false;
+  res.on("close", () => {
+    closed = true;
+    controller.abort();
+  });
+
+  if (config.type === "mjpeg") {
+    const connectTimer = setTimeout(() => controller.abort(), UPSTREAM_TIMEOUT_MS);
+    const upstream = await openUpstream(config.url, controller.signal).finally(() => clearTimeout(connectTimer));
+    const splitter = new JpegFrameSplitter();
+    beginMultipart(res);
+    upstream.on("data", (chunk: Buffer) => {
+      for (const frame of splitter.push(chunk)) writeFrame(res, frame);
+    });
+    upstream.on("error", () => res.end());
+    upstream.on("end", () => res.end());
+    return;
+  }
+
+  if (config.type === "snapshot") {
+    // Fetch the first frame up front so an unreachable camera becomes an error response
+    const first = await fetchSnapshotUrl(config.url);
+    beginMultipart(res);
+    writeFrame(res, first);
+
+    while (!closed) {
+      await new Promise((resolve) => setTimeout(resolve, config.intervalMs));
+      if (closed) break;
+      try {
+        writeFrame(res, await fetchSnapshotUrl(config.url));
+      } catch (error) {
+        console.log(`[Camera] Snapshot failed: ${error instanceof Error ? error.message : error}`);
+        break;
+      }
+    }
+    res.end();
+    return;
+  }
+
+  // Subscribed before waiting for the first frame, so the capture still has
+  // a listener when waitForV4l2Frame lets go of it and ffmpeg keeps running
+  let streaming = false;
+  const unsubscribe = subscribeV4l2(config.device, config.resolution, (frame) => {
+    if (!streaming) return;
+    if (frame.length === 0) {
+      res.end();
+      return;
+    }
+    writeFrame(res, frame);
+  });
+  res.on("close", unsubscribe);
+
+  let first: Buffer;
+  try {
+    first = await waitForV4l2Frame(config.device, config.resolution);
+  } catch (error) {
+    unsubscribe();
+    throw error;
+  }
+  if (closed) return;
+  beginMultipart(res);
+  writeFrame(res, first);
+  streaming = true;
+}
+
+/**
+ * Grabs a single JPEG frame from the configured camera.
+ */
+export async function getCameraSnapshot(config: CameraConfig): Promise<Buffer> {
+  if (config.type === "snapshot") {
+    return fetchSnapshotUrl(config.url);
+  }
+
+  if (config.type === "v4l2") {
+    return waitForV4l2Frame(config.device, config.resolution);
+  }
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), UPSTREAM_TIMEOUT_MS);
+  try {
+    const upstream = await openUpstream(config.url, controller.signal);
+    const splitter = new JpegFrameSplitter();
+    for await (const chunk of upstream) {
+      const [frame] = splitter.push(chunk as Buffer);
+      if (frame) return frame;
+    }
+    throw new Error("Camera stream ended before a frame arrived");
+  } finally {
+    clearTimeout(timer);
+    controller.abort();
+  }
+}
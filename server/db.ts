@@ -3,12 +3,8 @@ import pkg from "pg";
 const { Pool } = pkg;
 import * as schema from "@shared/schema";
 
-if (!process.env.DATABASE_URL) {
-  throw new Error(
-    "DATABASE_URL must be set. Did you forget to provision a database?",
-  );
-}
-
+// The pool only connects on first query, so importing this without a
+// database is fine as long as a non-Postgres storage backend is in use
 export const pool = new Pool({
   connectionString: process.env.DATABASE_URL,
 });
@@ -18,9 +18,28 @@ const REQUIRED_TABLES = [
         id SERIAL PRIMARY KEY,
         name TEXT NOT NULL,
         ip_address TEXT NOT NULL,
+        discovery_name TEXT,
         token TEXT,
         is_connected BOOLEAN DEFAULT false,
-        last_seen TIMESTAMP
+        last_seen TIMESTAMP,
+        emergency_stopped_at TIMESTAMP,
+        camera JSONB,
+        timelapse JSONB,
+        queue_state JSONB
+      )
+    `,
+  },
+  {
+    name: "uploaded_files",
+    createSQL: `
+      CREATE TABLE IF NOT EXISTS uploaded_files (
+        id SERIAL PRIMARY KEY,
+        printer_id INTEGER REFERENCES printers(id),
+        filename TEXT NOT NULL,
+        display_name TEXT,
+        file_content TEXT,
+        uploaded_at TIMESTAMP DEFAULT NOW(),
+        source TEXT NOT NULL
       )
     `,
   },
@@ -30,7 +49,9 @@ const REQUIRED_TABLES = [
       CREATE TABLE IF NOT EXISTS print_jobs (
         id SERIAL PRIMARY KEY,
         printer_id INTEGER REFERENCES printers(id),
+        file_id INTEGER REFERENCES uploaded_files(id) ON DELETE SET NULL,
         filename TEXT NOT NULL,
+        source TEXT,
         progress INTEGER DEFAULT 0,
         status TEXT NOT NULL,
         started_at TIMESTAMP DEFAULT NOW(),
@@ -49,31 +70,153 @@ const REQUIRED_TABLES = [
     `,
   },
   {
-    name: "uploaded_files",
+    name: "app_settings",
     createSQL: `
-      CREATE TABLE IF NOT EXISTS uploaded_files (
+      CREATE TABLE IF NOT EXISTS app_settings (
         id SERIAL PRIMARY KEY,
-        printer_id INTEGER REFERENCES printers(id) NOT NULL,
-        filename TEXT NOT NULL,
-        display_name TEXT,
-        file_content TEXT,
-        uploaded_at TIMESTAMP DEFAULT NOW(),
-        source TEXT NOT NULL
+        key TEXT NOT NULL UNIQUE,
+        value TEXT
       )
     `,
   },
   {
-    name: "app_settings",
+    name: "audit_log",
     createSQL: `
-      CREATE TABLE IF NOT EXISTS app_settings (
+      CREATE TABLE IF NOT EXISTS audit_log (
         id SERIAL PRIMARY KEY,
-        key TEXT NOT NULL UNIQUE,
-        value TEXT
+        printer_id INTEGER REFERENCES printers(id) ON DELETE SET NULL,
+        action TEXT NOT NULL,
+        actor TEXT NOT NULL,
+        auth_method TEXT,
+        source_ip TEXT,
+        details JSONB,
+        result TEXT NOT NULL,
+        created_at TIMESTAMP DEFAULT NOW() NOT NULL
+      )
+    `,
+  },
+  {
+    name: "temperature_samples",
+    createSQL: `
+      CREATE TABLE IF NOT EXISTS temperature_samples (
+        id SERIAL PRIMARY KEY,
+        printer_id INTEGER REFERENCES printers(id) ON DELETE CASCADE NOT NULL,
+        recorded_at TIMESTAMP DEFAULT NOW() NOT NULL,
+        nozzle REAL NOT NULL,
+        bed REAL NOT NULL,
+        target_nozzle REAL NOT NULL,
+        target_bed REAL NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS temperature_samples_printer_time_idx
+        ON temperature_samples (printer_id, recorded_at)
+    `,
+  },
+  {
+    name: "print_queue",
+    createSQL: `
+      CREATE TABLE IF NOT EXISTS print_queue (
+        id SERIAL PRIMARY KEY,
+        printer_id INTEGER REFERENCES printers(id) ON DELETE CASCADE NOT NULL,
+        file_id INTEGER REFERENCES uploaded_files(id) ON DELETE CASCADE NOT NULL,
+        position INTEGER NOT NULL,
+        last_error TEXT,
+        added_at TIMESTAMP DEFAULT NOW() NOT NULL
+      )
+    `,
+  },
+  {
+    name: "scheduled_prints",
+    createSQL: `
+      CREATE TABLE IF NOT EXISTS scheduled_prints (
+        id SERIAL PRIMARY KEY,
+        printer_id INTEGER REFERENCES printers(id) ON DELETE CASCADE NOT NULL,
+        file_id INTEGER REFERENCES uploaded_files(id) ON DELETE CASCADE NOT NULL,
+        start_at TIMESTAMP NOT NULL,
+        status TEXT NOT NULL,
+        reason TEXT,
+        job_id INTEGER REFERENCES print_jobs(id) ON DELETE SET NULL,
+        created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+        fired_at TIMESTAMP
+      );
+      CREATE INDEX IF NOT EXISTS scheduled_prints_status_start_idx
+        ON scheduled_prints (status, start_at)
+    `,
+  },
+  {
+    name: "upload_rules",
+    createSQL: `
+      CREATE TABLE IF NOT EXISTS upload_rules (
+        id SERIAL PRIMARY KEY,
+        printer_id INTEGER REFERENCES printers(id) ON DELETE CASCADE NOT NULL,
+        position INTEGER NOT NULL,
+        tool_type TEXT,
+        filename_pattern TEXT,
+        folder TEXT,
+        tag TEXT
+      )
+    `,
+  },
+  {
+    name: "timelapses",
+    createSQL: `
+      CREATE TABLE IF NOT EXISTS timelapses (
+        id SERIAL PRIMARY KEY,
+        job_id INTEGER REFERENCES print_jobs(id) ON DELETE CASCADE NOT NULL UNIQUE,
+        printer_id INTEGER REFERENCES printers(id) ON DELETE CASCADE NOT NULL,
+        mode TEXT NOT NULL,
+        status TEXT NOT NULL,
+        frame_count INTEGER DEFAULT 0 NOT NULL,
+        size_bytes INTEGER DEFAULT 0 NOT NULL,
+        file_path TEXT,
+        created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+        completed_at TIMESTAMP
+      )
+    `,
+  },
+  {
+    name: "users",
+    createSQL: `
+      CREATE TABLE IF NOT EXISTS users (
+        id SERIAL PRIMARY KEY,
+        username TEXT NOT NULL UNIQUE,
+        password_hash TEXT NOT NULL,
+        role TEXT NOT NULL,
+        api_key_hash TEXT UNIQUE,
+        created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+        notification_preferences JSONB,
+        push_subscriptions JSONB DEFAULT '[]'::jsonb NOT NULL
       )
     `,
   },
 ];
 
+// Columns added after a table was first created. CREATE TABLE IF NOT EXISTS
+// won't touch existing installs, so these are added in place.
+const REQUIRED_COLUMNS = [
+  { table: "printers", column: "emergency_stopped_at", definition: "TIMESTAMP" },
+  { table: "printers", column: "camera", definition: "JSONB" },
+  { table: "printers", column: "timelapse", definition: "JSONB" },
+  { table: "printers", column: "queue_state", definition: "JSONB" },
+  { table: "printers", column: "discovery_name", definition: "TEXT" },
+  { table: "uploaded_files", column: "thumbnail", definition: "TEXT" },
+  { table: "uploaded_files", column: "metadata", definition: "JSONB" },
+  { table: "uploaded_files", column: "content_hash", definition: "TEXT" },
+  { table: "uploaded_files", column: "size", definition: "INTEGER" },
+  { table: "print_jobs", column: "file_id", definition: "INTEGER REFERENCES uploaded_files(id) ON DELETE SET NULL" },
+  { table: "print_jobs", column: "source", definition: "TEXT" },
+  // Accounts from before roles had full access, so they start out as admins
+  { table: "users", column: "role", definition: "TEXT NOT NULL DEFAULT 'admin'" },
+  { table: "audit_log", column: "auth_method", definition: "TEXT" },
+  { table: "users", column: "notification_preferences", definition: "JSONB" },
+  { table: "users", column: "push_subscriptions", definition: "JSONB DEFAULT '[]'::jsonb NOT NULL" },
+];
+
+// Columns that older versions created NOT NULL and that may now be empty
+const NULLABLE_COLUMNS = [
+  // Files in the unassigned inbox have no printer
+  { table: "uploaded_files", column: "printer_id" },
+];
+
 export async function ensureSchema(): Promise<void> {
   const client = await pool.connect();
   
@@ -96,6 +239,36 @@ export async function ensureSchema(): Promise<void> {
       }
     }
     
+    for (const { table, column, definition } of REQUIRED_COLUMNS) {
+      const result = await client.query(`
+        SELECT EXISTS (
+          SELECT FROM information_schema.columns 
+          WHERE table_schema = 'public' 
+          AND table_name = $1
+          AND column_name = $2
+        )
+      `, [table, column]);
+
+      if (!result.rows[0]?.exists) {
+        log(`[Schema] Adding missing column: ${table}.${column}`, "db");
+        await client.query(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+      }
+    }
+
+    for (const { table, column } of NULLABLE_COLUMNS) {
+      const result = await client.query(`
+        SELECT is_nullable FROM information_schema.columns
+        WHERE table_schema = 'public'
+        AND table_name = $1
+        AND column_name = $2
+      `, [table, column]);
+
+      if (result.rows[0]?.is_nullable === "NO") {
+        log(`[Schema] Allowing nulls in column: ${table}.${column}`, "db");
+        await client.query(`ALTER TABLE ${table} ALTER COLUMN ${column} DROP NOT NULL`);
+      }
+    }
+    
     log("[Schema] All required tables verified", "db");
   } catch (error) {
     log(`[Schema] Error ensuring schema: ${error}`, "db");
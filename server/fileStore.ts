@@ -0,0 +1,129 @@
+import { createHash, randomUUID } from "crypto";
+import { createReadStream, createWriteStream } from "fs";
+import fs from "fs/promises";
+import path from "path";
+import { pipeline } from "stream/promises";
+import type { Readable } from "stream";
+
+export type StoredContent = {
+  hash: string;
+  size: number;
+};
+
+/**
+ * Content-addressed storage for G-code files. Content is keyed by its SHA-256
+ * hash, so storing the same file twice keeps a single copy.
+ */
+export interface FileStore {
+  put(content: Buffer): Promise<StoredContent>;
+  // Stores a file that's already on disk. With `move` the source is consumed
+  // (e.g. a multer temp file); otherwise it's copied (e.g. the watch folder).
+  putFile(sourcePath: string, options?: { move?: boolean }): Promise<StoredContent>;
+  read(hash: string): Promise<Buffer>;
+  readRange(hash: string, start: number, end: number): Promise<Buffer>;
+  createReadStream(hash: string): Readable;
+  exists(hash: string): Promise<boolean>;
+  delete(hash: string): Promise<void>;
+}
+
+const HASH_PATTERN = /^[a-f0-9]{64}$/;
+
+export class LocalDiskFileStore implements FileStore {
+  constructor(private readonly root: string) {}
+
+  private pathFor(hash: string): string {
+    if (!HASH_PATTERN.test(hash)) {
+      throw new Error(`Invalid content hash: ${hash}`);
+    }
+    // Fan out into subdirectories so no single directory gets huge
+    return path.join(this.root, hash.slice(0, 2), hash);
+  }
+
+  private async tempPath(): Promise<string> {
+    const dir = path.join(this.root, "tmp");
+    await fs.mkdir(dir, { recursive: true });
+    return path.join(dir, randomUUID());
+  }
+
+  private async commit(tempPath: string, hash: string): Promise<void> {
+    const target = this.pathFor(hash);
+    if (await this.exists(hash)) {
+      await fs.rm(tempPath, { force: true });
+      return;
+    }
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.rename(tempPath, target);
+  }
+
+  async put(content: Buffer): Promise<StoredContent> {
+    const hash = createHash("sha256").update(content).digest("hex");
+    const temp = await this.tempPath();
+    await fs.writeFile(temp, content);
+    await this.commit(temp, hash);
+    return { hash, size: content.length };
+  }
+
+  async putFile(sourcePath: string, options: { move?: boolean } = {}): Promise<StoredContent> {
+    const temp = await this.tempPath();
+    const hasher = createHash("sha256");
+    let size = 0;
+
+    // Hash while copying so large files are only read once
+    const source = createReadStream(sourcePath);
+    source.on("data", (chunk) => {
+      hasher.update(chunk);
+      size += chunk.length;
+    });
+
+    try {
+      await pipeline(source, createWriteStream(temp));
+    } catch (error) {
+      await fs.rm(temp, { force: true });
+      throw error;
+    }
+
+    const hash = hasher.digest("hex");
+    await this.commit(temp, hash);
+    if (options.move) {
+      await fs.rm(sourcePath, { force: true });
+    }
+    return { hash, size };
+  }
+
+  async read(hash: string): Promise<Buffer> {
+    return fs.readFile(this.pathFor(hash));
+  }
+
+  async readRange(hash: string, start: number, end: number): Promise<Buffer> {
+    const handle = await fs.open(this.pathFor(hash), "r");
+    try {
+      const length = Math.max(0, end - start);
+      const buffer = Buffer.alloc(length);
+      const { bytesRead } = await handle.read(buffer, 0, length, start);
+      return buffer.subarray(0, bytesRead);
+    } finally {
+      await handle.close();
+    }
+  }
+
+  createReadStream(hash: string): Readable {
+    return createReadStream(this.pathFor(hash));
+  }
+
+  async exists(hash: string): Promise<boolean> {
+    try {
+      await fs.access(this.pathFor(hash));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async delete(hash: string): Promise<void> {
+    await fs.rm(this.pathFor(hash), { force: true });
+  }
+}
+
+export const fileStore: FileStore = new LocalDiskFileStore(
+  process.env.FILE_STORE_DIR || path.resolve("data", "files"),
+);
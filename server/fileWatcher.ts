@@ -1,8 +1,8 @@
 import { watch, FSWatcher } from "fs";
-import { readdir, readFile, stat } from "fs/promises";
-import { join, extname } from "path";
+import { readdir, stat } from "fs/promises";
+import { join, extname, basename, dirname } from "path";
 import { storage } from "./storage";
-import { extractThumbnail } from "./thumbnailExtractor";
+import { saveIncomingGcodeFile, isFilenameStored } from "./gcodeFiles";
 
 let watcher: FSWatcher | null = null;
 let watchPath: string | null = null;
@@ -10,7 +10,10 @@ let processedFiles = new Set<string>();
 
 const GCODE_EXTENSIONS = [".gcode", ".nc", ".cnc"];
 
-async function processNewFile(filePath: string, filename: string) {
+// `relativePath` is the file's path inside the watch folder; its folder part
+// is what upload rules match subfolders against
+async function processNewFile(filePath: string, relativePath: string) {
+  const filename = basename(relativePath);
   try {
     if (processedFiles.has(filePath)) {
       return;
@@ -26,36 +29,27 @@ async function processNewFile(filePath: string, filename: string) {
       return;
     }
 
-    const printers = await storage.getAllPrinters();
-    const printer = printers.find((p) => p.isConnected) || printers[0];
-    
-    if (!printer) {
-      console.log(`[FileWatcher] No printer configured, skipping file: ${filename}`);
-      return;
-    }
-
-    const existingFiles = await storage.getUploadedFiles(printer.id);
-    if (existingFiles.some((f) => f.filename === filename)) {
+    if (await isFilenameStored(filename)) {
       console.log(`[FileWatcher] File already exists: ${filename}`);
       processedFiles.add(filePath);
       return;
     }
 
-    const fileContent = await readFile(filePath, "utf-8");
     const displayName = filename.replace(/\.[^/.]+$/, "");
-    const thumbnail = extractThumbnail(fileContent);
+    const folder = dirname(relativePath);
 
-    await storage.addUploadedFile({
-      printerId: printer.id,
+    // Copied, not moved: the watch folder belongs to the user
+    const saved = await saveIncomingGcodeFile({
+      path: filePath,
       filename,
       displayName,
-      fileContent,
-      thumbnail,
       source: "watch-folder",
+      folder: folder === "." ? null : folder,
     });
 
     processedFiles.add(filePath);
-    console.log(`[FileWatcher] Added file from watch folder: ${filename}${thumbnail ? ' (with thumbnail)' : ''}`);
+    const destination = saved.printerId === null ? "the unassigned inbox" : `printer ${saved.printerId}`;
+    console.log(`[FileWatcher] Added ${relativePath} from watch folder to ${destination}${saved.thumbnail ? ' (with thumbnail)' : ''}`);
   } catch (error) {
     console.error(`[FileWatcher] Error processing file ${filename}:`, error);
   }
@@ -63,10 +57,9 @@ async function processNewFile(filePath: string, filename: string) {
 
 async function scanExistingFiles(dirPath: string) {
   try {
-    const files = await readdir(dirPath);
-    for (const filename of files) {
-      const filePath = join(dirPath, filename);
-      await processNewFile(filePath, filename);
+    const files = await readdir(dirPath, { recursive: true });
+    for (const relativePath of files) {
+      await processNewFile(join(dirPath, relativePath), relativePath);
     }
   } catch (error) {
     console.error(`[FileWatcher] Error scanning directory:`, error);
@@ -88,10 +81,11 @@ export async function startWatcher(folderPath: string): Promise<boolean> {
 
     await scanExistingFiles(folderPath);
 
-    watcher = watch(folderPath, { persistent: true }, async (eventType, filename) => {
-      if (eventType === "rename" && filename) {
-        const filePath = join(folderPath, filename);
-        setTimeout(() => processNewFile(filePath, filename), 500);
+    // Recursive so files dropped into subfolders can be routed by folder
+    watcher = watch(folderPath, { persistent: true, recursive: true }, async (eventType, relativePath) => {
+      if (eventType === "rename" && relativePath) {
+        const filePath = join(folderPath, relativePath);
+        setTimeout(() => processNewFile(filePath, relativePath), 500);
       }
     });
 
@@ -0,0 +1,219 @@
+import multer from "multer";
+import os from "os";
+import { rm } from "fs/promises";
+import { storage } from "./storage";
+import { fileStore, type StoredContent } from "./fileStore";
+import { extractThumbnail } from "./thumbnailExtractor";
+import { extractMetadata } from "./gcodeMetadata";
+import { routeIncomingFile } from "./uploadRouting";
+import type { UploadedFile } from "@shared/schema";
+
+// Thumbnails and slicer headers sit at the start of a file and PrusaSlicer's
+// summary at the end, so that's all that has to be read to index a file
+const PREVIEW_HEAD_BYTES = 1024 * 1024;
+const PREVIEW_TAIL_BYTES = 256 * 1024;
+
+type GcodeSource = { content: Buffer } | { path: string; move?: boolean };
+
+type GcodeFileDetails = {
+  filename: string;
+  displayName: string | null;
+  source: string;
+};
+
+type SaveGcodeFileOptions = GcodeSource & GcodeFileDetails & {
+  printerId: number;
+};
+
+type SaveIncomingGcodeFileOptions = GcodeSource & GcodeFileDetails & {
+  folder?: string | null;
+  tag?: string | null;
+};
+
+// Uploads are spooled to a temp file and then moved into the file store, so
+// large files never have to fit in memory
+export const gcodeUpload = multer({
+  dest: os.tmpdir(),
+  limits: { fileSize: 100 * 1024 * 1024 }, // 100MB limit
+  fileFilter: (req, file, cb) => {
+    const allowedExtensions = [".gcode", ".nc", ".cnc"];
+    const ext = file.originalname.toLowerCase().slice(file.originalname.lastIndexOf("."));
+    if (allowedExtensions.includes(ext)) {
+      cb(null, true);
+    } else {
+      cb(new Error("Only G-code files (.gcode, .nc, .cnc) are allowed"));
+    }
+  },
+});
+
+/**
+ * Deletes an upload's temp file. Once saveGcodeFile has moved it into the
+ * store there is nothing left to delete, so routes call this on every path,
+ * including early returns and errors.
+ */
+export async function discardUpload(file: Express.Multer.File | undefined): Promise<void> {
+  if (!file) return;
+  await rm(file.path, { force: true }).catch((error) => {
+    console.error(`[GcodeFiles] Failed to remove upload ${file.path}:`, error);
+  });
+}
+
+async function readPreview({ hash, size }: StoredContent): Promise<string> {
+  if (size <= PREVIEW_HEAD_BYTES + PREVIEW_TAIL_BYTES) {
+    return (await fileStore.read(hash)).toString("utf-8");
+  }
+  const head = await fileStore.readRange(hash, 0, PREVIEW_HEAD_BYTES);
+  const tail = await fileStore.readRange(hash, size - PREVIEW_TAIL_BYTES, size);
+  return `${head.toString("utf-8")}\n${tail.toString("utf-8")}`;
+}
+
+async function storeGcodeContent(source: GcodeSource) {
+  const stored = "content" in source
+    ? await fileStore.put(source.content)
+    : await fileStore.putFile(source.path, { move: source.move });
+
+  const preview = await readPreview(stored);
+  return { stored, thumbnail: extractThumbnail(preview), metadata: extractMetadata(preview) };
+}
+
+/**
+ * Puts a G-code file in the file store and records it for a printer, with its
+ * thumbnail and slicer metadata.
+ */
+export async function saveGcodeFile(options: SaveGcodeFileOptions): Promise<UploadedFile> {
+  const { stored, thumbnail, metadata } = await storeGcodeContent(options);
+
+  return storage.addUploadedFile({
+    printerId: options.printerId,
+    filename: options.filename,
+    displayName: options.displayName,
+    contentHash: stored.hash,
+    size: stored.size,
+    thumbnail,
+    metadata,
+    source: options.source,
+  });
+}
+
+/**
+ * Saves a file that arrived without a printer (slicer upload, watch folder,
+ * Luban proxy) to the printer the upload rules pick, or to the unassigned
+ * inbox. The tool type the rules match on comes from the file's header.
+ */
+export async function saveIncomingGcodeFile(options: SaveIncomingGcodeFileOptions): Promise<UploadedFile> {
+  const { stored, thumbnail, metadata } = await storeGcodeContent(options);
+  const { printerId } = await routeIncomingFile({
+    filename: options.filename,
+    toolType: metadata?.toolType ?? null,
+    folder: options.folder ?? null,
+    tag: options.tag ?? null,
+  });
+
+  return storage.addUploadedFile({
+    printerId,
+    filename: options.filename,
+    displayName: options.displayName,
+    contentHash: stored.hash,
+    size: stored.size,
+    thumbnail,
+    metadata,
+    source: options.source,
+  });
+}
+
+/**
+ * Whether a file with this name is already stored for any printer or in the
+ * inbox, so re-scanned watch folders and repeated Luban sends aren't added twice.
+ */
+export async function isFilenameStored(filename: string): Promise<boolean> {
+  const printers = await storage.getAllPrinters();
+  for (const printerId of [null, ...printers.map((p) => p.id)]) {
+    const files = await storage.getUploadedFiles(printerId);
+    if (files.some((f) => f.filename === filename)) return true;
+  }
+  return false;
+}
+
+/**
+ * Reads a stored file's full content, or null when only its name is tracked.
+ */
+export async function readGcodeFile(file: UploadedFile): Promise<Buffer | null> {
+  if (!file.contentHash) return null;
+  return fileStore.read(file.contentHash);
+}
+
+/**
+ * Removes stored content once no file record points at it any more.
+ */
+export async function releaseGcodeContent(contentHash: string | null): Promise<void> {
+  if (!contentHash) return;
+  if (!(await storage.isContentHashInUse(contentHash))) {
+    await fileStore.delete(contentHash);
+  }
+}
+
+/**
+ * Deletes every file stored for a printer, releasing content nothing else
+ * uses, so the printer itself can be deleted.
+ */
+export async function deletePrinterFiles(printerId: number): Promise<void> {
+  for (const file of await storage.getUploadedFiles(printerId)) {
+    await storage.deleteUploadedFile(file.id, printerId);
+    await releaseGcodeContent(file.contentHash);
+  }
+}
+
+/**
+ * Moves G-code stored inline in `uploaded_files.file_content` (from before the
+ * file store existed) onto disk, one row at a time to keep memory flat.
+ */
+async function migrateInlineFileContent(): Promise<void> {
+  try {
+    let migrated = 0;
+    let next = await storage.getNextInlineFile();
+    while (next) {
+      const { hash, size } = await fileStore.put(Buffer.from(next.fileContent, "utf-8"));
+      await storage.moveInlineFileContent(next.id, hash, size);
+      migrated++;
+      next = await storage.getNextInlineFile();
+    }
+    if (migrated > 0) {
+      console.log(`[GcodeFiles] Moved ${migrated} files from the database into the file store`);
+    }
+  } catch (error) {
+    console.error(`[GcodeFiles] Error migrating inline file content:`, error);
+  }
+}
+
+/**
+ * Fills in metadata for files that were stored before it was extracted.
+ */
+async function backfillFileMetadata(): Promise<void> {
+  try {
+    let updated = 0;
+    for (const printer of await storage.getAllPrinters()) {
+      for (const file of await storage.getUploadedFiles(printer.id)) {
+        if (file.metadata || !file.contentHash || file.size === null) continue;
+        const metadata = extractMetadata(await readPreview({ hash: file.contentHash, size: file.size }));
+        if (metadata) {
+          await storage.updateUploadedFile(file.id, { metadata });
+          updated++;
+        }
+      }
+    }
+    if (updated > 0) {
+      console.log(`[GcodeFiles] Added metadata to ${updated} existing files`);
+    }
+  } catch (error) {
+    console.error(`[GcodeFiles] Error backfilling file metadata:`, error);
+  }
+}
+
+/**
+ * Runs the one-off migrations for stored files in order: inline content has
+ * to be on disk before its metadata can be read.
+ */
+export async function initializeGcodeFiles(): Promise<void> {
+  await migrateInlineFileContent();
+  await backfillFileMetadata();
+}
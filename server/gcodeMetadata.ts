@@ -0,0 +1,188 @@
+import type { GcodeMetadata } from "@shared/schema";
+
+/**
+ * Extracts print metadata from G-code comments.
+ *
+ * Supported sources:
+ * - Snapmaker Luban: ;Header Start ... ;Header End block with `key(unit): value` lines
+ * - PrusaSlicer/SuperSlicer: `; key = value` comments, mostly in the trailer
+ * - Cura: ;TIME:, ;Filament used:, ;Layer height: and ;MINX:/;MAXX: style lines
+ *
+ * Only the start and end of the file are scanned, since that's where slicers
+ * put these comments and files can be very large.
+ */
+
+const HEAD_BYTES = 1024 * 1024;
+const TAIL_BYTES = 256 * 1024;
+
+type Bounds = NonNullable<GcodeMetadata["bounds"]>;
+
+function toNumber(value: string | undefined): number | null {
+  if (value === undefined) return null;
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+// PrusaSlicer writes durations like "1d 2h 3m 4s"
+function parseDuration(value: string): number | null {
+  const parts = Array.from(value.matchAll(/(\d+)\s*([dhms])/g));
+  if (parts.length === 0) return toNumber(value);
+
+  const unitSeconds: Record<string, number> = { d: 86400, h: 3600, m: 60, s: 1 };
+  return parts.reduce((total, [, amount, unit]) => total + parseInt(amount, 10) * unitSeconds[unit], 0);
+}
+
+function normalizeToolType(value: string): GcodeMetadata["toolType"] {
+  const normalized = value.toLowerCase();
+  if (normalized.includes("laser")) return "laser";
+  if (normalized.includes("cnc")) return "cnc";
+  if (normalized.includes("3dp") || normalized.includes("print")) return "3dp";
+  return null;
+}
+
+// Luban keys carry their unit in brackets, e.g. "nozzle_temperature(°C)"
+function parseLubanHeader(lines: string[]): Map<string, string> {
+  const fields = new Map<string, string>();
+  const start = lines.findIndex((line) => /^;\s*Header Start/i.test(line));
+  if (start === -1) return fields;
+
+  for (let i = start + 1; i < lines.length; i++) {
+    const line = lines[i];
+    if (/^;\s*Header End/i.test(line)) break;
+    const match = line.match(/^;\s*([A-Za-z_][\w ]*?)(?:\([^)]*\))?\s*:\s*(.*)$/);
+    if (match && !match[2].startsWith("data:")) {
+      fields.set(match[1].trim().toLowerCase(), match[2].trim());
+    }
+  }
+  return fields;
+}
+
+// PrusaSlicer-style "; key = value" comments
+function parseKeyValueComments(lines: string[]): Map<string, string> {
+  const fields = new Map<string, string>();
+  for (const line of lines) {
+    const match = line.match(/^;\s*([^=;]+?)\s*=\s*(.*)$/);
+    if (match) {
+      fields.set(match[1].trim().toLowerCase(), match[2].trim());
+    }
+  }
+  return fields;
+}
+
+// Cura-style ";KEY:value" comments
+function parseColonComments(lines: string[]): Map<string, string> {
+  const fields = new Map<string, string>();
+  for (const line of lines) {
+    const match = line.match(/^;([A-Za-z][A-Za-z _.]*?):\s*(.+)$/);
+    if (match && !fields.has(match[1].toLowerCase())) {
+      fields.set(match[1].trim().toLowerCase(), match[2].trim());
+    }
+  }
+  return fields;
+}
+
+// Falls back to the first heater commands when the slicer didn't write temperatures as comments
+function findFirstTemperature(lines: string[], commands: string[]): number | null {
+  const pattern = new RegExp(`^(?:${commands.join("|")})\\b[^;]*\\bS(\\d+(?:\\.\\d+)?)`, "i");
+  for (const line of lines) {
+    const match = line.match(pattern);
+    if (match) {
+      const value = parseFloat(match[1]);
+      if (value > 0) return value;
+    }
+  }
+  return null;
+}
+
+function readBounds(get: (key: string) => string | undefined): Bounds | null {
+  const values = {
+    minX: toNumber(get("min_x")),
+    maxX: toNumber(get("max_x")),
+    minY: toNumber(get("min_y")),
+    maxY: toNumber(get("max_y")),
+    minZ: toNumber(get("min_z")),
+    maxZ: toNumber(get("max_z")),
+  };
+  if (Object.values(values).some((v) => v === null)) return null;
+  return values as Bounds;
+}
+
+export function extractMetadata(gcode: string): GcodeMetadata | null {
+  if (!gcode || typeof gcode !== "string") {
+    return null;
+  }
+
+  const head = gcode.length > HEAD_BYTES ? gcode.slice(0, HEAD_BYTES) : gcode;
+  const tail = gcode.length > HEAD_BYTES ? gcode.slice(Math.max(HEAD_BYTES, gcode.length - TAIL_BYTES)) : "";
+  const lines = (tail ? `${head}\n${tail}` : head)
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0 && line.length < 2000);
+
+  const luban = parseLubanHeader(lines);
+  const prusa = parseKeyValueComments(lines);
+  const cura = parseColonComments(lines);
+  const first = (...values: Array<string | undefined>) => values.find((v) => v !== undefined && v !== "");
+
+  const generator = lines.find((line) => /^;\s*(generated (with|by)|sliced by)/i.test(line));
+  const slicer = luban.size > 0
+    ? "Snapmaker Luban"
+    : generator?.replace(/^;\s*(generated (with|by)|sliced by)\s*/i, "").trim() || null;
+
+  const toolTypeValue = first(luban.get("header_type"), luban.get("tool_head"));
+  const prusaTime = first(
+    prusa.get("estimated printing time (normal mode)"),
+    prusa.get("estimated printing time"),
+  );
+
+  // Cura reports filament in metres, PrusaSlicer in millimetres
+  const curaFilament = cura.get("filament used");
+  const curaFilamentMm = curaFilament ? toNumber(curaFilament.replace(/m$/i, "")) : null;
+
+  const bounds = readBounds((key) => luban.get(key))
+    ?? readBounds((key) => cura.get(key.replace("_", "")));
+
+  // Without a Luban header, anything from a known FFF slicer is a 3D print
+  const toolType = toolTypeValue ? normalizeToolType(toolTypeValue) : slicer ? "3dp" : null;
+
+  const metadata: GcodeMetadata = {
+    toolType,
+    slicer,
+    estimatedTimeSeconds:
+      toNumber(luban.get("estimated_time")) ??
+      (prusaTime ? parseDuration(prusaTime) : null) ??
+      toNumber(cura.get("time")),
+    filamentLengthMm:
+      toNumber(first(luban.get("matierial_length"), luban.get("material_length"))) ??
+      toNumber(prusa.get("filament used [mm]")) ??
+      (curaFilamentMm !== null ? Math.round(curaFilamentMm * 1000 * 10) / 10 : null),
+    filamentWeightG:
+      toNumber(first(luban.get("matierial_weight"), luban.get("material_weight"))) ??
+      toNumber(prusa.get("filament used [g]")) ??
+      toNumber(prusa.get("total filament used [g]")),
+    nozzleTemperature:
+      toNumber(luban.get("nozzle_temperature")) ??
+      toNumber(first(prusa.get("temperature"), prusa.get("first_layer_temperature"))) ??
+      findFirstTemperature(lines, ["M104", "M109"]),
+    bedTemperature:
+      toNumber(luban.get("build_plate_temperature")) ??
+      toNumber(first(prusa.get("bed_temperature"), prusa.get("first_layer_bed_temperature"))) ??
+      findFirstTemperature(lines, ["M140", "M190"]),
+    layerHeight:
+      toNumber(luban.get("layer_height")) ??
+      toNumber(prusa.get("layer_height")) ??
+      toNumber(cura.get("layer height")),
+    bounds,
+    dimensions: bounds
+      ? {
+          x: Math.round((bounds.maxX - bounds.minX) * 100) / 100,
+          y: Math.round((bounds.maxY - bounds.minY) * 100) / 100,
+          z: Math.round((bounds.maxZ - bounds.minZ) * 100) / 100,
+        }
+      : null,
+  };
+
+  const hasData = Object.entries(metadata).some(([key, value]) => key !== "slicer" && value !== null);
+  return hasData ? metadata : null;
+}
+
@@ -3,6 +3,8 @@ import { registerRoutes } from "./routes";
 import { serveStatic } from "./static";
 import { createServer } from "http";
 import { ensureSchema } from "./ensureSchema";
+import { storageBackend } from "./storage";
+import { log, redactForLog } from "./log";
 
 const app = express();
 const httpServer = createServer(app);
@@ -23,17 +25,6 @@ app.use(
 
 app.use(express.urlencoded({ extended: false }));
 
-export function log(message: string, source = "express") {
-  const formattedTime = new Date().toLocaleTimeString("en-US", {
-    hour: "numeric",
-    minute: "2-digit",
-    second: "2-digit",
-    hour12: true,
-  });
-
-  console.log(`${formattedTime} [${source}] ${message}`);
-}
-
 app.use((req, res, next) => {
   const start = Date.now();
   const path = req.path;
@@ -50,7 +41,7 @@ app.use((req, res, next) => {
     if (path.startsWith("/api")) {
       let logLine = `${req.method} ${path} ${res.statusCode} in ${duration}ms`;
       if (capturedJsonResponse) {
-        logLine += ` :: ${JSON.stringify(capturedJsonResponse)}`;
+        logLine += ` :: ${JSON.stringify(redactForLog(capturedJsonResponse))}`;
       }
 
       log(logLine);
@@ -61,10 +52,13 @@ app.use((req, res, next) => {
 });
 
 (async () => {
-  try {
-    await ensureSchema();
-  } catch (error) {
-    log(`Failed to ensure database schema: ${error}`, "db");
+  // Only the Postgres backend has a schema to create or migrate
+  if (storageBackend === "postgres") {
+    try {
+      await ensureSchema();
+    } catch (error) {
+      log(`Failed to ensure database schema: ${error}`, "db");
+    }
   }
 
   await registerRoutes(httpServer, app);
@@ -0,0 +1,148 @@
+import { storage } from "./storage";
+import { printerEvents } from "./printerEvents";
+import { normalizeMachineState, type PrintJob, type PrintJobStatus, type Printer, type PrinterStatus } from "@shared/schema";
+type FinishedStatus = Extract<PrintJobStatus, "completed" | "cancelled" | "failed">;
+
+const JOB_START_GRACE_MS = 60_000;
+
+// Status updates for a printer can arrive from several places at once, so all
+// job bookkeeping for one printer runs strictly one update at a time.
+const printerQueues = new Map<number, Promise<unknown>>();
+
+function runExclusive<T>(printerId: number, task: () => Promise<T>): Promise<T> {
+  const previous = printerQueues.get(printerId) ?? Promise.resolve();
+  const next = previous.catch(() => {}).then(task);
+  printerQueues.set(printerId, next);
+  return next;
+}
+
+/**
+ * Why the printer can't take a new job given its latest status, or null if
+ * it can.
+ */
+export async function whyPrinterNotReady(printer: Printer, status: PrinterStatus | null): Promise<string | null> {
+  if (!printer.token || !printer.isConnected) return "Printer not connected";
+  if (printer.emergencyStoppedAt) return "Printer is emergency stopped";
+
+  if (!status) return "No recent status from printer";
+  const state = normalizeMachineState(status.state);
+  if (state !== "idle") return `Printer is ${state}`;
+  if (await storage.getActivePrintJob(printer.id)) return "Another job is still active";
+
+  return null;
+}
+
+function outcomeFor(job: PrintJob, rawState: string): FinishedStatus {
+  if ((job.progress ?? 0) >= 99) return "completed";
+  if (normalizeMachineState(rawState) === "error") return "failed";
+  return "cancelled";
+}
+
+async function findFileId(printerId: number, filename: string): Promise<number | null> {
+  const files = await storage.getUploadedFiles(printerId);
+  return files.find((f) => f.filename === filename)?.id ?? null;
+}
+
+async function closeJob(job: PrintJob, status: FinishedStatus): Promise<void> {
+  const closed = await storage.updatePrintJob(job.id, {
+    status,
+    progress: status === "completed" ? 100 : job.progress,
+    completedAt: new Date(),
+  });
+  console.log(`[JobTracker] Job ${job.id} (${job.filename}) ${status}`);
+  if (closed?.printerId) printerEvents.emit("job", closed.printerId, closed, job.status as PrintJobStatus);
+}
+
+/**
+ * Records a job the app knows it just started (our print route or a Luban
+ * upload through the proxy). Any job still marked active for the printer is
+ * closed first, since the printer can only run one job at a time.
+ */
+export function startJob(
+  printerId: number,
+  filename: string,
+  source: string,
+  fileId?: number | null,
+): Promise<PrintJob> {
+  return runExclusive(printerId, async () => {
+    const active = await storage.getActivePrintJob(printerId);
+    if (active) {
+      await closeJob(active, outcomeFor(active, "idle"));
+    }
+
+    const job = await storage.createPrintJob({
+      printerId,
+      filename,
+      source,
+      fileId: fileId ?? (await findFileId(printerId, filename)),
+      progress: 0,
+      status: "printing",
+    });
+    console.log(`[JobTracker] Started job ${job.id} for ${filename} (${source})`);
+    printerEvents.emit("job", printerId, job, null);
+    return job;
+  });
+}
+
+/**
+ * Closes the printer's active job with an explicit outcome, e.g. when the
+ * user cancels from the dashboard and we already know how it ended.
+ */
+export function finishActiveJob(printerId: number, status: FinishedStatus): Promise<void> {
+  return runExclusive(printerId, async () => {
+    const active = await storage.getActivePrintJob(printerId);
+    if (active) {
+      await closeJob(active, status);
+    }
+  });
+}
+
+/**
+ * Feeds a status poll into the job history: picks up prints that were started
+ * somewhere we didn't see (touchscreen, Luban without the proxy), keeps
+ * progress current and closes the job once the printer stops running it.
+ */
+export function trackPrinterStatus(printerId: number, status: PrinterStatus): Promise<void> {
+  return runExclusive(printerId, async () => {
+    const machineState = normalizeMachineState(status.state);
+    const active = await storage.getActivePrintJob(printerId);
+    const progress = Math.round(status.progress || 0);
+
+    if (machineState === "printing" || machineState === "paused") {
+      if (!active) {
+        const filename = status.currentFile || "Unknown file";
+        const job = await storage.createPrintJob({
+          printerId,
+          filename,
+          source: "detected",
+          fileId: status.currentFile ? await findFileId(printerId, status.currentFile) : null,
+          progress,
+          status: machineState,
+        });
+        console.log(`[JobTracker] Detected running job ${job.id} for ${filename}`);
+        printerEvents.emit("job", printerId, job, null);
+        return;
+      }
+
+      if (active.progress !== progress || active.status !== machineState) {
+        const updated = await storage.updatePrintJob(active.id, { progress, status: machineState });
+        if (updated && active.status !== machineState) {
+          printerEvents.emit("job", printerId, updated, active.status as PrintJobStatus);
+        }
+      }
+      return;
+    }
+
+    if (active) {
+      // The printer can report idle for a little while after an upload before
+      // it actually starts, so don't close a job we only just started
+      const age = Date.now() - (active.startedAt?.getTime() ?? 0);
+      if (active.progress === 0 && age < JOB_START_GRACE_MS) {
+        return;
+      }
+
+      const latest = { ...active, progress: Math.max(active.progress ?? 0, progress) };
+      await closeJob(latest, outcomeFor(latest, status.state));
+    }
+  });
+}
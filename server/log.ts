@@ -0,0 +1,46 @@
+// Kept out of index.ts so modules can log without importing (and so starting) the server
+export function log(message: string, source = "express") {
+  const formattedTime = new Date().toLocaleTimeString("en-US", {
+    hour: "numeric",
+    minute: "2-digit",
+    second: "2-digit",
+    hour12: true,
+  });
+
+  console.log(`${formattedTime} [${source}] ${message}`);
+}
+
+// Fields whose values are credentials, and fields holding file data that is
+// too large and too private for a log line
+const SECRET_FIELD = /token|api_?key|password|secret/i;
+const FILE_FIELDS = new Set(["fileContent", "thumbnail", "content"]);
+const SECRET_PARAMS = ["token", "apikey", "api_key", "access_token"];
+
+/**
+ * A copy of a JSON value that is safe to log: secrets are replaced and file
+ * contents shortened to their length.
+ */
+export function redactForLog(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(redactForLog);
+  if (!value || typeof value !== "object" || value instanceof Date) return value;
+
+  const redacted: Record<string, unknown> = {};
+  for (const [field, fieldValue] of Object.entries(value)) {
+    if (typeof fieldValue === "string" && SECRET_FIELD.test(field)) {
+      redacted[field] = "[redacted]";
+    } else if (typeof fieldValue === "string" && FILE_FIELDS.has(field)) {
+      redacted[field] = `[${fieldValue.length} chars]`;
+    } else {
+      redacted[field] = redactForLog(fieldValue);
+    }
+  }
+  return redacted;
+}
+
+// Snapmaker and slicer clients put tokens and keys in the query string
+export function redactUrl(url: string): string {
+  return url.replace(
+    new RegExp(`([?&](?:${SECRET_PARAMS.join("|")})=)[^&#]*`, "gi"),
+    "$1[redacted]",
+  );
+}
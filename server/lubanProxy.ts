@@ -1,7 +1,8 @@
 import http from "http";
 import { storage } from "./storage";
-import { log } from "./index";
-import { extractThumbnail } from "./thumbnailExtractor";
+import { log, redactUrl } from "./log";
+import { saveIncomingGcodeFile, isFilenameStored } from "./gcodeFiles";
+import { startJob } from "./jobTracker";
 
 const PROXY_PORT = 8080;
 
@@ -31,7 +32,7 @@ async function saveCapturedToken(token: string): Promise<void> {
   if (!token || token === lastCapturedToken) return;
   
   lastCapturedToken = token;
-  log(`[Luban Proxy] Captured Luban token: ${token.substring(0, 8)}...`, "proxy");
+  log(`[Luban Proxy] Captured a new Luban token`, "proxy");
   
   try {
     if (!targetPrinterIp) {
@@ -120,7 +121,7 @@ async function handleProxyRequest(
     const method = req.method || "GET";
     const contentType = req.headers["content-type"] || "";
 
-    log(`[Luban Proxy] ${method} ${url} (${body.length} bytes)`, "proxy");
+    log(`[Luban Proxy] ${method} ${redactUrl(url)} (${body.length} bytes)`, "proxy");
 
     // Try to capture token from various sources
     let capturedToken: string | null = null;
@@ -152,6 +153,9 @@ async function handleProxyRequest(
       await saveCapturedToken(capturedToken);
     }
 
+    // Set when this request is a file upload, so a job can be recorded once the printer accepts it
+    let capturedUpload: { printerId: number; filename: string } | null = null;
+
     // Handle file uploads - capture the file content
     if (url.startsWith("/api/v1/upload") && method === "POST") {
       const boundaryMatch = contentType.match(/boundary=(.+)/);
@@ -164,32 +168,24 @@ async function handleProxyRequest(
           log(`[Luban Proxy] Captured file: ${parsed.filename} (${parsed.fileContent.length} bytes)`, "proxy");
           
           try {
+            // The job runs on the printer the proxy forwards to, but the
+            // library copy goes wherever the upload rules send it
             const printers = await storage.getAllPrinters();
-            const printer = printers.find((p) => p.ipAddress === targetPrinterIp) || printers[0];
-            
+            const printer = printers.find((p) => p.ipAddress === targetPrinterIp);
             if (printer) {
-              const displayName = parsed.filename.replace(/\.[^/.]+$/, "");
-              const fileContent = parsed.fileContent.toString("utf-8");
-              
-              const existingFiles = await storage.getUploadedFiles(printer.id);
-              const alreadyExists = existingFiles.some(
-                (f) => f.filename === parsed.filename
-              );
-              
-              if (!alreadyExists) {
-                const thumbnail = extractThumbnail(fileContent);
-                await storage.addUploadedFile({
-                  printerId: printer.id,
-                  filename: parsed.filename,
-                  displayName,
-                  fileContent,
-                  thumbnail,
-                  source: "luban",
-                });
-                log(`[Luban Proxy] Saved file to database: ${parsed.filename}${thumbnail ? ' (with thumbnail)' : ''}`, "proxy");
-              } else {
-                log(`[Luban Proxy] File already exists, skipping: ${parsed.filename}`, "proxy");
-              }
+              capturedUpload = { printerId: printer.id, filename: parsed.filename };
+            }
+
+            if (!(await isFilenameStored(parsed.filename))) {
+              const saved = await saveIncomingGcodeFile({
+                content: parsed.fileContent,
+                filename: parsed.filename,
+                displayName: parsed.filename.replace(/\.[^/.]+$/, ""),
+                source: "luban",
+              });
+              log(`[Luban Proxy] Saved file: ${parsed.filename}${saved.thumbnail ? ' (with thumbnail)' : ''}`, "proxy");
+            } else {
+              log(`[Luban Proxy] File already exists, skipping: ${parsed.filename}`, "proxy");
             }
           } catch (error) {
             log(`[Luban Proxy] Error saving file: ${error}`, "proxy");
@@ -208,7 +204,15 @@ async function handleProxyRequest(
     };
 
     const proxyReq = http.request(options, (proxyRes) => {
-      res.writeHead(proxyRes.statusCode || 200, proxyRes.headers);
+      const statusCode = proxyRes.statusCode || 200;
+      if (capturedUpload && statusCode >= 200 && statusCode < 300) {
+        const { printerId, filename } = capturedUpload;
+        startJob(printerId, filename, "luban").catch((error) => {
+          log(`[Luban Proxy] Error recording print job: ${error}`, "proxy");
+        });
+      }
+
+      res.writeHead(statusCode, proxyRes.headers);
       proxyRes.pipe(res);
     });
 
@@ -260,6 +264,16 @@ export async function startLubanProxy(printerIp: string): Promise<boolean> {
   });
 }
 
+/**
+ * Points a running proxy at a new printer address without dropping the
+ * listener, e.g. after the printer picked up a new DHCP lease.
+ */
+export function retargetLubanProxy(printerIp: string): void {
+  if (!isEnabled) return;
+  log(`[Luban Proxy] Now forwarding to ${printerIp} (was ${targetPrinterIp})`, "proxy");
+  targetPrinterIp = printerIp;
+}
+
 export async function stopLubanProxy(): Promise<void> {
   return new Promise((resolve) => {
     if (proxyServer) {
@@ -0,0 +1,194 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import os from "os";
+import path from "path";
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { MemStorage, JsonFileStorage } from "./memStorage";
+
+// Read on first use, so setting it here covers every storage below
+process.env.TOKEN_ENCRYPTION_KEY = "test key";
+
+async function seed(storage: MemStorage) {
+  const printer = await storage.createPrinter({ name: "A350", ipAddress: "192.168.1.42" });
+  const file = await storage.addUploadedFile({
+    printerId: printer.id,
+    filename: "cube.gcode",
+    displayName: "Cube",
+    contentHash: "a".repeat(64),
+    size: 1024,
+    source: "upload",
+  });
+  const job = await storage.createPrintJob({
+    printerId: printer.id,
+    fileId: file.id,
+    filename: file.filename,
+    source: "app",
+    status: "printing",
+  });
+  return { printer, file, job };
+}
+
+describe("MemStorage", () => {
+  test("returns copies, not the stored rows", async () => {
+    const storage = new MemStorage();
+    const { printer } = await seed(storage);
+
+    printer.name = "Changed";
+    assert.equal((await storage.getPrinter(printer.id))?.name, "A350");
+  });
+
+  test("deleting a file clears it from jobs, the queue and schedules", async () => {
+    const storage = new MemStorage();
+    const { printer, file, job } = await seed(storage);
+    await storage.addQueueItem({ printerId: printer.id, fileId: file.id });
+    await storage.createScheduledPrint({
+      printerId: printer.id,
+      fileId: file.id,
+      startAt: new Date(Date.now() + 60_000),
+      status: "pending",
+    });
+
+    assert.equal(await storage.deleteUploadedFile(file.id, printer.id), true);
+    assert.equal((await storage.getPrintJob(job.id))?.fileId, null);
+    assert.deepEqual(await storage.getQueueItems(printer.id), []);
+    assert.deepEqual(await storage.getScheduledPrints(printer.id), []);
+    assert.equal(await storage.isContentHashInUse(file.contentHash!), false);
+  });
+
+  test("deleting a printer removes its rows and keeps its audit trail", async () => {
+    const storage = new MemStorage();
+    const { printer, file, job } = await seed(storage);
+    await storage.createTimelapse({ jobId: job.id, printerId: printer.id, mode: "interval", status: "ready" });
+    const entry = await storage.addAuditEntry({
+      printerId: printer.id,
+      action: "emergency-stop",
+      actor: "test",
+      result: "success",
+    });
+
+    // As in Postgres, where uploaded_files.printer_id has no ON DELETE rule
+    await assert.rejects(storage.deletePrinter(printer.id), /still has uploaded files/);
+    assert.equal((await storage.getAllPrinters()).length, 1);
+
+    await storage.deleteUploadedFile(file.id, printer.id);
+    await storage.deletePrinter(printer.id);
+    assert.deepEqual(await storage.getAllPrinters(), []);
+    assert.equal(await storage.getPrintJob(job.id), undefined);
+    assert.deepEqual(await storage.getTimelapses(), []);
+    assert.notEqual(entry.printerId, null);
+  });
+
+  test("queue items keep their order and reorder", async () => {
+    const storage = new MemStorage();
+    const { printer, file } = await seed(storage);
+    const first = await storage.addQueueItem({ printerId: printer.id, fileId: file.id });
+    const second = await storage.addQueueItem({ printerId: printer.id, fileId: file.id });
+
+    assert.deepEqual((await storage.getQueueItems(printer.id)).map((i) => i.id), [first.id, second.id]);
+    await storage.reorderQueue(printer.id, [second.id, first.id]);
+    assert.deepEqual((await storage.getQueueItems(printer.id)).map((i) => i.id), [second.id, first.id]);
+  });
+
+  test("only the newest active job is reported as active", async () => {
+    const storage = new MemStorage();
+    const { printer, job } = await seed(storage);
+    await storage.updatePrintJob(job.id, { status: "completed" });
+
+    assert.equal(await storage.getActivePrintJob(printer.id), undefined);
+  });
+
+  test("temperature history averages samples per bucket", async () => {
+    const storage = new MemStorage();
+    const { printer } = await seed(storage);
+    const start = new Date("2026-01-01T00:00:00Z");
+    for (let i = 0; i < 6; i++) {
+      await storage.addTemperatureSample({
+        printerId: printer.id,
+        recordedAt: new Date(start.getTime() + i * 10_000),
+        nozzle: 200 + i,
+        bed: 60,
+        targetNozzle: 210,
+        targetBed: 60,
+      });
+    }
+
+    const history = await storage.getTemperatureHistory(printer.id, start, new Date(start.getTime() + 60_000), 30);
+    assert.deepEqual(history.map((p) => p.nozzle), [201, 204]);
+
+    const removed = await storage.downsampleTemperatureSamples(new Date(start.getTime() + 60_000), 30);
+    assert.equal(removed, 4);
+  });
+});
+
+describe("JsonFileStorage", () => {
+  test("reloads what it saved, with dates intact", async () => {
+    const dir = await mkdtemp(path.join(os.tmpdir(), "snapmaker-app-storage-"));
+    const file = path.join(dir, "storage.json");
+    try {
+      const storage = new JsonFileStorage(file);
+      const { printer, job } = await seed(storage);
+      await storage.setSetting("watchFolderPath", "/home/pi/gcode");
+      await storage.flush();
+
+      const reloaded = new JsonFileStorage(file);
+      assert.equal((await reloaded.getPrinter(printer.id))?.name, "A350");
+      assert.equal(await reloaded.getSetting("watchFolderPath"), "/home/pi/gcode");
+      const reloadedJob = await reloaded.getPrintJob(job.id);
+      assert.ok(reloadedJob?.startedAt instanceof Date);
+      assert.equal(reloadedJob.startedAt.getTime(), job.startedAt!.getTime());
+
+      // Ids carry on from where the saved state left off
+      const another = await reloaded.createPrinter({ name: "A250", ipAddress: "192.168.1.43" });
+      assert.equal(another.id, printer.id + 1);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  test("fills in columns added since the snapshot was saved", async () => {
+    const dir = await mkdtemp(path.join(os.tmpdir(), "snapmaker-app-storage-"));
+    const file = path.join(dir, "storage.json");
+    try {
+      // A user saved before accounts had roles
+      const user = { id: 1, username: "admin", passwordHash: "scrypt:salt:hash", apiKeyHash: null, createdAt: new Date() };
+      await writeFile(file, JSON.stringify({ version: 1, nextIds: { users: 2 }, tables: { users: [user] } }));
+
+      const storage = new JsonFileStorage(file);
+      assert.equal((await storage.getUser(1))?.role, "admin");
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  test("keeps printer tokens encrypted on disk", async () => {
+    const dir = await mkdtemp(path.join(os.tmpdir(), "snapmaker-app-storage-"));
+    const file = path.join(dir, "storage.json");
+    try {
+      const storage = new JsonFileStorage(file);
+      const printer = await storage.createPrinter({ name: "A350", ipAddress: "192.168.1.42", token: "created-token" });
+      assert.equal(printer.token, "created-token");
+      await storage.updatePrinter(printer.id, { token: "paired-token" });
+      await storage.flush();
+
+      const saved = await readFile(file, "utf-8");
+      assert.ok(!saved.includes("created-token") && !saved.includes("paired-token"));
+      assert.equal((await new JsonFileStorage(file).getPrinter(printer.id))?.token, "paired-token");
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  test("reads tokens saved before encryption as they are", async () => {
+    const dir = await mkdtemp(path.join(os.tmpdir(), "snapmaker-app-storage-"));
+    const file = path.join(dir, "storage.json");
+    try {
+      const printer = { id: 1, name: "A350", ipAddress: "192.168.1.42", token: "legacy-token", isConnected: false };
+      await writeFile(file, JSON.stringify({ version: 1, nextIds: { printers: 2 }, tables: { printers: [printer] } }));
+
+      const storage = new JsonFileStorage(file);
+      assert.equal((await storage.getPrinter(1))?.token, "legacy-token");
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,724 @@
+import fs from "fs";
+import path from "path";
+import type { IStorage } from "./storage";
+import { encryptToken, encryptPrinterToken, decryptPrinterToken } from "./tokenCrypto";
+import {
+  type Printer,
+  type InsertPrinter,
+  type DashboardPreferences,
+  type UploadedFile,
+  type InsertUploadedFile,
+  type AuditEntry,
+  type InsertAuditEntry,
+  type AuditQuery,
+  type PrintJob,
+  type InsertPrintJob,
+  type PrintJobWithThumbnail,
+  type TemperatureSample,
+  type InsertTemperatureSample,
+  type TemperatureHistoryPoint,
+  type Timelapse,
+  type InsertTimelapse,
+  type TimelapseStatus,
+  type PrintQueueItem,
+  type InsertPrintQueueItem,
+  type PrintQueueItemWithFile,
+  type ScheduledPrint,
+  type InsertScheduledPrint,
+  type UploadRule,
+  type InsertUploadRule,
+  type User,
+  type InsertUser,
+  type uploadedFiles,
+  DEFAULT_ENABLED_MODULES,
+  PRINT_JOB_ACTIVE_STATUSES,
+} from "@shared/schema";
+
+type UploadedFileRow = typeof uploadedFiles.$inferSelect;
+
+type Tables = {
+  printers: Printer[];
+  printJobs: PrintJob[];
+  dashboardPreferences: DashboardPreferences[];
+  uploadedFiles: UploadedFileRow[];
+  settings: Record<string, string | null>;
+  auditLog: AuditEntry[];
+  temperatureSamples: TemperatureSample[];
+  timelapses: Timelapse[];
+  printQueue: PrintQueueItem[];
+  scheduledPrints: ScheduledPrint[];
+  uploadRules: UploadRule[];
+  users: User[];
+};
+
+type TableName = Exclude<keyof Tables, "settings">;
+
+function emptyTables(): Tables {
+  return {
+    printers: [],
+    printJobs: [],
+    dashboardPreferences: [],
+    uploadedFiles: [],
+    settings: {},
+    auditLog: [],
+    temperatureSamples: [],
+    timelapses: [],
+    printQueue: [],
+    scheduledPrints: [],
+    uploadRules: [],
+    users: [],
+  };
+}
+
+function withoutInlineContent({ fileContent: _inlineContent, ...file }: UploadedFileRow): UploadedFile {
+  return file;
+}
+
+/**
+ * IStorage kept entirely in memory, for tests and for running without a
+ * database. Rows are copied on the way in and out so callers can't change
+ * stored state by mutating what they get back, the same as with Postgres.
+ * Deletes follow the foreign keys in shared/schema.ts.
+ */
+export class MemStorage implements IStorage {
+  protected tables: Tables = emptyTables();
+  protected nextIds: Record<TableName, number> = {
+    printers: 1,
+    printJobs: 1,
+    dashboardPreferences: 1,
+    uploadedFiles: 1,
+    auditLog: 1,
+    temperatureSamples: 1,
+    timelapses: 1,
+    printQueue: 1,
+    scheduledPrints: 1,
+    uploadRules: 1,
+    users: 1,
+  };
+
+  // Called after every write; subclasses persist from here
+  protected changed(): void {}
+
+  private nextId(table: TableName): number {
+    return this.nextIds[table]++;
+  }
+
+  private update<T extends { id: number }>(rows: T[], id: number, data: Partial<T>): T | undefined {
+    const row = rows.find((r) => r.id === id);
+    if (!row) return undefined;
+    Object.assign(row, data, { id: row.id });
+    this.changed();
+    return { ...row };
+  }
+
+  async getPrinter(id: number): Promise<Printer | undefined> {
+    const printer = this.tables.printers.find((p) => p.id === id);
+    return printer && decryptPrinterToken({ ...printer });
+  }
+
+  async getFirstPrinter(): Promise<Printer | undefined> {
+    const printer = this.tables.printers[0];
+    return printer && decryptPrinterToken({ ...printer });
+  }
+
+  async getAllPrinters(): Promise<Printer[]> {
+    return this.tables.printers.map((p) => decryptPrinterToken({ ...p }));
+  }
+
+  async createPrinter(insertPrinter: InsertPrinter): Promise<Printer> {
+    const printer: Printer = {
+      id: this.nextId("printers"),
+      name: insertPrinter.name,
+      ipAddress: insertPrinter.ipAddress,
+      discoveryName: insertPrinter.discoveryName ?? null,
+      token: insertPrinter.token ? encryptToken(insertPrinter.token) : null,
+      isConnected: insertPrinter.isConnected ?? false,
+      lastSeen: null,
+      emergencyStoppedAt: null,
+      camera: null,
+      timelapse: null,
+      queueState: null,
+    };
+    this.tables.printers.push(printer);
+    this.changed();
+    return decryptPrinterToken({ ...printer });
+  }
+
+  async updatePrinter(id: number, data: Partial<Printer>): Promise<Printer | undefined> {
+    const printer = this.update(this.tables.printers, id, encryptPrinterToken(data));
+    return printer && decryptPrinterToken(printer);
+  }
+
+  // Does what DbStorage and the foreign keys in shared/schema.ts do: the
+  // printer's jobs and dashboard preferences are deleted here, rows with
+  // ON DELETE CASCADE go with it, the audit trail is kept (SET NULL) and
+  // uploaded files, which have no rule, must be deleted first
+  async deletePrinter(id: number): Promise<void> {
+    const t = this.tables;
+    if (t.uploadedFiles.some((f) => f.printerId === id)) {
+      throw new Error(`Printer ${id} still has uploaded files`);
+    }
+    const jobIds = new Set(t.printJobs.filter((j) => j.printerId === id).map((j) => j.id));
+
+    t.dashboardPreferences = t.dashboardPreferences.filter((p) => p.printerId !== id);
+    t.printJobs = t.printJobs.filter((j) => j.printerId !== id);
+    t.temperatureSamples = t.temperatureSamples.filter((s) => s.printerId !== id);
+    t.timelapses = t.timelapses.filter((tl) => tl.printerId !== id && !jobIds.has(tl.jobId));
+    t.printQueue = t.printQueue.filter((q) => q.printerId !== id);
+    t.scheduledPrints = t.scheduledPrints.filter((s) => s.printerId !== id);
+    t.uploadRules = t.uploadRules.filter((r) => r.printerId !== id);
+    for (const scheduled of t.scheduledPrints) {
+      if (scheduled.jobId !== null && jobIds.has(scheduled.jobId)) scheduled.jobId = null;
+    }
+    for (const entry of t.auditLog) {
+      if (entry.printerId === id) entry.printerId = null;
+    }
+    t.printers = t.printers.filter((p) => p.id !== id);
+    this.changed();
+  }
+
+  async getDashboardPreferences(printerId: number): Promise<string[]> {
+    const prefs = this.tables.dashboardPreferences.find((p) => p.printerId === printerId);
+    return prefs ? [...prefs.enabledModules] : DEFAULT_ENABLED_MODULES;
+  }
+
+  async setDashboardPreferences(printerId: number, enabledModules: string[]): Promise<void> {
+    const existing = this.tables.dashboardPreferences.find((p) => p.printerId === printerId);
+    if (existing) {
+      existing.enabledModules = [...enabledModules];
+    } else {
+      this.tables.dashboardPreferences.push({
+        id: this.nextId("dashboardPreferences"),
+        printerId,
+        enabledModules: [...enabledModules],
+      });
+    }
+    this.changed();
+  }
+
+  async getUploadedFiles(printerId: number | null): Promise<UploadedFile[]> {
+    return this.tables.uploadedFiles.filter((f) => f.printerId === printerId).map(withoutInlineContent);
+  }
+
+  async getUploadedFile(id: number, printerId: number | null): Promise<UploadedFile | undefined> {
+    const file = this.tables.uploadedFiles.find((f) => f.id === id && f.printerId === printerId);
+    return file && withoutInlineContent(file);
+  }
+
+  async addUploadedFile(file: InsertUploadedFile): Promise<UploadedFile> {
+    const row: UploadedFileRow = {
+      id: this.nextId("uploadedFiles"),
+      printerId: file.printerId ?? null,
+      filename: file.filename,
+      displayName: file.displayName ?? null,
+      fileContent: null,
+      contentHash: file.contentHash ?? null,
+      size: file.size ?? null,
+      thumbnail: file.thumbnail ?? null,
+      metadata: file.metadata ?? null,
+      uploadedAt: new Date(),
+      source: file.source,
+    };
+    this.tables.uploadedFiles.push(row);
+    this.changed();
+    return withoutInlineContent(row);
+  }
+
+  async updateUploadedFile(id: number, data: Partial<UploadedFile>): Promise<UploadedFile | undefined> {
+    const row = this.update<UploadedFileRow>(this.tables.uploadedFiles, id, data);
+    return row && withoutInlineContent(row);
+  }
+
+  async deleteUploadedFile(id: number, printerId: number | null): Promise<boolean> {
+    const t = this.tables;
+    const before = t.uploadedFiles.length;
+    t.uploadedFiles = t.uploadedFiles.filter((f) => !(f.id === id && f.printerId === printerId));
+    if (t.uploadedFiles.length === before) return false;
+
+    for (const job of t.printJobs) {
+      if (job.fileId === id) job.fileId = null;
+    }
+    t.printQueue = t.printQueue.filter((q) => q.fileId !== id);
+    t.scheduledPrints = t.scheduledPrints.filter((s) => s.fileId !== id);
+    this.changed();
+    return true;
+  }
+
+  async isContentHashInUse(contentHash: string): Promise<boolean> {
+    return this.tables.uploadedFiles.some((f) => f.contentHash === contentHash);
+  }
+
+  async getNextInlineFile(): Promise<{ id: number; fileContent: string } | undefined> {
+    const file = this.tables.uploadedFiles.find((f) => f.fileContent !== null);
+    return file ? { id: file.id, fileContent: file.fileContent! } : undefined;
+  }
+
+  async moveInlineFileContent(id: number, contentHash: string, size: number): Promise<void> {
+    this.update(this.tables.uploadedFiles, id, { contentHash, size, fileContent: null });
+  }
+
+  async getSetting(key: string): Promise<string | null> {
+    return this.tables.settings[key] ?? null;
+  }
+
+  async setSetting(key: string, value: string | null): Promise<void> {
+    this.tables.settings[key] = value;
+    this.changed();
+  }
+
+  async addAuditEntry(entry: InsertAuditEntry): Promise<AuditEntry> {
+    const row: AuditEntry = {
+      id: this.nextId("auditLog"),
+      printerId: entry.printerId ?? null,
+      action: entry.action,
+      actor: entry.actor,
+      authMethod: entry.authMethod ?? null,
+      sourceIp: entry.sourceIp ?? null,
+      details: (entry.details as AuditEntry["details"]) ?? null,
+      result: entry.result,
+      createdAt: new Date(),
+    };
+    this.tables.auditLog.push(row);
+    this.changed();
+    return { ...row };
+  }
+
+  async getAuditEntries(query: AuditQuery): Promise<AuditEntry[]> {
+    return this.tables.auditLog
+      .filter(
+        (e) =>
+          (query.printerId === undefined || e.printerId === query.printerId) &&
+          (!query.actor || e.actor === query.actor) &&
+          (!query.action || e.action === query.action) &&
+          (!query.result || e.result === query.result) &&
+          (!query.from || e.createdAt >= query.from) &&
+          (!query.to || e.createdAt <= query.to),
+      )
+      .reverse()
+      .slice(query.offset, query.offset + query.limit)
+      .map((e) => ({ ...e }));
+  }
+
+  async getPrintJobs(printerId: number, limit = 100): Promise<PrintJobWithThumbnail[]> {
+    return this.tables.printJobs
+      .filter((j) => j.printerId === printerId)
+      .sort((a, b) => (b.startedAt?.getTime() ?? 0) - (a.startedAt?.getTime() ?? 0))
+      .slice(0, limit)
+      .map((job) => {
+        const file = this.tables.uploadedFiles.find((f) => f.id === job.fileId);
+        const timelapse = this.tables.timelapses.find((tl) => tl.jobId === job.id);
+        return {
+          ...job,
+          thumbnail: file?.thumbnail ?? null,
+          timelapse: timelapse
+            ? { id: timelapse.id, status: timelapse.status, frameCount: timelapse.frameCount, sizeBytes: timelapse.sizeBytes }
+            : null,
+        };
+      });
+  }
+
+  async getPrintJob(id: number): Promise<PrintJob | undefined> {
+    const job = this.tables.printJobs.find((j) => j.id === id);
+    return job && { ...job };
+  }
+
+  async getActivePrintJob(printerId: number): Promise<PrintJob | undefined> {
+    const active: readonly string[] = PRINT_JOB_ACTIVE_STATUSES;
+    const job = this.tables.printJobs
+      .filter((j) => j.printerId === printerId && active.includes(j.status))
+      .sort((a, b) => (b.startedAt?.getTime() ?? 0) - (a.startedAt?.getTime() ?? 0))[0];
+    return job && { ...job };
+  }
+
+  async createPrintJob(job: InsertPrintJob): Promise<PrintJob> {
+    const row: PrintJob = {
+      id: this.nextId("printJobs"),
+      printerId: job.printerId ?? null,
+      fileId: job.fileId ?? null,
+      filename: job.filename,
+      source: job.source ?? null,
+      progress: job.progress ?? 0,
+      status: job.status,
+      startedAt: new Date(),
+      completedAt: null,
+    };
+    this.tables.printJobs.push(row);
+    this.changed();
+    return { ...row };
+  }
+
+  async updatePrintJob(id: number, data: Partial<PrintJob>): Promise<PrintJob | undefined> {
+    return this.update(this.tables.printJobs, id, data);
+  }
+
+  async addTemperatureSample(sample: InsertTemperatureSample): Promise<void> {
+    this.tables.temperatureSamples.push({
+      id: this.nextId("temperatureSamples"),
+      printerId: sample.printerId,
+      recordedAt: sample.recordedAt ?? new Date(),
+      nozzle: sample.nozzle,
+      bed: sample.bed,
+      targetNozzle: sample.targetNozzle,
+      targetBed: sample.targetBed,
+    });
+    this.changed();
+  }
+
+  async getTemperatureHistory(
+    printerId: number,
+    from: Date,
+    to: Date,
+    resolutionSeconds: number,
+  ): Promise<TemperatureHistoryPoint[]> {
+    const buckets = new Map<number, TemperatureSample[]>();
+    for (const sample of this.tables.temperatureSamples) {
+      if (sample.printerId !== printerId || sample.recordedAt < from || sample.recordedAt > to) continue;
+      const bucket = Math.floor(sample.recordedAt.getTime() / 1000 / resolutionSeconds);
+      const samples = buckets.get(bucket) ?? [];
+      samples.push(sample);
+      buckets.set(bucket, samples);
+    }
+
+    const average = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+    return Array.from(buckets.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([bucket, samples]) => ({
+        time: bucket * resolutionSeconds * 1000,
+        nozzle: Math.round(average(samples.map((s) => s.nozzle)) * 10) / 10,
+        bed: Math.round(average(samples.map((s) => s.bed)) * 10) / 10,
+        targetNozzle: Math.max(...samples.map((s) => s.targetNozzle)),
+        targetBed: Math.max(...samples.map((s) => s.targetBed)),
+      }));
+  }
+
+  async downsampleTemperatureSamples(olderThan: Date, bucketSeconds: number): Promise<number> {
+    // Keep the first sample of every bucket and drop the rest
+    const kept = new Set<string>();
+    const before = this.tables.temperatureSamples.length;
+    this.tables.temperatureSamples = [...this.tables.temperatureSamples]
+      .sort((a, b) => a.id - b.id)
+      .filter((sample) => {
+        if (sample.recordedAt >= olderThan) return true;
+        const key = `${sample.printerId}:${Math.floor(sample.recordedAt.getTime() / 1000 / bucketSeconds)}`;
+        if (kept.has(key)) return false;
+        kept.add(key);
+        return true;
+      });
+    const removed = before - this.tables.temperatureSamples.length;
+    if (removed > 0) this.changed();
+    return removed;
+  }
+
+  async deleteTemperatureSamplesBefore(before: Date): Promise<number> {
+    const count = this.tables.temperatureSamples.length;
+    this.tables.temperatureSamples = this.tables.temperatureSamples.filter((s) => s.recordedAt >= before);
+    const removed = count - this.tables.temperatureSamples.length;
+    if (removed > 0) this.changed();
+    return removed;
+  }
+
+  async getTimelapse(id: number): Promise<Timelapse | undefined> {
+    const timelapse = this.tables.timelapses.find((tl) => tl.id === id);
+    return timelapse && { ...timelapse };
+  }
+
+  async getTimelapseForJob(jobId: number): Promise<Timelapse | undefined> {
+    const timelapse = this.tables.timelapses.find((tl) => tl.jobId === jobId);
+    return timelapse && { ...timelapse };
+  }
+
+  async getTimelapses(status?: TimelapseStatus): Promise<Timelapse[]> {
+    return this.tables.timelapses
+      .filter((tl) => !status || tl.status === status)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .map((tl) => ({ ...tl }));
+  }
+
+  async createTimelapse(timelapse: InsertTimelapse): Promise<Timelapse> {
+    if (this.tables.timelapses.some((tl) => tl.jobId === timelapse.jobId)) {
+      throw new Error(`Job ${timelapse.jobId} already has a timelapse`);
+    }
+    const row: Timelapse = {
+      id: this.nextId("timelapses"),
+      jobId: timelapse.jobId,
+      printerId: timelapse.printerId,
+      mode: timelapse.mode,
+      status: timelapse.status,
+      frameCount: timelapse.frameCount ?? 0,
+      sizeBytes: timelapse.sizeBytes ?? 0,
+      filePath: timelapse.filePath ?? null,
+      createdAt: timelapse.createdAt ?? new Date(),
+      completedAt: timelapse.completedAt ?? null,
+    };
+    this.tables.timelapses.push(row);
+    this.changed();
+    return { ...row };
+  }
+
+  async updateTimelapse(id: number, data: Partial<Timelapse>): Promise<Timelapse | undefined> {
+    return this.update(this.tables.timelapses, id, data);
+  }
+
+  async deleteTimelapse(id: number): Promise<void> {
+    this.tables.timelapses = this.tables.timelapses.filter((tl) => tl.id !== id);
+    this.changed();
+  }
+
+  async getQueueItems(printerId: number): Promise<PrintQueueItemWithFile[]> {
+    return this.tables.printQueue
+      .filter((item) => item.printerId === printerId)
+      .sort((a, b) => a.position - b.position || a.id - b.id)
+      .flatMap((item) => {
+        const file = this.tables.uploadedFiles.find((f) => f.id === item.fileId);
+        if (!file) return [];
+        const { filename, displayName, thumbnail, size, metadata } = file;
+        return [{ ...item, file: { filename, displayName, thumbnail, size, metadata } }];
+      });
+  }
+
+  async getQueueItem(id: number, printerId: number): Promise<PrintQueueItem | undefined> {
+    const item = this.tables.printQueue.find((q) => q.id === id && q.printerId === printerId);
+    return item && { ...item };
+  }
+
+  async addQueueItem(item: Omit<InsertPrintQueueItem, "position">): Promise<PrintQueueItem> {
+    // New items go to the back of the queue
+    const positions = this.tables.printQueue.filter((q) => q.printerId === item.printerId).map((q) => q.position);
+    const row: PrintQueueItem = {
+      id: this.nextId("printQueue"),
+      printerId: item.printerId,
+      fileId: item.fileId,
+      position: positions.length > 0 ? Math.max(...positions) + 1 : 0,
+      lastError: item.lastError ?? null,
+      addedAt: item.addedAt ?? new Date(),
+    };
+    this.tables.printQueue.push(row);
+    this.changed();
+    return { ...row };
+  }
+
+  async updateQueueItem(id: number, data: Partial<PrintQueueItem>): Promise<PrintQueueItem | undefined> {
+    return this.update(this.tables.printQueue, id, data);
+  }
+
+  async deleteQueueItem(id: number, printerId: number): Promise<boolean> {
+    const before = this.tables.printQueue.length;
+    this.tables.printQueue = this.tables.printQueue.filter((q) => !(q.id === id && q.printerId === printerId));
+    if (this.tables.printQueue.length === before) return false;
+    this.changed();
+    return true;
+  }
+
+  async reorderQueue(printerId: number, itemIds: number[]): Promise<void> {
+    itemIds.forEach((id, position) => {
+      const item = this.tables.printQueue.find((q) => q.id === id && q.printerId === printerId);
+      if (item) item.position = position;
+    });
+    this.changed();
+  }
+
+  async getScheduledPrints(printerId: number, limit = 50): Promise<ScheduledPrint[]> {
+    return this.tables.scheduledPrints
+      .filter((s) => s.printerId === printerId)
+      .sort((a, b) => b.startAt.getTime() - a.startAt.getTime())
+      .slice(0, limit)
+      .map((s) => ({ ...s }));
+  }
+
+  async getScheduledPrint(id: number, printerId: number): Promise<ScheduledPrint | undefined> {
+    const schedule = this.tables.scheduledPrints.find((s) => s.id === id && s.printerId === printerId);
+    return schedule && { ...schedule };
+  }
+
+  async getDueScheduledPrints(now: Date): Promise<ScheduledPrint[]> {
+    return this.tables.scheduledPrints
+      .filter((s) => s.status === "pending" && s.startAt <= now)
+      .sort((a, b) => a.startAt.getTime() - b.startAt.getTime())
+      .map((s) => ({ ...s }));
+  }
+
+  async createScheduledPrint(schedule: InsertScheduledPrint): Promise<ScheduledPrint> {
+    const row: ScheduledPrint = {
+      id: this.nextId("scheduledPrints"),
+      printerId: schedule.printerId,
+      fileId: schedule.fileId,
+      startAt: schedule.startAt,
+      status: schedule.status,
+      reason: schedule.reason ?? null,
+      jobId: schedule.jobId ?? null,
+      createdAt: schedule.createdAt ?? new Date(),
+      firedAt: schedule.firedAt ?? null,
+    };
+    this.tables.scheduledPrints.push(row);
+    this.changed();
+    return { ...row };
+  }
+
+  async updateScheduledPrint(id: number, data: Partial<ScheduledPrint>): Promise<ScheduledPrint | undefined> {
+    return this.update(this.tables.scheduledPrints, id, data);
+  }
+
+  async getUploadRules(): Promise<UploadRule[]> {
+    return [...this.tables.uploadRules]
+      .sort((a, b) => a.position - b.position || a.id - b.id)
+      .map((r) => ({ ...r }));
+  }
+
+  async replaceUploadRules(rules: Omit<InsertUploadRule, "id" | "position">[]): Promise<UploadRule[]> {
+    this.tables.uploadRules = rules.map((rule, position) => ({
+      id: this.nextId("uploadRules"),
+      printerId: rule.printerId,
+      position,
+      toolType: rule.toolType ?? null,
+      filenamePattern: rule.filenamePattern ?? null,
+      folder: rule.folder ?? null,
+      tag: rule.tag ?? null,
+    }));
+    this.changed();
+    return this.getUploadRules();
+  }
+
+  async getUsers(): Promise<User[]> {
+    return this.tables.users.map((u) => ({ ...u }));
+  }
+
+  async getUser(id: number): Promise<User | undefined> {
+    const user = this.tables.users.find((u) => u.id === id);
+    return user && { ...user };
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const user = this.tables.users.find((u) => u.username === username);
+    return user && { ...user };
+  }
+
+  async getUserByApiKeyHash(apiKeyHash: string): Promise<User | undefined> {
+    const user = this.tables.users.find((u) => u.apiKeyHash === apiKeyHash);
+    return user && { ...user };
+  }
+
+  async createUser(user: InsertUser): Promise<User> {
+    if (this.tables.users.some((u) => u.username === user.username)) {
+      throw new Error(`Username "${user.username}" is already taken`);
+    }
+    const row: User = {
+      id: this.nextId("users"),
+      username: user.username,
+      passwordHash: user.passwordHash,
+      role: user.role,
+      apiKeyHash: user.apiKeyHash ?? null,
+      createdAt: user.createdAt ?? new Date(),
+      notificationPreferences: user.notificationPreferences ?? null,
+      pushSubscriptions: user.pushSubscriptions ?? [],
+    };
+    this.tables.users.push(row);
+    this.changed();
+    return { ...row };
+  }
+
+  async updateUser(id: number, data: Partial<User>): Promise<User | undefined> {
+    return this.update(this.tables.users, id, data);
+  }
+
+  async deleteUser(id: number): Promise<boolean> {
+    const before = this.tables.users.length;
+    this.tables.users = this.tables.users.filter((u) => u.id !== id);
+    if (this.tables.users.length === before) return false;
+    this.changed();
+    return true;
+  }
+}
+
+// Row fields stored as timestamps, turned back into Dates when a snapshot loads
+const DATE_FIELDS = new Set([
+  "lastSeen",
+  "emergencyStoppedAt",
+  "startedAt",
+  "completedAt",
+  "uploadedAt",
+  "createdAt",
+  "recordedAt",
+  "addedAt",
+  "startAt",
+  "firedAt",
+]);
+
+// Values for columns added after a snapshot was saved, matching the
+// defaults REQUIRED_COLUMNS in ensureSchema.ts gives existing Postgres rows
+const COLUMN_DEFAULTS: Partial<Record<TableName, Record<string, unknown>>> = {
+  users: { role: "admin", notificationPreferences: null, pushSubscriptions: [] },
+  auditLog: { authMethod: null },
+};
+
+// Writes are batched: a burst of changes (e.g. a status poll) becomes one write
+const PERSIST_DELAY_MS = 5000;
+
+type Snapshot = {
+  version: 1;
+  nextIds: MemStorage["nextIds"];
+  tables: Tables;
+};
+
+/**
+ * MemStorage saved to a JSON file, so a Pi can keep its printers and history
+ * without running Postgres. The whole snapshot is rewritten a few seconds
+ * after changes, via a temp file and rename so a power cut can't leave it
+ * half-written; the last few seconds of changes can be lost.
+ */
+export class JsonFileStorage extends MemStorage {
+  private persistTimer: NodeJS.Timeout | null = null;
+
+  constructor(private readonly filePath: string) {
+    super();
+    this.load();
+  }
+
+  private load(): void {
+    let raw: string;
+    try {
+      raw = fs.readFileSync(this.filePath, "utf-8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return;
+      throw error;
+    }
+
+    const snapshot = JSON.parse(raw) as Snapshot;
+    const tables = { ...emptyTables(), ...snapshot.tables };
+    for (const [name, rows] of Object.entries(tables)) {
+      if (name === "settings") continue;
+      for (const row of rows as Record<string, unknown>[]) {
+        for (const [field, value] of Object.entries(COLUMN_DEFAULTS[name as TableName] ?? {})) {
+          row[field] ??= value;
+        }
+        for (const field of Object.keys(row)) {
+          if (DATE_FIELDS.has(field) && typeof row[field] === "string") {
+            row[field] = new Date(row[field] as string);
+          }
+        }
+      }
+    }
+    this.tables = tables;
+    this.nextIds = { ...this.nextIds, ...snapshot.nextIds };
+  }
+
+  protected changed(): void {
+    if (this.persistTimer) return;
+    this.persistTimer = setTimeout(() => {
+      this.persistTimer = null;
+      this.flush().catch((error) => console.error(`[Storage] Failed to save ${this.filePath}:`, error));
+    }, PERSIST_DELAY_MS);
+    // Pending writes shouldn't keep a finished process (e.g. a script) alive
+    this.persistTimer.unref();
+  }
+
+  /**
+   * Writes the current state to disk now.
+   */
+  async flush(): Promise<void> {
+    const snapshot: Snapshot = { version: 1, nextIds: this.nextIds, tables: this.tables };
+    const temp = `${this.filePath}.tmp`;
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.promises.writeFile(temp, JSON.stringify(snapshot));
+    await fs.promises.rename(temp, this.filePath);
+  }
+}
@@ -0,0 +1,636 @@
+import http from "http";
+import os from "os";
+import path from "path";
+import type { AddressInfo } from "net";
+import type { Duplex } from "stream";
+import express, { type Request, type Response } from "express";
+import { WebSocketServer, type WebSocket } from "ws";
+import { storage } from "./storage";
+import { log } from "./log";
+import { discardUpload, gcodeUpload, saveIncomingGcodeFile } from "./gcodeFiles";
+import { uploadToPrinter } from "./printerUpload";
+import { sendJobCommand, type JobCommand } from "./snapmaker";
+import { finishActiveJob, startJob, whyPrinterNotReady } from "./jobTracker";
+import { getOrFetchStatus } from "./statusPoller";
+import { printerEvents } from "./printerEvents";
+import { getDefaultPrinter, getDefaultPrinterId, globToRegExp } from "./uploadRouting";
+import { authenticateApiKey } from "./auth";
+import { auditTrail, recordAudit } from "./audit";
+import { hasRole, normalizeMachineState, type AuditResult, type Printer, type PrinterStatus, type UploadedFile, type User } from "@shared/schema";
+
+/**
+ * A Moonraker-compatible API on its own port, for Mainsail/Fluidd,
+ * OrcaSlicer's Moonraker host type and Moonraker mobile apps. Like the
+ * OctoPrint endpoints it answers for the default printer, described as the
+ * Klipper objects those clients read (print_stats, extruder, heater_bed...),
+ * both over HTTP and as JSON-RPC on the /websocket endpoint.
+ */
+
+export const DEFAULT_MOONRAKER_PORT = 7125;
+const PORT_SETTING = "moonraker_port";
+const CORS_DOMAINS_SETTING = "moonraker_cors_domains";
+const MOONRAKER_VERSION = "v0.9.3-snapmaker";
+const API_VERSION = [1, 5, 0];
+
+const KLIPPER_OBJECTS = [
+  "webhooks",
+  "print_stats",
+  "virtual_sdcard",
+  "display_status",
+  "extruder",
+  "heater_bed",
+  "toolhead",
+  "idle_timeout",
+];
+
+// Klipper object name -> attributes; null asks for every attribute
+type ObjectQuery = Record<string, string[] | null>;
+type KlipperStatus = Record<string, Record<string, unknown>>;
+
+type RpcClient = {
+  socket: WebSocket;
+  // Whose API key opened the connection, and from where
+  user: User;
+  sourceIp: string | null;
+  connectionId: number;
+  subscription: ObjectQuery | null;
+  // What the client has been sent, so updates only carry what changed
+  sent: KlipperStatus;
+};
+
+type RpcMethod = (params: Record<string, unknown>, client: RpcClient | null) => Promise<unknown>;
+
+// Moonraker reports failures as { error: { code, message } }, with HTTP
+// status codes doubling as JSON-RPC error codes
+class MoonrakerError extends Error {
+  constructor(readonly code: number, message: string) {
+    super(message);
+  }
+}
+
+let moonrakerServer: http.Server | null = null;
+let websocketServer: WebSocketServer | null = null;
+let listeningPort: number | null = null;
+let nextConnectionId = 1;
+const clients = new Set<RpcClient>();
+let corsOrigins: RegExp[] = [];
+
+async function currentPrinterState(): Promise<{ printer: Printer | null; status: PrinterStatus | null }> {
+  const printer = await getDefaultPrinter();
+  return { printer, status: printer ? await getOrFetchStatus(printer) : null };
+}
+
+async function requirePrinter(): Promise<Printer> {
+  const printer = await getDefaultPrinter();
+  if (!printer) {
+    throw new MoonrakerError(503, "No default printer; choose one in Settings");
+  }
+  return printer;
+}
+
+function klippyState(printer: Printer | null, status: PrinterStatus | null) {
+  if (!printer) return { state: "disconnected", message: "No default printer chosen in Settings" };
+  if (!status) return { state: "disconnected", message: `${printer.name} is not connected` };
+  if (normalizeMachineState(status.state) === "error") {
+    return { state: "error", message: `${printer.name} reports ${status.state}` };
+  }
+  return { state: "ready", message: "Printer is ready" };
+}
+
+const PRINT_STATS_STATES = {
+  printing: "printing",
+  paused: "paused",
+  error: "error",
+  idle: "standby",
+} as const;
+
+async function buildKlipperStatus(printer: Printer | null, status: PrinterStatus | null): Promise<KlipperStatus> {
+  const state = status ? normalizeMachineState(status.state) : null;
+  const busy = state === "printing" || state === "paused";
+  const active = printer && busy ? await storage.getActivePrintJob(printer.id) : undefined;
+
+  const filename = busy ? (status?.currentFile ?? active?.filename ?? "") : "";
+  const progress = busy ? (status?.progress ?? 0) / 100 : 0;
+  const duration = active?.startedAt ? (Date.now() - active.startedAt.getTime()) / 1000 : 0;
+  const temperature = status?.temperature ?? { nozzle: 0, bed: 0, targetNozzle: 0, targetBed: 0 };
+  const klippy = klippyState(printer, status);
+
+  return {
+    webhooks: { state: klippy.state === "disconnected" ? "shutdown" : klippy.state, state_message: klippy.message },
+    print_stats: {
+      filename,
+      state: state ? PRINT_STATS_STATES[state] : "standby",
+      total_duration: duration,
+      print_duration: duration,
+      filament_used: 0,
+      message: state === "error" ? status!.state : "",
+      info: { total_layer: null, current_layer: null },
+    },
+    virtual_sdcard: { file_path: filename || null, progress, is_active: state === "printing", file_position: 0 },
+    display_status: { progress, message: null },
+    extruder: { temperature: temperature.nozzle, target: temperature.targetNozzle, power: 0 },
+    heater_bed: { temperature: temperature.bed, target: temperature.targetBed, power: 0 },
+    toolhead: { homed_axes: "", position: [0, 0, 0, 0], print_time: duration, estimated_print_time: duration },
+    idle_timeout: { state: busy ? "Printing" : "Ready", printing_time: duration },
+  };
+}
+
+function selectObjects(status: KlipperStatus, query: ObjectQuery): KlipperStatus {
+  const selected: KlipperStatus = {};
+  for (const [name, attributes] of Object.entries(query)) {
+    const object = status[name];
+    if (!object) continue;
+    selected[name] = attributes
+      ? Object.fromEntries(attributes.filter((key) => key in object).map((key) => [key, object[key]]))
+      : { ...object };
+  }
+  return selected;
+}
+
+function diffStatus(previous: KlipperStatus, next: KlipperStatus): KlipperStatus {
+  const changes: KlipperStatus = {};
+  for (const [name, attributes] of Object.entries(next)) {
+    for (const [key, value] of Object.entries(attributes)) {
+      if (JSON.stringify(previous[name]?.[key]) !== JSON.stringify(value)) {
+        changes[name] = { ...changes[name], [key]: value };
+      }
+    }
+  }
+  return changes;
+}
+
+// JSON-RPC sends { extruder: ["temperature"], heater_bed: null }
+function toObjectQuery(objects: unknown): ObjectQuery {
+  if (!objects || typeof objects !== "object") return {};
+  return Object.fromEntries(
+    Object.entries(objects).map(([name, attributes]) => [
+      name,
+      Array.isArray(attributes) && attributes.length > 0 ? attributes.map(String) : null,
+    ])
+  );
+}
+
+// HTTP sends ?extruder&heater_bed=temperature,target
+function parseQueryString(query: Request["query"]): ObjectQuery {
+  return Object.fromEntries(
+    Object.entries(query).map(([name, value]) => [name, typeof value === "string" && value ? value.split(",") : null])
+  );
+}
+
+const eventTime = () => process.uptime();
+
+async function queryObjects(query: ObjectQuery) {
+  const { printer, status } = await currentPrinterState();
+  return { eventtime: eventTime(), status: selectObjects(await buildKlipperStatus(printer, status), query) };
+}
+
+async function serverInfo() {
+  const { printer, status } = await currentPrinterState();
+  return {
+    klippy_connected: status !== null,
+    klippy_state: klippyState(printer, status).state,
+    components: ["file_manager", "websockets"],
+    failed_components: [],
+    registered_directories: ["gcodes"],
+    warnings: [],
+    websocket_count: clients.size,
+    moonraker_version: MOONRAKER_VERSION,
+    api_version: API_VERSION,
+    api_version_string: API_VERSION.join("."),
+  };
+}
+
+async function printerInfo() {
+  const { printer, status } = await currentPrinterState();
+  const klippy = klippyState(printer, status);
+  return {
+    state: klippy.state === "disconnected" ? "shutdown" : klippy.state,
+    state_message: klippy.message,
+    hostname: os.hostname(),
+    software_version: printer ? `Snapmaker (${printer.name})` : "Snapmaker",
+    cpu_info: "",
+    klipper_path: "",
+    python_path: "",
+    log_file: "",
+    config_file: "",
+  };
+}
+
+function toFileItem(file: UploadedFile) {
+  return {
+    path: file.filename,
+    modified: file.uploadedAt ? file.uploadedAt.getTime() / 1000 : 0,
+    size: file.size ?? 0,
+    permissions: "rw",
+  };
+}
+
+async function listFiles() {
+  const printer = await getDefaultPrinter();
+  const files = printer ? await storage.getUploadedFiles(printer.id) : [];
+  return files.filter((file) => file.contentHash).map(toFileItem);
+}
+
+async function printUploadedFile(printer: Printer, file: UploadedFile): Promise<void> {
+  const notReady = await whyPrinterNotReady(printer, await getOrFetchStatus(printer));
+  if (notReady) {
+    throw new MoonrakerError(400, `Can't start print: ${notReady}`);
+  }
+
+  await uploadToPrinter(printer, file);
+  await startJob(printer.id, file.filename, "moonraker", file.id);
+}
+
+async function startPrint(filename: string): Promise<string> {
+  const printer = await requirePrinter();
+  // Clients send paths relative to the gcodes root; the library is flat
+  const name = path.posix.basename(filename);
+  const file = (await storage.getUploadedFiles(printer.id)).find((f) => f.filename === name);
+  if (!file) {
+    throw new MoonrakerError(404, `File ${filename} not found`);
+  }
+
+  await printUploadedFile(printer, file);
+  return "ok";
+}
+
+async function runJobCommand(command: JobCommand): Promise<string> {
+  const printer = await requirePrinter();
+  if (!printer.token) {
+    throw new MoonrakerError(503, "Printer not connected");
+  }
+
+  await sendJobCommand(printer, command);
+  if (command === "stop") {
+    await finishActiveJob(printer.id, "cancelled");
+  }
+  return "ok";
+}
+
+async function uploadFile(req: Request) {
+  const file = req.file;
+  if (!file) {
+    throw new MoonrakerError(400, "No file uploaded");
+  }
+
+  const root = (req.body.root as string | undefined) || "gcodes";
+  if (root !== "gcodes") {
+    await discardUpload(file);
+    throw new MoonrakerError(400, `Uploads to the "${root}" root are not supported`);
+  }
+
+  // Upload rules pick the printer, with the target path matched like a
+  // watch subfolder
+  const uploaded = await saveIncomingGcodeFile({
+    path: file.path,
+    move: true,
+    filename: file.originalname,
+    displayName: file.originalname.replace(/\.[^/.]+$/, ""),
+    source: "moonraker",
+    folder: (req.body.path as string | undefined) || null,
+    tag: null,
+  }).finally(() => discardUpload(file));
+
+  let printStarted = false;
+  if (req.body.print === "true") {
+    const printer = uploaded.printerId !== null ? await storage.getPrinter(uploaded.printerId) : undefined;
+    if (!printer) {
+      throw new MoonrakerError(400, "File saved to the unassigned inbox; no upload rule or default printer matched it");
+    }
+    await printUploadedFile(printer, uploaded);
+    printStarted = true;
+  }
+
+  return {
+    item: { ...toFileItem(uploaded), root: "gcodes" },
+    print_started: printStarted,
+    print_queued: false,
+    action: "create_file",
+  };
+}
+
+const rpcMethods: Record<string, RpcMethod> = {
+  "server.info": () => serverInfo(),
+  "server.connection.identify": async (params, client) => ({ connection_id: client?.connectionId ?? 0 }),
+  "server.files.list": () => listFiles(),
+  "printer.info": () => printerInfo(),
+  "printer.objects.list": async () => ({ objects: KLIPPER_OBJECTS }),
+  "printer.objects.query": (params) => queryObjects(toObjectQuery(params.objects)),
+  "printer.objects.subscribe": async (params, client) => {
+    if (!client) {
+      throw new MoonrakerError(400, "Subscriptions are only available over the websocket");
+    }
+    client.subscription = toObjectQuery(params.objects);
+    const result = await queryObjects(client.subscription);
+    client.sent = result.status;
+    return result;
+  },
+  "printer.print.start": (params) => startPrint(String(params.filename ?? "")),
+  "printer.print.pause": () => runJobCommand("pause"),
+  "printer.print.resume": () => runJobCommand("resume"),
+  "printer.print.cancel": () => runJobCommand("stop"),
+};
+
+// Methods that change something, with their audit action. Everything else
+// only reads, which every role may do
+const OPERATOR_METHODS: Record<string, string> = {
+  "printer.print.start": "print",
+  "printer.print.pause": "pause",
+  "printer.print.resume": "resume",
+  "printer.print.cancel": "stop",
+};
+
+function errorBody(error: unknown) {
+  return {
+    code: error instanceof MoonrakerError ? error.code : 500,
+    message: error instanceof Error ? error.message : String(error),
+  };
+}
+
+function sendRpc(client: RpcClient, message: Record<string, unknown>): void {
+  if (client.socket.readyState === client.socket.OPEN) {
+    client.socket.send(JSON.stringify({ jsonrpc: "2.0", ...message }));
+  }
+}
+
+async function handleRpcMessage(client: RpcClient, data: string): Promise<void> {
+  let request: { id?: unknown; method?: unknown; params?: unknown };
+  try {
+    request = JSON.parse(data);
+  } catch {
+    sendRpc(client, { error: { code: -32700, message: "Parse error" }, id: null });
+    return;
+  }
+
+  // Requests without an id are notifications and get no reply
+  const reply = (message: Record<string, unknown>) => {
+    if (request.id !== undefined) sendRpc(client, { ...message, id: request.id });
+  };
+
+  const method = typeof request.method === "string" ? rpcMethods[request.method] : undefined;
+  if (!method) {
+    reply({ error: { code: -32601, message: `Method not found: ${String(request.method)}` } });
+    return;
+  }
+  const params = request.params && typeof request.params === "object" ? (request.params as Record<string, unknown>) : {};
+  const auditAction = OPERATOR_METHODS[request.method as string];
+  const audit = async (result: AuditResult, error?: string) => {
+    if (!auditAction) return;
+    await recordAudit({
+      printerId: await getDefaultPrinterId(),
+      action: auditAction,
+      actor: client.user.username,
+      authMethod: "api-key",
+      sourceIp: client.sourceIp,
+      details: { method: request.method, ...(Object.keys(params).length > 0 ? { params } : {}), ...(error ? { error } : {}) },
+      result,
+    });
+  };
+
+  if (auditAction && !hasRole(client.user.role, "operator")) {
+    await audit("denied");
+    reply({ error: { code: 403, message: "This needs the operator role" } });
+    return;
+  }
+
+  try {
+    reply({ result: await method(params, client) });
+    await audit("success");
+  } catch (error) {
+    const body = errorBody(error);
+    reply({ error: body });
+    await audit("failed", body.message);
+  }
+}
+
+// Pushes what changed in each client's subscribed objects, as Moonraker does
+// with notify_status_update
+async function notifySubscribers(printerId: number, status: PrinterStatus | null): Promise<void> {
+  const subscribed = Array.from(clients).filter((client) => client.subscription);
+  if (subscribed.length === 0) return;
+
+  const printer = await getDefaultPrinter();
+  if (printer?.id !== printerId) return;
+
+  const full = await buildKlipperStatus(printer, status);
+  for (const client of subscribed) {
+    const next = selectObjects(full, client.subscription!);
+    const changes = diffStatus(client.sent, next);
+    if (Object.keys(changes).length === 0) continue;
+    client.sent = next;
+    sendRpc(client, { method: "notify_status_update", params: [changes, eventTime()] });
+  }
+}
+
+const onStatus = (printerId: number, status: PrinterStatus | null) => {
+  notifySubscribers(printerId, status).catch((error) => {
+    log(`Failed to send status update: ${error}`, "moonraker");
+  });
+};
+
+// A domain without a scheme allows it over http and https alike
+function corsOriginPattern(domain: string): RegExp {
+  return globToRegExp(domain.includes("://") ? domain.replace(/\/+$/, "") : `*://${domain}`);
+}
+
+function isAllowedOrigin(origin: string): boolean {
+  return corsOrigins.some((pattern) => pattern.test(origin));
+}
+
+function createMoonrakerApp(): express.Express {
+  const app = express();
+  app.use(express.json());
+
+  // Mainsail and Fluidd call from their own origin in the browser. Preflight
+  // requests carry no API key, so they're answered before the key check.
+  app.use((req, res, next) => {
+    const origin = req.headers.origin;
+    res.vary("Origin");
+    if (origin && isAllowedOrigin(origin)) {
+      res.setHeader("Access-Control-Allow-Origin", origin);
+    }
+    if (req.method !== "OPTIONS" || !req.headers["access-control-request-method"]) return next();
+
+    if (res.getHeader("Access-Control-Allow-Origin")) {
+      res.setHeader("Access-Control-Allow-Methods", "GET, POST, DELETE, OPTIONS");
+      res.setHeader("Access-Control-Allow-Headers", req.headers["access-control-request-headers"] ?? "Content-Type, X-Api-Key");
+      res.setHeader("Access-Control-Max-Age", "3600");
+    }
+    res.sendStatus(204);
+  });
+
+  // Clients authenticate with a user's API key, as on the OctoPrint endpoints
+  app.use((req, res, next) => {
+    authenticateApiKey(req)
+      .then((user) => {
+        if (!user) {
+          return res.status(401).json({ error: { code: 401, message: "Unauthorized" } });
+        }
+        req.user = user;
+        res.locals.authMethod = "api-key";
+        next();
+      })
+      .catch(next);
+  });
+  app.use(auditTrail(getDefaultPrinterId));
+
+  // Uploading and job control, as on the dashboard, need an operator
+  const requireOperator = (req: Request, res: Response, next: express.NextFunction) => {
+    if (hasRole(req.user!.role, "operator")) return next();
+    res.status(403).json({ error: { code: 403, message: "This needs the operator role" } });
+  };
+
+  const respond = (handler: (req: Request) => Promise<unknown>, successStatus = 200) =>
+    async (req: Request, res: Response) => {
+      try {
+        res.status(successStatus).json({ result: await handler(req) });
+      } catch (error) {
+        const body = errorBody(error);
+        res.status(body.code).json({ error: body });
+      }
+    };
+
+  app.get("/server/info", respond(() => serverInfo()));
+  app.get("/printer/info", respond(() => printerInfo()));
+  app.get("/printer/objects/list", respond(async () => ({ objects: KLIPPER_OBJECTS })));
+  app.get("/printer/objects/query", respond((req) => queryObjects(parseQueryString(req.query))));
+  app.post("/printer/objects/query", respond((req) => queryObjects(toObjectQuery(req.body?.objects))));
+  app.get("/server/files/list", respond(() => listFiles()));
+  app.post("/server/files/upload", requireOperator, gcodeUpload.single("file"), respond(uploadFile, 201));
+  app.post(
+    "/printer/print/start",
+    requireOperator,
+    respond((req) => startPrint(String(req.query.filename ?? req.body?.filename ?? "")))
+  );
+  app.post("/printer/print/pause", requireOperator, respond(() => runJobCommand("pause")));
+  app.post("/printer/print/resume", requireOperator, respond(() => runJobCommand("resume")));
+  app.post("/printer/print/cancel", requireOperator, respond(() => runJobCommand("stop")));
+
+  app.use((req: Request, res: Response) => {
+    res.status(404).json({ error: { code: 404, message: "Not Found" } });
+  });
+
+  // Upload rejections from multer, e.g. a file that isn't G-code
+  app.use((error: Error, req: Request, res: Response, _next: express.NextFunction) => {
+    res.status(400).json({ error: { code: 400, message: error.message } });
+  });
+
+  return app;
+}
+
+function openRpcClient(socket: WebSocket, user: User, sourceIp: string | null): void {
+  const client: RpcClient = { socket, user, sourceIp, connectionId: nextConnectionId++, subscription: null, sent: {} };
+  clients.add(client);
+  socket.on("message", (data) => {
+    handleRpcMessage(client, data.toString()).catch((error) => {
+      log(`Failed to handle request: ${error}`, "moonraker");
+    });
+  });
+  socket.on("close", () => clients.delete(client));
+}
+
+function handleUpgrade(wss: WebSocketServer, req: http.IncomingMessage, socket: Duplex, head: Buffer) {
+  const { pathname } = new URL(req.url ?? "/", "http://localhost");
+  if (pathname !== "/websocket") {
+    socket.end("HTTP/1.1 404 Not Found\r\n\r\n");
+    return;
+  }
+
+  authenticateApiKey(req)
+    .catch(() => null)
+    .then((user) => {
+      if (!user) {
+        socket.end("HTTP/1.1 401 Unauthorized\r\n\r\n");
+        return;
+      }
+      wss.handleUpgrade(req, socket, head, (ws) => openRpcClient(ws, user, req.socket.remoteAddress ?? null));
+    });
+}
+
+export async function startMoonraker(port: number): Promise<boolean> {
+  if (moonrakerServer) {
+    await stopMoonraker();
+  }
+
+  const server = http.createServer(createMoonrakerApp());
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on("upgrade", (req, socket, head) => handleUpgrade(wss, req, socket, head));
+  return new Promise((resolve) => {
+    server.on("error", (error: NodeJS.ErrnoException) => {
+      if (error.code === "EADDRINUSE") {
+        log(`Port ${port} is already in use`, "moonraker");
+      } else {
+        log(`Server error: ${error.message}`, "moonraker");
+      }
+      resolve(false);
+    });
+
+    server.listen(port, "0.0.0.0", () => {
+      moonrakerServer = server;
+      websocketServer = wss;
+      listeningPort = (server.address() as AddressInfo).port;
+      printerEvents.on("status", onStatus);
+      log(`API listening on port ${listeningPort}`, "moonraker");
+      resolve(true);
+    });
+  });
+}
+
+export async function stopMoonraker(): Promise<void> {
+  const server = moonrakerServer;
+  if (!server) return;
+
+  printerEvents.off("status", onStatus);
+  for (const client of Array.from(clients)) {
+    client.socket.terminate();
+  }
+  clients.clear();
+  websocketServer?.close();
+  server.closeAllConnections();
+
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+  moonrakerServer = null;
+  websocketServer = null;
+  listeningPort = null;
+  log(`Stopped`, "moonraker");
+}
+
+export function getMoonrakerStatus(): { enabled: boolean; port: number | null } {
+  return { enabled: moonrakerServer !== null, port: listeningPort };
+}
+
+export async function getMoonrakerPort(): Promise<number | null> {
+  const value = parseInt((await storage.getSetting(PORT_SETTING)) ?? "");
+  return Number.isFinite(value) ? value : null;
+}
+
+export async function setMoonrakerPort(port: number | null): Promise<void> {
+  await storage.setSetting(PORT_SETTING, port === null ? null : String(port));
+}
+
+export async function getMoonrakerCorsDomains(): Promise<string[]> {
+  const saved = await storage.getSetting(CORS_DOMAINS_SETTING);
+  return saved ? (JSON.parse(saved) as string[]) : [];
+}
+
+/**
+ * Saves the origins browser clients may call from and applies them straight
+ * away, without restarting the server.
+ */
+export async function setMoonrakerCorsDomains(domains: string[]): Promise<void> {
+  await storage.setSetting(CORS_DOMAINS_SETTING, domains.length > 0 ? JSON.stringify(domains) : null);
+  corsOrigins = domains.map(corsOriginPattern);
+}
+
+export async function initializeMoonraker(): Promise<void> {
+  try {
+    corsOrigins = (await getMoonrakerCorsDomains()).map(corsOriginPattern);
+    const port = await getMoonrakerPort();
+    if (port !== null) {
+      await startMoonraker(port);
+    }
+  } catch (error) {
+    log(`Failed to initialize: ${error}`, "moonraker");
+  }
+}
@@ -0,0 +1,222 @@
+import webpush, { type RequestOptions, type VapidKeys } from "web-push";
+import nodemailer, { type Transporter } from "nodemailer";
+import { storage } from "./storage";
+import { log } from "./log";
+import type {
+  NotificationChannel,
+  NotificationEvent,
+  NotificationPreferences,
+  User,
+  WebPushSubscription,
+} from "@shared/schema";
+
+/**
+ * The ways a notification can reach someone. Each channel reads its settings
+ * from the user's preferences; Web Push and email also need server-side
+ * setup (VAPID keys, SMTP_* variables) and report whether they have it.
+ */
+
+export type Notification = {
+  event: NotificationEvent | "test";
+  title: string;
+  message: string;
+  // Failures and anomalies are sent with a higher priority where the channel has one
+  urgent: boolean;
+  printer: { id: number; name: string } | null;
+  job: { id: number; filename: string; status: string; progress: number | null } | null;
+  time: Date;
+};
+
+type Channel = {
+  isAvailable(): boolean;
+  send(user: User, preferences: NotificationPreferences, notification: Notification): Promise<void>;
+};
+
+const REQUEST_TIMEOUT_MS = 10_000;
+const VAPID_KEYS_SETTING = "web_push_vapid_keys";
+// Push services want a contact for the sender; set VAPID_SUBJECT to a real one
+const DEFAULT_VAPID_SUBJECT = "mailto:snapmaker-dashboard@localhost";
+// How long a push service keeps trying to deliver to a device that is offline
+const PUSH_TTL_SECONDS = 60 * 60;
+
+let vapidKeys: Promise<VapidKeys> | null = null;
+let mailer: Transporter | null = null;
+
+/**
+ * The server's VAPID key pair, created on first use and kept in settings so
+ * subscriptions stay valid across restarts.
+ */
+export function getVapidKeys(): Promise<VapidKeys> {
+  vapidKeys ??= (async () => {
+    const saved = await storage.getSetting(VAPID_KEYS_SETTING);
+    if (saved) return JSON.parse(saved) as VapidKeys;
+
+    const keys = webpush.generateVAPIDKeys();
+    await storage.setSetting(VAPID_KEYS_SETTING, JSON.stringify(keys));
+    log("Generated a VAPID key pair for Web Push", "notifications");
+    return keys;
+  })().catch((error) => {
+    vapidKeys = null;
+    throw error;
+  });
+  return vapidKeys;
+}
+
+async function postJson(url: string, body: unknown, headers: Record<string, string> = {}): Promise<void> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`${new URL(url).host} answered ${response.status} ${response.statusText}`.trim());
+  }
+}
+
+// Subscriptions the push service has forgotten (the app was uninstalled or
+// the user revoked permission) are dropped
+async function removePushSubscriptions(userId: number, endpoints: string[]): Promise<void> {
+  const user = await storage.getUser(userId);
+  if (!user) return;
+  await storage.updateUser(userId, {
+    pushSubscriptions: user.pushSubscriptions.filter((s) => !endpoints.includes(s.endpoint)),
+  });
+  log(`Removed ${endpoints.length} expired push subscription(s) for ${user.username}`, "notifications");
+}
+
+const webPushChannel: Channel = {
+  isAvailable: () => true,
+  async send(user, _preferences, notification) {
+    if (user.pushSubscriptions.length === 0) {
+      throw new Error("No browser has push turned on for this account");
+    }
+
+    const { publicKey, privateKey } = await getVapidKeys();
+    const payload = JSON.stringify({
+      title: notification.title,
+      body: notification.message,
+      tag: notification.printer ? `printer-${notification.printer.id}` : "test",
+      url: notification.printer ? `/printers/${notification.printer.id}` : "/",
+    });
+    const options: RequestOptions = {
+      vapidDetails: { subject: process.env.VAPID_SUBJECT || DEFAULT_VAPID_SUBJECT, publicKey, privateKey },
+      TTL: PUSH_TTL_SECONDS,
+      urgency: notification.urgent ? "high" : "normal",
+      timeout: REQUEST_TIMEOUT_MS,
+    };
+
+    const expired: string[] = [];
+    const errors: string[] = [];
+    await Promise.all(
+      user.pushSubscriptions.map(async (subscription: WebPushSubscription) => {
+        try {
+          await webpush.sendNotification(subscription, payload, options);
+        } catch (error) {
+          if (error instanceof webpush.WebPushError && (error.statusCode === 404 || error.statusCode === 410)) {
+            expired.push(subscription.endpoint);
+          } else {
+            errors.push(error instanceof Error ? error.message : String(error));
+          }
+        }
+      }),
+    );
+    if (expired.length > 0) await removePushSubscriptions(user.id, expired);
+
+    // Delivered if any of the user's devices got it
+    const delivered = user.pushSubscriptions.length - expired.length - errors.length;
+    if (delivered === 0) {
+      throw new Error(errors[0] ?? "Every push subscription for this account has expired");
+    }
+  },
+};
+
+function getMailer(): Transporter | null {
+  if (!process.env.SMTP_HOST) return null;
+  if (!mailer) {
+    const secure = process.env.SMTP_SECURE === "true";
+    mailer = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port: parseInt(process.env.SMTP_PORT || (secure ? "465" : "587")),
+      secure,
+      auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS } : undefined,
+      connectionTimeout: REQUEST_TIMEOUT_MS,
+    });
+  }
+  return mailer;
+}
+
+const emailChannel: Channel = {
+  isAvailable: () => !!process.env.SMTP_HOST,
+  async send(_user, preferences, notification) {
+    const transport = getMailer();
+    if (!transport) throw new Error("Email isn't set up on this server (SMTP_HOST)");
+
+    await transport.sendMail({
+      from: process.env.SMTP_FROM || process.env.SMTP_USER || "snapmaker-dashboard@localhost",
+      to: preferences.channels.email.address,
+      subject: notification.title,
+      text: `${notification.message}\n\n${notification.time.toLocaleString()}`,
+    });
+  },
+};
+
+// ntfy takes JSON at its root URL with the topic in the body, which keeps
+// non-ASCII printer and file names intact (headers can't carry them)
+const ntfyChannel: Channel = {
+  isAvailable: () => true,
+  async send(_user, preferences, notification) {
+    const { url, token } = preferences.channels.ntfy;
+    const topicUrl = new URL(url);
+    const segments = topicUrl.pathname.split("/").filter(Boolean);
+    const topic = segments.pop();
+    if (!topic) throw new Error("The ntfy URL needs a topic, e.g. https://ntfy.sh/my-printers");
+    topicUrl.pathname = `/${segments.map((s) => `${s}/`).join("")}`;
+
+    await postJson(
+      topicUrl.toString(),
+      {
+        topic,
+        title: notification.title,
+        message: notification.message,
+        priority: notification.urgent ? 4 : 3,
+        tags: [notification.urgent ? "warning" : "printer"],
+      },
+      token ? { Authorization: `Bearer ${token}` } : {},
+    );
+  },
+};
+
+const gotifyChannel: Channel = {
+  isAvailable: () => true,
+  async send(_user, preferences, notification) {
+    const { url, token } = preferences.channels.gotify;
+    await postJson(
+      new URL("message", url.endsWith("/") ? url : `${url}/`).toString(),
+      { title: notification.title, message: notification.message, priority: notification.urgent ? 8 : 5 },
+      { "X-Gotify-Key": token },
+    );
+  },
+};
+
+const webhookChannel: Channel = {
+  isAvailable: () => true,
+  async send(_user, preferences, notification) {
+    await postJson(preferences.channels.webhook.url, {
+      event: notification.event,
+      title: notification.title,
+      message: notification.message,
+      printer: notification.printer,
+      job: notification.job,
+      time: notification.time.toISOString(),
+    });
+  },
+};
+
+export const CHANNELS: Record<NotificationChannel, Channel> = {
+  webpush: webPushChannel,
+  email: emailChannel,
+  ntfy: ntfyChannel,
+  gotify: gotifyChannel,
+  webhook: webhookChannel,
+};
@@ -0,0 +1,286 @@
+import { storage } from "./storage";
+import { log } from "./log";
+import { printerEvents } from "./printerEvents";
+import { CHANNELS, type Notification } from "./notificationChannels";
+import {
+  canUseNotificationChannel,
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  NOTIFICATION_CHANNELS,
+  type NotificationChannel,
+  type NotificationEvent,
+  type NotificationPreferences,
+  type NotificationTestResult,
+  type PrintJob,
+  type PrintJobStatus,
+  type PrinterStatus,
+  type User,
+} from "@shared/schema";
+
+/**
+ * Tells people about print events as the server sees them: jobs starting,
+ * finishing, failing or pausing (from the job history), printers dropping
+ * off the network and heaters drifting away from their target (from the
+ * status poll). Each user picks the events and channels they want.
+ */
+
+// A heater more than this far from its target is out of line...
+const TEMPERATURE_TOLERANCE_C = 15;
+// ...and is reported once it has stayed that way for this long, so a target
+// change or a fan kicking in doesn't set it off
+const TEMPERATURE_ANOMALY_MS = 60_000;
+// A heater that hasn't reached its target this long after it was set is dead
+// or has lost its thermistor
+const HEAT_UP_TIMEOUT_MS = 15 * 60_000;
+
+type Heater = "nozzle" | "bed";
+
+type HeaterState = {
+  target: number;
+  // Heating up from cold is far off target too, so until the heater has
+  // been at its target it gets HEAT_UP_TIMEOUT_MS unless it overshoots
+  reachedTarget: boolean;
+  outOfRangeSince: number | null;
+  reported: boolean;
+};
+
+const heaterStates = new Map<string, HeaterState>();
+let initialized = false;
+
+/**
+ * The user's saved preferences, with defaults for anything saved before a
+ * setting existed.
+ */
+export function getNotificationPreferences(user: User): NotificationPreferences {
+  const saved = user.notificationPreferences;
+  if (!saved) return DEFAULT_NOTIFICATION_PREFERENCES;
+  return {
+    events: saved.events,
+    channels: { ...DEFAULT_NOTIFICATION_PREFERENCES.channels, ...saved.channels },
+  };
+}
+
+export function getAvailableChannels(): Record<NotificationChannel, boolean> {
+  return Object.fromEntries(
+    NOTIFICATION_CHANNELS.map((channel) => [channel, CHANNELS[channel].isAvailable()]),
+  ) as Record<NotificationChannel, boolean>;
+}
+
+// Settings saved before a user lost their role stay put, but aren't used
+function enabledChannels(user: User, preferences: NotificationPreferences): NotificationChannel[] {
+  return NOTIFICATION_CHANNELS.filter(
+    (channel) =>
+      preferences.channels[channel].enabled &&
+      CHANNELS[channel].isAvailable() &&
+      canUseNotificationChannel(user.role, channel),
+  );
+}
+
+async function sendToChannel(
+  user: User,
+  preferences: NotificationPreferences,
+  channel: NotificationChannel,
+  notification: Notification,
+): Promise<NotificationTestResult> {
+  try {
+    await CHANNELS[channel].send(user, preferences, notification);
+    return { channel, ok: true };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    log(`Failed to send ${notification.event} to ${user.username} over ${channel}: ${message}`, "notifications");
+    return { channel, ok: false, error: message };
+  }
+}
+
+/**
+ * Sends a notification to every user who asked for this event, on each of
+ * their channels. Delivery failures are logged, never thrown.
+ */
+export async function notify(notification: Notification): Promise<void> {
+  const users = await storage.getUsers();
+  await Promise.all(
+    users.map(async (user) => {
+      const preferences = getNotificationPreferences(user);
+      if (notification.event !== "test" && !preferences.events.includes(notification.event)) return;
+      await Promise.all(
+        enabledChannels(user, preferences).map((channel) => sendToChannel(user, preferences, channel, notification)),
+      );
+    }),
+  );
+}
+
+/**
+ * Sends a test notification to each of the user's enabled channels and says
+ * how each one went, for the "Send test" button in Settings.
+ */
+export async function sendTestNotification(user: User): Promise<NotificationTestResult[]> {
+  const preferences = getNotificationPreferences(user);
+  const notification: Notification = {
+    event: "test",
+    title: "Test notification",
+    message: `Print notifications for ${user.username} are working.`,
+    urgent: false,
+    printer: null,
+    job: null,
+    time: new Date(),
+  };
+  return Promise.all(
+    enabledChannels(user, preferences).map((channel) => sendToChannel(user, preferences, channel, notification)),
+  );
+}
+
+function formatDuration(ms: number): string {
+  const minutes = Math.round(ms / 60_000);
+  if (minutes < 60) return `${minutes}m`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+// What a job event means for notifications, if anything; resuming and
+// cancelling from the dashboard aren't worth a message
+function eventForJob(job: PrintJob, previous: PrintJobStatus | null): NotificationEvent | null {
+  switch (job.status as PrintJobStatus) {
+    case "printing":
+      return previous === null ? "job-started" : null;
+    case "paused":
+      return "job-paused";
+    case "completed":
+      return "job-finished";
+    case "failed":
+      return "job-failed";
+    default:
+      return null;
+  }
+}
+
+function jobMessage(event: NotificationEvent, job: PrintJob): string {
+  const progress = `${Math.round(job.progress ?? 0)}%`;
+  switch (event) {
+    case "job-started":
+      return `${job.filename} started printing.`;
+    case "job-finished":
+      return job.startedAt && job.completedAt
+        ? `${job.filename} finished after ${formatDuration(job.completedAt.getTime() - job.startedAt.getTime())}.`
+        : `${job.filename} finished.`;
+    case "job-failed":
+      return `${job.filename} failed at ${progress}.`;
+    default:
+      return `${job.filename} is paused at ${progress}.`;
+  }
+}
+
+const JOB_TITLES: Partial<Record<NotificationEvent, string>> = {
+  "job-started": "print started",
+  "job-finished": "print finished",
+  "job-failed": "print failed",
+  "job-paused": "print paused",
+};
+
+async function printerFor(printerId: number): Promise<{ id: number; name: string }> {
+  const printer = await storage.getPrinter(printerId);
+  return { id: printerId, name: printer?.name ?? `Printer ${printerId}` };
+}
+
+async function onJob(printerId: number, job: PrintJob, previous: PrintJobStatus | null): Promise<void> {
+  const event = eventForJob(job, previous);
+  if (!event) return;
+
+  const printer = await printerFor(printerId);
+  await notify({
+    event,
+    title: `${printer.name}: ${JOB_TITLES[event]}`,
+    message: jobMessage(event, job),
+    urgent: event === "job-failed",
+    printer,
+    job: { id: job.id, filename: job.filename, status: job.status, progress: job.progress },
+    time: new Date(),
+  });
+}
+
+async function onPrinterOffline(printerId: number): Promise<void> {
+  heaterStates.delete(`${printerId}:nozzle`);
+  heaterStates.delete(`${printerId}:bed`);
+
+  const printer = await printerFor(printerId);
+  const job = await storage.getActivePrintJob(printerId);
+  await notify({
+    event: "printer-offline",
+    title: `${printer.name} went offline`,
+    message: job
+      ? `The printer stopped answering while printing ${job.filename} (${Math.round(job.progress ?? 0)}%).`
+      : "The printer stopped answering.",
+    urgent: true,
+    printer,
+    job: job ? { id: job.id, filename: job.filename, status: job.status, progress: job.progress } : null,
+    time: new Date(),
+  });
+}
+
+// Returns a message when the heater has just become an anomaly worth reporting
+function checkHeater(printerId: number, heater: Heater, actual: number, target: number, now: number): string | null {
+  const key = `${printerId}:${heater}`;
+  let state = heaterStates.get(key);
+  if (!state || state.target !== target) {
+    state = { target, reachedTarget: false, outOfRangeSince: null, reported: false };
+    heaterStates.set(key, state);
+  }
+  if (target <= 0) return null;
+
+  const deviation = actual - target;
+  if (Math.abs(deviation) <= TEMPERATURE_TOLERANCE_C) {
+    state.reachedTarget = true;
+    state.outOfRangeSince = null;
+    state.reported = false;
+    return null;
+  }
+  state.outOfRangeSince ??= now;
+  const allowedMs = state.reachedTarget || deviation > 0 ? TEMPERATURE_ANOMALY_MS : HEAT_UP_TIMEOUT_MS;
+  if (state.reported || now - state.outOfRangeSince < allowedMs) return null;
+
+  state.reported = true;
+  const name = heater === "nozzle" ? "Nozzle" : "Bed";
+  return `${name} is at ${Math.round(actual)}°C but set to ${Math.round(target)}°C.`;
+}
+
+/**
+ * Looks for a heater that has been far from its target for a while. The
+ * status poller calls this on every poll, not just when the status changes,
+ * since a heater stuck at one reading is exactly what this is for. Tests pass
+ * their own clock.
+ */
+export async function checkTemperatures(printerId: number, status: PrinterStatus, now = Date.now()): Promise<void> {
+  const { nozzle, targetNozzle, bed, targetBed } = status.temperature;
+  const messages = [
+    checkHeater(printerId, "nozzle", nozzle, targetNozzle, now),
+    checkHeater(printerId, "bed", bed, targetBed, now),
+  ].filter((message): message is string => message !== null);
+  if (messages.length === 0) return;
+
+  const printer = await printerFor(printerId);
+  await notify({
+    event: "temperature-anomaly",
+    title: `${printer.name}: temperature anomaly`,
+    message: messages.join(" "),
+    urgent: true,
+    printer,
+    job: null,
+    time: new Date(now),
+  });
+}
+
+
+export function initializeNotifications(): void {
+  if (initialized) return;
+  initialized = true;
+
+  printerEvents.on("job", (printerId, job, previous) => {
+    onJob(printerId, job, previous).catch((error) => {
+      log(`Failed to send notifications for job ${job.id}: ${error}`, "notifications");
+    });
+  });
+  // Temperatures are checked by the status poller itself, see checkTemperatures
+  printerEvents.on("status", (printerId, status) => {
+    if (status) return;
+    onPrinterOffline(printerId).catch((error) => {
+      log(`Failed to send notifications for printer ${printerId}: ${error}`, "notifications");
+    });
+  });
+}
@@ -0,0 +1,107 @@
+import { storage } from "./storage";
+import { normalizeMachineState, type Printer, type PrinterStatus } from "@shared/schema";
+
+/**
+ * Enough of OctoPrint's REST API for slicers to treat the app as an
+ * OctoPrint host: PrusaSlicer and Cura's OctoPrint plugin check /api/version,
+ * read /api/printer and /api/job, and upload to /api/files/local with
+ * `select`/`print` flags. Status and job answers are for the default
+ * printer, the same one unmatched uploads fall back to. Slicers
+ * authenticate with a user's API key, see server/auth.ts.
+ */
+
+// PrusaSlicer only accepts hosts whose version text starts with "OctoPrint"
+export const OCTOPRINT_VERSION = { api: "0.1", server: "1.10.2", text: "OctoPrint 1.10.2" };
+
+// Files uploaded with select=true, reported by /api/job while the printer is idle
+const selectedFiles = new Map<number, number>();
+
+function octoPrintStateText(status: PrinterStatus | null): string {
+  if (!status) return "Offline";
+  switch (normalizeMachineState(status.state)) {
+    case "printing": return "Printing";
+    case "paused": return "Paused";
+    case "error": return "Error";
+    default: return "Operational";
+  }
+}
+
+/**
+ * GET /api/printer body: temperatures and state flags.
+ */
+export function toOctoPrintPrinterState(status: PrinterStatus) {
+  const state = normalizeMachineState(status.state);
+  return {
+    temperature: {
+      tool0: { actual: status.temperature.nozzle, target: status.temperature.targetNozzle, offset: 0 },
+      bed: { actual: status.temperature.bed, target: status.temperature.targetBed, offset: 0 },
+    },
+    sd: { ready: false },
+    state: {
+      text: octoPrintStateText(status),
+      flags: {
+        operational: state !== "error",
+        printing: state === "printing",
+        paused: state === "paused",
+        pausing: false,
+        resuming: false,
+        cancelling: false,
+        finishing: false,
+        error: state === "error",
+        ready: state === "idle",
+        closedOrError: state === "error",
+        sdReady: false,
+      },
+    },
+  };
+}
+
+// Form fields like `print` and `select` arrive as strings
+export function isOctoPrintTrue(value: unknown): boolean {
+  return typeof value === "string" && ["true", "yes", "y", "1"].includes(value.toLowerCase());
+}
+
+export function selectOctoPrintFile(printerId: number, fileId: number): void {
+  selectedFiles.set(printerId, fileId);
+}
+
+/**
+ * GET /api/job body. While a job runs it describes the file being printed;
+ * otherwise the last file uploaded with select=true, if any.
+ */
+export async function getOctoPrintJob(printer: Printer | null, status: PrinterStatus | null) {
+  const state = status ? normalizeMachineState(status.state) : null;
+  const busy = state === "printing" || state === "paused";
+
+  const active = printer && busy ? await storage.getActivePrintJob(printer.id) : undefined;
+  const fileId = printer ? (busy ? active?.fileId : selectedFiles.get(printer.id)) : undefined;
+  const file = printer && fileId ? await storage.getUploadedFile(fileId, printer.id) : undefined;
+  const filename = (busy ? status?.currentFile : null) ?? file?.filename ?? null;
+
+  return {
+    job: {
+      file: {
+        name: filename,
+        path: filename,
+        display: file?.displayName ?? filename,
+        origin: filename ? "local" : null,
+        size: file?.size ?? null,
+        date: file?.uploadedAt ? Math.floor(file.uploadedAt.getTime() / 1000) : null,
+      },
+      estimatedPrintTime: file?.metadata?.estimatedTimeSeconds ?? null,
+      lastPrintTime: null,
+      filament: file?.metadata?.filamentLengthMm
+        ? { tool0: { length: file.metadata.filamentLengthMm, volume: null } }
+        : null,
+      user: null,
+    },
+    progress: {
+      completion: busy ? status!.progress : null,
+      filepos: null,
+      printTime: busy && active?.startedAt ? Math.round((Date.now() - active.startedAt.getTime()) / 1000) : null,
+      printTimeLeft: busy ? status!.timeRemaining : null,
+      printTimeLeftOrigin: busy && status!.timeRemaining !== null ? "estimate" : null,
+    },
+    state: printer ? octoPrintStateText(status) : "Offline",
+  };
+}
@@ -0,0 +1,129 @@
+import { storage } from "./storage";
+import { startJob } from "./jobTracker";
+import { uploadToPrinter } from "./printerUpload";
+import { printerEvents } from "./printerEvents";
+import { DEFAULT_PRINT_QUEUE_STATE, normalizeMachineState, type Printer, type PrintQueueState, type PrinterStatus } from "@shared/schema";
+
+/**
+ * Sequential print queue. Each printer has an ordered list of uploaded files;
+ * when the status poller sees the printer idle after the previous queued job
+ * completed, the next file is uploaded and started. Anything other than a
+ * clean finish pauses the queue so nobody prints on top of a failed job.
+ */
+
+const dispatching = new Set<number>();
+
+export function resolveQueueState(state: Printer["queueState"] | undefined): PrintQueueState {
+  return { ...DEFAULT_PRINT_QUEUE_STATE, ...(state ?? {}) };
+}
+
+async function currentQueueState(printerId: number): Promise<PrintQueueState> {
+  return resolveQueueState((await storage.getPrinter(printerId))?.queueState);
+}
+
+async function saveQueueState(printerId: number, state: PrintQueueState): Promise<PrintQueueState> {
+  await storage.updatePrinter(printerId, { queueState: state });
+  printerEvents.emit("queue", printerId);
+  return state;
+}
+
+/**
+ * Applies a change to a printer's queue state and notifies clients.
+ */
+export async function updateQueueState(
+  printer: Printer,
+  changes: Partial<PrintQueueState>,
+): Promise<PrintQueueState> {
+  return saveQueueState(printer.id, { ...resolveQueueState(printer.queueState), ...changes });
+}
+
+/**
+ * Settles the outcome of the last job the queue started. A completed job
+ * clears the way for the next one (after a bed check if the printer asks for
+ * it); a cancelled or failed job pauses the queue.
+ */
+async function settleDispatchedJob(printerId: number, state: PrintQueueState): Promise<PrintQueueState> {
+  if (state.dispatchedJobId === null) return state;
+
+  const job = await storage.getPrintJob(state.dispatchedJobId);
+  if (job && (job.status === "printing" || job.status === "paused")) return state;
+
+  if (job?.status === "completed") {
+    return saveQueueState(printerId, {
+      ...state,
+      dispatchedJobId: null,
+      awaitingBedClear: state.requireBedClear,
+    });
+  }
+
+  const reason = job ? `${job.filename} ${job.status}` : "Queued job went missing";
+  console.log(`[PrintQueue] Pausing queue for printer ${printerId}: ${reason}`);
+  return saveQueueState(printerId, {
+    ...state,
+    dispatchedJobId: null,
+    paused: true,
+    pausedReason: reason,
+  });
+}
+
+async function dispatchNext(printer: Printer, state: PrintQueueState): Promise<void> {
+  const [next] = await storage.getQueueItems(printer.id);
+  if (!next) {
+    await saveQueueState(printer.id, { ...state, paused: true, pausedReason: null });
+    console.log(`[PrintQueue] Queue for ${printer.name} is empty`);
+    return;
+  }
+
+  const file = await storage.getUploadedFile(next.fileId, printer.id);
+  try {
+    if (!file) {
+      throw new Error("File no longer exists");
+    }
+    console.log(`[PrintQueue] Starting ${file.filename} on ${printer.name}`);
+    await uploadToPrinter(printer, file);
+    const job = await startJob(printer.id, file.filename, "queue", file.id);
+
+    // The upload can take minutes, so merge into whatever the operator set meanwhile
+    await storage.deleteQueueItem(next.id, printer.id);
+    await saveQueueState(printer.id, {
+      ...(await currentQueueState(printer.id)),
+      dispatchedJobId: job.id,
+      pausedReason: null,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[PrintQueue] Failed to start queued file on ${printer.name}:`, message);
+    await storage.updateQueueItem(next.id, { lastError: message });
+    await saveQueueState(printer.id, {
+      ...(await currentQueueState(printer.id)),
+      paused: true,
+      pausedReason: message,
+    });
+  }
+}
+
+/**
+ * Feeds a status poll into the queue. Runs after the job history is updated,
+ * so a job that just ended has already been closed with its outcome.
+ */
+export async function advanceQueue(printerId: number, status: PrinterStatus): Promise<void> {
+  if (dispatching.has(printerId)) return;
+  dispatching.add(printerId);
+
+  try {
+    const printer = await storage.getPrinter(printerId);
+    if (!printer?.token || !printer.isConnected) return;
+
+    let state = resolveQueueState(printer.queueState);
+    state = await settleDispatchedJob(printerId, state);
+
+    if (state.paused || state.awaitingBedClear || state.dispatchedJobId !== null) return;
+    if (printer.emergencyStoppedAt) return;
+    if (normalizeMachineState(status.state) !== "idle") return;
+    if (await storage.getActivePrintJob(printerId)) return;
+
+    await dispatchNext(printer, state);
+  } finally {
+    dispatching.delete(printerId);
+  }
+}
@@ -0,0 +1,123 @@
+import { storage } from "./storage";
+import { startJob, whyPrinterNotReady } from "./jobTracker";
+import { uploadToPrinter } from "./printerUpload";
+import { getCachedStatus } from "./statusPoller";
+import { printerEvents } from "./printerEvents";
+import type { ScheduledPrint, ScheduledPrintStatus } from "@shared/schema";
+
+/**
+ * Scheduled print starts. Schedules live in `scheduled_prints`, so they
+ * survive restarts (including the nightly Pi reboot); the check below runs
+ * every few seconds and starts anything that's due once the printer is
+ * connected and idle. A schedule that can't fire within the grace period is
+ * marked missed with the reason, rather than starting a print hours late.
+ */
+
+const CHECK_INTERVAL_MS = 15_000;
+const MISSED_GRACE_MS = 10 * 60_000;
+
+let checkTimer: NodeJS.Timeout | null = null;
+let checking = false;
+
+// The last reason each schedule couldn't start, reported if it's finally missed
+const blockedReasons = new Map<number, string>();
+
+async function settle(
+  schedule: ScheduledPrint,
+  status: Exclude<ScheduledPrintStatus, "pending">,
+  details: Partial<ScheduledPrint>,
+): Promise<void> {
+  blockedReasons.delete(schedule.id);
+  await storage.updateScheduledPrint(schedule.id, { status, firedAt: new Date(), ...details });
+  printerEvents.emit("schedule", schedule.printerId);
+
+  await storage.addAuditEntry({
+    printerId: schedule.printerId,
+    action: "scheduled-print",
+    actor: "scheduler",
+    sourceIp: null,
+    details: {
+      scheduleId: schedule.id,
+      fileId: schedule.fileId,
+      startAt: schedule.startAt.toISOString(),
+      ...(details.reason ? { reason: details.reason } : {}),
+    },
+    result: status === "started" ? "success" : "failed",
+  }).catch((err) => console.error(`[Scheduler] Failed to write audit entry:`, err));
+}
+
+async function fire(schedule: ScheduledPrint): Promise<void> {
+  const printer = await storage.getPrinter(schedule.printerId);
+  if (!printer) {
+    await settle(schedule, "missed", { reason: "Printer not found" });
+    return;
+  }
+
+  const blocked = await whyPrinterNotReady(printer, getCachedStatus(printer.id));
+  if (blocked) {
+    const lateBy = Date.now() - schedule.startAt.getTime();
+    if (lateBy <= MISSED_GRACE_MS) {
+      // Keep trying for a while: the poller may not have reconnected yet after a reboot
+      blockedReasons.set(schedule.id, blocked);
+      return;
+    }
+    const reason = blockedReasons.get(schedule.id) ?? blocked;
+    console.log(`[Scheduler] Missed schedule ${schedule.id} for printer ${schedule.printerId}: ${reason}`);
+    await settle(schedule, "missed", { reason });
+    return;
+  }
+
+  const file = await storage.getUploadedFile(schedule.fileId, schedule.printerId);
+  if (!file) {
+    await settle(schedule, "missed", { reason: "File no longer exists" });
+    return;
+  }
+
+  try {
+    console.log(`[Scheduler] Starting ${file.filename} on ${printer.name} (schedule ${schedule.id})`);
+    await uploadToPrinter(printer, file);
+    const job = await startJob(printer.id, file.filename, "schedule", file.id);
+    await settle(schedule, "started", { jobId: job.id, reason: null });
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    console.error(`[Scheduler] Failed to start schedule ${schedule.id}:`, reason);
+    await settle(schedule, "missed", { reason });
+  }
+}
+
+async function checkSchedules(): Promise<void> {
+  if (checking) return;
+  checking = true;
+
+  try {
+    const due = await storage.getDueScheduledPrints(new Date());
+    // One start per printer per check; anything else due for it waits its turn
+    const seen = new Set<number>();
+    for (const schedule of due) {
+      if (seen.has(schedule.printerId)) continue;
+      seen.add(schedule.printerId);
+      await fire(schedule);
+    }
+  } catch (error) {
+    console.error(`[Scheduler] Error checking schedules:`, error);
+  } finally {
+    checking = false;
+  }
+}
+
+/**
+ * Cancels a pending schedule. Returns false if it already fired.
+ */
+export async function cancelScheduledPrint(schedule: ScheduledPrint): Promise<boolean> {
+  if (schedule.status !== "pending") return false;
+  blockedReasons.delete(schedule.id);
+  await storage.updateScheduledPrint(schedule.id, { status: "cancelled" });
+  printerEvents.emit("schedule", schedule.printerId);
+  return true;
+}
+
+export function initializePrintScheduler(): void {
+  if (checkTimer) return;
+  checkSchedules();
+  checkTimer = setInterval(checkSchedules, CHECK_INTERVAL_MS);
+}
@@ -0,0 +1,102 @@
+import dgram from "dgram";
+import os from "os";
+import type { DiscoveredPrinter } from "@shared/schema";
+
+// Snapmaker 2.0 machines listen for this message on UDP 20054 and reply with
+// "<name>@<ip>|model:<model>|status:<state>", the same exchange Luban uses
+export const DISCOVERY_PORT = parseInt(process.env.SNAPMAKER_DISCOVERY_PORT || "20054", 10);
+const DISCOVERY_MESSAGE = "discover";
+const DEFAULT_TIMEOUT_MS = 3000;
+
+type DiscoveryReply = Omit<DiscoveredPrinter, "configuredPrinterId">;
+
+let activeScan: Promise<DiscoveryReply[]> | null = null;
+
+// The limited broadcast only goes out of the default interface, so each
+// IPv4 network's directed broadcast is sent to as well
+function broadcastAddresses(): string[] {
+  const override = process.env.SNAPMAKER_DISCOVERY_ADDRESS;
+  if (override) return override.split(",").map((a) => a.trim()).filter(Boolean);
+
+  const addresses = new Set(["255.255.255.255"]);
+  for (const entries of Object.values(os.networkInterfaces())) {
+    for (const entry of entries ?? []) {
+      if (entry.family !== "IPv4" || entry.internal) continue;
+      const ip = entry.address.split(".").map(Number);
+      const mask = entry.netmask.split(".").map(Number);
+      addresses.add(ip.map((octet, i) => (octet & mask[i]) | (~mask[i] & 255)).join("."));
+    }
+  }
+  return Array.from(addresses);
+}
+
+export function parseDiscoveryReply(
+  message: string,
+  fromAddress: string
+): DiscoveryReply | null {
+  const [identity, ...fields] = message.trim().split("|");
+  const at = identity.lastIndexOf("@");
+  if (at <= 0) return null;
+
+  const reply: DiscoveryReply = {
+    name: identity.slice(0, at),
+    ipAddress: identity.slice(at + 1) || fromAddress,
+    model: null,
+    status: null,
+  };
+  for (const field of fields) {
+    const separator = field.indexOf(":");
+    if (separator === -1) continue;
+    const key = field.slice(0, separator).trim().toLowerCase();
+    const value = field.slice(separator + 1).trim();
+    if (key === "model") reply.model = value || null;
+    if (key === "status") reply.status = value || null;
+  }
+  return reply;
+}
+
+function scan(timeoutMs: number): Promise<DiscoveryReply[]> {
+  return new Promise((resolve, reject) => {
+    const socket = dgram.createSocket("udp4");
+    const found = new Map<string, DiscoveryReply>();
+
+    socket.on("message", (msg, rinfo) => {
+      const reply = parseDiscoveryReply(msg.toString("utf-8"), rinfo.address);
+      if (reply) found.set(reply.ipAddress, reply);
+    });
+
+    socket.once("error", (error) => {
+      socket.close();
+      reject(error);
+    });
+
+    socket.bind(() => {
+      socket.setBroadcast(true);
+      const message = Buffer.from(DISCOVERY_MESSAGE);
+      for (const address of broadcastAddresses()) {
+        socket.send(message, DISCOVERY_PORT, address, (error) => {
+          // One unreachable network shouldn't stop the scan on the others
+          if (error) console.warn(`[Discovery] Broadcast to ${address} failed: ${error.message}`);
+        });
+      }
+
+      setTimeout(() => {
+        socket.close();
+        resolve(Array.from(found.values()));
+      }, timeoutMs);
+    });
+  });
+}
+
+/**
+ * Broadcasts a discovery request and collects replies for `timeoutMs`.
+ * Overlapping calls share one scan rather than flooding the network.
+ */
+export function discoverPrinters(timeoutMs = DEFAULT_TIMEOUT_MS) {
+  if (!activeScan) {
+    activeScan = scan(timeoutMs).finally(() => {
+      activeScan = null;
+    });
+  }
+  return activeScan;
+}
@@ -0,0 +1,25 @@
+import { EventEmitter } from "events";
+import type { PrintJob, PrintJobStatus, PrinterStatus } from "@shared/schema";
+
+export type PrinterEventMap = {
+  // Latest status from the server-side poller; `null` once the printer stops answering
+  status: [printerId: number, status: PrinterStatus | null];
+  // Something about the printer record changed (connection state, token, E-stop)
+  printer: [printerId: number];
+  // The printer's print queue or its dispatch state changed
+  queue: [printerId: number];
+  // A scheduled print was created, cancelled, started or missed
+  schedule: [printerId: number];
+  // A job in the print history started, changed state or ended; `previous` is
+  // null for a job that was just created
+  job: [printerId: number, job: PrintJob, previous: PrintJobStatus | null];
+};
+
+/**
+ * In-process event bus for printer state. The status poller publishes here and
+ * the SSE endpoint forwards everything to connected browsers.
+ */
+export const printerEvents = new EventEmitter<PrinterEventMap>();
+
+// Every open dashboard tab adds listeners, so lift the default cap of 10
+printerEvents.setMaxListeners(0);
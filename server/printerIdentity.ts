@@ -0,0 +1,109 @@
+import { storage } from "./storage";
+import { discoverPrinters } from "./printerDiscovery";
+import { retargetLubanProxy } from "./lubanProxy";
+import { printerEvents } from "./printerEvents";
+import type { DiscoveredPrinter, Printer } from "@shared/schema";
+
+/**
+ * Printers on DHCP can come back on a different address. Each printer's
+ * discovery name is remembered while its address is known to be right, so
+ * when the saved address stops answering a discovery scan can find it again.
+ */
+
+// A scan takes a few seconds, so an unreachable printer is only looked for
+// once a minute however often the poller, ping and reconnect ask
+const RELOCATE_COOLDOWN_MS = 60_000;
+
+const lastRelocateAttempt = new Map<number, number>();
+const identityLookups = new Set<number>();
+
+/**
+ * Stores the discovery name of every configured printer found in `replies`
+ * at its saved address, so it can be found again if that address changes.
+ */
+export async function rememberPrinterIdentities(
+  replies: Pick<DiscoveredPrinter, "name" | "ipAddress">[]
+): Promise<void> {
+  const printers = await storage.getAllPrinters();
+  for (const printer of printers) {
+    const reply = replies.find((r) => r.ipAddress === printer.ipAddress);
+    if (reply && reply.name !== printer.discoveryName) {
+      await storage.updatePrinter(printer.id, { discoveryName: reply.name });
+      console.log(`[PrinterIdentity] ${printer.name} (${printer.ipAddress}) identifies as "${reply.name}"`);
+    }
+  }
+}
+
+/**
+ * Scans once in the background for a printer whose identity isn't known yet.
+ * Called once the printer has answered at its saved address.
+ */
+export function learnPrinterIdentity(printer: Printer): void {
+  if (printer.discoveryName || identityLookups.has(printer.id)) return;
+  identityLookups.add(printer.id);
+
+  discoverPrinters()
+    .then(rememberPrinterIdentities)
+    .catch((error) => {
+      console.error(`[PrinterIdentity] Failed to look up identity of ${printer.name}:`, error);
+    });
+}
+
+/**
+ * Looks for a printer that stopped answering at its saved address. When it
+ * turns up elsewhere, its address, and the Luban proxy target if that
+ * pointed at the old one, are moved over and the change is audited.
+ * Returns the updated printer, or null if it wasn't found at a new address.
+ */
+export async function relocatePrinter(printer: Printer): Promise<Printer | null> {
+  if (!printer.discoveryName) return null;
+
+  const lastAttempt = lastRelocateAttempt.get(printer.id) ?? 0;
+  if (Date.now() - lastAttempt < RELOCATE_COOLDOWN_MS) return null;
+  lastRelocateAttempt.set(printer.id, Date.now());
+
+  const replies = await discoverPrinters();
+  const matches = replies.filter((r) => r.name === printer.discoveryName);
+  if (matches.length !== 1) {
+    if (matches.length > 1) {
+      console.warn(`[PrinterIdentity] Several printers answer as "${printer.discoveryName}", not moving ${printer.name}`);
+    }
+    return null;
+  }
+
+  const newIp = matches[0].ipAddress;
+  if (newIp === printer.ipAddress) return null;
+
+  const printers = await storage.getAllPrinters();
+  const conflict = printers.find((p) => p.id !== printer.id && p.ipAddress === newIp);
+  if (conflict) {
+    console.warn(`[PrinterIdentity] ${printer.name} answered from ${newIp}, which belongs to ${conflict.name}`);
+    return null;
+  }
+
+  const oldIp = printer.ipAddress;
+  const updated = await storage.updatePrinter(printer.id, { ipAddress: newIp });
+  if (!updated) return null;
+  lastRelocateAttempt.delete(printer.id);
+
+  const proxyIp = await storage.getSetting("luban_proxy_printer_ip");
+  const proxyMoved = proxyIp === oldIp;
+  if (proxyMoved) {
+    await storage.setSetting("luban_proxy_printer_ip", newIp);
+    retargetLubanProxy(newIp);
+  }
+
+  console.log(`[PrinterIdentity] ${printer.name} moved from ${oldIp} to ${newIp}`);
+  printerEvents.emit("printer", printer.id);
+
+  await storage.addAuditEntry({
+    printerId: printer.id,
+    action: "printer-ip-change",
+    actor: "discovery",
+    sourceIp: null,
+    details: { from: oldIp, to: newIp, discoveryName: printer.discoveryName, lubanProxyUpdated: proxyMoved },
+    result: "success",
+  }).catch((err) => console.error(`[PrinterIdentity] Failed to write audit entry:`, err));
+
+  return updated;
+}
@@ -0,0 +1,157 @@
+import http from "http";
+import { Readable, Transform } from "stream";
+import { pipeline } from "stream/promises";
+import { fileStore } from "./fileStore";
+import { SNAPMAKER_PORT } from "./snapmaker";
+import type { Printer, UploadedFile, UploadProgress } from "@shared/schema";
+
+// The upload fails if the printer stops accepting data for this long; there's
+// no overall limit since big CNC files over Wi-Fi can take many minutes
+const IDLE_TIMEOUT_MS = 30000;
+// Finished uploads stay visible so the UI can show the final state
+const FINISHED_RETENTION_MS = 60000;
+const RATE_WINDOW_MS = 3000;
+
+const uploads = new Map<number, UploadProgress>();
+
+function sanitizeFilename(filename: string): string {
+  return filename.replace(/["\r\n]/g, "_");
+}
+
+/**
+ * Counts bytes as they pass through and keeps the printer's progress entry
+ * current, with the transfer rate averaged over the last few seconds.
+ */
+function progressCounter(progress: UploadProgress): Transform {
+  const samples: { time: number; bytes: number }[] = [];
+
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      const now = Date.now();
+      progress.bytesSent += chunk.length;
+      progress.percent = progress.totalBytes > 0
+        ? Math.min(100, Math.round((progress.bytesSent / progress.totalBytes) * 1000) / 10)
+        : 0;
+
+      samples.push({ time: now, bytes: progress.bytesSent });
+      while (samples.length > 1 && now - samples[0].time > RATE_WINDOW_MS) {
+        samples.shift();
+      }
+      const elapsed = (now - samples[0].time) / 1000;
+      progress.bytesPerSecond = elapsed > 0
+        ? Math.round((progress.bytesSent - samples[0].bytes) / elapsed)
+        : 0;
+
+      callback(null, chunk);
+    },
+  });
+}
+
+function finish(progress: UploadProgress, status: "done" | "failed", error?: string) {
+  progress.status = status;
+  progress.error = error ?? null;
+  progress.finishedAt = new Date().toISOString();
+
+  setTimeout(() => {
+    if (uploads.get(progress.printerId) === progress) {
+      uploads.delete(progress.printerId);
+    }
+  }, FINISHED_RETENTION_MS);
+}
+
+/**
+ * Sends a stored file to the printer's /api/v1/upload endpoint as a streamed
+ * multipart body, so the file is never held in memory or decoded as text.
+ */
+export async function uploadToPrinter(printer: Printer, file: UploadedFile): Promise<void> {
+  if (!file.contentHash || file.size === null) {
+    throw new Error("No file content stored. Please upload the G-code file first.");
+  }
+
+  const current = uploads.get(printer.id);
+  if (current?.status === "uploading") {
+    throw new Error(`Already uploading ${current.filename} to this printer`);
+  }
+
+  const boundary = "----SnapmakerAppBoundary" + Math.random().toString(36).substring(2);
+  const preamble = Buffer.from(
+    `--${boundary}\r\n` +
+    `Content-Disposition: form-data; name="token"\r\n\r\n` +
+    `${printer.token}\r\n` +
+    `--${boundary}\r\n` +
+    `Content-Disposition: form-data; name="file"; filename="${sanitizeFilename(file.filename)}"\r\n` +
+    `Content-Type: application/octet-stream\r\n\r\n`,
+  );
+  const epilogue = Buffer.from(`\r\n--${boundary}--\r\n`);
+
+  const progress: UploadProgress = {
+    printerId: printer.id,
+    fileId: file.id,
+    filename: file.filename,
+    status: "uploading",
+    bytesSent: 0,
+    totalBytes: file.size,
+    percent: 0,
+    bytesPerSecond: 0,
+    startedAt: new Date().toISOString(),
+    finishedAt: null,
+    error: null,
+  };
+  uploads.set(printer.id, progress);
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const req = http.request({
+        host: printer.ipAddress,
+        port: SNAPMAKER_PORT,
+        path: "/api/v1/upload",
+        method: "POST",
+        headers: {
+          "Content-Type": `multipart/form-data; boundary=${boundary}`,
+          "Content-Length": preamble.length + file.size! + epilogue.length,
+        },
+      });
+
+      req.setTimeout(IDLE_TIMEOUT_MS, () => {
+        req.destroy(new Error("Printer stopped responding during upload"));
+      });
+      req.on("error", reject);
+      req.on("response", (response) => {
+        response.resume();
+        if (response.statusCode && response.statusCode >= 200 && response.statusCode < 300) {
+          resolve();
+        } else {
+          reject(new Error(`Upload failed: ${response.statusCode}`));
+        }
+      });
+
+      const source = fileStore.createReadStream(file.contentHash!);
+      const counted = source.pipe(progressCounter(progress));
+      source.on("error", (error) => counted.destroy(error));
+
+      async function* body() {
+        yield preamble;
+        for await (const chunk of counted) {
+          yield chunk as Buffer;
+        }
+        yield epilogue;
+      }
+
+      pipeline(Readable.from(body()), req).catch(reject);
+    });
+
+    finish(progress, "done");
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    finish(progress, "failed", message);
+    throw new Error(`Failed to upload to printer at ${printer.ipAddress}: ${message}`);
+  }
+}
+
+/**
+ * The upload in progress for a printer, or the last one if it finished
+ * within the past minute.
+ */
+export function getUploadProgress(printerId: number): UploadProgress | null {
+  return uploads.get(printerId) ?? null;
+}
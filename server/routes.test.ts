@@ -0,0 +1,766 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import http from "http";
+import os from "os";
+import path from "path";
+import { mkdir, mkdtemp, readdir, rm } from "fs/promises";
+import type { AddressInfo } from "net";
+import WebSocket from "ws";
+import { SnapmakerSimulator } from "./snapmakerSimulator";
+
+// Drives the real Express routes against the simulated printer, with
+// in-memory storage so no database is needed.
+const SAMPLE_GCODE = [
+  ";Header Start",
+  ";header_type: 3dp",
+  ";Header End",
+  "M140 S60",
+  "M104 S210",
+  ...Array.from({ length: 200 }, (_, i) => `G1 X${i % 100} Y${i % 50} E${i * 0.1}`),
+  "M104 S0",
+  "M140 S0",
+].join("\n");
+
+describe("printer routes against the simulator", () => {
+  const simulator = new SnapmakerSimulator({ tickMs: 0, printTicks: 4, heatRate: { nozzle: 100, bed: 50 } });
+  let dataDir: string;
+  let server: http.Server;
+  let baseUrl: string;
+  let printerId: number;
+  let stopPolling: (printerId: number) => void;
+  let storage: typeof import("./storage").storage;
+  // Session of the admin created during setup, sent by api()
+  let cookie = "";
+
+  const api = async (method: string, url: string, body?: unknown, session = cookie) => {
+    const res = await fetch(`${baseUrl}${url}`, {
+      method,
+      headers: {
+        ...(body !== undefined ? { "Content-Type": "application/json" } : {}),
+        ...(session ? { Cookie: session } : {}),
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+    return { status: res.status, body: await res.json(), cookie: res.headers.get("set-cookie")?.split(";")[0] ?? "" };
+  };
+
+  // The poller caches status for a few seconds; stopping it makes the next
+  // request read straight from the simulator
+  const freshStatus = async () => {
+    stopPolling(printerId);
+    return api("GET", `/api/printers/${printerId}/status`);
+  };
+
+  before(async () => {
+    dataDir = await mkdtemp(path.join(os.tmpdir(), "snapmaker-app-test-"));
+    process.env.FILE_STORE_DIR = path.join(dataDir, "files");
+    process.env.TIMELAPSE_DIR = path.join(dataDir, "timelapses");
+    // Multer spools uploads here, so tests can check nothing is left behind
+    process.env.TMPDIR = path.join(dataDir, "tmp");
+    await mkdir(process.env.TMPDIR);
+    process.env.STORAGE_BACKEND = "memory";
+    process.env.TOKEN_ENCRYPTION_KEY = "test key";
+    process.env.SNAPMAKER_PORT = String(await simulator.start(0));
+    process.env.SNAPMAKER_DISCOVERY_PORT = String(await simulator.startDiscovery(0, "127.0.0.1"));
+    process.env.SNAPMAKER_DISCOVERY_ADDRESS = "127.0.0.1";
+
+    // Imported only now so the modules pick up the settings above
+    const { default: express } = await import("express");
+    const { registerRoutes } = await import("./routes");
+    ({ stopPolling } = await import("./statusPoller"));
+    ({ storage } = await import("./storage"));
+
+    const app = express();
+    app.use(express.json());
+    app.use(express.urlencoded({ extended: false }));
+    server = http.createServer(app);
+    await registerRoutes(server, app);
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", () => resolve()));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    const refused = await api("GET", "/api/printers");
+    assert.equal(refused.status, 401);
+    assert.equal(refused.body.setupRequired, true);
+    const setup = await api("POST", "/api/auth/setup", { username: "Admin", password: "correct horse" });
+    assert.equal(setup.status, 201);
+    cookie = setup.cookie;
+
+    const created = await api("POST", "/api/printers", { name: "Simulated A350", ipAddress: "127.0.0.1" });
+    assert.equal(created.status, 201);
+    printerId = created.body.id;
+  });
+
+  after(async () => {
+    // The printer has files by now, which go with it
+    if (printerId) assert.equal((await api("DELETE", `/api/printers/${printerId}`)).status, 200);
+    server?.closeAllConnections();
+    await new Promise<void>((resolve) => (server ? server.close(() => resolve()) : resolve()));
+    await simulator.stop();
+    await rm(dataDir, { recursive: true, force: true });
+  });
+
+  test("accounts: setup runs once, sessions guard the API and users can be managed", async () => {
+    const status = await api("GET", "/api/auth/status");
+    assert.deepEqual(status.body.user, {
+      id: status.body.user.id,
+      username: "admin",
+      createdAt: status.body.user.createdAt,
+      role: "admin",
+      hasApiKey: false,
+    });
+    assert.equal(status.body.setupRequired, false);
+
+    const again = await api("POST", "/api/auth/setup", { username: "intruder", password: "longenough" }, "");
+    assert.equal(again.status, 409);
+    assert.equal((await api("GET", "/api/printers", undefined, "")).status, 401);
+    assert.equal((await api("GET", "/api/events", undefined, "")).status, 401);
+
+    const added = await api("POST", "/api/users", { username: "operator", password: "short", role: "operator" });
+    assert.equal(added.status, 400);
+    const operator = await api("POST", "/api/users", { username: "operator", password: "printer-room", role: "operator" });
+    assert.equal(operator.status, 201);
+    assert.equal(operator.body.passwordHash, undefined);
+    const duplicate = await api("POST", "/api/users", { username: "Operator", password: "printer-room", role: "viewer" });
+    assert.equal(duplicate.status, 409);
+
+    const credentials = { username: "Operator", password: "printer-room" };
+    assert.equal((await api("POST", "/api/auth/login", { ...credentials, password: "wrong" }, "")).status, 401);
+    const login = await api("POST", "/api/auth/login", credentials, "");
+    assert.equal(login.status, 200);
+    assert.equal((await api("GET", "/api/printers", undefined, login.cookie)).status, 200);
+
+    assert.equal((await api("POST", "/api/auth/logout", undefined, login.cookie)).status, 200);
+    assert.equal((await api("GET", "/api/printers", undefined, login.cookie)).status, 401);
+
+    assert.equal((await api("DELETE", `/api/users/${status.body.user.id}`)).status, 400);
+    assert.equal((await api("DELETE", `/api/users/${operator.body.id}`)).status, 200);
+    const users = await api("GET", "/api/users");
+    assert.deepEqual(users.body.map((u: { username: string }) => u.username), ["admin"]);
+  });
+
+  test("discovery finds the simulator and marks it as configured", async () => {
+    const { status, body } = await api("GET", "/api/discover");
+    assert.equal(status, 200);
+    assert.deepEqual(body, [
+      {
+        name: "Snapmaker Simulator",
+        ipAddress: "127.0.0.1",
+        model: "Snapmaker 2 Model A350",
+        status: "IDLE",
+        configuredPrinterId: printerId,
+      },
+    ]);
+  });
+
+  test("a printer that changed address is found again by its discovery name", async () => {
+    // Nothing listens on 127.0.0.2, as if the DHCP lease moved the printer
+    await storage.updatePrinter(printerId, { ipAddress: "127.0.0.2" });
+    await storage.setSetting("luban_proxy_printer_ip", "127.0.0.2");
+
+    const ping = await api("GET", `/api/printers/${printerId}/ping`);
+    assert.equal(ping.body.online, true);
+
+    const printer = await storage.getPrinter(printerId);
+    assert.equal(printer?.ipAddress, "127.0.0.1");
+    assert.equal(printer?.discoveryName, "Snapmaker Simulator");
+    assert.equal(await storage.getSetting("luban_proxy_printer_ip"), "127.0.0.1");
+    await storage.setSetting("luban_proxy_printer_ip", null);
+  });
+
+  test("connect waits for touchscreen confirmation, then stores the token without exposing it", async () => {
+    const first = await api("POST", `/api/printers/${printerId}/connect`);
+    assert.equal(first.status, 200);
+    assert.equal(first.body.requiresConfirmation, true);
+
+    simulator.confirmConnection();
+
+    const second = await api("POST", `/api/printers/${printerId}/connect`);
+    assert.equal(second.status, 200);
+    assert.equal(second.body.requiresConfirmation, false);
+
+    const printers = await api("GET", "/api/printers");
+    const printer = printers.body.find((p: { id: number }) => p.id === printerId);
+    assert.equal(printer.hasToken, true);
+    assert.equal(printer.token, undefined);
+    assert.equal(printer.isConnected, true);
+    assert.ok((await storage.getPrinter(printerId))?.token);
+    const settings = await api("GET", "/api/settings");
+    assert.deepEqual(settings.body.tokenEncryption, { enabled: true, keySource: "environment", keyFile: null });
+  });
+
+  test("status maps the printer payload", async () => {
+    simulator.temperature = { nozzle: 180, bed: 55, targetNozzle: 210, targetBed: 60 };
+
+    const { status, body } = await freshStatus();
+    assert.equal(status, 200);
+    assert.equal(body.state, "IDLE");
+    assert.deepEqual(body.temperature, { nozzle: 180, bed: 55, targetNozzle: 210, targetBed: 60 });
+    assert.equal(body.progress, 0);
+    assert.equal(body.currentFile, null);
+  });
+
+  test("jog sends a relative move and restores absolute positioning", async () => {
+    simulator.executedCode.length = 0;
+
+    const { status } = await api("POST", `/api/printers/${printerId}/jog`, { axis: "x", distance: 10 });
+    assert.equal(status, 200);
+    assert.deepEqual(simulator.executedCode, ["G91", "G0 X10 F3000", "G90"]);
+    assert.equal(simulator.position.x, 10);
+    assert.equal(simulator.relativePositioning, false);
+  });
+
+  test("jog rejects a request without an axis", async () => {
+    const { status, body } = await api("POST", `/api/printers/${printerId}/jog`, { distance: 10 });
+    assert.equal(status, 400);
+    assert.equal(body.error, "Axis and distance are required");
+  });
+
+  test("home sends G28 for the requested axes", async () => {
+    simulator.executedCode.length = 0;
+
+    const { status } = await api("POST", `/api/printers/${printerId}/home`, { axes: "XY" });
+    assert.equal(status, 200);
+    assert.deepEqual(simulator.executedCode, ["G28 XY"]);
+    assert.equal(simulator.position.x, 0);
+    assert.equal(simulator.homed, true);
+  });
+
+  test("roles limit what each user can do", async () => {
+    const signIn = async (username: string, role: string) => {
+      const password = "printer-room";
+      const created = await api("POST", "/api/users", { username, password, role });
+      assert.equal(created.status, 201);
+      return { id: created.body.id as number, cookie: (await api("POST", "/api/auth/login", { username, password }, "")).cookie };
+    };
+    const viewer = await signIn("watcher", "viewer");
+    const operator = await signIn("runner", "operator");
+
+    try {
+      // Viewers read status and history but can't move the machine
+      assert.equal((await api("GET", `/api/printers/${printerId}/jobs`, undefined, viewer.cookie)).status, 200);
+      const jog = await api("POST", `/api/printers/${printerId}/jog`, { axis: "x", distance: 1 }, viewer.cookie);
+      assert.equal(jog.status, 403);
+      assert.equal((await api("POST", `/api/printers/${printerId}/emergency-stop`, undefined, viewer.cookie)).status, 403);
+
+      // A viewer's API key opens the slicer status endpoints, not uploads
+      const { apiKey } = (await api("POST", "/api/auth/api-key", undefined, viewer.cookie)).body;
+      assert.equal((await fetch(`${baseUrl}/api/version`, { headers: { "X-Api-Key": apiKey } })).status, 200);
+      const form = new FormData();
+      form.append("file", new Blob([SAMPLE_GCODE]), "viewer.gcode");
+      const upload = await fetch(`${baseUrl}/api/files/local`, { method: "POST", headers: { "X-Api-Key": apiKey }, body: form });
+      assert.equal(upload.status, 403);
+
+      // Operators run the machine but can't change the setup
+      const home = await api("POST", `/api/printers/${printerId}/home`, {}, operator.cookie);
+      assert.equal(home.status, 200);
+      const addPrinter = await api("POST", "/api/printers", { name: "Sneaky", ipAddress: "127.0.0.9" }, operator.cookie);
+      assert.equal(addPrinter.status, 403);
+      const saveToken = await api("POST", `/api/printers/${printerId}/save-token`, { token: "forged" }, operator.cookie);
+      assert.equal(saveToken.status, 403);
+      const watchFolder = await api("PUT", "/api/settings/watch-folder", { path: "/tmp" }, operator.cookie);
+      assert.equal(watchFolder.status, 403);
+      assert.equal((await api("GET", "/api/users", undefined, operator.cookie)).status, 403);
+
+      // Admins change roles, but not their own
+      const promoted = await api("PUT", `/api/users/${viewer.id}`, { role: "operator" });
+      assert.equal(promoted.body.role, "operator");
+      const self = (await api("GET", "/api/auth/status")).body.user;
+      assert.equal((await api("PUT", `/api/users/${self.id}`, { role: "viewer" })).status, 400);
+    } finally {
+      await api("DELETE", `/api/users/${viewer.id}`);
+      await api("DELETE", `/api/users/${operator.id}`);
+    }
+  });
+
+  test("the audit log records who did what, including refused attempts", async () => {
+    // Entries are written once the response has gone out
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    const home = await api("GET", "/api/audit?action=home&actor=runner");
+    assert.equal(home.status, 200);
+    assert.equal(home.body.length, 1);
+    assert.equal(home.body[0].printerId, printerId);
+    assert.equal(home.body[0].result, "success");
+    assert.equal(home.body[0].authMethod, "session");
+
+    const [jog] = (await api("GET", "/api/audit?action=jog&actor=watcher")).body;
+    assert.equal(jog.result, "denied");
+    assert.deepEqual(jog.details.params, { axis: "x", distance: 1 });
+
+    const [upload] = (await api("GET", "/api/audit?action=file-add&result=denied")).body;
+    assert.equal(upload.actor, "watcher");
+    assert.equal(upload.authMethod, "api-key");
+
+    // Passwords in the request never make it into an entry
+    const [userAdd] = (await api("GET", "/api/audit?action=user-add&limit=1")).body;
+    assert.equal(userAdd.details.params.password, "[redacted]");
+
+    assert.equal((await api("GET", "/api/audit?result=maybe")).status, 400);
+
+    const csv = await fetch(`${baseUrl}/api/audit/export?printerId=${printerId}`, { headers: { Cookie: cookie } });
+    assert.equal(csv.status, 200);
+    assert.match(csv.headers.get("content-type") ?? "", /^text\/csv/);
+    const lines = (await csv.text()).trim().split("\r\n");
+    assert.equal(lines[0], "time,user,via,source ip,printer,action,result,details");
+    assert.ok(lines.some((line) => line.includes(",runner,session,") && line.includes(",home,success,")));
+
+    // Cells a spreadsheet would run as formulas are written as text
+    const { toAuditCsv } = await import("./audit");
+    const formulas = toAuditCsv(
+      [
+        {
+          id: 1,
+          createdAt: new Date("2026-01-02T03:04:05Z"),
+          printerId: 7,
+          action: "-2+3",
+          actor: "@admin",
+          authMethod: "session",
+          sourceIp: null,
+          details: null,
+          result: "success",
+        },
+      ],
+      [{ id: 7, name: "=HYPERLINK(\"http://evil\")" }],
+    );
+    assert.equal(
+      formulas.split("\r\n")[1],
+      `2026-01-02T03:04:05.000Z,'@admin,session,,"'=HYPERLINK(""http://evil"")",'-2+3,success,`,
+    );
+  });
+
+  test("print uploads the stored file and runs it to completion", async () => {
+    simulator.temperature = { nozzle: 25, bed: 25, targetNozzle: 0, targetBed: 0 };
+
+    const form = new FormData();
+    form.append("file", new Blob([SAMPLE_GCODE]), "cube.gcode");
+    form.append("displayName", "Cube");
+    const uploadRes = await fetch(`${baseUrl}/api/printers/${printerId}/uploaded-files`, {
+      method: "POST",
+      headers: { Cookie: cookie },
+      body: form,
+    });
+    assert.equal(uploadRes.status, 201);
+    const file = await uploadRes.json();
+
+    const download = await fetch(`${baseUrl}/api/printers/${printerId}/uploaded-files/${file.id}/download`, {
+      headers: { Cookie: cookie },
+    });
+    assert.equal(download.headers.get("content-disposition"), 'attachment; filename="cube.gcode"');
+    assert.equal(await download.text(), SAMPLE_GCODE);
+
+    const print = await api("POST", `/api/printers/${printerId}/print`, { fileId: file.id });
+    assert.equal(print.status, 200);
+    assert.equal(simulator.files.get("cube.gcode")?.content.toString("utf-8"), SAMPLE_GCODE);
+
+    // Heats up to the temperatures in the file before any lines run
+    simulator.tick();
+    simulator.tick();
+    assert.equal(simulator.temperature.targetNozzle, 210);
+    assert.equal(simulator.progress, 0);
+
+    simulator.tick();
+    let status = (await freshStatus()).body;
+    assert.equal(status.state, "RUNNING");
+    assert.equal(status.currentFile, "cube.gcode");
+    assert.ok(status.progress > 0 && status.progress < 100);
+
+    const jobs = await api("GET", `/api/printers/${printerId}/jobs`);
+    assert.equal(jobs.body[0].filename, "cube.gcode");
+    assert.equal(jobs.body[0].source, "app");
+
+    for (let i = 0; i < 4; i++) simulator.tick();
+    status = (await freshStatus()).body;
+    assert.equal(status.state, "IDLE");
+    assert.equal(status.progress, 100);
+  });
+
+  test("job controls pause and stop the running print", async () => {
+    simulator.startPrint("cube.gcode");
+
+    assert.equal((await api("POST", `/api/printers/${printerId}/job/pause`)).status, 200);
+    assert.equal((await freshStatus()).body.state, "PAUSED");
+
+    assert.equal((await api("POST", `/api/printers/${printerId}/job/stop`)).status, 200);
+    const status = (await freshStatus()).body;
+    assert.equal(status.state, "IDLE");
+    assert.equal(status.currentFile, null);
+  });
+
+  test("a machine fault is reported and blocks G-code", async () => {
+    simulator.triggerError("Filament runout");
+
+    assert.equal((await freshStatus()).body.state, "ERROR");
+    const jog = await api("POST", `/api/printers/${printerId}/jog`, { axis: "z", distance: 1 });
+    assert.equal(jog.status, 500);
+
+    simulator.clearError();
+  });
+
+  test("slicers can use it as an OctoPrint host and upload straight to print", async () => {
+    const octoprint = async (method: string, url: string, apiKey?: string, body?: FormData) => {
+      const res = await fetch(`${baseUrl}${url}`, { method, headers: apiKey ? { "X-Api-Key": apiKey } : undefined, body });
+      return { status: res.status, body: await res.json() };
+    };
+    const uploadForm = (filename: string) => {
+      const form = new FormData();
+      form.append("file", new Blob([SAMPLE_GCODE]), filename);
+      form.append("print", "true");
+      return form;
+    };
+
+    assert.equal((await octoprint("GET", "/api/version")).status, 403);
+
+    const { apiKey } = (await api("POST", "/api/auth/api-key")).body;
+    try {
+      assert.equal((await api("GET", "/api/auth/status")).body.user.hasApiKey, true);
+      assert.equal((await octoprint("GET", "/api/version", "not-the-key")).status, 403);
+      assert.match((await octoprint("GET", "/api/version", apiKey)).body.text, /^OctoPrint /);
+      // The key only opens the slicer endpoints
+      assert.equal((await octoprint("GET", "/api/printers", apiKey)).status, 401);
+
+      stopPolling(printerId);
+      const printer = await octoprint("GET", "/api/printer", apiKey);
+      assert.equal(printer.status, 200);
+      assert.equal(printer.body.state.text, "Operational");
+      assert.equal(printer.body.state.flags.ready, true);
+      assert.equal(printer.body.temperature.tool0.actual, simulator.temperature.nozzle);
+
+      const uploaded = await octoprint("POST", "/api/files/local", apiKey, uploadForm("benchy.gcode"));
+      assert.equal(uploaded.status, 201);
+      assert.equal(uploaded.body.effectivePrint, true);
+      assert.equal(simulator.files.get("benchy.gcode")?.content.toString("utf-8"), SAMPLE_GCODE);
+
+      stopPolling(printerId);
+      const job = await octoprint("GET", "/api/job", apiKey);
+      assert.equal(job.body.state, "Printing");
+      assert.equal(job.body.job.file.name, "benchy.gcode");
+      const jobs = await api("GET", `/api/printers/${printerId}/jobs`);
+      assert.equal(jobs.body[0].source, "slicer");
+
+      // The file is kept, but nothing is started on top of the running job
+      const refused = await octoprint("POST", "/api/files/local", apiKey, uploadForm("second.gcode"));
+      assert.equal(refused.status, 409);
+      assert.match(refused.body.error, /Printer is printing/);
+    } finally {
+      await api("POST", `/api/printers/${printerId}/job/stop`);
+      await api("DELETE", "/api/auth/api-key");
+    }
+
+    assert.equal((await octoprint("GET", "/api/version", apiKey)).status, 403);
+  });
+
+  test("Moonraker clients read status, upload straight to print and control the job", async () => {
+    const { startMoonraker, stopMoonraker, getMoonrakerStatus } = await import("./moonraker");
+    assert.equal(await startMoonraker(0), true);
+    const port = getMoonrakerStatus().port;
+    const { apiKey } = (await api("POST", "/api/auth/api-key")).body;
+    const moonraker = async (method: string, url: string, body?: FormData, key = apiKey) => {
+      const res = await fetch(`http://127.0.0.1:${port}${url}`, { method, headers: { "X-Api-Key": key }, body });
+      return { status: res.status, body: await res.json() };
+    };
+    const socket = new WebSocket(`ws://127.0.0.1:${port}/websocket?access_token=${apiKey}`);
+    const opened = new Promise((resolve, reject) => {
+      socket.once("open", resolve);
+      socket.once("error", reject);
+    });
+
+    try {
+      assert.equal((await moonraker("GET", "/server/info", undefined, "not-the-key")).status, 401);
+      const info = await moonraker("GET", "/server/info");
+      assert.equal(info.body.result.klippy_state, "ready");
+
+      // Browser clients from a CORS domain get through, preflight included
+      const preflight = (origin: string) =>
+        fetch(`http://127.0.0.1:${port}/server/info`, {
+          method: "OPTIONS",
+          headers: { Origin: origin, "Access-Control-Request-Method": "GET", "Access-Control-Request-Headers": "x-api-key" },
+        });
+      assert.equal((await preflight("http://mainsail.local")).headers.get("access-control-allow-origin"), null);
+      const saved = await api("PUT", "/api/settings/moonraker", { enabled: true, port, corsDomains: ["*.local"] });
+      assert.equal(saved.body.message, "Moonraker settings saved");
+      assert.equal(getMoonrakerStatus().port, port);
+      const allowed = await preflight("http://mainsail.local");
+      assert.equal(allowed.status, 204);
+      assert.equal(allowed.headers.get("access-control-allow-origin"), "http://mainsail.local");
+      assert.equal(allowed.headers.get("access-control-allow-headers"), "x-api-key");
+      assert.equal((await preflight("http://evil.example")).headers.get("access-control-allow-origin"), null);
+      const fromBrowser = await fetch(`http://127.0.0.1:${port}/server/info`, {
+        headers: { Origin: "https://fluidd.local", "X-Api-Key": apiKey },
+      });
+      assert.equal(fromBrowser.headers.get("access-control-allow-origin"), "https://fluidd.local");
+
+      stopPolling(printerId);
+      const query = await moonraker("GET", "/printer/objects/query?extruder=temperature,target&print_stats");
+      assert.deepEqual(Object.keys(query.body.result.status.extruder), ["temperature", "target"]);
+      assert.equal(query.body.result.status.extruder.temperature, simulator.temperature.nozzle);
+      assert.equal(query.body.result.status.print_stats.state, "standby");
+
+      const form = new FormData();
+      form.append("file", new Blob([SAMPLE_GCODE]), "gear.gcode");
+      form.append("print", "true");
+      const uploaded = await moonraker("POST", "/server/files/upload", form);
+      assert.equal(uploaded.status, 201);
+      assert.equal(uploaded.body.result.item.path, "gear.gcode");
+      assert.equal(uploaded.body.result.print_started, true);
+      assert.equal(simulator.files.get("gear.gcode")?.content.toString("utf-8"), SAMPLE_GCODE);
+
+      // The same methods as JSON-RPC over the websocket
+      await opened;
+      let nextId = 1;
+      const call = (method: string, params?: unknown) =>
+        new Promise<{ result?: any; error?: { code: number; message: string } }>((resolve) => {
+          const id = nextId++;
+          const onMessage = (data: WebSocket.RawData) => {
+            const message = JSON.parse(data.toString());
+            if (message.id !== id) return;
+            socket.off("message", onMessage);
+            resolve(message);
+          };
+          socket.on("message", onMessage);
+          socket.send(JSON.stringify({ jsonrpc: "2.0", method, params, id }));
+        });
+
+      stopPolling(printerId);
+      const subscribed = await call("printer.objects.subscribe", { objects: { print_stats: ["state", "filename"] } });
+      assert.deepEqual(subscribed.result.status.print_stats, { state: "printing", filename: "gear.gcode" });
+
+      assert.equal((await call("printer.print.pause")).result, "ok");
+      assert.equal((await freshStatus()).body.state, "PAUSED");
+      assert.equal((await call("no.such.method")).error?.code, -32601);
+
+      const cancelled = await moonraker("POST", "/printer/print/cancel");
+      assert.equal(cancelled.body.result, "ok");
+      assert.equal((await freshStatus()).body.state, "IDLE");
+      const jobs = await api("GET", `/api/printers/${printerId}/jobs`);
+      assert.equal(jobs.body[0].source, "moonraker");
+      assert.equal(jobs.body[0].status, "cancelled");
+    } finally {
+      socket.close();
+      await stopMoonraker();
+      await api("DELETE", "/api/auth/api-key");
+    }
+  });
+
+  test("slicer uploads go to the default printer once there are several", async () => {
+    const second = await api("POST", "/api/printers", { name: "Second A250", ipAddress: "127.0.0.3" });
+    const sendFromSlicer = () => {
+      const form = new FormData();
+      form.append("file", new Blob([SAMPLE_GCODE]), "from-slicer.gcode");
+      return fetch(`${baseUrl}/api/files/local`, { method: "POST", headers: { Cookie: cookie }, body: form });
+    };
+
+    try {
+      // With no default, nothing claims the file and it waits in the inbox
+      assert.equal((await sendFromSlicer()).status, 201);
+      const inbox = await api("GET", "/api/inbox");
+      assert.deepEqual(inbox.body.map((f: { filename: string }) => f.filename), ["from-slicer.gcode"]);
+      assert.equal((await api("DELETE", `/api/inbox/${inbox.body[0].id}`)).status, 200);
+
+      assert.equal((await api("PUT", "/api/settings/default-printer", { printerId: second.body.id })).status, 200);
+      assert.equal((await sendFromSlicer()).status, 201);
+
+      const files = await api("GET", `/api/printers/${second.body.id}/uploaded-files`);
+      assert.deepEqual(files.body.map((f: { filename: string }) => f.filename), ["from-slicer.gcode"]);
+      assert.deepEqual((await api("GET", "/api/inbox")).body, []);
+    } finally {
+      await api("DELETE", `/api/printers/${second.body.id}`);
+    }
+
+    const settings = await api("GET", "/api/settings");
+    assert.equal(settings.body.defaultPrinterId, null);
+  });
+
+  test("upload rules route files by tool head, name, folder and tag", async () => {
+    const laser = await api("POST", "/api/printers", { name: "Laser A350", ipAddress: "127.0.0.4" });
+    const uploadDirect = async (filename: string, gcode: string, fields: Record<string, string> = {}) => {
+      const form = new FormData();
+      form.append("file", new Blob([gcode]), filename);
+      for (const [key, value] of Object.entries(fields)) form.append(key, value);
+      const res = await fetch(`${baseUrl}/api/upload`, { method: "POST", headers: { Cookie: cookie }, body: form });
+      assert.equal(res.status, 201);
+      return (await res.json()).file as { id: number; printerId: number | null };
+    };
+    const laserGcode = SAMPLE_GCODE.replace("header_type: 3dp", "header_type: laser");
+
+    try {
+      const invalid = await api("PUT", "/api/settings/upload-rules", { rules: [{ printerId: laser.body.id }] });
+      assert.equal(invalid.status, 400);
+
+      const saved = await api("PUT", "/api/settings/upload-rules", {
+        rules: [
+          { printerId: laser.body.id, toolType: "laser" },
+          { printerId: printerId, filenamePattern: "*_PLA.gcode" },
+          { printerId: printerId, folder: "prints/a350" },
+          { printerId: laser.body.id, tag: "Engrave" },
+        ],
+      });
+      assert.equal(saved.status, 200);
+      assert.deepEqual(saved.body.map((r: { position: number }) => r.position), [0, 1, 2, 3]);
+
+      assert.equal((await uploadDirect("sign.gcode", laserGcode)).printerId, laser.body.id);
+      assert.equal((await uploadDirect("bracket_pla.gcode", SAMPLE_GCODE)).printerId, printerId);
+      assert.equal((await uploadDirect("hinge.gcode", SAMPLE_GCODE, { folder: "Prints/A350/parts" })).printerId, printerId);
+      assert.equal((await uploadDirect("badge.gcode", SAMPLE_GCODE, { tag: "engrave" })).printerId, laser.body.id);
+
+      const unmatched = await uploadDirect("unmatched.gcode", SAMPLE_GCODE);
+      assert.equal(unmatched.printerId, null);
+
+      const assigned = await api("POST", `/api/inbox/${unmatched.id}/assign`, { printerId: laser.body.id });
+      assert.equal(assigned.status, 200);
+      assert.equal(assigned.body.printerId, laser.body.id);
+      assert.deepEqual((await api("GET", "/api/inbox")).body, []);
+    } finally {
+      await api("DELETE", `/api/printers/${laser.body.id}`);
+    }
+
+    // Deleting the printer took its rules with it
+    const rules = await api("GET", "/api/settings/upload-rules");
+    assert.deepEqual(rules.body.map((r: { printerId: number }) => r.printerId), [printerId, printerId]);
+    await api("PUT", "/api/settings/upload-rules", { rules: [] });
+  });
+
+  test("notifications go out on the channels each user picked, and can be tested", async () => {
+    const received: { event: string; title: string; message: string }[] = [];
+    const webhook = http.createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        received.push(JSON.parse(body));
+        res.end();
+      });
+    });
+    await new Promise<void>((resolve) => webhook.listen(0, "127.0.0.1", () => resolve()));
+    const webhookUrl = `http://127.0.0.1:${(webhook.address() as AddressInfo).port}/hook`;
+    const waitForEvent = async (event: string) => {
+      for (let i = 0; i < 100 && !received.some((n) => n.event === event); i++) {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+      }
+      return received.find((n) => n.event === event);
+    };
+
+    const { DEFAULT_NOTIFICATION_PREFERENCES } = await import("@shared/schema");
+    const { startJob, finishActiveJob } = await import("./jobTracker");
+    const { checkTemperatures } = await import("./notifications");
+    const preferences = {
+      events: ["job-started", "job-finished", "temperature-anomaly"],
+      channels: { ...DEFAULT_NOTIFICATION_PREFERENCES.channels, webhook: { enabled: true, url: webhookUrl } },
+    };
+
+    try {
+      const initial = await api("GET", "/api/notifications/preferences");
+      assert.equal(initial.status, 200);
+      assert.deepEqual(initial.body.preferences, DEFAULT_NOTIFICATION_PREFERENCES);
+      assert.equal(initial.body.available.email, false);
+
+      // An enabled channel needs somewhere to send to
+      const missing = await api("PUT", "/api/notifications/preferences", {
+        ...preferences,
+        channels: { ...preferences.channels, ntfy: { enabled: true, url: "", token: "" } },
+      });
+      assert.equal(missing.status, 400);
+      assert.equal(missing.body.error, "Enter the ntfy topic URL");
+
+      const saved = await api("PUT", "/api/notifications/preferences", preferences);
+      assert.equal(saved.status, 200);
+      assert.deepEqual(saved.body.preferences, preferences);
+
+      const sent = await api("POST", "/api/notifications/test");
+      assert.deepEqual(sent.body.results, [{ channel: "webhook", ok: true }]);
+      assert.equal((await waitForEvent("test"))?.title, "Test notification");
+
+      await startJob(printerId, "benchy.gcode", "app");
+      assert.equal((await waitForEvent("job-started"))?.message, "benchy.gcode started printing.");
+      await finishActiveJob(printerId, "completed");
+      assert.match((await waitForEvent("job-finished"))?.title ?? "", /print finished$/);
+
+      // Heating up from cold is expected; drifting away once hot is not
+      const status = (nozzle: number) => ({
+        state: "RUNNING",
+        temperature: { nozzle, bed: 60, targetNozzle: 210, targetBed: 60 },
+        progress: 50,
+        currentFile: null,
+        currentLine: null,
+        timeRemaining: null,
+      });
+      const start = Date.now();
+      await checkTemperatures(printerId, status(25), start);
+      await checkTemperatures(printerId, status(25), start + 120_000);
+      await checkTemperatures(printerId, status(208), start + 130_000);
+      await checkTemperatures(printerId, status(170), start + 140_000);
+      await checkTemperatures(printerId, status(170), start + 210_000);
+      const anomaly = await waitForEvent("temperature-anomaly");
+      assert.equal(anomaly?.message, "Nozzle is at 170°C but set to 210°C.");
+      assert.equal(received.filter((n) => n.event === "temperature-anomaly").length, 1);
+
+      // A heater stuck at one reading repeats the same status, and still
+      // counts once the window has passed
+      const stuck = { ...status(210), temperature: { nozzle: 210, bed: 30, targetNozzle: 210, targetBed: 60 } };
+      await checkTemperatures(printerId, status(210), start + 300_000);
+      await checkTemperatures(printerId, stuck, start + 310_000);
+      await checkTemperatures(printerId, stuck, start + 370_000);
+      for (let i = 0; i < 100 && received.filter((n) => n.event === "temperature-anomaly").length < 2; i++) {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+      }
+      const anomalies = received.filter((n) => n.event === "temperature-anomaly");
+      assert.equal(anomalies.length, 2);
+      assert.equal(anomalies[1].message, "Bed is at 30°C but set to 60°C.");
+
+      // Viewers keep their own settings
+      const password = "printer-room";
+      const viewer = await api("POST", "/api/users", { username: "night-shift", password, role: "viewer" });
+      const viewerCookie = (await api("POST", "/api/auth/login", { username: "night-shift", password }, "")).cookie;
+      const viewerSettings = await api("GET", "/api/notifications/preferences", undefined, viewerCookie);
+      assert.deepEqual(viewerSettings.body.preferences, DEFAULT_NOTIFICATION_PREFERENCES);
+      const noChannels = await api("POST", "/api/notifications/test", undefined, viewerCookie);
+      assert.equal(noChannels.status, 400);
+
+      // ...but can't have the server post to URLs of their choosing
+      const webhookForViewer = await api("PUT", "/api/notifications/preferences", preferences, viewerCookie);
+      assert.equal(webhookForViewer.status, 403);
+      const emailOnly = await api(
+        "PUT",
+        "/api/notifications/preferences",
+        {
+          ...DEFAULT_NOTIFICATION_PREFERENCES,
+          events: ["job-failed"],
+          channels: { ...DEFAULT_NOTIFICATION_PREFERENCES.channels, email: { enabled: true, address: "night@example.com" } },
+        },
+        viewerCookie,
+      );
+      assert.equal(emailOnly.status, 200);
+      await api("DELETE", `/api/users/${viewer.body.id}`);
+    } finally {
+      await api("PUT", "/api/notifications/preferences", DEFAULT_NOTIFICATION_PREFERENCES);
+      webhook.closeAllConnections();
+      await new Promise<void>((resolve) => webhook.close(() => resolve()));
+    }
+  });
+
+  test("uploads that are turned away don't leave their temp file behind", async () => {
+    const form = new FormData();
+    form.append("file", new Blob([SAMPLE_GCODE]), "orphan.gcode");
+    const res = await fetch(`${baseUrl}/api/printers/99999/uploaded-files`, {
+      method: "POST",
+      headers: { Cookie: cookie },
+      body: form,
+    });
+    assert.equal(res.status, 404);
+
+    // The temp file is removed just after the response has gone out
+    const spooled = async () => (await readdir(process.env.TMPDIR!)).filter((name) => /^[0-9a-f]{32}$/.test(name));
+    for (let i = 0; i < 50 && (await spooled()).length > 0; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+    assert.deepEqual(await spooled(), []);
+  });
+
+  test("status fails once the printer drops off the network", async () => {
+    simulator.setOffline(true);
+    try {
+      const { status } = await freshStatus();
+      assert.equal(status, 500);
+    } finally {
+      simulator.setOffline(false);
+    }
+  });
+});
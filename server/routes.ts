@@ -1,88 +1,400 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
-import multer from "multer";
 import { storage } from "./storage";
+import { snapmakerRequest, fetchPrinterStatus, sendJobCommand, SNAPMAKER_PORT, type JobCommand } from "./snapmaker";
 import { startWatcher, stopWatcher, getWatcherStatus, initializeWatcher } from "./fileWatcher";
 import { startLubanProxy, stopLubanProxy, getLubanProxyStatus, initializeLubanProxy } from "./lubanProxy";
-import { extractThumbnail } from "./thumbnailExtractor";
-import { insertPrinterSchema, dashboardPreferencesSchema, type PrinterStatus } from "@shared/schema";
+import {
+  DEFAULT_MOONRAKER_PORT,
+  startMoonraker,
+  stopMoonraker,
+  getMoonrakerStatus,
+  getMoonrakerPort,
+  setMoonrakerPort,
+  getMoonrakerCorsDomains,
+  setMoonrakerCorsDomains,
+  initializeMoonraker,
+} from "./moonraker";
+import { gcodeUpload, discardUpload, saveGcodeFile, saveIncomingGcodeFile, releaseGcodeContent, deletePrinterFiles, initializeGcodeFiles } from "./gcodeFiles";
+import { uploadToPrinter, getUploadProgress } from "./printerUpload";
+import { fileStore } from "./fileStore";
+import { startJob, finishActiveJob, whyPrinterNotReady } from "./jobTracker";
+import { startPolling, stopPolling, getCachedStatus, getOrFetchStatus, getAllCachedStatuses, initializeStatusPoller } from "./statusPoller";
+import { printerEvents } from "./printerEvents";
+import { defaultResolutionSeconds, initializeTemperatureHistory } from "./temperatureHistory";
+import { streamCamera, getCameraSnapshot } from "./camera";
+import {
+  resolveTimelapseSettings,
+  deleteTimelapse,
+  deletePrinterTimelapses,
+  getTimelapseRetention,
+  setTimelapseRetention,
+  getTimelapseUsage,
+  initializeTimelapses,
+} from "./timelapse";
+import { resolveQueueState, updateQueueState } from "./printQueue";
+import { cancelScheduledPrint, initializePrintScheduler } from "./printScheduler";
+import { discoverPrinters } from "./printerDiscovery";
+import { rememberPrinterIdentities, relocatePrinter } from "./printerIdentity";
+import { getDefaultPrinter, getDefaultPrinterId, setDefaultPrinterId } from "./uploadRouting";
+import { encryptStoredTokens, getTokenEncryptionStatus } from "./tokenCrypto";
+import { toAuditCsv, type AuditContext } from "./audit";
+import {
+  getAvailableChannels,
+  getNotificationPreferences,
+  initializeNotifications,
+  sendTestNotification,
+} from "./notifications";
+import { getVapidKeys } from "./notificationChannels";
+import {
+  OCTOPRINT_VERSION,
+  toOctoPrintPrinterState,
+  getOctoPrintJob,
+  selectOctoPrintFile,
+  isOctoPrintTrue,
+} from "./octoprint";
+import {
+  setupAuth,
+  hashPassword,
+  verifyPassword,
+  toPublicUser,
+  isSetupRequired,
+  adoptLegacyApiKey,
+  regenerateApiKey,
+  clearApiKey,
+  requireRole,
+} from "./auth";
+import passport from "passport";
+import { insertPrinterSchema, dashboardPreferencesSchema, cameraConfigSchema, timelapseSettingsSchema, timelapseRetentionSchema, printQueueOrderSchema, printQueueSettingsSchema, scheduledPrintStartSchema, defaultPrinterSchema, moonrakerSettingsSchema, uploadRulesSchema, assignFileSchema, userCredentialsSchema, newUserSchema, userRoleSchema, loginSchema, changePasswordSchema, auditQuerySchema, notificationPreferencesSchema, webPushSubscriptionSchema, canUseNotificationChannel, hasRole, NOTIFICATION_CHANNELS, type NotificationSettings, type Printer, type PublicPrinter, type PrinterStatus, type User, type DiscoveredPrinter } from "@shared/schema";
 import { z } from "zod";
 
-const upload = multer({ 
-  storage: multer.memoryStorage(),
-  limits: { fileSize: 100 * 1024 * 1024 }, // 100MB limit
-  fileFilter: (req, file, cb) => {
-    const allowedExtensions = [".gcode", ".nc", ".cnc"];
-    const ext = file.originalname.toLowerCase().slice(file.originalname.lastIndexOf("."));
-    if (allowedExtensions.includes(ext)) {
-      cb(null, true);
-    } else {
-      cb(new Error("Only G-code files (.gcode, .nc, .cnc) are allowed"));
-    }
-  },
-});
-
-const SNAPMAKER_PORT = 8080;
-
-async function snapmakerRequest(
-  ipAddress: string,
-  endpoint: string,
-  method: "GET" | "POST" = "GET",
-  body?: string,
-  token?: string | null
-): Promise<any> {
-  const url = `http://${ipAddress}:${SNAPMAKER_PORT}${endpoint}`;
-  
-  try {
-    const response = await fetch(url, {
-      method,
-      headers: method === "POST" ? { "Content-Type": "application/x-www-form-urlencoded" } : {},
-      body,
-      signal: AbortSignal.timeout(5000),
+const AUDIT_EXPORT_LIMIT = 100_000;
+
+function toNotificationSettings(user: User): NotificationSettings {
+  return {
+    preferences: getNotificationPreferences(user),
+    available: getAvailableChannels(),
+    pushSubscriptionCount: user.pushSubscriptions.length,
+  };
+}
+
+// The token drives the printer, so the API only says whether there is one
+function toPublicPrinter({ token, ...printer }: Printer): PublicPrinter {
+  return { ...printer, hasToken: !!token };
+}
+
+export async function registerRoutes(
+  httpServer: Server,
+  app: Express
+): Promise<Server> {
+  // Sessions, the audit trail and the /api guard go in before any route (see server/auth.ts)
+  await setupAuth(app);
+
+  app.get("/api/auth/status", async (req, res) => {
+    try {
+      res.json({
+        setupRequired: await isSetupRequired(),
+        user: req.isAuthenticated() ? toPublicUser(req.user) : null,
+      });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to get sign-in status" });
+    }
+  });
+
+  // First run: creates the admin account and signs it in. Only allowed while
+  // there are no users at all.
+  app.post("/api/auth/setup", async (req, res) => {
+    try {
+      const parsed = userCredentialsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid account details" });
+      }
+
+      if (!(await isSetupRequired())) {
+        return res.status(409).json({ error: "Setup is already complete" });
+      }
+
+      const user = await storage.createUser({
+        username: parsed.data.username,
+        passwordHash: await hashPassword(parsed.data.password),
+        role: "admin",
+      });
+      const adopted = await adoptLegacyApiKey(user.id);
+
+      req.login(user, (err) => {
+        if (err) {
+          return res.status(500).json({ error: "Account created but sign-in failed" });
+        }
+        res.status(201).json(toPublicUser(adopted ?? user));
+      });
+    } catch (error) {
+      res.status(500).json({
+        error: error instanceof Error ? error.message : "Failed to create account",
+      });
+    }
+  });
+
+  app.post("/api/auth/login", (req, res, next) => {
+    const parsed = loginSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid sign-in details" });
+    }
+
+    passport.authenticate("local", (err: unknown, user: User | false) => {
+      if (err) return next(err);
+      if (!user) {
+        return res.status(401).json({ error: "Invalid username or password" });
+      }
+      req.login(user, (loginErr) => {
+        if (loginErr) return next(loginErr);
+        res.json(toPublicUser(user));
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/auth/logout", (req, res, next) => {
+    req.logout((err) => {
+      if (err) return next(err);
+      res.json({ success: true });
     });
+  });
+
+  app.put("/api/auth/password", async (req, res) => {
+    try {
+      const parsed = changePasswordSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid password" });
+      }
+
+      const user = req.user!;
+      if (!(await verifyPassword(parsed.data.currentPassword, user.passwordHash))) {
+        return res.status(400).json({ error: "Current password is incorrect" });
+      }
+
+      await storage.updateUser(user.id, { passwordHash: await hashPassword(parsed.data.newPassword) });
+      res.json({ success: true, message: "Password changed" });
+    } catch (error) {
+      res.status(500).json({
+        error: error instanceof Error ? error.message : "Failed to change password",
+      });
+    }
+  });
+
+  // Per-user API key for slicers and Moonraker clients. The key is only
+  // returned here; afterwards the user just shows hasApiKey.
+  app.post("/api/auth/api-key", async (req, res) => {
+    try {
+      const apiKey = await regenerateApiKey(req.user!.id);
+      res.json({ success: true, message: "API key generated", apiKey });
+    } catch (error) {
+      res.status(500).json({
+        error: error instanceof Error ? error.message : "Failed to generate API key",
+      });
+    }
+  });
+
+  app.delete("/api/auth/api-key", async (req, res) => {
+    try {
+      await clearApiKey(req.user!.id);
+      res.json({ success: true, message: "API key removed" });
+    } catch (error) {
+      res.status(500).json({
+        error: error instanceof Error ? error.message : "Failed to remove API key",
+      });
+    }
+  });
 
-    if (response.status === 204) {
-      return { status: 204 };
+  // Each user's own notification settings, see server/notifications.ts
+  app.get("/api/notifications/preferences", async (req, res) => {
+    res.json(toNotificationSettings(req.user!));
+  });
+
+  app.put("/api/notifications/preferences", async (req, res) => {
+    try {
+      const parsed = notificationPreferencesSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid notification settings" });
+      }
+
+      // Channels the role can't use may be sent back as they are, not changed
+      const current = getNotificationPreferences(req.user!);
+      const changedForbidden = NOTIFICATION_CHANNELS.some(
+        (channel) =>
+          !canUseNotificationChannel(req.user!.role, channel) &&
+          JSON.stringify(parsed.data.channels[channel]) !== JSON.stringify(current.channels[channel]),
+      );
+      if (changedForbidden) {
+        return res.status(403).json({ error: "Only operators and admins can send notifications to ntfy, Gotify or webhooks" });
+      }
+
+      const user = await storage.updateUser(req.user!.id, { notificationPreferences: parsed.data });
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      res.json(toNotificationSettings(user));
+    } catch (error) {
+      res.status(500).json({
+        error: error instanceof Error ? error.message : "Failed to save notification settings",
+      });
     }
+  });
 
-    if (!response.ok && response.status !== 204) {
-      throw new Error(`Snapmaker API error: ${response.status}`);
+  app.post("/api/notifications/test", async (req, res) => {
+    try {
+      const results = await sendTestNotification(req.user!);
+      if (results.length === 0) {
+        return res.status(400).json({ error: "Turn on at least one notification channel first" });
+      }
+      const delivered = results.filter((r) => r.ok).length;
+      res.locals.audit = {
+        result: delivered === results.length ? "success" : delivered > 0 ? "partial" : "failed",
+      } satisfies AuditContext;
+      res.json({ results });
+    } catch (error) {
+      res.status(500).json({
+        error: error instanceof Error ? error.message : "Failed to send test notification",
+      });
     }
+  });
 
-    const contentType = response.headers.get("content-type");
-    if (contentType?.includes("application/json")) {
-      return await response.json();
+  // The browser needs the server's public key to subscribe to Web Push
+  app.get("/api/notifications/vapid-key", async (req, res) => {
+    try {
+      const { publicKey } = await getVapidKeys();
+      res.json({ publicKey });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to load the Web Push key" });
     }
+  });
+
+  app.post("/api/notifications/push-subscription", async (req, res) => {
+    try {
+      const parsed = webPushSubscriptionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid push subscription" });
+      }
 
-    return { status: response.status };
-  } catch (error) {
-    if (error instanceof Error) {
-      throw new Error(`Failed to connect to printer at ${ipAddress}: ${error.message}`);
+      const user = req.user!;
+      const others = user.pushSubscriptions.filter((s) => s.endpoint !== parsed.data.endpoint);
+      const updated = await storage.updateUser(user.id, { pushSubscriptions: [...others, parsed.data] });
+      res.json({ success: true, pushSubscriptionCount: updated?.pushSubscriptions.length ?? 0 });
+    } catch (error) {
+      res.status(500).json({
+        error: error instanceof Error ? error.message : "Failed to save push subscription",
+      });
     }
-    throw error;
-  }
-}
+  });
+
+  app.delete("/api/notifications/push-subscription", async (req, res) => {
+    try {
+      const parsed = z.object({ endpoint: z.string().min(1) }).safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Subscription endpoint is required" });
+      }
+
+      const user = req.user!;
+      const remaining = user.pushSubscriptions.filter((s) => s.endpoint !== parsed.data.endpoint);
+      await storage.updateUser(user.id, { pushSubscriptions: remaining });
+      res.json({ success: true, pushSubscriptionCount: remaining.length });
+    } catch (error) {
+      res.status(500).json({
+        error: error instanceof Error ? error.message : "Failed to remove push subscription",
+      });
+    }
+  });
+
+  app.get("/api/users", requireRole("admin"), async (req, res) => {
+    try {
+      const users = await storage.getUsers();
+      res.json(users.map(toPublicUser));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch users" });
+    }
+  });
+
+  app.post("/api/users", requireRole("admin"), async (req, res) => {
+    try {
+      const parsed = newUserSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid account details" });
+      }
+
+      if (await storage.getUserByUsername(parsed.data.username)) {
+        return res.status(409).json({ error: "Username is already taken" });
+      }
+
+      const user = await storage.createUser({
+        username: parsed.data.username,
+        passwordHash: await hashPassword(parsed.data.password),
+        role: parsed.data.role,
+      });
+      res.status(201).json(toPublicUser(user));
+    } catch (error) {
+      res.status(500).json({
+        error: error instanceof Error ? error.message : "Failed to create user",
+      });
+    }
+  });
+
+  // Admins can't change or delete their own account here, so there is
+  // always at least one admin left
+  app.put("/api/users/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      const parsed = userRoleSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid role" });
+      }
+
+      if (userId === req.user!.id) {
+        return res.status(400).json({ error: "You can't change your own role" });
+      }
+
+      const user = await storage.updateUser(userId, { role: parsed.data.role });
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      res.json(toPublicUser(user));
+    } catch (error) {
+      res.status(500).json({
+        error: error instanceof Error ? error.message : "Failed to update user",
+      });
+    }
+  });
+
+  app.delete("/api/users/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      if (userId === req.user!.id) {
+        return res.status(400).json({ error: "You can't delete your own account" });
+      }
+
+      if (!(await storage.deleteUser(userId))) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      res.json({ success: true, message: "User deleted" });
+    } catch (error) {
+      res.status(500).json({
+        error: error instanceof Error ? error.message : "Failed to delete user",
+      });
+    }
+  });
 
-export async function registerRoutes(
-  httpServer: Server,
-  app: Express
-): Promise<Server> {
-  
   app.get("/api/printers", async (req, res) => {
     try {
       const printers = await storage.getAllPrinters();
-      res.json(printers);
+      res.json(printers.map(toPublicPrinter));
     } catch (error) {
       console.error("[api/printers] Database error:", error);
       res.status(500).json({ error: "Failed to fetch printers" });
     }
   });
 
-  app.post("/api/printers", async (req, res) => {
+  app.post("/api/printers", requireRole("admin"), async (req, res) => {
     try {
       const data = insertPrinterSchema.parse(req.body);
       const printer = await storage.createPrinter(data);
-      res.status(201).json(printer);
+      res.status(201).json(toPublicPrinter(printer));
     } catch (error) {
       if (error instanceof z.ZodError) {
         res.status(400).json({ error: error.errors });
@@ -93,6 +405,24 @@ export async function registerRoutes(
     }
   });
 
+  // Scans the LAN for Snapmakers; takes a few seconds while replies come in
+  app.get("/api/discover", requireRole("admin"), async (req, res) => {
+    try {
+      const found = await discoverPrinters();
+      await rememberPrinterIdentities(found);
+      const printers = await storage.getAllPrinters();
+      const discovered: DiscoveredPrinter[] = found.map((printer) => ({
+        ...printer,
+        configuredPrinterId: printers.find((p) => p.ipAddress === printer.ipAddress)?.id ?? null,
+      }));
+      res.json(discovered);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Discovery failed";
+      console.error("[Discovery] Scan failed:", error);
+      res.status(500).json({ error: message });
+    }
+  });
+
   app.post("/api/printers/:id/connect", async (req, res) => {
     try {
       const printerId = parseInt(req.params.id);
@@ -117,6 +447,8 @@ export async function registerRoutes(
           isConnected: true,
           lastSeen: new Date(),
         });
+        startPolling(printerId);
+        printerEvents.emit("printer", printerId);
         return res.json({
           message: "Connected successfully",
           requiresConfirmation: false,
@@ -134,6 +466,8 @@ export async function registerRoutes(
         isConnected: true,
         lastSeen: new Date(),
       });
+      startPolling(printerId);
+      printerEvents.emit("printer", printerId);
 
       res.json({
         message: "Connected successfully",
@@ -159,31 +493,20 @@ export async function registerRoutes(
         return res.status(400).json({ error: "Printer not connected. Connect first." });
       }
 
-      const statusData = await snapmakerRequest(
-        printer.ipAddress,
-        `/api/v1/status?token=${printer.token}`,
-        "GET",
-        undefined,
-        printer.token
-      );
+      // Serve the poller's cached copy when we have one so browsers don't add
+      // printer traffic; otherwise fetch directly and start polling from here on
+      const cached = getCachedStatus(printerId);
+      if (cached) {
+        return res.json(cached);
+      }
+
+      const status: PrinterStatus = await fetchPrinterStatus(printer);
 
       await storage.updatePrinter(printerId, {
         isConnected: true,
         lastSeen: new Date(),
       });
-
-      const status: PrinterStatus = {
-        state: statusData.status || statusData.state || "idle",
-        temperature: {
-          nozzle: statusData.temperature?.nozzle || 0,
-          bed: statusData.temperature?.bed || 0,
-          targetNozzle: statusData.temperature?.target_nozzle || 0,
-          targetBed: statusData.temperature?.target_bed || 0,
-        },
-        progress: statusData.progress || 0,
-        currentFile: statusData.current_file || null,
-        timeRemaining: statusData.time_remaining || null,
-      };
+      startPolling(printerId);
 
       res.json(status);
     } catch (error) {
@@ -213,10 +536,12 @@ export async function registerRoutes(
         );
       }
 
+      stopPolling(printerId);
       await storage.updatePrinter(printerId, {
         isConnected: false,
         token: null,
       });
+      printerEvents.emit("printer", printerId);
 
       res.json({ message: "Disconnected successfully" });
     } catch (error) {
@@ -226,17 +551,23 @@ export async function registerRoutes(
     }
   });
 
-  app.delete("/api/printers/:id", async (req, res) => {
+  app.delete("/api/printers/:id", requireRole("admin"), async (req, res) => {
     try {
       const printerId = parseInt(req.params.id);
+      stopPolling(printerId);
+      await deletePrinterTimelapses(printerId);
+      await deletePrinterFiles(printerId);
       await storage.deletePrinter(printerId);
+      if ((await getDefaultPrinterId()) === printerId) {
+        await setDefaultPrinterId(null);
+      }
       res.json({ message: "Printer deleted successfully" });
     } catch (error) {
       res.status(500).json({ error: "Failed to delete printer" });
     }
   });
 
-  app.post("/api/printers/:id/save-token", async (req, res) => {
+  app.post("/api/printers/:id/save-token", requireRole("admin"), async (req, res) => {
     try {
       const printerId = parseInt(req.params.id);
       const { token } = req.body;
@@ -261,14 +592,23 @@ export async function registerRoutes(
         return res.status(404).json({ error: "Printer not found" });
       }
 
-      const url = `http://${printer.ipAddress}:${SNAPMAKER_PORT}/api/v1/status`;
-      const response = await fetch(url, {
-        method: "GET",
-        signal: AbortSignal.timeout(2000),
-      });
+      const ping = async (ipAddress: string) => {
+        const url = `http://${ipAddress}:${SNAPMAKER_PORT}/api/v1/status`;
+        const response = await fetch(url, {
+          method: "GET",
+          signal: AbortSignal.timeout(2000),
+        });
+        return response.ok || response.status === 401 || response.status === 403;
+      };
+
+      let online = await ping(printer.ipAddress).catch(() => false);
+      if (!online) {
+        const relocated = await relocatePrinter(printer);
+        if (relocated) online = await ping(relocated.ipAddress);
+      }
 
       res.json({ 
-        online: response.ok || response.status === 401 || response.status === 403,
+        online,
         hasToken: !!printer.token 
       });
     } catch (error) {
@@ -292,13 +632,18 @@ export async function registerRoutes(
         });
       }
 
-      const result = await snapmakerRequest(
-        printer.ipAddress,
-        "/api/v1/connect",
-        "POST",
-        `token=${printer.token}`,
-        printer.token
-      );
+      const reconnect = (ipAddress: string) =>
+        snapmakerRequest(ipAddress, "/api/v1/connect", "POST", `token=${printer.token}`, printer.token);
+
+      let result;
+      try {
+        result = await reconnect(printer.ipAddress);
+      } catch (error) {
+        // Same printer on a new DHCP address accepts the saved token there
+        const relocated = await relocatePrinter(printer);
+        if (!relocated) throw error;
+        result = await reconnect(relocated.ipAddress);
+      }
 
       if (result.token || result.status === 200) {
         if (result.token) {
@@ -313,6 +658,8 @@ export async function registerRoutes(
             lastSeen: new Date(),
           });
         }
+        startPolling(printerId);
+        printerEvents.emit("printer", printerId);
         return res.json({ success: true, message: "Auto-reconnected successfully" });
       }
 
@@ -400,6 +747,12 @@ export async function registerRoutes(
         printer.token
       );
 
+      // A full re-home is what clears an emergency stop
+      if (printer.emergencyStoppedAt && /X/i.test(homeAxes) && /Y/i.test(homeAxes) && /Z/i.test(homeAxes)) {
+        await storage.updatePrinter(printerId, { emergencyStoppedAt: null });
+        printerEvents.emit("printer", printerId);
+      }
+
       res.json({ message: "Home command sent" });
     } catch (error) {
       res.status(500).json({
@@ -408,6 +761,111 @@ export async function registerRoutes(
     }
   });
 
+  // Emergency stop: aborts the job, kills heaters, spindle and laser, then halts
+  // the firmware. Every command is fired at once rather than one after another
+  // so a slow or failing request can't hold up the rest.
+  app.post("/api/printers/:id/emergency-stop", async (req, res) => {
+    const printerId = parseInt(req.params.id);
+    const sourceIp = req.ip || null;
+
+    try {
+      const printer = await storage.getPrinter(printerId);
+
+      if (!printer) {
+        return res.status(404).json({ error: "Printer not found" });
+      }
+
+      if (!printer.token) {
+        return res.status(400).json({ error: "Printer not connected" });
+      }
+
+      const token = printer.token;
+      const sendGcode = (code: string) =>
+        snapmakerRequest(
+          printer.ipAddress,
+          "/api/v1/execute_code",
+          "POST",
+          `token=${encodeURIComponent(token)}&code=${encodeURIComponent(code)}`,
+          token
+        );
+
+      const results = await Promise.allSettled([
+        snapmakerRequest(printer.ipAddress, "/api/v1/stop_print", "POST", `token=${encodeURIComponent(token)}`, token),
+        sendGcode("M5"),
+        sendGcode("M104 S0"),
+        sendGcode("M140 S0"),
+      ]);
+      // M112 goes last: once the firmware halts it won't accept anything else
+      results.push(...(await Promise.allSettled([sendGcode("M112")])));
+
+      const failures = results
+        .filter((r): r is PromiseRejectedResult => r.status === "rejected")
+        .map((r) => (r.reason instanceof Error ? r.reason.message : String(r.reason)));
+      const reachedPrinter = failures.length < results.length;
+
+      res.locals.audit = {
+        details: failures.length > 0 ? { failures } : undefined,
+        result: !reachedPrinter ? "failed" : failures.length > 0 ? "partial" : "success",
+      } satisfies AuditContext;
+
+      if (!reachedPrinter) {
+        return res.status(502).json({ error: `Emergency stop could not reach the printer: ${failures[0]}` });
+      }
+
+      const stoppedAt = new Date();
+      await storage.updatePrinter(printerId, { emergencyStoppedAt: stoppedAt });
+      printerEvents.emit("printer", printerId);
+      await finishActiveJob(printerId, "cancelled");
+      console.warn(`[E-STOP] Printer ${printer.name} (${printer.ipAddress}) emergency stopped from ${sourceIp}`);
+
+      res.json({
+        message: "Emergency stop sent",
+        emergencyStoppedAt: stoppedAt,
+        failures,
+      });
+    } catch (error) {
+      res.status(500).json({
+        error: error instanceof Error ? error.message : "Failed to send emergency stop",
+      });
+    }
+  });
+
+  // Job control: pause, resume and stop the print currently running on the printer
+  const jobMessages: Record<JobCommand, string> = {
+    pause: "Print paused",
+    resume: "Print resumed",
+    stop: "Print stopped",
+  };
+
+  for (const [action, message] of Object.entries(jobMessages) as [JobCommand, string][]) {
+    app.post(`/api/printers/:id/job/${action}`, async (req, res) => {
+      try {
+        const printerId = parseInt(req.params.id);
+        const printer = await storage.getPrinter(printerId);
+
+        if (!printer) {
+          return res.status(404).json({ error: "Printer not found" });
+        }
+
+        if (!printer.token) {
+          return res.status(400).json({ error: "Printer not connected" });
+        }
+
+        await sendJobCommand(printer, action);
+
+        if (action === "stop") {
+          await finishActiveJob(printerId, "cancelled");
+        }
+
+        res.json({ message });
+      } catch (error) {
+        res.status(500).json({
+          error: error instanceof Error ? error.message : `Failed to ${action} print`,
+        });
+      }
+    });
+  }
+
   app.get("/api/printers/:id/files", async (req, res) => {
     try {
       const printerId = parseInt(req.params.id);
@@ -476,41 +934,31 @@ export async function registerRoutes(
         return res.status(404).json({ error: "File not found" });
       }
 
-      if (!file.fileContent) {
+      if (!file.contentHash) {
         return res.status(400).json({ error: "No file content stored. Please upload the G-code file first." });
       }
 
-      const boundary = "----WebKitFormBoundary" + Math.random().toString(36).substring(2);
-      
-      const parts: string[] = [];
-      parts.push(`--${boundary}\r\n`);
-      parts.push(`Content-Disposition: form-data; name="token"\r\n`);
-      parts.push(`\r\n`);
-      parts.push(`${printer.token}\r\n`);
-      parts.push(`--${boundary}\r\n`);
-      parts.push(`Content-Disposition: form-data; name="file"; filename="${file.filename}"\r\n`);
-      parts.push(`Content-Type: application/octet-stream\r\n`);
-      parts.push(`\r\n`);
-      parts.push(file.fileContent);
-      parts.push(`\r\n--${boundary}--\r\n`);
-      
-      const body = parts.join("");
-
-      const url = `http://${printer.ipAddress}:${SNAPMAKER_PORT}/api/v1/upload`;
-      
-      const response = await fetch(url, {
-        method: "POST",
-        headers: {
-          "Content-Type": `multipart/form-data; boundary=${boundary}`,
-        },
-        body,
-        signal: AbortSignal.timeout(120000),
-      });
+      // With a start time the print is handed to the scheduler instead
+      if (req.body.startAt) {
+        const startAt = scheduledPrintStartSchema.safeParse(req.body.startAt);
+        if (!startAt.success) {
+          return res.status(400).json({ error: startAt.error.errors[0]?.message || "Invalid start time" });
+        }
 
-      if (!response.ok) {
-        throw new Error(`Upload failed: ${response.status}`);
+        const schedule = await storage.createScheduledPrint({
+          printerId,
+          fileId: file.id,
+          startAt: startAt.data,
+          status: "pending",
+        });
+        printerEvents.emit("schedule", printerId);
+        return res.json({ message: "Print scheduled", schedule });
       }
 
+      await uploadToPrinter(printer, file);
+
+      await startJob(printerId, file.filename, "app", file.id);
+
       res.json({ message: "Print started" });
     } catch (error) {
       res.status(500).json({
@@ -519,61 +967,501 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/printers/:id/dashboard-preferences", async (req, res) => {
+  app.get("/api/printers/:id/schedules", async (req, res) => {
     try {
       const printerId = parseInt(req.params.id);
       const printer = await storage.getPrinter(printerId);
-      
+
       if (!printer) {
         return res.status(404).json({ error: "Printer not found" });
       }
 
-      const enabledModules = await storage.getDashboardPreferences(printerId);
-      res.json({ enabledModules });
+      res.json(await storage.getScheduledPrints(printerId));
     } catch (error) {
       res.status(500).json({
-        error: error instanceof Error ? error.message : "Failed to fetch preferences",
+        error: error instanceof Error ? error.message : "Failed to fetch scheduled prints",
       });
     }
   });
 
-  app.put("/api/printers/:id/dashboard-preferences", async (req, res) => {
+  app.delete("/api/printers/:id/schedules/:scheduleId", async (req, res) => {
     try {
       const printerId = parseInt(req.params.id);
-      const printer = await storage.getPrinter(printerId);
-      
-      if (!printer) {
-        return res.status(404).json({ error: "Printer not found" });
-      }
+      const schedule = await storage.getScheduledPrint(parseInt(req.params.scheduleId), printerId);
 
-      const validationResult = dashboardPreferencesSchema.pick({ enabledModules: true }).safeParse(req.body);
-      
-      if (!validationResult.success) {
-        return res.status(400).json({ error: "enabledModules must be an array of strings" });
+      if (!schedule) {
+        return res.status(404).json({ error: "Scheduled print not found" });
       }
 
-      const { enabledModules } = validationResult.data;
+      if (!(await cancelScheduledPrint(schedule))) {
+        return res.status(400).json({ error: `Scheduled print already ${schedule.status}` });
+      }
 
-      await storage.setDashboardPreferences(printerId, enabledModules);
-      res.json({ message: "Preferences saved", enabledModules });
+      res.json({ message: "Scheduled print cancelled" });
     } catch (error) {
       res.status(500).json({
-        error: error instanceof Error ? error.message : "Failed to save preferences",
+        error: error instanceof Error ? error.message : "Failed to cancel scheduled print",
       });
     }
   });
 
-  app.get("/api/printers/:id/uploaded-files", async (req, res) => {
+  app.get("/api/printers/:id/upload-progress", async (req, res) => {
     try {
       const printerId = parseInt(req.params.id);
       const printer = await storage.getPrinter(printerId);
-      
+
       if (!printer) {
         return res.status(404).json({ error: "Printer not found" });
       }
 
-      const files = await storage.getUploadedFiles(printerId);
-      res.json(files);
+      res.json({ upload: getUploadProgress(printerId) });
+    } catch (error) {
+      res.status(500).json({
+        error: error instanceof Error ? error.message : "Failed to fetch upload progress",
+      });
+    }
+  });
+
+  app.get("/api/printers/:id/queue", async (req, res) => {
+    try {
+      const printerId = parseInt(req.params.id);
+      const printer = await storage.getPrinter(printerId);
+
+      if (!printer) {
+        return res.status(404).json({ error: "Printer not found" });
+      }
+
+      const items = await storage.getQueueItems(printerId);
+      res.json({ items, state: resolveQueueState(printer.queueState) });
+    } catch (error) {
+      res.status(500).json({
+        error: error instanceof Error ? error.message : "Failed to fetch print queue",
+      });
+    }
+  });
+
+  app.post("/api/printers/:id/queue", async (req, res) => {
+    try {
+      const printerId = parseInt(req.params.id);
+      const printer = await storage.getPrinter(printerId);
+
+      if (!printer) {
+        return res.status(404).json({ error: "Printer not found" });
+      }
+
+      const { fileId } = req.body;
+
+      if (!fileId) {
+        return res.status(400).json({ error: "File ID is required" });
+      }
+
+      const file = await storage.getUploadedFile(parseInt(fileId), printerId);
+
+      if (!file) {
+        return res.status(404).json({ error: "File not found" });
+      }
+
+      if (!file.contentHash) {
+        return res.status(400).json({ error: "No file content stored. Please upload the G-code file first." });
+      }
+
+      const item = await storage.addQueueItem({ printerId, fileId: file.id });
+      printerEvents.emit("queue", printerId);
+      res.json(item);
+    } catch (error) {
+      res.status(500).json({
+        error: error instanceof Error ? error.message : "Failed to add file to queue",
+      });
+    }
+  });
+
+  app.delete("/api/printers/:id/queue/:itemId", async (req, res) => {
+    try {
+      const printerId = parseInt(req.params.id);
+      const deleted = await storage.deleteQueueItem(parseInt(req.params.itemId), printerId);
+
+      if (!deleted) {
+        return res.status(404).json({ error: "Queue item not found" });
+      }
+
+      printerEvents.emit("queue", printerId);
+      res.json({ message: "Removed from queue" });
+    } catch (error) {
+      res.status(500).json({
+        error: error instanceof Error ? error.message : "Failed to remove queue item",
+      });
+    }
+  });
+
+  app.put("/api/printers/:id/queue/order", async (req, res) => {
+    try {
+      const printerId = parseInt(req.params.id);
+      const printer = await storage.getPrinter(printerId);
+
+      if (!printer) {
+        return res.status(404).json({ error: "Printer not found" });
+      }
+
+      const validationResult = printQueueOrderSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ error: validationResult.error.errors[0]?.message || "Invalid queue order" });
+      }
+
+      await storage.reorderQueue(printerId, validationResult.data.itemIds);
+      printerEvents.emit("queue", printerId);
+      res.json({ items: await storage.getQueueItems(printerId) });
+    } catch (error) {
+      res.status(500).json({
+        error: error instanceof Error ? error.message : "Failed to reorder queue",
+      });
+    }
+  });
+
+  app.put("/api/printers/:id/queue/settings", async (req, res) => {
+    try {
+      const printerId = parseInt(req.params.id);
+      const printer = await storage.getPrinter(printerId);
+
+      if (!printer) {
+        return res.status(404).json({ error: "Printer not found" });
+      }
+
+      const validationResult = printQueueSettingsSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ error: validationResult.error.errors[0]?.message || "Invalid queue settings" });
+      }
+
+      const { requireBedClear } = validationResult.data;
+      const state = await updateQueueState(printer, {
+        requireBedClear,
+        // Turning the check off releases a queue that's waiting on it
+        ...(requireBedClear ? {} : { awaitingBedClear: false }),
+      });
+      res.json({ state });
+    } catch (error) {
+      res.status(500).json({
+        error: error instanceof Error ? error.message : "Failed to save queue settings",
+      });
+    }
+  });
+
+  // Queue control: the next job is dispatched by the status poller once the
+  // printer is idle, so these only change what the queue is allowed to do
+  const queueCommands = {
+    start: { changes: { paused: false, pausedReason: null }, message: "Queue started" },
+    pause: { changes: { paused: true, pausedReason: null }, message: "Queue paused" },
+    "bed-cleared": { changes: { awaitingBedClear: false }, message: "Bed marked as cleared" },
+  } as const;
+
+  for (const [action, command] of Object.entries(queueCommands)) {
+    app.post(`/api/printers/:id/queue/${action}`, async (req, res) => {
+      try {
+        const printerId = parseInt(req.params.id);
+        const printer = await storage.getPrinter(printerId);
+
+        if (!printer) {
+          return res.status(404).json({ error: "Printer not found" });
+        }
+
+        const state = await updateQueueState(printer, command.changes);
+        res.json({ message: command.message, state });
+      } catch (error) {
+        res.status(500).json({
+          error: error instanceof Error ? error.message : `Failed to ${action.replace("-", " ")} queue`,
+        });
+      }
+    });
+  }
+
+  app.get("/api/printers/:id/jobs", async (req, res) => {
+    try {
+      const printerId = parseInt(req.params.id);
+      const printer = await storage.getPrinter(printerId);
+
+      if (!printer) {
+        return res.status(404).json({ error: "Printer not found" });
+      }
+
+      const limit = Math.min(parseInt(req.query.limit as string) || 100, 500);
+      const jobs = await storage.getPrintJobs(printerId, limit);
+      res.json(jobs);
+    } catch (error) {
+      res.status(500).json({
+        error: error instanceof Error ? error.message : "Failed to fetch print history",
+      });
+    }
+  });
+
+  app.get("/api/printers/:id/timelapse", async (req, res) => {
+    try {
+      const printerId = parseInt(req.params.id);
+      const printer = await storage.getPrinter(printerId);
+
+      if (!printer) {
+        return res.status(404).json({ error: "Printer not found" });
+      }
+
+      res.json({ timelapse: resolveTimelapseSettings(printer.timelapse) });
+    } catch (error) {
+      res.status(500).json({
+        error: error instanceof Error ? error.message : "Failed to fetch timelapse settings",
+      });
+    }
+  });
+
+  app.put("/api/printers/:id/timelapse", requireRole("admin"), async (req, res) => {
+    try {
+      const printerId = parseInt(req.params.id);
+      const printer = await storage.getPrinter(printerId);
+
+      if (!printer) {
+        return res.status(404).json({ error: "Printer not found" });
+      }
+
+      const validationResult = timelapseSettingsSchema.safeParse(req.body.timelapse);
+      if (!validationResult.success) {
+        return res.status(400).json({ error: validationResult.error.errors[0]?.message || "Invalid timelapse settings" });
+      }
+
+      // Takes effect from the next job; a capture already running keeps its settings
+      await storage.updatePrinter(printerId, { timelapse: validationResult.data });
+      res.json({ message: "Timelapse settings saved", timelapse: validationResult.data });
+    } catch (error) {
+      res.status(500).json({
+        error: error instanceof Error ? error.message : "Failed to save timelapse settings",
+      });
+    }
+  });
+
+  app.get("/api/timelapses/:id/download", async (req, res) => {
+    try {
+      const timelapse = await storage.getTimelapse(parseInt(req.params.id));
+
+      if (!timelapse || timelapse.status !== "ready" || !timelapse.filePath) {
+        return res.status(404).json({ error: "Timelapse not found" });
+      }
+
+      const job = await storage.getPrintJob(timelapse.jobId);
+      const baseName = (job?.filename ?? `job-${timelapse.jobId}`).replace(/\.[^.]+$/, "");
+
+      res.setHeader("Content-Type", "video/x-motion-jpeg");
+      res.download(timelapse.filePath, `${baseName}-timelapse.mjpeg`, (err) => {
+        if (err && !res.headersSent) {
+          res.status(404).json({ error: "Timelapse file is missing" });
+        }
+      });
+    } catch (error) {
+      res.status(500).json({
+        error: error instanceof Error ? error.message : "Failed to download timelapse",
+      });
+    }
+  });
+
+  app.delete("/api/timelapses/:id", async (req, res) => {
+    try {
+      const timelapse = await storage.getTimelapse(parseInt(req.params.id));
+
+      if (!timelapse) {
+        return res.status(404).json({ error: "Timelapse not found" });
+      }
+
+      await deleteTimelapse(timelapse);
+      res.json({ message: "Timelapse deleted" });
+    } catch (error) {
+      res.status(500).json({
+        error: error instanceof Error ? error.message : "Failed to delete timelapse",
+      });
+    }
+  });
+
+  // Temperature history for charts. `from`/`to` accept ISO dates or epoch
+  // milliseconds (default: the last hour); `resolution` is the bucket size in seconds.
+  app.get("/api/printers/:id/temperature-history", async (req, res) => {
+    try {
+      const printerId = parseInt(req.params.id);
+      const printer = await storage.getPrinter(printerId);
+
+      if (!printer) {
+        return res.status(404).json({ error: "Printer not found" });
+      }
+
+      const parseDate = (value: unknown, fallback: Date): Date | null => {
+        if (value === undefined || value === "") return fallback;
+        const raw = String(value);
+        const date = /^\d+$/.test(raw) ? new Date(parseInt(raw)) : new Date(raw);
+        return isNaN(date.getTime()) ? null : date;
+      };
+
+      const to = parseDate(req.query.to, new Date());
+      const from = to ? parseDate(req.query.from, new Date(to.getTime() - 60 * 60 * 1000)) : null;
+
+      if (!from || !to || from >= to) {
+        return res.status(400).json({ error: "Invalid time range" });
+      }
+
+      const requestedResolution = parseInt(req.query.resolution as string);
+      const resolution = requestedResolution > 0
+        ? Math.max(requestedResolution, defaultResolutionSeconds(from, to, 2000))
+        : defaultResolutionSeconds(from, to);
+
+      const points = await storage.getTemperatureHistory(printerId, from, to, resolution);
+      res.json({ from: from.getTime(), to: to.getTime(), resolution, points });
+    } catch (error) {
+      res.status(500).json({
+        error: error instanceof Error ? error.message : "Failed to fetch temperature history",
+      });
+    }
+  });
+
+  app.get("/api/printers/:id/camera", async (req, res) => {
+    try {
+      const printerId = parseInt(req.params.id);
+      const printer = await storage.getPrinter(printerId);
+
+      if (!printer) {
+        return res.status(404).json({ error: "Printer not found" });
+      }
+
+      res.json({ camera: printer.camera ?? null });
+    } catch (error) {
+      res.status(500).json({
+        error: error instanceof Error ? error.message : "Failed to fetch camera settings",
+      });
+    }
+  });
+
+  app.put("/api/printers/:id/camera", requireRole("admin"), async (req, res) => {
+    try {
+      const printerId = parseInt(req.params.id);
+      const printer = await storage.getPrinter(printerId);
+
+      if (!printer) {
+        return res.status(404).json({ error: "Printer not found" });
+      }
+
+      if (req.body.camera === null) {
+        await storage.updatePrinter(printerId, { camera: null });
+        return res.json({ message: "Camera removed", camera: null });
+      }
+
+      const validationResult = cameraConfigSchema.safeParse(req.body.camera);
+      if (!validationResult.success) {
+        return res.status(400).json({ error: validationResult.error.errors[0]?.message || "Invalid camera settings" });
+      }
+
+      await storage.updatePrinter(printerId, { camera: validationResult.data });
+      res.json({ message: "Camera saved", camera: validationResult.data });
+    } catch (error) {
+      res.status(500).json({
+        error: error instanceof Error ? error.message : "Failed to save camera settings",
+      });
+    }
+  });
+
+  // Same-origin MJPEG stream of the printer's camera, whatever kind of source it is
+  app.get("/api/printers/:id/camera/stream", async (req, res) => {
+    try {
+      const printerId = parseInt(req.params.id);
+      const printer = await storage.getPrinter(printerId);
+
+      if (!printer) {
+        return res.status(404).json({ error: "Printer not found" });
+      }
+
+      if (!printer.camera) {
+        return res.status(404).json({ error: "No camera configured" });
+      }
+
+      await streamCamera(printer.camera, res);
+    } catch (error) {
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+      res.status(502).json({
+        error: error instanceof Error ? error.message : "Camera unavailable",
+      });
+    }
+  });
+
+  app.get("/api/printers/:id/camera/snapshot", async (req, res) => {
+    try {
+      const printerId = parseInt(req.params.id);
+      const printer = await storage.getPrinter(printerId);
+
+      if (!printer) {
+        return res.status(404).json({ error: "Printer not found" });
+      }
+
+      if (!printer.camera) {
+        return res.status(404).json({ error: "No camera configured" });
+      }
+
+      const frame = await getCameraSnapshot(printer.camera);
+      res.set({ "Content-Type": "image/jpeg", "Cache-Control": "no-store" });
+      res.send(frame);
+    } catch (error) {
+      res.status(502).json({
+        error: error instanceof Error ? error.message : "Camera unavailable",
+      });
+    }
+  });
+
+  app.get("/api/printers/:id/dashboard-preferences", async (req, res) => {
+    try {
+      const printerId = parseInt(req.params.id);
+      const printer = await storage.getPrinter(printerId);
+      
+      if (!printer) {
+        return res.status(404).json({ error: "Printer not found" });
+      }
+
+      const enabledModules = await storage.getDashboardPreferences(printerId);
+      res.json({ enabledModules });
+    } catch (error) {
+      res.status(500).json({
+        error: error instanceof Error ? error.message : "Failed to fetch preferences",
+      });
+    }
+  });
+
+  app.put("/api/printers/:id/dashboard-preferences", async (req, res) => {
+    try {
+      const printerId = parseInt(req.params.id);
+      const printer = await storage.getPrinter(printerId);
+      
+      if (!printer) {
+        return res.status(404).json({ error: "Printer not found" });
+      }
+
+      const validationResult = dashboardPreferencesSchema.pick({ enabledModules: true }).safeParse(req.body);
+      
+      if (!validationResult.success) {
+        return res.status(400).json({ error: "enabledModules must be an array of strings" });
+      }
+
+      const { enabledModules } = validationResult.data;
+
+      await storage.setDashboardPreferences(printerId, enabledModules);
+      res.json({ message: "Preferences saved", enabledModules });
+    } catch (error) {
+      res.status(500).json({
+        error: error instanceof Error ? error.message : "Failed to save preferences",
+      });
+    }
+  });
+
+  app.get("/api/printers/:id/uploaded-files", async (req, res) => {
+    try {
+      const printerId = parseInt(req.params.id);
+      const printer = await storage.getPrinter(printerId);
+      
+      if (!printer) {
+        return res.status(404).json({ error: "Printer not found" });
+      }
+
+      const files = await storage.getUploadedFiles(printerId);
+      res.json(files);
     } catch (error) {
       res.status(500).json({
         error: error instanceof Error ? error.message : "Failed to fetch uploaded files",
@@ -581,7 +1469,9 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/printers/:id/uploaded-files", async (req, res) => {
+  // Accepts either a multipart upload with a "file" field, or JSON with just a
+  // filename to track a file that was sent to the printer some other way
+  app.post("/api/printers/:id/uploaded-files", gcodeUpload.single("file"), async (req, res) => {
     try {
       const printerId = parseInt(req.params.id);
       const printer = await storage.getPrinter(printerId);
@@ -590,29 +1480,84 @@ export async function registerRoutes(
         return res.status(404).json({ error: "Printer not found" });
       }
 
-      const { filename, displayName, fileContent, source } = req.body;
+      const { displayName, fileContent, source } = req.body;
+      const filename = req.file?.originalname || req.body.filename;
       
       if (!filename) {
         return res.status(400).json({ error: "Filename is required" });
       }
 
-      // Extract thumbnail from G-code if available
-      const thumbnail = fileContent ? extractThumbnail(fileContent) : null;
-
-      const file = await storage.addUploadedFile({
-        printerId,
-        filename,
-        displayName: displayName || null,
-        fileContent: fileContent || null,
-        thumbnail,
-        source: source || "manual",
-      });
+      let file;
+      if (req.file) {
+        file = await saveGcodeFile({
+          path: req.file.path,
+          move: true,
+          printerId,
+          filename,
+          displayName: displayName || null,
+          source: source || "upload",
+        });
+      } else if (fileContent) {
+        file = await saveGcodeFile({
+          content: Buffer.from(fileContent, "utf-8"),
+          printerId,
+          filename,
+          displayName: displayName || null,
+          source: source || "manual",
+        });
+      } else {
+        file = await storage.addUploadedFile({
+          printerId,
+          filename,
+          displayName: displayName || null,
+          source: source || "manual",
+        });
+      }
 
       res.status(201).json(file);
     } catch (error) {
       res.status(500).json({
         error: error instanceof Error ? error.message : "Failed to add file",
       });
+    } finally {
+      await discardUpload(req.file);
+    }
+  });
+
+  app.get("/api/printers/:id/uploaded-files/:fileId/download", async (req, res) => {
+    try {
+      const printerId = parseInt(req.params.id);
+      const file = await storage.getUploadedFile(parseInt(req.params.fileId), printerId);
+
+      if (!file) {
+        return res.status(404).json({ error: "File not found" });
+      }
+
+      if (!file.contentHash) {
+        return res.status(404).json({ error: "No file content stored for this file" });
+      }
+
+      // attachment() sends the name as UTF-8 with an ASCII fallback
+      res.attachment(file.filename);
+      res.setHeader("Content-Type", "text/x.gcode");
+      if (file.size !== null) {
+        res.setHeader("Content-Length", file.size);
+      }
+
+      const stream = fileStore.createReadStream(file.contentHash);
+      stream.on("error", (error) => {
+        console.error(`Failed to read stored file ${file.id}:`, error);
+        if (!res.headersSent) {
+          res.status(500).json({ error: "Failed to read file" });
+        } else {
+          res.destroy();
+        }
+      });
+      stream.pipe(res);
+    } catch (error) {
+      res.status(500).json({
+        error: error instanceof Error ? error.message : "Failed to download file",
+      });
     }
   });
 
@@ -626,11 +1571,70 @@ export async function registerRoutes(
         return res.status(404).json({ error: "Printer not found" });
       }
 
+      const file = await storage.getUploadedFile(fileId, printerId);
       const deleted = await storage.deleteUploadedFile(fileId, printerId);
-      if (!deleted) {
+      if (!file || !deleted) {
+        return res.status(404).json({ error: "File not found" });
+      }
+
+      await releaseGcodeContent(file.contentHash);
+
+      res.json({ message: "File removed" });
+    } catch (error) {
+      res.status(500).json({
+        error: error instanceof Error ? error.message : "Failed to remove file",
+      });
+    }
+  });
+
+  // Files no upload rule, default printer or single printer claimed
+  app.get("/api/inbox", async (req, res) => {
+    try {
+      res.json(await storage.getUploadedFiles(null));
+    } catch (error) {
+      res.status(500).json({
+        error: error instanceof Error ? error.message : "Failed to fetch unassigned files",
+      });
+    }
+  });
+
+  app.post("/api/inbox/:fileId/assign", async (req, res) => {
+    try {
+      const fileId = parseInt(req.params.fileId);
+      const parsed = assignFileSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid printer" });
+      }
+
+      const printer = await storage.getPrinter(parsed.data.printerId);
+      if (!printer) {
+        return res.status(404).json({ error: "Printer not found" });
+      }
+
+      const file = await storage.getUploadedFile(fileId, null);
+      if (!file) {
+        return res.status(404).json({ error: "File not found" });
+      }
+
+      const updated = await storage.updateUploadedFile(fileId, { printerId: printer.id });
+      res.json(updated);
+    } catch (error) {
+      res.status(500).json({
+        error: error instanceof Error ? error.message : "Failed to assign file",
+      });
+    }
+  });
+
+  app.delete("/api/inbox/:fileId", async (req, res) => {
+    try {
+      const fileId = parseInt(req.params.fileId);
+      const file = await storage.getUploadedFile(fileId, null);
+      const deleted = await storage.deleteUploadedFile(fileId, null);
+      if (!file || !deleted) {
         return res.status(404).json({ error: "File not found" });
       }
 
+      await releaseGcodeContent(file.contentHash);
       res.json({ message: "File removed" });
     } catch (error) {
       res.status(500).json({
@@ -639,36 +1643,88 @@ export async function registerRoutes(
     }
   });
 
+  // OctoPrint emulation for slicers (see server/octoprint.ts). Besides a
+  // session these take a user's API key, see server/auth.ts.
+  app.get("/api/version", (req, res) => {
+    res.json(OCTOPRINT_VERSION);
+  });
+
+  app.get("/api/printer", async (req, res) => {
+    try {
+      const printer = await getDefaultPrinter();
+      const status = printer ? await getOrFetchStatus(printer) : null;
+      if (!status) {
+        return res.status(409).json({ error: "Printer is not operational" });
+      }
+
+      res.json(toOctoPrintPrinterState(status));
+    } catch (error) {
+      res.status(500).json({
+        error: error instanceof Error ? error.message : "Failed to get printer state",
+      });
+    }
+  });
+
+  app.get("/api/job", async (req, res) => {
+    try {
+      const printer = await getDefaultPrinter();
+      const status = printer ? await getOrFetchStatus(printer) : null;
+      res.json(await getOctoPrintJob(printer, status));
+    } catch (error) {
+      res.status(500).json({
+        error: error instanceof Error ? error.message : "Failed to get job",
+      });
+    }
+  });
+
   // Slicer-compatible upload endpoint (OctoPrint-style)
   // POST /api/files/local - accepts multipart/form-data with "file" field
   // Compatible with Cura, PrusaSlicer, and other slicers
-  app.post("/api/files/local", upload.single("file"), async (req, res) => {
+  app.post("/api/files/local", gcodeUpload.single("file"), async (req, res) => {
     try {
       const file = req.file;
       if (!file) {
         return res.status(400).json({ error: "No file uploaded" });
       }
 
-      // Get the first connected printer, or first printer if none connected
-      const printers = await storage.getAllPrinters();
-      const printer = printers.find((p) => p.isConnected) || printers[0];
-      
-      if (!printer) {
-        return res.status(400).json({ error: "No printer configured. Please add a printer first." });
-      }
-
-      const fileContent = file.buffer.toString("utf-8");
       const displayName = file.originalname.replace(/\.[^/.]+$/, "");
-      const thumbnail = extractThumbnail(fileContent);
-
-      const uploadedFile = await storage.addUploadedFile({
-        printerId: printer.id,
+      const print = isOctoPrintTrue(req.body.print);
+      const select = print || isOctoPrintTrue(req.body.select);
+
+      // Upload rules pick the printer; OctoPrint's target folder is matched
+      // like a watch subfolder
+      const uploadedFile = await saveIncomingGcodeFile({
+        path: file.path,
+        move: true,
         filename: file.originalname,
         displayName,
-        fileContent,
-        thumbnail,
         source: "slicer",
+        folder: (req.body.path as string | undefined) || null,
+        tag: ((req.body.tag || req.query.tag) as string | undefined) || null,
       });
+      res.locals.audit = { printerId: uploadedFile.printerId, details: { fileId: uploadedFile.id } } satisfies AuditContext;
+
+      // "Upload and Print": the file stays in the library even when the
+      // print can't start, so it can be started from the dashboard instead
+      const printer = uploadedFile.printerId !== null ? await storage.getPrinter(uploadedFile.printerId) : undefined;
+      if (print && !printer) {
+        return res.status(409).json({
+          error: "File saved to the unassigned inbox; no upload rule or default printer matched it",
+        });
+      }
+      if (select && printer) {
+        selectOctoPrintFile(printer.id, uploadedFile.id);
+
+        if (print) {
+          const notReady = await whyPrinterNotReady(printer, await getOrFetchStatus(printer));
+          if (notReady) {
+            return res.status(409).json({ error: `File saved, but the print can't start: ${notReady}` });
+          }
+
+          await uploadToPrinter(printer, uploadedFile);
+          await startJob(printer.id, uploadedFile.filename, "slicer", uploadedFile.id);
+        }
+      }
 
       // Return OctoPrint-compatible response
       res.status(201).json({
@@ -681,16 +1737,20 @@ export async function registerRoutes(
           },
         },
         done: true,
+        effectiveSelect: select && !!printer,
+        effectivePrint: print,
       });
     } catch (error) {
       res.status(500).json({
         error: error instanceof Error ? error.message : "Failed to upload file",
       });
+    } finally {
+      await discardUpload(req.file);
     }
   });
 
   // Alternative endpoint: /api/upload for direct slicer integration
-  app.post("/api/upload", upload.single("file"), async (req, res) => {
+  app.post("/api/upload", gcodeUpload.single("file"), async (req, res) => {
     try {
       const file = req.file;
       if (!file) {
@@ -699,36 +1759,40 @@ export async function registerRoutes(
 
       // Allow specifying printer by ID in form data or query param
       const printerIdParam = (req.body.printerId || req.query.printerId) as string | undefined;
-      let printer;
+      const displayName = (req.body.displayName as string) || file.originalname.replace(/\.[^/.]+$/, "");
+      let uploadedFile;
 
       if (printerIdParam) {
-        printer = await storage.getPrinter(parseInt(printerIdParam));
+        const printer = await storage.getPrinter(parseInt(printerIdParam));
+        if (!printer) {
+          return res.status(404).json({ error: "Printer not found" });
+        }
+        uploadedFile = await saveGcodeFile({
+          path: file.path,
+          move: true,
+          printerId: printer.id,
+          filename: file.originalname,
+          displayName,
+          source: "slicer",
+        });
       } else {
-        const printers = await storage.getAllPrinters();
-        printer = printers.find((p) => p.isConnected) || printers[0];
-      }
-      
-      if (!printer) {
-        return res.status(400).json({ error: "No printer configured or found" });
+        uploadedFile = await saveIncomingGcodeFile({
+          path: file.path,
+          move: true,
+          filename: file.originalname,
+          displayName,
+          source: "slicer",
+          folder: ((req.body.folder || req.query.folder) as string | undefined) || null,
+          tag: ((req.body.tag || req.query.tag) as string | undefined) || null,
+        });
       }
-
-      const fileContent = file.buffer.toString("utf-8");
-      const displayName = (req.body.displayName as string) || file.originalname.replace(/\.[^/.]+$/, "");
-      const thumbnail = extractThumbnail(fileContent);
-
-      const uploadedFile = await storage.addUploadedFile({
-        printerId: printer.id,
-        filename: file.originalname,
-        displayName,
-        fileContent,
-        thumbnail,
-        source: "slicer",
-      });
+      res.locals.audit = { printerId: uploadedFile.printerId, details: { fileId: uploadedFile.id } } satisfies AuditContext;
 
       res.status(201).json({
         success: true,
         file: {
           id: uploadedFile.id,
+          printerId: uploadedFile.printerId,
           filename: uploadedFile.filename,
           displayName: uploadedFile.displayName,
         },
@@ -738,6 +1802,8 @@ export async function registerRoutes(
       res.status(500).json({
         error: error instanceof Error ? error.message : "Failed to upload file",
       });
+    } finally {
+      await discardUpload(req.file);
     }
   });
 
@@ -755,8 +1821,8 @@ export async function registerRoutes(
         direct: `${baseUrl}/api/upload`,
       },
       instructions: {
-        cura: `In Cura, install the OctoPrint Connection plugin. Set the URL to: ${baseUrl}`,
-        prusaslicer: `In PrusaSlicer, go to Printer Settings > Physical Printer. Set Host Type to "OctoPrint", and URL to: ${baseUrl}`,
+        cura: `In Cura, install the OctoPrint Connection plugin. Set the URL to: ${baseUrl}, and the API key from your account in Settings`,
+        prusaslicer: `In PrusaSlicer, go to Printer Settings > Physical Printer. Set Host Type to "OctoPrint", URL to: ${baseUrl}, and the API key from your account in Settings`,
         generic: `POST multipart/form-data to ${baseUrl}/api/upload with a 'file' field containing your G-code`,
       },
     });
@@ -777,7 +1843,7 @@ export async function registerRoutes(
     }
   });
 
-  app.put("/api/settings/watch-folder", async (req, res) => {
+  app.put("/api/settings/watch-folder", requireRole("admin"), async (req, res) => {
     try {
       const { path: folderPath } = req.body;
 
@@ -801,6 +1867,90 @@ export async function registerRoutes(
     }
   });
 
+  // Where slicer uploads and watch folder files go when they don't name a printer
+  app.put("/api/settings/default-printer", requireRole("admin"), async (req, res) => {
+    try {
+      const parsed = defaultPrinterSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid default printer" });
+      }
+
+      const { printerId } = parsed.data;
+      if (printerId !== null && !(await storage.getPrinter(printerId))) {
+        return res.status(404).json({ error: "Printer not found" });
+      }
+
+      await setDefaultPrinterId(printerId);
+      res.json({ defaultPrinterId: printerId });
+    } catch (error) {
+      res.status(500).json({
+        error: error instanceof Error ? error.message : "Failed to set default printer",
+      });
+    }
+  });
+
+  app.get("/api/settings/upload-rules", async (req, res) => {
+    try {
+      res.json(await storage.getUploadRules());
+    } catch (error) {
+      res.status(500).json({
+        error: error instanceof Error ? error.message : "Failed to fetch upload rules",
+      });
+    }
+  });
+
+  // Replaces the whole ordered list; the first matching rule wins
+  app.put("/api/settings/upload-rules", requireRole("admin"), async (req, res) => {
+    try {
+      const parsed = uploadRulesSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid upload rules" });
+      }
+
+      const printerIds = new Set((await storage.getAllPrinters()).map((p) => p.id));
+      if (parsed.data.rules.some((rule) => !printerIds.has(rule.printerId))) {
+        return res.status(404).json({ error: "Printer not found" });
+      }
+
+      res.json(await storage.replaceUploadRules(parsed.data.rules));
+    } catch (error) {
+      res.status(500).json({
+        error: error instanceof Error ? error.message : "Failed to save upload rules",
+      });
+    }
+  });
+
+  // Audit trail, newest first; see server/audit.ts for what gets recorded
+  app.get("/api/audit", requireRole("admin"), async (req, res) => {
+    try {
+      const parsed = auditQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid audit filter" });
+      }
+      res.json(await storage.getAuditEntries(parsed.data));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch audit log" });
+    }
+  });
+
+  // Same filters as GET /api/audit, without the page size cap
+  app.get("/api/audit/export", requireRole("admin"), async (req, res) => {
+    try {
+      const parsed = auditQuerySchema.omit({ limit: true, offset: true }).safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid audit filter" });
+      }
+      const entries = await storage.getAuditEntries({ ...parsed.data, limit: AUDIT_EXPORT_LIMIT, offset: 0 });
+      const csv = toAuditCsv(entries, await storage.getAllPrinters());
+
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="audit-log-${new Date().toISOString().slice(0, 10)}.csv"`);
+      res.send(csv);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to export audit log" });
+    }
+  });
+
   // Get all settings for the settings page
   app.get("/api/settings", async (req, res) => {
     try {
@@ -813,16 +1963,24 @@ export async function registerRoutes(
       const lubanProxyStatus = getLubanProxyStatus();
 
       res.json({
+        defaultPrinterId: await getDefaultPrinterId(),
         watchFolder: {
           path: watchFolderPath,
           active: watcherStatus.active,
         },
         slicerApi: {
-          octoprintUrl: `${baseUrl}/api/files/local`,
+          // Slicers add the /api/... paths themselves
+          octoprintUrl: baseUrl,
           directUrl: `${baseUrl}/api/upload`,
           configUrl: `${baseUrl}/api/slicer-config`,
         },
         lubanProxy: lubanProxyStatus,
+        moonraker: {
+          ...getMoonrakerStatus(),
+          port: (await getMoonrakerPort()) ?? DEFAULT_MOONRAKER_PORT,
+          corsDomains: await getMoonrakerCorsDomains(),
+        },
+        tokenEncryption: hasRole(req.user!.role, "admin") ? getTokenEncryptionStatus() : null,
       });
     } catch (error) {
       res.status(500).json({ error: "Failed to get settings" });
@@ -843,7 +2001,7 @@ export async function registerRoutes(
     }
   });
 
-  app.put("/api/settings/luban-proxy", async (req, res) => {
+  app.put("/api/settings/luban-proxy", requireRole("admin"), async (req, res) => {
     try {
       const { printerIp, enabled } = req.body;
 
@@ -878,6 +2036,108 @@ export async function registerRoutes(
     }
   });
 
+  app.put("/api/settings/moonraker", requireRole("admin"), async (req, res) => {
+    try {
+      const parsed = moonrakerSettingsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid Moonraker settings" });
+      }
+
+      if (parsed.data.corsDomains) {
+        await setMoonrakerCorsDomains(parsed.data.corsDomains);
+      }
+
+      if (!parsed.data.enabled) {
+        const wasRunning = getMoonrakerStatus().enabled;
+        await setMoonrakerPort(null);
+        await stopMoonraker();
+        return res.json({ success: true, message: wasRunning ? "Moonraker API disabled" : "Moonraker settings saved" });
+      }
+
+      const port = parsed.data.port ?? DEFAULT_MOONRAKER_PORT;
+      // Saving only the CORS domains leaves connected clients alone
+      const running = getMoonrakerStatus();
+      if (running.enabled && running.port === port) {
+        return res.json({ success: true, message: "Moonraker settings saved", port });
+      }
+      if (!(await startMoonraker(port))) {
+        return res.status(400).json({ error: `Failed to start the Moonraker API. Port ${port} may be in use.` });
+      }
+
+      await setMoonrakerPort(port);
+      res.json({ success: true, message: `Moonraker API listening on port ${port}`, port });
+    } catch (error) {
+      res.status(500).json({
+        error: error instanceof Error ? error.message : "Failed to configure Moonraker API",
+      });
+    }
+  });
+
+  app.get("/api/settings/timelapse", async (req, res) => {
+    try {
+      const [retention, usage] = await Promise.all([getTimelapseRetention(), getTimelapseUsage()]);
+      res.json({ ...retention, usage });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to get timelapse settings" });
+    }
+  });
+
+  app.put("/api/settings/timelapse", requireRole("admin"), async (req, res) => {
+    try {
+      const validationResult = timelapseRetentionSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ error: validationResult.error.errors[0]?.message || "Invalid retention settings" });
+      }
+
+      await setTimelapseRetention(validationResult.data);
+      res.json({ success: true, message: "Timelapse retention saved", ...validationResult.data });
+    } catch (error) {
+      res.status(500).json({
+        error: error instanceof Error ? error.message : "Failed to save timelapse settings",
+      });
+    }
+  });
+
+  // Server-Sent Events stream of printer status. Browsers subscribe once and
+  // receive every status change instead of polling the printer themselves.
+  app.get("/api/events", (req, res) => {
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    });
+
+    const send = (event: string, data: unknown) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    const onStatus = (printerId: number, status: PrinterStatus | null) => send("status", { printerId, status });
+    const onPrinter = (printerId: number) => send("printer", { printerId });
+    const onQueue = (printerId: number) => send("queue", { printerId });
+    const onSchedule = (printerId: number) => send("schedule", { printerId });
+
+    // Replay what we already know so a fresh tab renders immediately
+    for (const [printerId, status] of Array.from(getAllCachedStatuses().entries())) {
+      onStatus(printerId, status);
+    }
+
+    printerEvents.on("status", onStatus);
+    printerEvents.on("printer", onPrinter);
+    printerEvents.on("queue", onQueue);
+    printerEvents.on("schedule", onSchedule);
+
+    const heartbeat = setInterval(() => res.write(": keep-alive\n\n"), 25000);
+
+    res.on("close", () => {
+      clearInterval(heartbeat);
+      printerEvents.off("status", onStatus);
+      printerEvents.off("printer", onPrinter);
+      printerEvents.off("queue", onQueue);
+      printerEvents.off("schedule", onSchedule);
+    });
+  });
+
   // Initialize file watcher and Luban proxy on startup
   initializeWatcher().catch((err) => {
     console.error("Failed to initialize file watcher:", err);
@@ -887,5 +2147,23 @@ export async function registerRoutes(
     console.error("Failed to initialize Luban proxy:", err);
   });
 
+  initializeMoonraker().catch((err) => {
+    console.error("Failed to initialize Moonraker API:", err);
+  });
+
+  encryptStoredTokens(storage).catch((err) => {
+    console.error("Failed to encrypt stored printer tokens:", err);
+  });
+
+  initializeStatusPoller().catch((err) => {
+    console.error("Failed to initialize status poller:", err);
+  });
+
+  initializeTemperatureHistory();
+  initializeNotifications();
+  initializeTimelapses();
+  initializeGcodeFiles();
+  initializePrintScheduler();
+
   return httpServer;
 }
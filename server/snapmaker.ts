@@ -0,0 +1,92 @@
+import type { Printer, PrinterStatus } from "@shared/schema";
+
+// Overridable so the app can be pointed at the simulated printer
+export const SNAPMAKER_PORT = parseInt(process.env.SNAPMAKER_PORT || "8080", 10);
+
+export async function snapmakerRequest(
+  ipAddress: string,
+  endpoint: string,
+  method: "GET" | "POST" = "GET",
+  body?: string,
+  token?: string | null
+): Promise<any> {
+  const url = `http://${ipAddress}:${SNAPMAKER_PORT}${endpoint}`;
+  
+  try {
+    const response = await fetch(url, {
+      method,
+      headers: method === "POST" ? { "Content-Type": "application/x-www-form-urlencoded" } : {},
+      body,
+      signal: AbortSignal.timeout(5000),
+    });
+
+    if (response.status === 204) {
+      return { status: 204 };
+    }
+
+    if (!response.ok && response.status !== 204) {
+      throw new Error(`Snapmaker API error: ${response.status}`);
+    }
+
+    const contentType = response.headers.get("content-type");
+    if (contentType?.includes("application/json")) {
+      return await response.json();
+    }
+
+    return { status: response.status };
+  } catch (error) {
+    if (error instanceof Error) {
+      throw new Error(`Failed to connect to printer at ${ipAddress}: ${error.message}`);
+    }
+    throw error;
+  }
+}
+
+export type JobCommand = "pause" | "resume" | "stop";
+
+const JOB_COMMAND_ENDPOINTS: Record<JobCommand, string> = {
+  pause: "/api/v1/pause_print",
+  resume: "/api/v1/resume_print",
+  stop: "/api/v1/stop_print",
+};
+
+/**
+ * Pauses, resumes or stops the print currently running on the printer.
+ */
+export async function sendJobCommand(printer: Printer, command: JobCommand): Promise<void> {
+  await snapmakerRequest(
+    printer.ipAddress,
+    JOB_COMMAND_ENDPOINTS[command],
+    "POST",
+    `token=${encodeURIComponent(printer.token ?? "")}`,
+    printer.token
+  );
+}
+
+/**
+ * Fetches the printer's status and maps the Snapmaker payload onto our
+ * PrinterStatus shape. Throws if the printer can't be reached.
+ */
+export async function fetchPrinterStatus(printer: Printer): Promise<PrinterStatus> {
+  const statusData = await snapmakerRequest(
+    printer.ipAddress,
+    `/api/v1/status?token=${printer.token}`,
+    "GET",
+    undefined,
+    printer.token
+  );
+
+  return {
+    state: statusData.status || statusData.state || "idle",
+    temperature: {
+      nozzle: statusData.temperature?.nozzle || 0,
+      bed: statusData.temperature?.bed || 0,
+      targetNozzle: statusData.temperature?.target_nozzle || 0,
+      targetBed: statusData.temperature?.target_bed || 0,
+    },
+    progress: statusData.progress || 0,
+    currentFile: statusData.current_file || null,
+    currentLine: statusData.currentLine ?? statusData.current_line ?? null,
+    timeRemaining: statusData.time_remaining || null,
+  };
+}
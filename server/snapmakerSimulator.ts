@@ -0,0 +1,482 @@
+import http from "http";
+import dgram from "dgram";
+import { randomUUID } from "crypto";
+import type { AddressInfo } from "net";
+import { extractMetadata } from "./gcodeMetadata";
+
+/**
+ * A fake Snapmaker for development and tests. It speaks the subset of the
+ * printer's HTTP API this app uses (connect with touchscreen confirmation,
+ * status, execute_code, upload, files, pause/resume/stop, disconnect) and
+ * simulates heating, print progress and errors on a tick. It can also answer
+ * the UDP discovery broadcast.
+ */
+
+type SimulatorMachineState = "IDLE" | "RUNNING" | "PAUSED" | "ERROR";
+
+export type SimulatorOptions = {
+  // When false, a connect without a valid token is granted straight away
+  requireConfirmation?: boolean;
+  // How often the simulation advances; 0 leaves ticking to the caller via tick()
+  tickMs?: number;
+  // How many ticks a print takes once the heaters are up to temperature
+  printTicks?: number;
+  // Degrees per tick the nozzle and bed heat up or cool down
+  heatRate?: { nozzle: number; bed: number };
+  // Uploading a file starts printing it, as it does from Luban
+  startOnUpload?: boolean;
+  // Reported in discovery replies
+  name?: string;
+  model?: string;
+};
+
+export type SimulatorFile = {
+  name: string;
+  content: Buffer;
+  uploadedAt: Date;
+};
+
+type ActivePrint = {
+  file: SimulatorFile;
+  // The printer reports RUNNING while it heats up; lines only advance once at temperature
+  heating: boolean;
+  totalLines: number;
+  currentLine: number;
+};
+
+const ROOM_TEMPERATURE = 25;
+const DEFAULT_NOZZLE_TARGET = 200;
+const DEFAULT_BED_TARGET = 60;
+
+function parseForm(body: string): Record<string, string> {
+  return Object.fromEntries(new URLSearchParams(body));
+}
+
+/**
+ * Splits a multipart body on its boundary without decoding file data as text.
+ */
+function parseMultipart(body: Buffer, boundary: string): { fields: Record<string, string>; file?: { name: string; content: Buffer } } {
+  const fields: Record<string, string> = {};
+  let file: { name: string; content: Buffer } | undefined;
+  const delimiter = Buffer.from(`--${boundary}`);
+
+  let start = body.indexOf(delimiter);
+  while (start !== -1) {
+    const partStart = start + delimiter.length;
+    const next = body.indexOf(delimiter, partStart);
+    if (next === -1) break;
+
+    const part = body.subarray(partStart, next);
+    const headerEnd = part.indexOf("\r\n\r\n");
+    if (headerEnd !== -1) {
+      const headers = part.subarray(0, headerEnd).toString("utf-8");
+      // Drop the CRLF that precedes the next delimiter
+      const content = part.subarray(headerEnd + 4, part.length - 2);
+      const name = headers.match(/name="([^"]+)"/)?.[1];
+      const filename = headers.match(/filename="([^"]*)"/)?.[1];
+      if (filename !== undefined) {
+        file = { name: filename, content };
+      } else if (name) {
+        fields[name] = content.toString("utf-8");
+      }
+    }
+    start = next;
+  }
+
+  return { fields, file };
+}
+
+function approach(current: number, target: number, rate: number): number {
+  if (Math.abs(target - current) <= rate) return target;
+  return current + Math.sign(target - current) * rate;
+}
+
+export class SnapmakerSimulator {
+  private server: http.Server | null = null;
+  private discoverySocket: dgram.Socket | null = null;
+  private host = "127.0.0.1";
+  private timer: NodeJS.Timeout | null = null;
+  private readonly options: Required<SimulatorOptions>;
+
+  private tokens = new Set<string>();
+  private awaitingConfirmation = false;
+  private confirmed = false;
+  private offline = false;
+
+  machineState: SimulatorMachineState = "IDLE";
+  errorMessage: string | null = null;
+  temperature = { nozzle: ROOM_TEMPERATURE, bed: ROOM_TEMPERATURE, targetNozzle: 0, targetBed: 0 };
+  position = { x: 0, y: 0, z: 0 };
+  homed = false;
+  relativePositioning = false;
+  progress = 0;
+  activePrint: ActivePrint | null = null;
+
+  readonly files = new Map<string, SimulatorFile>();
+  // Every G-code line received through execute_code, in order
+  readonly executedCode: string[] = [];
+
+  constructor(options: SimulatorOptions = {}) {
+    this.options = {
+      requireConfirmation: options.requireConfirmation ?? true,
+      tickMs: options.tickMs ?? 1000,
+      printTicks: options.printTicks ?? 60,
+      heatRate: options.heatRate ?? { nozzle: 20, bed: 5 },
+      startOnUpload: options.startOnUpload ?? true,
+      name: options.name ?? "Snapmaker Simulator",
+      model: options.model ?? "Snapmaker 2 Model A350",
+    };
+  }
+
+  /**
+   * Starts listening. Pass port 0 to pick a free port; the bound port is returned.
+   */
+  async start(port = 8080, host = "127.0.0.1"): Promise<number> {
+    const server = http.createServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        res.writeHead(500, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: error instanceof Error ? error.message : String(error) }));
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(port, host, () => resolve());
+    });
+    this.server = server;
+    this.host = host;
+
+    if (this.options.tickMs > 0) {
+      this.timer = setInterval(() => this.tick(), this.options.tickMs);
+    }
+    return (server.address() as AddressInfo).port;
+  }
+
+  /**
+   * Answers discovery broadcasts on the given UDP port; the bound port is returned.
+   */
+  async startDiscovery(port = 20054, host = "0.0.0.0"): Promise<number> {
+    const socket = dgram.createSocket({ type: "udp4", reuseAddr: true });
+    socket.on("message", (msg, rinfo) => {
+      if (this.offline || msg.toString("utf-8").trim() !== "discover") return;
+      // A wildcard HTTP host has no single address to report, so leave it
+      // out and let the scanner use the reply's source address
+      const address = this.host === "0.0.0.0" ? "" : this.host;
+      const reply = `${this.options.name}@${address}|model:${this.options.model}|status:${this.machineState}`;
+      socket.send(reply, rinfo.port, rinfo.address);
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      socket.once("error", reject);
+      socket.bind(port, host, () => resolve());
+    });
+    this.discoverySocket = socket;
+    return socket.address().port;
+  }
+
+  async stop(): Promise<void> {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    this.discoverySocket?.close();
+    this.discoverySocket = null;
+    const server = this.server;
+    this.server = null;
+    if (!server) return;
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  /**
+   * Accepts the pending connection, as pressing "Yes" on the touchscreen does.
+   */
+  confirmConnection(): void {
+    if (this.awaitingConfirmation) {
+      this.confirmed = true;
+    }
+  }
+
+  /**
+   * Puts the machine into an error state, aborting any print.
+   */
+  triggerError(message = "Simulated machine fault"): void {
+    this.machineState = "ERROR";
+    this.errorMessage = message;
+    this.activePrint = null;
+    this.temperature.targetNozzle = 0;
+    this.temperature.targetBed = 0;
+  }
+
+  clearError(): void {
+    if (this.machineState !== "ERROR") return;
+    this.machineState = "IDLE";
+    this.errorMessage = null;
+  }
+
+  /**
+   * While offline every request is dropped, as if the printer lost Wi-Fi.
+   */
+  setOffline(offline: boolean): void {
+    this.offline = offline;
+  }
+
+  startPrint(filename: string): void {
+    const file = this.files.get(filename);
+    if (!file) throw new Error(`No such file: ${filename}`);
+
+    const metadata = extractMetadata(file.content.toString("utf-8"));
+    this.activePrint = {
+      file,
+      heating: true,
+      totalLines: Math.max(1, file.content.toString("utf-8").split("\n").length),
+      currentLine: 0,
+    };
+    this.progress = 0;
+    this.temperature.targetNozzle = metadata?.nozzleTemperature ?? DEFAULT_NOZZLE_TARGET;
+    this.temperature.targetBed = metadata?.bedTemperature ?? DEFAULT_BED_TARGET;
+    this.machineState = "RUNNING";
+  }
+
+  pausePrint(): void {
+    if (this.machineState === "RUNNING") {
+      this.machineState = "PAUSED";
+    }
+  }
+
+  resumePrint(): void {
+    if (this.machineState === "PAUSED") {
+      this.machineState = "RUNNING";
+    }
+  }
+
+  stopPrint(): void {
+    if (!this.activePrint) return;
+    this.activePrint = null;
+    this.machineState = "IDLE";
+    this.temperature.targetNozzle = 0;
+    this.temperature.targetBed = 0;
+  }
+
+  /**
+   * Advances the simulation one step: heaters move toward their targets and a
+   * running print moves forward once they get there.
+   */
+  tick(): void {
+    const { heatRate, printTicks } = this.options;
+    const nozzleGoal = this.temperature.targetNozzle || ROOM_TEMPERATURE;
+    const bedGoal = this.temperature.targetBed || ROOM_TEMPERATURE;
+    this.temperature.nozzle = approach(this.temperature.nozzle, nozzleGoal, heatRate.nozzle);
+    this.temperature.bed = approach(this.temperature.bed, bedGoal, heatRate.bed);
+
+    const print = this.activePrint;
+    if (!print || this.machineState !== "RUNNING") return;
+
+    if (print.heating) {
+      print.heating = this.temperature.nozzle !== nozzleGoal || this.temperature.bed !== bedGoal;
+      return;
+    }
+
+    print.currentLine = Math.min(print.totalLines, print.currentLine + Math.ceil(print.totalLines / printTicks));
+    this.progress = Math.round((print.currentLine / print.totalLines) * 1000) / 10;
+
+    if (print.currentLine >= print.totalLines) {
+      // The printer reports the finished file at 100% until the next job starts
+      this.activePrint = null;
+      this.machineState = "IDLE";
+      this.temperature.targetNozzle = 0;
+      this.temperature.targetBed = 0;
+    }
+  }
+
+  private timeRemaining(): number | null {
+    const print = this.activePrint;
+    if (!print || this.options.tickMs <= 0) return null;
+    const remainingTicks = Math.ceil(((print.totalLines - print.currentLine) / print.totalLines) * this.options.printTicks);
+    return Math.round((remainingTicks * this.options.tickMs) / 1000);
+  }
+
+  private statusPayload() {
+    return {
+      status: this.machineState,
+      error: this.errorMessage,
+      temperature: {
+        nozzle: this.temperature.nozzle,
+        bed: this.temperature.bed,
+        target_nozzle: this.temperature.targetNozzle,
+        target_bed: this.temperature.targetBed,
+      },
+      x: this.position.x,
+      y: this.position.y,
+      z: this.position.z,
+      homed: this.homed,
+      progress: this.progress,
+      current_file: this.activePrint?.file.name ?? null,
+      currentLine: this.activePrint?.currentLine ?? null,
+      time_remaining: this.timeRemaining(),
+    };
+  }
+
+  private executeLine(line: string): void {
+    const code = line.split(";")[0].trim();
+    if (!code) return;
+    this.executedCode.push(code);
+
+    const [command, ...args] = code.toUpperCase().split(/\s+/);
+    const param = (letter: string) => {
+      const arg = args.find((a) => a.startsWith(letter));
+      return arg ? parseFloat(arg.slice(1)) : undefined;
+    };
+
+    switch (command) {
+      case "G90":
+        this.relativePositioning = false;
+        break;
+      case "G91":
+        this.relativePositioning = true;
+        break;
+      case "G0":
+      case "G1":
+        for (const axis of ["x", "y", "z"] as const) {
+          const value = param(axis.toUpperCase());
+          if (value === undefined || Number.isNaN(value)) continue;
+          this.position[axis] = this.relativePositioning ? this.position[axis] + value : value;
+        }
+        break;
+      case "G28":
+        // Bare G28 homes everything; otherwise only the axes given
+        for (const axis of ["x", "y", "z"] as const) {
+          if (args.length === 0 || args.some((a) => a.includes(axis.toUpperCase()))) {
+            this.position[axis] = 0;
+          }
+        }
+        this.homed = true;
+        break;
+      case "M104":
+      case "M109":
+        this.temperature.targetNozzle = param("S") ?? 0;
+        break;
+      case "M140":
+      case "M190":
+        this.temperature.targetBed = param("S") ?? 0;
+        break;
+      case "M112":
+        this.triggerError("Emergency stop");
+        break;
+    }
+  }
+
+  private isAuthorized(token: string | null | undefined): boolean {
+    return !!token && this.tokens.has(token);
+  }
+
+  private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    if (this.offline) {
+      req.socket.destroy();
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer);
+    }
+    const body = Buffer.concat(chunks);
+
+    const url = new URL(req.url || "/", "http://simulator");
+    const method = req.method || "GET";
+    const contentType = req.headers["content-type"] || "";
+
+    const json = (statusCode: number, data: unknown) => {
+      res.writeHead(statusCode, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(data));
+    };
+
+    let fields: Record<string, string> = {};
+    let upload: { name: string; content: Buffer } | undefined;
+    const boundary = contentType.match(/boundary=(?:"([^"]+)"|([^;]+))/);
+    if (boundary) {
+      ({ fields, file: upload } = parseMultipart(body, boundary[1] || boundary[2]));
+    } else if (body.length > 0) {
+      fields = parseForm(body.toString("utf-8"));
+    }
+    const token = fields.token ?? url.searchParams.get("token");
+
+    const route = `${method} ${url.pathname}`;
+
+    if (route === "POST /api/v1/connect") {
+      if (this.isAuthorized(token)) {
+        return json(200, { token, readonly: false });
+      }
+      if (!this.options.requireConfirmation || this.confirmed) {
+        const issued = randomUUID();
+        this.tokens.add(issued);
+        this.awaitingConfirmation = false;
+        this.confirmed = false;
+        return json(200, { token: issued, readonly: false });
+      }
+      this.awaitingConfirmation = true;
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+    if (!this.isAuthorized(token)) {
+      return json(401, { error: "Unauthorized" });
+    }
+
+    switch (route) {
+      case "GET /api/v1/status":
+        return json(200, this.statusPayload());
+
+      case "POST /api/v1/execute_code": {
+        if (this.machineState === "ERROR") {
+          return json(400, { error: this.errorMessage });
+        }
+        for (const line of (fields.code ?? "").split("\n")) {
+          this.executeLine(line);
+        }
+        return json(200, { message: "OK" });
+      }
+
+      case "POST /api/v1/upload": {
+        if (!upload) {
+          return json(400, { error: "No file" });
+        }
+        if (this.activePrint) {
+          return json(409, { error: "Machine is busy" });
+        }
+        this.files.set(upload.name, { ...upload, uploadedAt: new Date() });
+        if (this.options.startOnUpload && this.machineState !== "ERROR") {
+          this.startPrint(upload.name);
+        }
+        return json(200, { message: "OK" });
+      }
+
+      case "GET /api/v1/files":
+        return json(200, {
+          files: Array.from(this.files.values()).map((file) => ({
+            name: file.name,
+            size: file.content.length,
+            date: file.uploadedAt.toISOString(),
+          })),
+        });
+
+      case "POST /api/v1/pause_print":
+        this.pausePrint();
+        return json(200, { message: "OK" });
+
+      case "POST /api/v1/resume_print":
+        this.resumePrint();
+        return json(200, { message: "OK" });
+
+      case "POST /api/v1/stop_print":
+        this.stopPrint();
+        return json(200, { message: "OK" });
+
+      case "POST /api/v1/disconnect":
+        this.tokens.delete(token!);
+        return json(200, { message: "OK" });
+
+      default:
+        return json(404, { error: "Not found" });
+    }
+  }
+}
@@ -0,0 +1,208 @@
+import { storage } from "./storage";
+import { fetchPrinterStatus } from "./snapmaker";
+import { trackPrinterStatus } from "./jobTracker";
+import { recordTemperatureSample } from "./temperatureHistory";
+import { checkTemperatures } from "./notifications";
+import { updateTimelapse } from "./timelapse";
+import { advanceQueue } from "./printQueue";
+import { printerEvents } from "./printerEvents";
+import { learnPrinterIdentity, relocatePrinter } from "./printerIdentity";
+import type { Printer, PrinterStatus } from "@shared/schema";
+
+const POLL_INTERVAL_MS = 3000;
+// A printer that doesn't answer is polled less and less often, down to this
+const MAX_POLL_INTERVAL_MS = 60_000;
+// One missed poll is usually a busy printer or a Wi-Fi blip, so the printer
+// only counts as offline after this many in a row
+const OFFLINE_AFTER_FAILURES = 3;
+
+type PollerState = {
+  timer: NodeJS.Timeout | null;
+  status: PrinterStatus | null;
+  updatedAt: number | null;
+  stopped: boolean;
+  // Polls in a row the printer didn't answer
+  failures: number;
+};
+
+const pollers = new Map<number, PollerState>();
+
+async function pollOnce(printerId: number, state: PollerState): Promise<void> {
+  const printer = await storage.getPrinter(printerId);
+
+  if (!printer || !printer.token) {
+    stopPolling(printerId);
+    return;
+  }
+
+  try {
+    const status = await fetchPrinterStatus(printer);
+    if (state.stopped) return;
+
+    await storage.updatePrinter(printerId, { isConnected: true, lastSeen: new Date() });
+    if (state.failures >= OFFLINE_AFTER_FAILURES) {
+      console.log(`[StatusPoller] Printer ${printer.name} is back`);
+    }
+    state.failures = 0;
+    if (!printer.isConnected) {
+      printerEvents.emit("printer", printerId);
+    }
+    learnPrinterIdentity(printer);
+
+    const changed = JSON.stringify(status) !== JSON.stringify(state.status);
+    state.status = status;
+    state.updatedAt = Date.now();
+
+    if (changed) {
+      printerEvents.emit("status", printerId, status);
+    }
+
+    // Timelapse capture and the print queue follow the job history, so they
+    // run once that's up to date
+    trackPrinterStatus(printerId, status)
+      .catch((err) => {
+        console.error(`[StatusPoller] Failed to update job history for printer ${printerId}:`, err);
+      })
+      .then(() => updateTimelapse(printerId, status))
+      .catch((err) => {
+        console.error(`[StatusPoller] Failed to update timelapse for printer ${printerId}:`, err);
+      })
+      .then(() => advanceQueue(printerId, status))
+      .catch((err) => {
+        console.error(`[StatusPoller] Failed to advance print queue for printer ${printerId}:`, err);
+      });
+    recordTemperatureSample(printerId, status).catch((err) => {
+      console.error(`[StatusPoller] Failed to record temperature for printer ${printerId}:`, err);
+    });
+    checkTemperatures(printerId, status).catch((err) => {
+      console.error(`[StatusPoller] Failed to check temperatures for printer ${printerId}:`, err);
+    });
+  } catch (error) {
+    if (state.stopped) return;
+
+    // The printer may have picked up a new DHCP lease; if it's found, the
+    // next poll goes to the new address with the same token
+    const relocated = await relocatePrinter(printer).catch((err) => {
+      console.error(`[StatusPoller] Failed to look for printer ${printerId} on the network:`, err);
+      return null;
+    });
+    if (relocated || state.stopped) return;
+
+    // Polling carries on either way, so the printer comes back by itself
+    state.failures++;
+    if (state.failures > OFFLINE_AFTER_FAILURES) return;
+    const reason = error instanceof Error ? error.message : error;
+    if (state.failures < OFFLINE_AFTER_FAILURES) {
+      console.log(`[StatusPoller] No answer from printer ${printer.name} (${state.failures}/${OFFLINE_AFTER_FAILURES}): ${reason}`);
+      return;
+    }
+
+    console.log(`[StatusPoller] Lost printer ${printer.name}: ${reason}`);
+    state.status = null;
+    state.updatedAt = null;
+    await storage.updatePrinter(printerId, { isConnected: false });
+    printerEvents.emit("status", printerId, null);
+    printerEvents.emit("printer", printerId);
+  }
+}
+
+// Backs off from POLL_INTERVAL_MS while the printer isn't answering
+function pollDelay(state: PollerState): number {
+  return Math.min(POLL_INTERVAL_MS * 2 ** state.failures, MAX_POLL_INTERVAL_MS);
+}
+
+function scheduleNext(printerId: number, state: PollerState) {
+  if (state.stopped) return;
+  state.timer = setTimeout(async () => {
+    try {
+      await pollOnce(printerId, state);
+    } catch (error) {
+      console.error(`[StatusPoller] Poll failed for printer ${printerId}:`, error);
+    }
+    scheduleNext(printerId, state);
+  }, pollDelay(state));
+}
+
+/**
+ * Starts the background status poll for a printer. Safe to call repeatedly;
+ * only one poller ever runs per printer.
+ */
+export function startPolling(printerId: number): void {
+  if (pollers.has(printerId)) return;
+
+  const state: PollerState = { timer: null, status: null, updatedAt: null, stopped: false, failures: 0 };
+  pollers.set(printerId, state);
+  console.log(`[StatusPoller] Polling printer ${printerId} every ${POLL_INTERVAL_MS / 1000}s`);
+
+  // Poll right away so clients don't wait a full interval for the first status
+  pollOnce(printerId, state)
+    .catch((error) => console.error(`[StatusPoller] Poll failed for printer ${printerId}:`, error))
+    .finally(() => scheduleNext(printerId, state));
+}
+
+export function stopPolling(printerId: number): void {
+  const state = pollers.get(printerId);
+  if (!state) return;
+
+  state.stopped = true;
+  if (state.timer) clearTimeout(state.timer);
+  pollers.delete(printerId);
+  console.log(`[StatusPoller] Stopped polling printer ${printerId}`);
+}
+
+export function isPolling(printerId: number): boolean {
+  return pollers.has(printerId);
+}
+
+/**
+ * Returns the last status the poller saw, or null when the printer isn't
+ * being polled or the cached value is older than `maxAgeMs`.
+ */
+export function getCachedStatus(printerId: number, maxAgeMs = POLL_INTERVAL_MS * 3): PrinterStatus | null {
+  const state = pollers.get(printerId);
+  if (!state?.status || !state.updatedAt) return null;
+  if (Date.now() - state.updatedAt > maxAgeMs) return null;
+  return state.status;
+}
+
+/**
+ * The poller's cached status, or a direct read that starts polling from here
+ * on. Null when the printer isn't connected or can't be reached.
+ */
+export async function getOrFetchStatus(printer: Printer): Promise<PrinterStatus | null> {
+  if (!printer.token) return null;
+
+  const cached = getCachedStatus(printer.id);
+  if (cached) return cached;
+
+  try {
+    const status = await fetchPrinterStatus(printer);
+    startPolling(printer.id);
+    return status;
+  } catch {
+    return null;
+  }
+}
+
+export function getAllCachedStatuses(): Map<number, PrinterStatus> {
+  const statuses = new Map<number, PrinterStatus>();
+  for (const [printerId, state] of Array.from(pollers.entries())) {
+    if (state.status) statuses.set(printerId, state.status);
+  }
+  return statuses;
+}
+
+export async function initializeStatusPoller(): Promise<void> {
+  try {
+    const printers = await storage.getAllPrinters();
+    // Printers that were offline when the server stopped are polled too, so
+    // they come back without someone reconnecting them by hand
+    for (const printer of printers) {
+      if (printer.token) {
+        startPolling(printer.id);
+      }
+    }
+  } catch (error) {
+    console.error(`[StatusPoller] Error initializing poller:`, error);
+  }
+}
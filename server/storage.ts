@@ -1,6 +1,17 @@
-import { type Printer, type InsertPrinter, type DashboardPreferences, type UploadedFile, type InsertUploadedFile, printers, printJobs, dashboardPreferences, uploadedFiles, appSettings, DEFAULT_ENABLED_MODULES } from "@shared/schema";
+import { type Printer, type InsertPrinter, type DashboardPreferences, type UploadedFile, type InsertUploadedFile, type AuditEntry, type InsertAuditEntry, type AuditQuery, type PrintJob, type InsertPrintJob, type PrintJobWithThumbnail, type InsertTemperatureSample, type TemperatureHistoryPoint, type Timelapse, type InsertTimelapse, type TimelapseStatus, type PrintQueueItem, type InsertPrintQueueItem, type PrintQueueItemWithFile, type ScheduledPrint, type InsertScheduledPrint, type ScheduledPrintStatus, type UploadRule, type InsertUploadRule, type User, type InsertUser, printers, printJobs, dashboardPreferences, uploadedFiles, appSettings, auditLog, temperatureSamples, timelapses, printQueue, scheduledPrints, uploadRules, users, DEFAULT_ENABLED_MODULES, PRINT_JOB_ACTIVE_STATUSES } from "@shared/schema";
+import path from "path";
 import { db } from "./db";
-import { eq, and } from "drizzle-orm";
+import { MemStorage, JsonFileStorage } from "./memStorage";
+import { encryptPrinterToken, decryptPrinterToken } from "./tokenCrypto";
+import { eq, and, asc, desc, inArray, gte, lte, lt, sql, isNull, isNotNull, getTableColumns } from "drizzle-orm";
+
+// Everything but the legacy inline content, which is only read to migrate it into the file store
+const { fileContent: _inlineContent, ...uploadedFileColumns } = getTableColumns(uploadedFiles);
+
+// A null printer means the unassigned inbox
+function filePrinterIs(printerId: number | null) {
+  return printerId === null ? isNull(uploadedFiles.printerId) : eq(uploadedFiles.printerId, printerId);
+}
 
 export interface IStorage {
   getPrinter(id: number): Promise<Printer | undefined>;
@@ -11,41 +22,85 @@ export interface IStorage {
   deletePrinter(id: number): Promise<void>;
   getDashboardPreferences(printerId: number): Promise<string[]>;
   setDashboardPreferences(printerId: number, enabledModules: string[]): Promise<void>;
-  getUploadedFiles(printerId: number): Promise<UploadedFile[]>;
-  getUploadedFile(id: number, printerId: number): Promise<UploadedFile | undefined>;
+  // printerId null reads and deletes files in the unassigned inbox
+  getUploadedFiles(printerId: number | null): Promise<UploadedFile[]>;
+  getUploadedFile(id: number, printerId: number | null): Promise<UploadedFile | undefined>;
   addUploadedFile(file: InsertUploadedFile): Promise<UploadedFile>;
-  deleteUploadedFile(id: number, printerId: number): Promise<boolean>;
+  updateUploadedFile(id: number, data: Partial<UploadedFile>): Promise<UploadedFile | undefined>;
+  deleteUploadedFile(id: number, printerId: number | null): Promise<boolean>;
+  isContentHashInUse(contentHash: string): Promise<boolean>;
+  getNextInlineFile(): Promise<{ id: number; fileContent: string } | undefined>;
+  moveInlineFileContent(id: number, contentHash: string, size: number): Promise<void>;
   getSetting(key: string): Promise<string | null>;
   setSetting(key: string, value: string | null): Promise<void>;
+  addAuditEntry(entry: InsertAuditEntry): Promise<AuditEntry>;
+  getAuditEntries(query: AuditQuery): Promise<AuditEntry[]>;
+  getPrintJobs(printerId: number, limit?: number): Promise<PrintJobWithThumbnail[]>;
+  getPrintJob(id: number): Promise<PrintJob | undefined>;
+  getActivePrintJob(printerId: number): Promise<PrintJob | undefined>;
+  createPrintJob(job: InsertPrintJob): Promise<PrintJob>;
+  updatePrintJob(id: number, data: Partial<PrintJob>): Promise<PrintJob | undefined>;
+  addTemperatureSample(sample: InsertTemperatureSample): Promise<void>;
+  getTemperatureHistory(printerId: number, from: Date, to: Date, resolutionSeconds: number): Promise<TemperatureHistoryPoint[]>;
+  downsampleTemperatureSamples(olderThan: Date, bucketSeconds: number): Promise<number>;
+  deleteTemperatureSamplesBefore(before: Date): Promise<number>;
+  getTimelapse(id: number): Promise<Timelapse | undefined>;
+  getTimelapseForJob(jobId: number): Promise<Timelapse | undefined>;
+  getTimelapses(status?: TimelapseStatus): Promise<Timelapse[]>;
+  createTimelapse(timelapse: InsertTimelapse): Promise<Timelapse>;
+  updateTimelapse(id: number, data: Partial<Timelapse>): Promise<Timelapse | undefined>;
+  deleteTimelapse(id: number): Promise<void>;
+  getQueueItems(printerId: number): Promise<PrintQueueItemWithFile[]>;
+  getQueueItem(id: number, printerId: number): Promise<PrintQueueItem | undefined>;
+  addQueueItem(item: Omit<InsertPrintQueueItem, "position">): Promise<PrintQueueItem>;
+  updateQueueItem(id: number, data: Partial<PrintQueueItem>): Promise<PrintQueueItem | undefined>;
+  deleteQueueItem(id: number, printerId: number): Promise<boolean>;
+  reorderQueue(printerId: number, itemIds: number[]): Promise<void>;
+  getScheduledPrints(printerId: number, limit?: number): Promise<ScheduledPrint[]>;
+  getScheduledPrint(id: number, printerId: number): Promise<ScheduledPrint | undefined>;
+  getDueScheduledPrints(now: Date): Promise<ScheduledPrint[]>;
+  createScheduledPrint(schedule: InsertScheduledPrint): Promise<ScheduledPrint>;
+  updateScheduledPrint(id: number, data: Partial<ScheduledPrint>): Promise<ScheduledPrint | undefined>;
+  getUploadRules(): Promise<UploadRule[]>;
+  replaceUploadRules(rules: Omit<InsertUploadRule, "id" | "position">[]): Promise<UploadRule[]>;
+  getUsers(): Promise<User[]>;
+  getUser(id: number): Promise<User | undefined>;
+  getUserByUsername(username: string): Promise<User | undefined>;
+  getUserByApiKeyHash(apiKeyHash: string): Promise<User | undefined>;
+  createUser(user: InsertUser): Promise<User>;
+  updateUser(id: number, data: Partial<User>): Promise<User | undefined>;
+  deleteUser(id: number): Promise<boolean>;
 }
 
 export class DbStorage implements IStorage {
   async getPrinter(id: number): Promise<Printer | undefined> {
     const result = await db.select().from(printers).where(eq(printers.id, id)).limit(1);
-    return result[0];
+    return result[0] && decryptPrinterToken(result[0]);
   }
 
   async getFirstPrinter(): Promise<Printer | undefined> {
     const result = await db.select().from(printers).limit(1);
-    return result[0];
+    return result[0] && decryptPrinterToken(result[0]);
   }
 
   async getAllPrinters(): Promise<Printer[]> {
-    return await db.select().from(printers);
+    const result = await db.select().from(printers);
+    return result.map(decryptPrinterToken);
   }
 
   async createPrinter(insertPrinter: InsertPrinter): Promise<Printer> {
-    const result = await db.insert(printers).values(insertPrinter).returning();
-    return result[0]!;
+    const result = await db.insert(printers).values(encryptPrinterToken(insertPrinter)).returning();
+    return decryptPrinterToken(result[0]!);
   }
 
   async updatePrinter(id: number, data: Partial<Printer>): Promise<Printer | undefined> {
-    const result = await db.update(printers).set(data).where(eq(printers.id, id)).returning();
-    return result[0];
+    const result = await db.update(printers).set(encryptPrinterToken(data)).where(eq(printers.id, id)).returning();
+    return result[0] && decryptPrinterToken(result[0]);
   }
 
   async deletePrinter(id: number): Promise<void> {
     await db.delete(dashboardPreferences).where(eq(dashboardPreferences.printerId, id));
+    await db.delete(printJobs).where(eq(printJobs.printerId, id));
     await db.delete(printers).where(eq(printers.id, id));
   }
 
@@ -82,35 +137,69 @@ export class DbStorage implements IStorage {
     }
   }
 
-  async getUploadedFiles(printerId: number): Promise<UploadedFile[]> {
+  async getUploadedFiles(printerId: number | null): Promise<UploadedFile[]> {
     return await db
-      .select()
+      .select(uploadedFileColumns)
       .from(uploadedFiles)
-      .where(eq(uploadedFiles.printerId, printerId));
+      .where(filePrinterIs(printerId));
   }
 
-  async getUploadedFile(id: number, printerId: number): Promise<UploadedFile | undefined> {
+  async getUploadedFile(id: number, printerId: number | null): Promise<UploadedFile | undefined> {
     const result = await db
-      .select()
+      .select(uploadedFileColumns)
       .from(uploadedFiles)
-      .where(and(eq(uploadedFiles.id, id), eq(uploadedFiles.printerId, printerId)))
+      .where(and(eq(uploadedFiles.id, id), filePrinterIs(printerId)))
       .limit(1);
     return result[0];
   }
 
   async addUploadedFile(file: InsertUploadedFile): Promise<UploadedFile> {
-    const result = await db.insert(uploadedFiles).values(file).returning();
+    const result = await db.insert(uploadedFiles).values(file).returning(uploadedFileColumns);
     return result[0]!;
   }
 
-  async deleteUploadedFile(id: number, printerId: number): Promise<boolean> {
+  async updateUploadedFile(id: number, data: Partial<UploadedFile>): Promise<UploadedFile | undefined> {
+    const result = await db
+      .update(uploadedFiles)
+      .set(data)
+      .where(eq(uploadedFiles.id, id))
+      .returning(uploadedFileColumns);
+    return result[0];
+  }
+
+  async deleteUploadedFile(id: number, printerId: number | null): Promise<boolean> {
     const result = await db
       .delete(uploadedFiles)
-      .where(and(eq(uploadedFiles.id, id), eq(uploadedFiles.printerId, printerId)))
-      .returning();
+      .where(and(eq(uploadedFiles.id, id), filePrinterIs(printerId)))
+      .returning({ id: uploadedFiles.id });
+    return result.length > 0;
+  }
+
+  async isContentHashInUse(contentHash: string): Promise<boolean> {
+    const result = await db
+      .select({ id: uploadedFiles.id })
+      .from(uploadedFiles)
+      .where(eq(uploadedFiles.contentHash, contentHash))
+      .limit(1);
     return result.length > 0;
   }
 
+  async getNextInlineFile(): Promise<{ id: number; fileContent: string } | undefined> {
+    const result = await db
+      .select({ id: uploadedFiles.id, fileContent: uploadedFiles.fileContent })
+      .from(uploadedFiles)
+      .where(isNotNull(uploadedFiles.fileContent))
+      .limit(1);
+    return result[0] as { id: number; fileContent: string } | undefined;
+  }
+
+  async moveInlineFileContent(id: number, contentHash: string, size: number): Promise<void> {
+    await db
+      .update(uploadedFiles)
+      .set({ contentHash, size, fileContent: null })
+      .where(eq(uploadedFiles.id, id));
+  }
+
   async getSetting(key: string): Promise<string | null> {
     const result = await db
       .select()
@@ -136,6 +225,357 @@ export class DbStorage implements IStorage {
       await db.insert(appSettings).values({ key, value });
     }
   }
+
+  async addAuditEntry(entry: InsertAuditEntry): Promise<AuditEntry> {
+    const result = await db.insert(auditLog).values(entry).returning();
+    return result[0]!;
+  }
+
+  async getAuditEntries(query: AuditQuery): Promise<AuditEntry[]> {
+    const conditions = [
+      query.printerId !== undefined ? eq(auditLog.printerId, query.printerId) : undefined,
+      query.actor ? eq(auditLog.actor, query.actor) : undefined,
+      query.action ? eq(auditLog.action, query.action) : undefined,
+      query.result ? eq(auditLog.result, query.result) : undefined,
+      query.from ? gte(auditLog.createdAt, query.from) : undefined,
+      query.to ? lte(auditLog.createdAt, query.to) : undefined,
+    ];
+    return await db
+      .select()
+      .from(auditLog)
+      .where(and(...conditions))
+      .orderBy(desc(auditLog.createdAt), desc(auditLog.id))
+      .limit(query.limit)
+      .offset(query.offset);
+  }
+
+  async getPrintJobs(printerId: number, limit = 100): Promise<PrintJobWithThumbnail[]> {
+    const rows = await db
+      .select({
+        job: printJobs,
+        thumbnail: uploadedFiles.thumbnail,
+        timelapse: {
+          id: timelapses.id,
+          status: timelapses.status,
+          frameCount: timelapses.frameCount,
+          sizeBytes: timelapses.sizeBytes,
+        },
+      })
+      .from(printJobs)
+      .leftJoin(uploadedFiles, eq(printJobs.fileId, uploadedFiles.id))
+      .leftJoin(timelapses, eq(timelapses.jobId, printJobs.id))
+      .where(eq(printJobs.printerId, printerId))
+      .orderBy(desc(printJobs.startedAt))
+      .limit(limit);
+    return rows.map(({ job, thumbnail, timelapse }) => ({ ...job, thumbnail, timelapse }));
+  }
+
+  async getPrintJob(id: number): Promise<PrintJob | undefined> {
+    const result = await db.select().from(printJobs).where(eq(printJobs.id, id)).limit(1);
+    return result[0];
+  }
+
+  async getActivePrintJob(printerId: number): Promise<PrintJob | undefined> {
+    const result = await db
+      .select()
+      .from(printJobs)
+      .where(and(
+        eq(printJobs.printerId, printerId),
+        inArray(printJobs.status, [...PRINT_JOB_ACTIVE_STATUSES]),
+      ))
+      .orderBy(desc(printJobs.startedAt))
+      .limit(1);
+    return result[0];
+  }
+
+  async createPrintJob(job: InsertPrintJob): Promise<PrintJob> {
+    const result = await db.insert(printJobs).values(job).returning();
+    return result[0]!;
+  }
+
+  async updatePrintJob(id: number, data: Partial<PrintJob>): Promise<PrintJob | undefined> {
+    const result = await db.update(printJobs).set(data).where(eq(printJobs.id, id)).returning();
+    return result[0];
+  }
+
+  async addTemperatureSample(sample: InsertTemperatureSample): Promise<void> {
+    await db.insert(temperatureSamples).values(sample);
+  }
+
+  async getTemperatureHistory(
+    printerId: number,
+    from: Date,
+    to: Date,
+    resolutionSeconds: number,
+  ): Promise<TemperatureHistoryPoint[]> {
+    const bucket = sql<number>`floor(extract(epoch from ${temperatureSamples.recordedAt}) / ${resolutionSeconds})`;
+    const rows = await db
+      .select({
+        bucket,
+        nozzle: sql<number>`avg(${temperatureSamples.nozzle})`,
+        bed: sql<number>`avg(${temperatureSamples.bed})`,
+        targetNozzle: sql<number>`max(${temperatureSamples.targetNozzle})`,
+        targetBed: sql<number>`max(${temperatureSamples.targetBed})`,
+      })
+      .from(temperatureSamples)
+      .where(and(
+        eq(temperatureSamples.printerId, printerId),
+        gte(temperatureSamples.recordedAt, from),
+        lte(temperatureSamples.recordedAt, to),
+      ))
+      .groupBy(bucket)
+      .orderBy(bucket);
+
+    return rows.map((row) => ({
+      time: Number(row.bucket) * resolutionSeconds * 1000,
+      nozzle: Math.round(Number(row.nozzle) * 10) / 10,
+      bed: Math.round(Number(row.bed) * 10) / 10,
+      targetNozzle: Number(row.targetNozzle),
+      targetBed: Number(row.targetBed),
+    }));
+  }
+
+  async downsampleTemperatureSamples(olderThan: Date, bucketSeconds: number): Promise<number> {
+    // Keep the first sample of every bucket and drop the rest
+    const cutoff = olderThan.toISOString();
+    const result = await db.execute(sql`
+      DELETE FROM temperature_samples
+      WHERE recorded_at < ${cutoff}
+      AND id NOT IN (
+        SELECT min(id) FROM temperature_samples
+        WHERE recorded_at < ${cutoff}
+        GROUP BY printer_id, floor(extract(epoch from recorded_at) / ${bucketSeconds})
+      )
+    `);
+    return result.rowCount ?? 0;
+  }
+
+  async deleteTemperatureSamplesBefore(before: Date): Promise<number> {
+    const result = await db
+      .delete(temperatureSamples)
+      .where(lt(temperatureSamples.recordedAt, before))
+      .returning({ id: temperatureSamples.id });
+    return result.length;
+  }
+
+  async getTimelapse(id: number): Promise<Timelapse | undefined> {
+    const result = await db.select().from(timelapses).where(eq(timelapses.id, id)).limit(1);
+    return result[0];
+  }
+
+  async getTimelapseForJob(jobId: number): Promise<Timelapse | undefined> {
+    const result = await db.select().from(timelapses).where(eq(timelapses.jobId, jobId)).limit(1);
+    return result[0];
+  }
+
+  async getTimelapses(status?: TimelapseStatus): Promise<Timelapse[]> {
+    return await db
+      .select()
+      .from(timelapses)
+      .where(status ? eq(timelapses.status, status) : undefined)
+      .orderBy(timelapses.createdAt);
+  }
+
+  async createTimelapse(timelapse: InsertTimelapse): Promise<Timelapse> {
+    const result = await db.insert(timelapses).values(timelapse).returning();
+    return result[0];
+  }
+
+  async updateTimelapse(id: number, data: Partial<Timelapse>): Promise<Timelapse | undefined> {
+    const result = await db.update(timelapses).set(data).where(eq(timelapses.id, id)).returning();
+    return result[0];
+  }
+
+  async deleteTimelapse(id: number): Promise<void> {
+    await db.delete(timelapses).where(eq(timelapses.id, id));
+  }
+
+  async getQueueItems(printerId: number): Promise<PrintQueueItemWithFile[]> {
+    const rows = await db
+      .select({
+        item: printQueue,
+        file: {
+          filename: uploadedFiles.filename,
+          displayName: uploadedFiles.displayName,
+          thumbnail: uploadedFiles.thumbnail,
+          size: uploadedFiles.size,
+          metadata: uploadedFiles.metadata,
+        },
+      })
+      .from(printQueue)
+      .innerJoin(uploadedFiles, eq(printQueue.fileId, uploadedFiles.id))
+      .where(eq(printQueue.printerId, printerId))
+      .orderBy(printQueue.position, printQueue.id);
+    return rows.map(({ item, file }) => ({ ...item, file }));
+  }
+
+  async getQueueItem(id: number, printerId: number): Promise<PrintQueueItem | undefined> {
+    const result = await db
+      .select()
+      .from(printQueue)
+      .where(and(eq(printQueue.id, id), eq(printQueue.printerId, printerId)))
+      .limit(1);
+    return result[0];
+  }
+
+  async addQueueItem(item: Omit<InsertPrintQueueItem, "position">): Promise<PrintQueueItem> {
+    // New items go to the back of the queue
+    const [{ next }] = await db
+      .select({ next: sql<number>`COALESCE(MAX(${printQueue.position}), -1) + 1` })
+      .from(printQueue)
+      .where(eq(printQueue.printerId, item.printerId));
+    const result = await db.insert(printQueue).values({ ...item, position: Number(next) }).returning();
+    return result[0];
+  }
+
+  async updateQueueItem(id: number, data: Partial<PrintQueueItem>): Promise<PrintQueueItem | undefined> {
+    const result = await db.update(printQueue).set(data).where(eq(printQueue.id, id)).returning();
+    return result[0];
+  }
+
+  async deleteQueueItem(id: number, printerId: number): Promise<boolean> {
+    const result = await db
+      .delete(printQueue)
+      .where(and(eq(printQueue.id, id), eq(printQueue.printerId, printerId)))
+      .returning({ id: printQueue.id });
+    return result.length > 0;
+  }
+
+  async reorderQueue(printerId: number, itemIds: number[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      for (let position = 0; position < itemIds.length; position++) {
+        await tx
+          .update(printQueue)
+          .set({ position })
+          .where(and(eq(printQueue.id, itemIds[position]), eq(printQueue.printerId, printerId)));
+      }
+    });
+  }
+
+  async getScheduledPrints(printerId: number, limit = 50): Promise<ScheduledPrint[]> {
+    return await db
+      .select()
+      .from(scheduledPrints)
+      .where(eq(scheduledPrints.printerId, printerId))
+      .orderBy(desc(scheduledPrints.startAt))
+      .limit(limit);
+  }
+
+  async getScheduledPrint(id: number, printerId: number): Promise<ScheduledPrint | undefined> {
+    const result = await db
+      .select()
+      .from(scheduledPrints)
+      .where(and(eq(scheduledPrints.id, id), eq(scheduledPrints.printerId, printerId)))
+      .limit(1);
+    return result[0];
+  }
+
+  async getDueScheduledPrints(now: Date): Promise<ScheduledPrint[]> {
+    const pending: ScheduledPrintStatus = "pending";
+    return await db
+      .select()
+      .from(scheduledPrints)
+      .where(and(eq(scheduledPrints.status, pending), lte(scheduledPrints.startAt, now)))
+      .orderBy(scheduledPrints.startAt);
+  }
+
+  async createScheduledPrint(schedule: InsertScheduledPrint): Promise<ScheduledPrint> {
+    const result = await db.insert(scheduledPrints).values(schedule).returning();
+    return result[0];
+  }
+
+  async updateScheduledPrint(id: number, data: Partial<ScheduledPrint>): Promise<ScheduledPrint | undefined> {
+    const result = await db.update(scheduledPrints).set(data).where(eq(scheduledPrints.id, id)).returning();
+    return result[0];
+  }
+
+  async getUploadRules(): Promise<UploadRule[]> {
+    return await db.select().from(uploadRules).orderBy(asc(uploadRules.position), asc(uploadRules.id));
+  }
+
+  async replaceUploadRules(rules: Omit<InsertUploadRule, "id" | "position">[]): Promise<UploadRule[]> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(uploadRules);
+      if (rules.length === 0) return [];
+      return await tx
+        .insert(uploadRules)
+        .values(rules.map((rule, position) => ({ ...rule, position })))
+        .returning();
+    });
+  }
+
+  async getUsers(): Promise<User[]> {
+    return await db.select().from(users).orderBy(asc(users.id));
+  }
+
+  async getUser(id: number): Promise<User | undefined> {
+    const result = await db.select().from(users).where(eq(users.id, id)).limit(1);
+    return result[0];
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const result = await db.select().from(users).where(eq(users.username, username)).limit(1);
+    return result[0];
+  }
+
+  async getUserByApiKeyHash(apiKeyHash: string): Promise<User | undefined> {
+    const result = await db.select().from(users).where(eq(users.apiKeyHash, apiKeyHash)).limit(1);
+    return result[0];
+  }
+
+  async createUser(user: InsertUser): Promise<User> {
+    const result = await db.insert(users).values(user).returning();
+    return result[0];
+  }
+
+  async updateUser(id: number, data: Partial<User>): Promise<User | undefined> {
+    const result = await db.update(users).set(data).where(eq(users.id, id)).returning();
+    return result[0];
+  }
+
+  async deleteUser(id: number): Promise<boolean> {
+    const result = await db.delete(users).where(eq(users.id, id)).returning({ id: users.id });
+    return result.length > 0;
+  }
+}
+
+export type StorageBackend = "postgres" | "memory" | "json";
+
+/**
+ * Picks the storage backend from STORAGE_BACKEND. Without it, Postgres is used
+ * when DATABASE_URL is set and a JSON file otherwise, so a Pi can run the app
+ * without installing a database.
+ */
+function resolveStorageBackend(): StorageBackend {
+  const configured = process.env.STORAGE_BACKEND;
+  if (configured === "postgres" || configured === "memory" || configured === "json") {
+    return configured;
+  }
+  if (configured) {
+    throw new Error(`Unknown STORAGE_BACKEND "${configured}". Use postgres, memory or json.`);
+  }
+  return process.env.DATABASE_URL ? "postgres" : "json";
+}
+
+function createStorage(backend: StorageBackend): IStorage {
+  switch (backend) {
+    case "postgres":
+      if (!process.env.DATABASE_URL) {
+        throw new Error(
+          "DATABASE_URL must be set. Did you forget to provision a database?",
+        );
+      }
+      return new DbStorage();
+    case "memory":
+      console.log("[Storage] Using in-memory storage; nothing is kept across restarts");
+      return new MemStorage();
+    case "json": {
+      const file = process.env.STORAGE_FILE || path.resolve("data", "storage.json");
+      console.log(`[Storage] Using JSON file storage at ${file}`);
+      return new JsonFileStorage(file);
+    }
+  }
 }
 
-export const storage = new DbStorage();
+export const storageBackend = resolveStorageBackend();
+export const storage = createStorage(storageBackend);
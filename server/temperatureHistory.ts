@@ -0,0 +1,67 @@
+import { storage } from "./storage";
+import type { PrinterStatus } from "@shared/schema";
+
+// Raw samples are stored at most this often per printer
+const SAMPLE_INTERVAL_MS = 10_000;
+// Samples older than this are thinned down to one per DOWNSAMPLE_BUCKET_SECONDS
+const FULL_RESOLUTION_MS = 24 * 60 * 60 * 1000;
+const DOWNSAMPLE_BUCKET_SECONDS = 300;
+// Anything older than this is deleted
+const RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+const MAINTENANCE_INTERVAL_MS = 60 * 60 * 1000;
+
+const lastSampleAt = new Map<number, number>();
+let maintenanceTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Stores a temperature sample from a status poll, throttled to one sample
+ * every SAMPLE_INTERVAL_MS per printer.
+ */
+export async function recordTemperatureSample(printerId: number, status: PrinterStatus): Promise<void> {
+  const now = Date.now();
+  const last = lastSampleAt.get(printerId) ?? 0;
+  if (now - last < SAMPLE_INTERVAL_MS) {
+    return;
+  }
+  lastSampleAt.set(printerId, now);
+
+  await storage.addTemperatureSample({
+    printerId,
+    recordedAt: new Date(now),
+    nozzle: status.temperature.nozzle,
+    bed: status.temperature.bed,
+    targetNozzle: status.temperature.targetNozzle,
+    targetBed: status.temperature.targetBed,
+  });
+}
+
+async function runMaintenance(): Promise<void> {
+  try {
+    const now = Date.now();
+    const deleted = await storage.deleteTemperatureSamplesBefore(new Date(now - RETENTION_MS));
+    const thinned = await storage.downsampleTemperatureSamples(
+      new Date(now - FULL_RESOLUTION_MS),
+      DOWNSAMPLE_BUCKET_SECONDS,
+    );
+    if (deleted > 0 || thinned > 0) {
+      console.log(`[TemperatureHistory] Removed ${deleted} expired and ${thinned} downsampled samples`);
+    }
+  } catch (error) {
+    console.error(`[TemperatureHistory] Maintenance failed:`, error);
+  }
+}
+
+/**
+ * Picks a bucket size that keeps a chart to roughly `targetPoints` points,
+ * never finer than the rate samples are recorded at.
+ */
+export function defaultResolutionSeconds(from: Date, to: Date, targetPoints = 300): number {
+  const spanSeconds = Math.max(1, (to.getTime() - from.getTime()) / 1000);
+  return Math.max(SAMPLE_INTERVAL_MS / 1000, Math.ceil(spanSeconds / targetPoints));
+}
+
+export function initializeTemperatureHistory(): void {
+  if (maintenanceTimer) return;
+  runMaintenance();
+  maintenanceTimer = setInterval(runMaintenance, MAINTENANCE_INTERVAL_MS);
+}
@@ -0,0 +1,381 @@
+import fs from "fs/promises";
+import path from "path";
+import readline from "readline";
+import { storage } from "./storage";
+import { fileStore } from "./fileStore";
+import { getCameraSnapshot } from "./camera";
+import {
+  normalizeMachineState,
+  timelapseSettingsSchema,
+  type CameraConfig,
+  type PrintJob,
+  type Printer,
+  type PrinterStatus,
+  type Timelapse,
+  type TimelapseRetention,
+  type TimelapseSettings,
+} from "@shared/schema";
+
+/**
+ * Timelapse capture. While the status poller sees a job running on a printer
+ * with a camera, frames are saved to disk per job; when the job ends they are
+ * concatenated into a single MJPEG file that can be downloaded from History.
+ */
+
+const TIMELAPSE_DIR = process.env.TIMELAPSE_DIR || path.resolve("data", "timelapses");
+
+const DEFAULT_RETENTION: TimelapseRetention = { maxCount: 20, maxStorageMb: 2048 };
+const RETENTION_COUNT_KEY = "timelapse_max_count";
+const RETENTION_STORAGE_KEY = "timelapse_max_storage_mb";
+
+// Comment markers slicers put at the start of each layer
+const LAYER_MARKERS = [/^;LAYER:-?\d+/, /^;LAYER_CHANGE/, /^; layer \d+/i, /^;\s*layer_num/i];
+
+type CaptureSession = {
+  timelapse: Timelapse;
+  jobId: number;
+  dir: string;
+  camera: CameraConfig;
+  frameCount: number;
+  // Line numbers of layer changes; null when capturing on the interval
+  layerLines: number[] | null;
+  totalLines: number;
+  nextLayer: number;
+  timer: NodeJS.Timeout | null;
+  paused: boolean;
+  capturing: boolean;
+};
+
+const sessions = new Map<number, CaptureSession>();
+const updating = new Set<number>();
+
+function framesDir(timelapseId: number): string {
+  return path.join(TIMELAPSE_DIR, String(timelapseId));
+}
+
+function outputPath(timelapseId: number): string {
+  return path.join(TIMELAPSE_DIR, `timelapse-${timelapseId}.mjpeg`);
+}
+
+function frameName(index: number): string {
+  return `frame-${String(index).padStart(6, "0")}.jpg`;
+}
+
+export function resolveTimelapseSettings(settings: Printer["timelapse"] | undefined): TimelapseSettings {
+  return timelapseSettingsSchema.parse(settings ?? {});
+}
+
+/**
+ * Finds the line numbers (1-based) where each layer starts in a G-code file,
+ * and how many lines it has, reading one line at a time.
+ */
+export async function findLayerLines(lines: AsyncIterable<string>): Promise<{ layerLines: number[]; totalLines: number }> {
+  const layerLines: number[] = [];
+  let totalLines = 0;
+  for await (const line of lines) {
+    totalLines++;
+    if (line.startsWith(";") && LAYER_MARKERS.some((marker) => marker.test(line))) {
+      layerLines.push(totalLines);
+    }
+  }
+  return { layerLines, totalLines };
+}
+
+// Streams the file, since a long print's G-code can run to hundreds of MB
+async function loadLayerLines(job: PrintJob): Promise<{ layerLines: number[]; totalLines: number } | null> {
+  if (!job.fileId || !job.printerId) return null;
+  const file = await storage.getUploadedFile(job.fileId, job.printerId);
+  if (!file?.contentHash) return null;
+
+  const input = fileStore.createReadStream(file.contentHash);
+  const lines = readline.createInterface({ input, crlfDelay: Infinity });
+  try {
+    const layers = await findLayerLines(lines);
+    return layers.layerLines.length < 2 ? null : layers;
+  } finally {
+    lines.close();
+    input.destroy();
+  }
+}
+
+async function countFrames(dir: string): Promise<number> {
+  try {
+    const entries = await fs.readdir(dir);
+    return entries.filter((name) => name.endsWith(".jpg")).length;
+  } catch {
+    return 0;
+  }
+}
+
+async function captureFrame(session: CaptureSession): Promise<void> {
+  if (session.capturing || session.paused) return;
+  session.capturing = true;
+
+  try {
+    const frame = await getCameraSnapshot(session.camera);
+    const index = session.frameCount + 1;
+    await fs.writeFile(path.join(session.dir, frameName(index)), frame);
+    session.frameCount = index;
+    await storage.updateTimelapse(session.timelapse.id, { frameCount: index });
+  } catch (error) {
+    console.log(`[Timelapse] Frame capture failed for job ${session.jobId}: ${error instanceof Error ? error.message : error}`);
+  } finally {
+    session.capturing = false;
+  }
+}
+
+async function beginSession(
+  printer: Printer,
+  camera: CameraConfig,
+  job: PrintJob,
+  settings: TimelapseSettings,
+): Promise<CaptureSession | null> {
+  let timelapse = await storage.getTimelapseForJob(job.id);
+  if (timelapse && timelapse.status !== "capturing") {
+    // Already assembled, e.g. the job was reopened after a restart
+    return null;
+  }
+
+  const layers = settings.mode === "layer" ? await loadLayerLines(job) : null;
+  if (settings.mode === "layer" && !layers) {
+    console.log(`[Timelapse] No layer markers found for ${job.filename}, capturing every ${settings.intervalSeconds}s instead`);
+  }
+
+  if (!timelapse) {
+    timelapse = await storage.createTimelapse({
+      jobId: job.id,
+      printerId: printer.id,
+      mode: layers ? "layer" : "interval",
+      status: "capturing",
+    });
+  }
+
+  const dir = framesDir(timelapse.id);
+  await fs.mkdir(dir, { recursive: true });
+
+  const session: CaptureSession = {
+    timelapse,
+    jobId: job.id,
+    dir,
+    camera,
+    frameCount: await countFrames(dir),
+    layerLines: layers?.layerLines ?? null,
+    totalLines: layers?.totalLines ?? 0,
+    nextLayer: 0,
+    timer: null,
+    paused: false,
+    capturing: false,
+  };
+
+  if (!session.layerLines) {
+    session.timer = setInterval(() => {
+      captureFrame(session).catch(() => {});
+    }, settings.intervalSeconds * 1000);
+  }
+
+  sessions.set(printer.id, session);
+  console.log(`[Timelapse] Capturing job ${job.id} (${job.filename}) on ${printer.name}, ${timelapse.mode} mode`);
+  return session;
+}
+
+/**
+ * Concatenates the captured frames into one MJPEG file and removes the
+ * individual frames. Timelapses that never got a frame are deleted.
+ */
+async function assemble(timelapse: Timelapse): Promise<void> {
+  const dir = framesDir(timelapse.id);
+  let frames: string[] = [];
+  try {
+    frames = (await fs.readdir(dir)).filter((name) => name.endsWith(".jpg")).sort();
+  } catch {
+    // No frames directory means nothing was captured
+  }
+
+  if (frames.length === 0) {
+    await fs.rm(dir, { recursive: true, force: true });
+    await storage.deleteTimelapse(timelapse.id);
+    console.log(`[Timelapse] No frames captured for job ${timelapse.jobId}, discarded`);
+    return;
+  }
+
+  const output = outputPath(timelapse.id);
+  try {
+    const handle = await fs.open(output, "w");
+    try {
+      for (const name of frames) {
+        await handle.write(await fs.readFile(path.join(dir, name)));
+      }
+    } finally {
+      await handle.close();
+    }
+
+    const { size } = await fs.stat(output);
+    await storage.updateTimelapse(timelapse.id, {
+      status: "ready",
+      frameCount: frames.length,
+      sizeBytes: size,
+      filePath: output,
+      completedAt: new Date(),
+    });
+    await fs.rm(dir, { recursive: true, force: true });
+    console.log(`[Timelapse] Job ${timelapse.jobId} timelapse ready: ${frames.length} frames, ${(size / 1024 / 1024).toFixed(1)} MB`);
+  } catch (error) {
+    console.error(`[Timelapse] Failed to assemble timelapse ${timelapse.id}:`, error);
+    await storage.updateTimelapse(timelapse.id, { status: "failed", completedAt: new Date() });
+  }
+}
+
+async function finishSession(printerId: number, session: CaptureSession): Promise<void> {
+  if (session.timer) clearInterval(session.timer);
+  sessions.delete(printerId);
+  await assemble(session.timelapse);
+  await enforceRetention();
+}
+
+function captureOnLayerChange(session: CaptureSession, status: PrinterStatus): void {
+  const layerLines = session.layerLines!;
+  // Older firmware doesn't report the current line, so estimate it from progress
+  const currentLine = status.currentLine ?? Math.floor((status.progress / 100) * session.totalLines);
+
+  let passed = session.nextLayer;
+  while (passed < layerLines.length && layerLines[passed] <= currentLine) {
+    passed++;
+  }
+  if (passed > session.nextLayer) {
+    session.nextLayer = passed;
+    captureFrame(session).catch(() => {});
+  }
+}
+
+/**
+ * Feeds a status poll into timelapse capture: starts a capture when a job
+ * appears on a printer with a camera, grabs layer-change frames, and
+ * assembles the timelapse once the job is no longer active.
+ */
+export async function updateTimelapse(printerId: number, status: PrinterStatus): Promise<void> {
+  if (updating.has(printerId)) return;
+  updating.add(printerId);
+
+  try {
+    const printer = await storage.getPrinter(printerId);
+    const job = await storage.getActivePrintJob(printerId);
+    const settings = resolveTimelapseSettings(printer?.timelapse);
+    let session = sessions.get(printerId);
+
+    if (session && (session.jobId !== job?.id || !printer?.camera || !settings.enabled)) {
+      await finishSession(printerId, session);
+      session = undefined;
+    }
+
+    if (!printer?.camera || !job || !settings.enabled) return;
+
+    if (!session) {
+      session = (await beginSession(printer, printer.camera, job, settings)) ?? undefined;
+      if (!session) return;
+    }
+
+    session.camera = printer.camera;
+    session.paused = normalizeMachineState(status.state) === "paused";
+
+    if (session.layerLines) {
+      captureOnLayerChange(session, status);
+    }
+  } finally {
+    updating.delete(printerId);
+  }
+}
+
+export async function deleteTimelapse(timelapse: Timelapse): Promise<void> {
+  for (const [printerId, session] of Array.from(sessions.entries())) {
+    if (session.timelapse.id === timelapse.id) {
+      if (session.timer) clearInterval(session.timer);
+      sessions.delete(printerId);
+    }
+  }
+
+  await fs.rm(framesDir(timelapse.id), { recursive: true, force: true });
+  if (timelapse.filePath) {
+    await fs.rm(timelapse.filePath, { force: true });
+  }
+  await storage.deleteTimelapse(timelapse.id);
+}
+
+/**
+ * Removes the files of every timelapse for a printer. The rows themselves go
+ * with the printer's jobs.
+ */
+export async function deletePrinterTimelapses(printerId: number): Promise<void> {
+  const session = sessions.get(printerId);
+  if (session?.timer) clearInterval(session.timer);
+  sessions.delete(printerId);
+
+  const all = await storage.getTimelapses();
+  for (const timelapse of all.filter((t) => t.printerId === printerId)) {
+    await deleteTimelapse(timelapse);
+  }
+}
+
+export async function getTimelapseRetention(): Promise<TimelapseRetention> {
+  const maxCount = parseInt((await storage.getSetting(RETENTION_COUNT_KEY)) ?? "");
+  const maxStorageMb = parseInt((await storage.getSetting(RETENTION_STORAGE_KEY)) ?? "");
+  return {
+    maxCount: Number.isFinite(maxCount) ? maxCount : DEFAULT_RETENTION.maxCount,
+    maxStorageMb: Number.isFinite(maxStorageMb) ? maxStorageMb : DEFAULT_RETENTION.maxStorageMb,
+  };
+}
+
+export async function setTimelapseRetention(retention: TimelapseRetention): Promise<void> {
+  await storage.setSetting(RETENTION_COUNT_KEY, String(retention.maxCount));
+  await storage.setSetting(RETENTION_STORAGE_KEY, String(retention.maxStorageMb));
+  await enforceRetention();
+}
+
+export async function getTimelapseUsage(): Promise<{ count: number; totalBytes: number }> {
+  const finished = (await storage.getTimelapses()).filter((t) => t.status !== "capturing");
+  return {
+    count: finished.length,
+    totalBytes: finished.reduce((sum, t) => sum + t.sizeBytes, 0),
+  };
+}
+
+/**
+ * Deletes the oldest finished timelapses until both the count and the total
+ * size are within the configured limits, so the SD card doesn't fill up.
+ */
+export async function enforceRetention(): Promise<void> {
+  try {
+    const { maxCount, maxStorageMb } = await getTimelapseRetention();
+    const maxBytes = maxStorageMb * 1024 * 1024;
+    const finished = (await storage.getTimelapses()).filter((t) => t.status !== "capturing");
+    let totalBytes = finished.reduce((sum, t) => sum + t.sizeBytes, 0);
+
+    while (finished.length > 0 && (finished.length > maxCount || totalBytes > maxBytes)) {
+      const oldest = finished.shift()!;
+      totalBytes -= oldest.sizeBytes;
+      await deleteTimelapse(oldest);
+      console.log(`[Timelapse] Removed timelapse ${oldest.id} (job ${oldest.jobId}) to stay within retention limits`);
+    }
+  } catch (error) {
+    console.error(`[Timelapse] Retention cleanup failed:`, error);
+  }
+}
+
+/**
+ * Assembles timelapses left mid-capture by a restart whose jobs have since
+ * finished. Ones whose job is still running resume on the next status poll.
+ */
+export async function initializeTimelapses(): Promise<void> {
+  try {
+    await fs.mkdir(TIMELAPSE_DIR, { recursive: true });
+
+    for (const timelapse of await storage.getTimelapses("capturing")) {
+      const active = await storage.getActivePrintJob(timelapse.printerId);
+      if (active?.id !== timelapse.jobId) {
+        await assemble(timelapse);
+      }
+    }
+    await enforceRetention();
+  } catch (error) {
+    console.error(`[Timelapse] Error initializing timelapses:`, error);
+  }
+}
@@ -0,0 +1,136 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { log } from "./log";
+import type { IStorage } from "./storage";
+import type { TokenEncryptionStatus } from "@shared/schema";
+
+/**
+ * Printer tokens are as good as the touchscreen confirmation, so storage
+ * keeps them encrypted (AES-256-GCM) under TOKEN_ENCRYPTION_KEY. The rest of
+ * the server only ever sees plaintext; encryption happens in the storage
+ * backends on the way in and out.
+ */
+
+const KEY_ENV = "TOKEN_ENCRYPTION_KEY";
+const PREFIX = "enc:v1:";
+const IV_BYTES = 12;
+// Without TOKEN_ENCRYPTION_KEY a key is generated into this file. It's kept
+// out of the database so a copy of the database alone can't read tokens.
+const KEY_FILE = process.env.TOKEN_ENCRYPTION_KEY_FILE || path.resolve("data", "token-encryption.key");
+
+// undefined until first use, null when there is no key to use
+let cachedKey: Buffer | null | undefined;
+let keySource: TokenEncryptionStatus["keySource"] = null;
+let warnedUndecryptable = false;
+
+// Reads the key file, creating it with a random key on first run
+function loadOrCreateKeyFile(): string | null {
+  try {
+    return fs.readFileSync(KEY_FILE, "utf8").trim() || null;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+  }
+
+  const secret = crypto.randomBytes(32).toString("hex");
+  fs.mkdirSync(path.dirname(KEY_FILE), { recursive: true });
+  fs.writeFileSync(KEY_FILE, `${secret}\n`, { mode: 0o600, flag: "wx" });
+  log(`Generated a printer token key in ${KEY_FILE}; back it up along with the database`, "storage");
+  return secret;
+}
+
+// Any string works as the key; it is hashed to the 32 bytes AES-256 needs
+function encryptionKey(): Buffer | null {
+  if (cachedKey === undefined) {
+    let secret = process.env[KEY_ENV] || null;
+    keySource = secret ? "environment" : null;
+    if (!secret) {
+      try {
+        secret = loadOrCreateKeyFile();
+        keySource = secret ? "file" : null;
+      } catch (error) {
+        log(`Can't read or create ${KEY_FILE}: ${error instanceof Error ? error.message : error}`, "storage");
+      }
+    }
+    cachedKey = secret ? crypto.createHash("sha256").update(secret).digest() : null;
+    if (!cachedKey) {
+      log(`WARNING: no printer token key (set ${KEY_ENV}); printer tokens are stored unencrypted`, "storage");
+    }
+  }
+  return cachedKey;
+}
+
+export function isTokenEncryptionEnabled(): boolean {
+  return encryptionKey() !== null;
+}
+
+/**
+ * Whether tokens are encrypted and where the key comes from, for the admin
+ * settings page.
+ */
+export function getTokenEncryptionStatus(): TokenEncryptionStatus {
+  const enabled = isTokenEncryptionEnabled();
+  return { enabled, keySource, keyFile: keySource === "file" ? KEY_FILE : null };
+}
+
+/**
+ * Encrypts a token for storage. Without a key the token is stored as is,
+ * as it was before encryption existed.
+ */
+export function encryptToken(token: string): string {
+  const key = encryptionKey();
+  if (!key || token.startsWith(PREFIX)) return token;
+
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv("aes-256-gcm", key, iv);
+  const ciphertext = Buffer.concat([cipher.update(token, "utf8"), cipher.final()]);
+  return PREFIX + [iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString("base64")).join(":");
+}
+
+/**
+ * Reads a stored token. Plaintext from before encryption passes through; a
+ * token that can't be decrypted (no key, or a different one) reads as
+ * missing, so the printer is paired again rather than sent garbage.
+ */
+export function decryptToken(stored: string): string | null {
+  if (!stored.startsWith(PREFIX)) return stored;
+
+  const key = encryptionKey();
+  const [iv, tag, ciphertext] = stored.slice(PREFIX.length).split(":").map((part) => Buffer.from(part, "base64"));
+  try {
+    if (!key || !iv || !tag || !ciphertext) throw new Error("missing key or malformed token");
+    const decipher = crypto.createDecipheriv("aes-256-gcm", key, iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString("utf8");
+  } catch {
+    if (!warnedUndecryptable) {
+      warnedUndecryptable = true;
+      log(`A stored printer token can't be decrypted with ${KEY_ENV}; reconnect the printer to pair it again`, "storage");
+    }
+    return null;
+  }
+}
+
+// Helpers for the storage backends, which store what encryptPrinterToken
+// returns and hand out what decryptPrinterToken returns
+export function encryptPrinterToken<T extends { token?: string | null }>(data: T): T {
+  return data.token ? { ...data, token: encryptToken(data.token) } : data;
+}
+
+export function decryptPrinterToken<T extends { token: string | null }>(printer: T): T {
+  return printer.token ? { ...printer, token: decryptToken(printer.token) } : printer;
+}
+
+/**
+ * Rewrites saved tokens so ones stored before a key was configured end up
+ * encrypted too. Runs once at startup, which is also when the key is loaded
+ * (or generated) and a missing key is warned about.
+ */
+export async function encryptStoredTokens(storage: IStorage): Promise<void> {
+  if (!isTokenEncryptionEnabled()) return;
+  for (const printer of await storage.getAllPrinters()) {
+    if (printer.token) {
+      await storage.updatePrinter(printer.id, { token: printer.token });
+    }
+  }
+}
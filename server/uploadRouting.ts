@@ -0,0 +1,84 @@
+import { storage } from "./storage";
+import type { GcodeMetadata, Printer, UploadRule } from "@shared/schema";
+
+const DEFAULT_PRINTER_KEY = "default_printer_id";
+
+// What's known about a file arriving without a printer
+export type IncomingFile = {
+  filename: string;
+  toolType: GcodeMetadata["toolType"];
+  // Subfolder of the watch folder, or the folder a slicer asked for
+  folder: string | null;
+  // Free-form label sent by the slicer with the upload
+  tag: string | null;
+};
+
+export type UploadDestination = {
+  // Null means the unassigned inbox
+  printerId: number | null;
+  ruleId: number | null;
+};
+
+export async function getDefaultPrinterId(): Promise<number | null> {
+  const value = parseInt((await storage.getSetting(DEFAULT_PRINTER_KEY)) ?? "");
+  return Number.isFinite(value) ? value : null;
+}
+
+export async function setDefaultPrinterId(printerId: number | null): Promise<void> {
+  await storage.setSetting(DEFAULT_PRINTER_KEY, printerId === null ? null : String(printerId));
+}
+
+/**
+ * The default printer, or the only printer when there's just one.
+ */
+export async function getDefaultPrinter(): Promise<Printer | null> {
+  const printers = await storage.getAllPrinters();
+  const defaultId = await getDefaultPrinterId();
+  return printers.find((p) => p.id === defaultId) ?? (printers.length === 1 ? printers[0] : null);
+}
+
+// "*" matches any run of characters and "?" a single one, ignoring case
+export function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split("")
+    .map((char) => (char === "*" ? ".*" : char === "?" ? "." : char.replace(/[.+^${}()|[\]\\]/g, "\\$&")))
+    .join("");
+  return new RegExp(`^${source}$`, "i");
+}
+
+function normalizeFolder(folder: string): string {
+  return folder.replace(/\\/g, "/").replace(/^\/+|\/+$/g, "").toLowerCase();
+}
+
+/**
+ * A rule matches when every condition it sets matches. A folder condition
+ * also covers the folders inside it.
+ */
+export function matchesUploadRule(
+  rule: Pick<UploadRule, "toolType" | "filenamePattern" | "folder" | "tag">,
+  file: IncomingFile
+): boolean {
+  if (rule.toolType && rule.toolType !== file.toolType) return false;
+  if (rule.filenamePattern && !globToRegExp(rule.filenamePattern).test(file.filename)) return false;
+  if (rule.folder) {
+    const wanted = normalizeFolder(rule.folder);
+    const actual = normalizeFolder(file.folder ?? "");
+    if (actual !== wanted && !actual.startsWith(`${wanted}/`)) return false;
+  }
+  if (rule.tag && rule.tag.toLowerCase() !== file.tag?.trim().toLowerCase()) return false;
+  return true;
+}
+
+/**
+ * Picks the printer an incoming file is added to. The first matching upload
+ * rule wins; otherwise the default printer, or the only printer when there's
+ * just one, takes it. Anything else goes to the unassigned inbox rather than
+ * landing on whichever printer happens to be connected.
+ */
+export async function routeIncomingFile(file: IncomingFile): Promise<UploadDestination> {
+  const rule = (await storage.getUploadRules()).find((r) => matchesUploadRule(r, file));
+  if (rule) return { printerId: rule.printerId, ruleId: rule.id };
+
+  const printer = await getDefaultPrinter();
+  return { printerId: printer?.id ?? null, ruleId: null };
+}
@@ -1,4 +1,4 @@
-import { pgTable, text, serial, timestamp, integer, boolean, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, timestamp, integer, boolean, jsonb, real, index } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -6,15 +6,23 @@ export const printers = pgTable("printers", {
   id: serial("id").primaryKey(),
   name: text("name").notNull(),
   ipAddress: text("ip_address").notNull(),
+  // Name the printer answers LAN discovery with; used to find it again after a DHCP change
+  discoveryName: text("discovery_name"),
   token: text("token"),
   isConnected: boolean("is_connected").default(false),
   lastSeen: timestamp("last_seen"),
+  emergencyStoppedAt: timestamp("emergency_stopped_at"),
+  camera: jsonb("camera").$type<CameraConfig>(),
+  timelapse: jsonb("timelapse").$type<TimelapseSettings>(),
+  queueState: jsonb("queue_state").$type<PrintQueueState>(),
 });
 
 export const printJobs = pgTable("print_jobs", {
   id: serial("id").primaryKey(),
   printerId: integer("printer_id").references(() => printers.id),
+  fileId: integer("file_id").references(() => uploadedFiles.id, { onDelete: "set null" }),
   filename: text("filename").notNull(),
+  source: text("source"),
   progress: integer("progress").default(0),
   status: text("status").notNull(),
   startedAt: timestamp("started_at").defaultNow(),
@@ -29,11 +37,16 @@ export const dashboardPreferences = pgTable("dashboard_preferences", {
 
 export const uploadedFiles = pgTable("uploaded_files", {
   id: serial("id").primaryKey(),
-  printerId: integer("printer_id").references(() => printers.id).notNull(),
+  // Null while the file sits in the unassigned inbox, see uploadRules
+  printerId: integer("printer_id").references(() => printers.id),
   filename: text("filename").notNull(),
   displayName: text("display_name"),
+  // Legacy inline G-code; content now lives in the file store under contentHash
   fileContent: text("file_content"),
+  contentHash: text("content_hash"),
+  size: integer("size"),
   thumbnail: text("thumbnail"),
+  metadata: jsonb("metadata").$type<GcodeMetadata>(),
   uploadedAt: timestamp("uploaded_at").defaultNow(),
   source: text("source").notNull(),
 });
@@ -44,9 +57,146 @@ export const appSettings = pgTable("app_settings", {
   value: text("value"),
 });
 
+export const auditLog = pgTable("audit_log", {
+  id: serial("id").primaryKey(),
+  printerId: integer("printer_id").references(() => printers.id, { onDelete: "set null" }),
+  action: text("action").notNull(),
+  actor: text("actor").notNull(),
+  // How the actor signed in; null for the app's own jobs (scheduler, discovery)
+  authMethod: text("auth_method").$type<AuditAuthMethod>(),
+  sourceIp: text("source_ip"),
+  details: jsonb("details").$type<Record<string, unknown>>(),
+  result: text("result").$type<AuditResult>().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const temperatureSamples = pgTable("temperature_samples", {
+  id: serial("id").primaryKey(),
+  printerId: integer("printer_id").references(() => printers.id, { onDelete: "cascade" }).notNull(),
+  recordedAt: timestamp("recorded_at").defaultNow().notNull(),
+  nozzle: real("nozzle").notNull(),
+  bed: real("bed").notNull(),
+  targetNozzle: real("target_nozzle").notNull(),
+  targetBed: real("target_bed").notNull(),
+}, (table) => [
+  index("temperature_samples_printer_time_idx").on(table.printerId, table.recordedAt),
+]);
+
+export const printQueue = pgTable("print_queue", {
+  id: serial("id").primaryKey(),
+  printerId: integer("printer_id").references(() => printers.id, { onDelete: "cascade" }).notNull(),
+  fileId: integer("file_id").references(() => uploadedFiles.id, { onDelete: "cascade" }).notNull(),
+  position: integer("position").notNull(),
+  lastError: text("last_error"),
+  addedAt: timestamp("added_at").defaultNow().notNull(),
+});
+
+export const scheduledPrints = pgTable("scheduled_prints", {
+  id: serial("id").primaryKey(),
+  printerId: integer("printer_id").references(() => printers.id, { onDelete: "cascade" }).notNull(),
+  fileId: integer("file_id").references(() => uploadedFiles.id, { onDelete: "cascade" }).notNull(),
+  startAt: timestamp("start_at").notNull(),
+  status: text("status").notNull(),
+  reason: text("reason"),
+  jobId: integer("job_id").references(() => printJobs.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  firedAt: timestamp("fired_at"),
+}, (table) => [
+  index("scheduled_prints_status_start_idx").on(table.status, table.startAt),
+]);
+
+// Ordered rules deciding which printer an incoming file (slicer upload, watch
+// folder, Luban proxy) is added to. Every condition that is set must match.
+export const uploadRules = pgTable("upload_rules", {
+  id: serial("id").primaryKey(),
+  printerId: integer("printer_id").references(() => printers.id, { onDelete: "cascade" }).notNull(),
+  position: integer("position").notNull(),
+  toolType: text("tool_type").$type<NonNullable<GcodeMetadata["toolType"]>>(),
+  filenamePattern: text("filename_pattern"),
+  folder: text("folder"),
+  tag: text("tag"),
+});
+
+// Dashboard accounts. Passwords are scrypt hashes; API keys (for slicers and
+// Moonraker clients) are kept only as SHA-256 digests, see server/auth.ts.
+export const users = pgTable("users", {
+  id: serial("id").primaryKey(),
+  username: text("username").notNull().unique(),
+  passwordHash: text("password_hash").notNull(),
+  role: text("role").$type<UserRole>().notNull(),
+  apiKeyHash: text("api_key_hash").unique(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  // Null until the user saves their own, see DEFAULT_NOTIFICATION_PREFERENCES
+  notificationPreferences: jsonb("notification_preferences").$type<NotificationPreferences>(),
+  // One per browser or installed PWA that accepted Web Push for this user
+  pushSubscriptions: jsonb("push_subscriptions").$type<WebPushSubscription[]>().default([]).notNull(),
+});
+
+export const timelapses = pgTable("timelapses", {
+  id: serial("id").primaryKey(),
+  jobId: integer("job_id").references(() => printJobs.id, { onDelete: "cascade" }).notNull().unique(),
+  printerId: integer("printer_id").references(() => printers.id, { onDelete: "cascade" }).notNull(),
+  mode: text("mode").notNull(),
+  status: text("status").notNull(),
+  frameCount: integer("frame_count").default(0).notNull(),
+  sizeBytes: integer("size_bytes").default(0).notNull(),
+  filePath: text("file_path"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at"),
+});
+
 export const insertPrinterSchema = createInsertSchema(printers).omit({
   id: true,
   lastSeen: true,
+  emergencyStoppedAt: true,
+  camera: true,
+  timelapse: true,
+  queueState: true,
+});
+
+// Camera sources: an MJPEG stream, a still-image URL polled at an interval,
+// or a V4L2 device attached to the machine running this app
+export const cameraConfigSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("mjpeg"),
+    url: z.string().url().regex(/^https?:\/\//, "Must be an http(s) URL"),
+  }),
+  z.object({
+    type: z.literal("snapshot"),
+    url: z.string().url().regex(/^https?:\/\//, "Must be an http(s) URL"),
+    intervalMs: z.number().int().min(200).max(60000).default(1000),
+  }),
+  z.object({
+    type: z.literal("v4l2"),
+    device: z.string().regex(/^\/dev\/video\d+$/, "Must be a device like /dev/video0"),
+    resolution: z.string().regex(/^\d+x\d+$/, "Must look like 1280x720").optional(),
+  }),
+]);
+
+// Timelapse capture for jobs on a printer with a camera. "layer" mode grabs a
+// frame whenever the printer passes a layer change found in the job's G-code
+// and falls back to the interval when the layers can't be located.
+export const timelapseSettingsSchema = z.object({
+  enabled: z.boolean().default(true),
+  mode: z.enum(["interval", "layer"]).default("interval"),
+  intervalSeconds: z.number().int().min(5).max(3600).default(30),
+});
+
+export const timelapseRetentionSchema = z.object({
+  maxCount: z.number().int().min(1).max(1000),
+  maxStorageMb: z.number().int().min(50).max(100000),
+});
+
+export const defaultPrinterSchema = z.object({
+  printerId: z.number().int().positive().nullable(),
+});
+
+export const moonrakerSettingsSchema = z.object({
+  enabled: z.boolean(),
+  port: z.number().int().min(1024, "Use a port from 1024 to 65535").max(65535, "Use a port from 1024 to 65535").optional(),
+  // Origins browser clients may call from, as in Moonraker's cors_domains:
+  // "http://mainsail.local", "*.lan" (any scheme) or "*" for anywhere
+  corsDomains: z.array(z.string().trim().min(1).max(255)).max(50, "Too many CORS domains").optional(),
 });
 
 export const insertPrintJobSchema = createInsertSchema(printJobs).omit({
@@ -62,7 +212,36 @@ export const dashboardPreferencesSchema = z.object({
 
 export const insertUploadedFileSchema = createInsertSchema(uploadedFiles).omit({
   id: true,
+  fileContent: true,
   uploadedAt: true,
+}).extend({
+  metadata: z.custom<GcodeMetadata>().nullable().optional(),
+});
+
+export const AUDIT_RESULTS = ["success", "partial", "failed", "denied"] as const;
+export type AuditResult = (typeof AUDIT_RESULTS)[number];
+export const AUDIT_AUTH_METHODS = ["session", "api-key"] as const;
+export type AuditAuthMethod = (typeof AUDIT_AUTH_METHODS)[number];
+
+// Filters for GET /api/audit, from the query string; newest entries first
+export const auditQuerySchema = z.object({
+  printerId: z.coerce.number().int().positive().optional(),
+  actor: z.string().trim().min(1).optional(),
+  action: z.string().trim().min(1).optional(),
+  result: z.enum(AUDIT_RESULTS).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(1000).default(200),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+export type AuditQuery = z.infer<typeof auditQuerySchema>;
+
+export const insertAuditEntrySchema = createInsertSchema(auditLog).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  authMethod: z.enum(AUDIT_AUTH_METHODS).nullable().optional(),
+  result: z.enum(AUDIT_RESULTS),
 });
 
 export const DEFAULT_ENABLED_MODULES = [
@@ -72,17 +251,311 @@ export const DEFAULT_ENABLED_MODULES = [
   "jogControls",
   "jobControls",
   "fileList",
+  "queue",
 ];
 
+export type CameraConfig = z.infer<typeof cameraConfigSchema>;
+export type TimelapseSettings = z.infer<typeof timelapseSettingsSchema>;
+export type TimelapseRetention = z.infer<typeof timelapseRetentionSchema>;
 export type Printer = typeof printers.$inferSelect;
+// What the API returns for a printer; the pairing token stays on the server
+export type PublicPrinter = Omit<Printer, "token"> & { hasToken: boolean };
+// How printer tokens are stored, shown to admins in Settings
+export type TokenEncryptionStatus = {
+  enabled: boolean;
+  keySource: "environment" | "file" | null;
+  keyFile: string | null;
+};
 export type InsertPrinter = z.infer<typeof insertPrinterSchema>;
 export type PrintJob = typeof printJobs.$inferSelect;
 export type InsertPrintJob = z.infer<typeof insertPrintJobSchema>;
+export type PrintJobWithThumbnail = PrintJob & {
+  thumbnail: string | null;
+  timelapse: Pick<Timelapse, "id" | "status" | "frameCount" | "sizeBytes"> | null;
+};
 export type DashboardPreferences = typeof dashboardPreferences.$inferSelect;
-export type UploadedFile = typeof uploadedFiles.$inferSelect;
+export type UploadedFile = Omit<typeof uploadedFiles.$inferSelect, "fileContent">;
 export type InsertUploadedFile = z.infer<typeof insertUploadedFileSchema>;
 export type AppSetting = typeof appSettings.$inferSelect;
 
+// Print details read from slicer comments; any field the file doesn't state is null
+export type GcodeMetadata = {
+  toolType: "3dp" | "laser" | "cnc" | null;
+  slicer: string | null;
+  estimatedTimeSeconds: number | null;
+  filamentLengthMm: number | null;
+  filamentWeightG: number | null;
+  nozzleTemperature: number | null;
+  bedTemperature: number | null;
+  layerHeight: number | null;
+  bounds: { minX: number; maxX: number; minY: number; maxY: number; minZ: number; maxZ: number } | null;
+  dimensions: { x: number; y: number; z: number } | null;
+};
+export type TemperatureSample = typeof temperatureSamples.$inferSelect;
+export type InsertTemperatureSample = typeof temperatureSamples.$inferInsert;
+
+// One aggregated point of GET /api/printers/:id/temperature-history; `time` is epoch milliseconds
+export type TemperatureHistoryPoint = {
+  time: number;
+  nozzle: number;
+  bed: number;
+  targetNozzle: number;
+  targetBed: number;
+};
+
+export type PrintQueueItem = typeof printQueue.$inferSelect;
+export type InsertPrintQueueItem = typeof printQueue.$inferInsert;
+export type PrintQueueItemWithFile = PrintQueueItem & {
+  file: Pick<UploadedFile, "filename" | "displayName" | "thumbnail" | "size" | "metadata">;
+};
+
+// Dispatch state for a printer's queue, kept on the printer row.
+// `awaitingBedClear` is set when a queued job starts with `requireBedClear`
+// on, and the next job waits until an operator confirms the bed is empty.
+export type PrintQueueState = {
+  paused: boolean;
+  requireBedClear: boolean;
+  awaitingBedClear: boolean;
+  dispatchedJobId: number | null;
+  pausedReason: string | null;
+};
+
+export const printQueueOrderSchema = z.object({
+  itemIds: z.array(z.number().int()),
+});
+
+export const printQueueSettingsSchema = z.object({
+  requireBedClear: z.boolean(),
+});
+
+export type ScheduledPrint = typeof scheduledPrints.$inferSelect;
+export type InsertScheduledPrint = typeof scheduledPrints.$inferInsert;
+export type ScheduledPrintStatus = "pending" | "started" | "missed" | "cancelled";
+
+export const scheduledPrintStartSchema = z.coerce.date().refine(
+  (date) => date.getTime() > Date.now(),
+  "Scheduled start time must be in the future",
+);
+
+export type UploadRule = typeof uploadRules.$inferSelect;
+export type InsertUploadRule = typeof uploadRules.$inferInsert;
+
+const optionalRuleText = z
+  .string()
+  .trim()
+  .max(200)
+  .nullish()
+  .transform((value) => value || null);
+
+export const uploadRuleSchema = z
+  .object({
+    printerId: z.number().int().positive(),
+    toolType: z.enum(["3dp", "laser", "cnc"]).nullish().transform((value) => value ?? null),
+    filenamePattern: optionalRuleText,
+    folder: optionalRuleText,
+    tag: optionalRuleText,
+  })
+  .refine(
+    (rule) => rule.toolType || rule.filenamePattern || rule.folder || rule.tag,
+    "Each rule needs at least one condition",
+  );
+
+export const uploadRulesSchema = z.object({
+  rules: z.array(uploadRuleSchema).max(100),
+});
+
+export const assignFileSchema = z.object({
+  printerId: z.number().int().positive(),
+});
+
+// Each role can do everything the roles before it can: viewers watch,
+// operators run the machines, admins configure the app and manage users
+export const USER_ROLES = ["viewer", "operator", "admin"] as const;
+export type UserRole = (typeof USER_ROLES)[number];
+
+export function hasRole(role: UserRole, required: UserRole): boolean {
+  return USER_ROLES.indexOf(role) >= USER_ROLES.indexOf(required);
+}
+
+export type User = typeof users.$inferSelect;
+export type InsertUser = typeof users.$inferInsert;
+
+// What the API returns for a user; the hashes never leave the server, and
+// notification settings are only handed to the user they belong to
+export type PublicUser = Omit<User, "passwordHash" | "apiKeyHash" | "notificationPreferences" | "pushSubscriptions"> & {
+  hasApiKey: boolean;
+};
+
+const usernameSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .min(1, "Username is required")
+  .max(64, "Username is too long")
+  .regex(/^[a-z0-9._-]+$/, "Usernames may only contain letters, numbers, dots, dashes and underscores");
+
+const newPasswordSchema = z
+  .string()
+  .min(8, "Password must be at least 8 characters")
+  .max(200, "Password is too long");
+
+// First-run admin setup and adding users
+export const userCredentialsSchema = z.object({
+  username: usernameSchema,
+  password: newPasswordSchema,
+});
+
+export const newUserSchema = userCredentialsSchema.extend({
+  role: z.enum(USER_ROLES),
+});
+
+export const userRoleSchema = z.object({
+  role: z.enum(USER_ROLES),
+});
+
+export const loginSchema = z.object({
+  username: z.string().trim().toLowerCase().min(1, "Username is required"),
+  password: z.string().min(1, "Password is required"),
+});
+
+export const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, "Current password is required"),
+  newPassword: newPasswordSchema,
+});
+
+// Print events a user can be told about, see server/notifications.ts
+export const NOTIFICATION_EVENTS = [
+  "job-started",
+  "job-finished",
+  "job-failed",
+  "job-paused",
+  "printer-offline",
+  "temperature-anomaly",
+] as const;
+export type NotificationEvent = (typeof NOTIFICATION_EVENTS)[number];
+
+export const NOTIFICATION_CHANNELS = ["webpush", "email", "ntfy", "gotify", "webhook"] as const;
+export type NotificationChannel = (typeof NOTIFICATION_CHANNELS)[number];
+
+// Channels that have the server POST to a URL the user typed in. Whoever sets
+// one can point the server at anything on the LAN, printers included, so
+// they take an operator; viewers get Web Push and email
+export const URL_NOTIFICATION_CHANNELS: readonly NotificationChannel[] = ["ntfy", "gotify", "webhook"];
+
+export function canUseNotificationChannel(role: UserRole, channel: NotificationChannel): boolean {
+  return !URL_NOTIFICATION_CHANNELS.includes(channel) || hasRole(role, "operator");
+}
+
+const httpUrlSchema = z.string().trim().url("Must be a URL").regex(/^https?:\/\//, "Must be an http(s) URL");
+const optionalUrlSchema = httpUrlSchema.or(z.literal(""));
+
+// Each channel keeps its settings while switched off, so turning one back on
+// doesn't mean typing the address in again
+export const notificationPreferencesSchema = z
+  .object({
+    events: z.array(z.enum(NOTIFICATION_EVENTS)),
+    channels: z.object({
+      webpush: z.object({ enabled: z.boolean() }),
+      email: z.object({
+        enabled: z.boolean(),
+        address: z.string().trim().email("Must be an email address").or(z.literal("")),
+      }),
+      // A topic URL, e.g. https://ntfy.sh/my-printers; the token is optional
+      ntfy: z.object({ enabled: z.boolean(), url: optionalUrlSchema, token: z.string().trim() }),
+      // The Gotify server and an application token
+      gotify: z.object({ enabled: z.boolean(), url: optionalUrlSchema, token: z.string().trim() }),
+      webhook: z.object({ enabled: z.boolean(), url: optionalUrlSchema }),
+    }),
+  })
+  .superRefine(({ channels }, ctx) => {
+    const missing = (channel: NotificationChannel, field: string, message: string) =>
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["channels", channel, field], message });
+    if (channels.email.enabled && !channels.email.address) missing("email", "address", "Enter an email address");
+    if (channels.ntfy.enabled && !channels.ntfy.url) missing("ntfy", "url", "Enter the ntfy topic URL");
+    if (channels.gotify.enabled && !channels.gotify.url) missing("gotify", "url", "Enter the Gotify server URL");
+    if (channels.gotify.enabled && !channels.gotify.token) missing("gotify", "token", "Enter the Gotify application token");
+    if (channels.webhook.enabled && !channels.webhook.url) missing("webhook", "url", "Enter the webhook URL");
+  });
+export type NotificationPreferences = z.infer<typeof notificationPreferencesSchema>;
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  events: ["job-finished", "job-failed", "printer-offline", "temperature-anomaly"],
+  channels: {
+    webpush: { enabled: false },
+    email: { enabled: false, address: "" },
+    ntfy: { enabled: false, url: "", token: "" },
+    gotify: { enabled: false, url: "", token: "" },
+    webhook: { enabled: false, url: "" },
+  },
+};
+
+// A browser's PushSubscription as serialized by toJSON()
+export const webPushSubscriptionSchema = z.object({
+  endpoint: httpUrlSchema,
+  keys: z.object({
+    p256dh: z.string().min(1),
+    auth: z.string().min(1),
+  }),
+});
+export type WebPushSubscription = z.infer<typeof webPushSubscriptionSchema>;
+
+// What GET /api/notifications/preferences returns: the user's settings and
+// the channels this server can actually deliver on
+export type NotificationSettings = {
+  preferences: NotificationPreferences;
+  available: Record<NotificationChannel, boolean>;
+  pushSubscriptionCount: number;
+};
+
+export type NotificationTestResult = {
+  channel: NotificationChannel;
+  ok: boolean;
+  error?: string;
+};
+
+export const DEFAULT_PRINT_QUEUE_STATE: PrintQueueState = {
+  paused: true,
+  requireBedClear: false,
+  awaitingBedClear: false,
+  dispatchedJobId: null,
+  pausedReason: null,
+};
+
+export type Timelapse = typeof timelapses.$inferSelect;
+export type InsertTimelapse = typeof timelapses.$inferInsert;
+export type TimelapseStatus = "capturing" | "ready" | "failed";
+
+export type AuditEntry = typeof auditLog.$inferSelect;
+export type InsertAuditEntry = z.infer<typeof insertAuditEntrySchema>;
+
+export const PRINT_JOB_ACTIVE_STATUSES = ["printing", "paused"] as const;
+
+export type PrintJobStatus = "printing" | "paused" | "completed" | "cancelled" | "failed";
+
+// Progress of a file being sent to a printer, from GET /api/printers/:id/upload-progress
+export type UploadProgress = {
+  printerId: number;
+  fileId: number;
+  filename: string;
+  status: "uploading" | "done" | "failed";
+  bytesSent: number;
+  totalBytes: number;
+  percent: number;
+  bytesPerSecond: number;
+  startedAt: string;
+  finishedAt: string | null;
+  error: string | null;
+};
+
+// A Snapmaker that answered the LAN discovery broadcast, from GET /api/discover
+export type DiscoveredPrinter = {
+  name: string;
+  ipAddress: string;
+  model: string | null;
+  status: string | null;
+  configuredPrinterId: number | null;
+};
+
 export type PrinterStatus = {
   state: string;
   temperature: {
@@ -93,5 +566,22 @@ export type PrinterStatus = {
   };
   progress: number;
   currentFile: string | null;
+  currentLine: number | null;
   timeRemaining: number | null;
 };
+
+export type MachineState = "printing" | "paused" | "idle" | "error";
+
+/**
+ * What the printer is doing, from the state it reports. Firmware versions
+ * use different words and cases, and a paused print can mention "print" too,
+ * so pause and error are checked first. Used by the server and dashboard alike.
+ */
+export function normalizeMachineState(state: unknown): MachineState {
+  if (!state || typeof state !== "string") return "idle";
+  const normalized = state.toLowerCase();
+  if (normalized.includes("pause")) return "paused";
+  if (normalized.includes("error") || normalized.includes("fail")) return "error";
+  if (normalized.includes("print") || normalized.includes("working") || normalized.includes("running")) return "printing";
+  return "idle";
+}